@@ -22,6 +22,8 @@ const webServer = shouldStartServers
           ALLOWED_DOMAINS: allowedDomains,
           SUPPORT_SUBDOMAIN: String(supportSubdomain),
           CORS_ORIGIN: `http://localhost:${frontendPort},http://*.localhost:${frontendPort}`,
+          UPLOAD_MAX_TOTAL_SIZE_BYTES: process.env.E2E_UPLOAD_MAX_TOTAL_SIZE_BYTES ?? "5242880",
+          OPERATOR_PASSWORD: process.env.E2E_OPERATOR_PASSWORD ?? "e2e-operator-password",
         },
       },
       {
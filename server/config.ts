@@ -1,3 +1,4 @@
+import { randomBytes } from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
@@ -6,15 +7,36 @@ import { z } from "zod";
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 export type LogLevel = "silent" | "error" | "info" | "debug";
+export type StorageDriver = "fs" | "s3";
+export type ExpiredEventAction = "archive" | "delete";
 
 const appConfigSchema = z.object({
   port: z.number().int().positive().default(8080),
   dataRootPath: z.string().min(1).default("/data/events"),
   uploadTempPath: z.string().min(1).default("/data/uploads"),
+  previewCachePath: z.string().min(1).default("/data/preview-cache"),
+  previewCacheMaxBytes: z
+    .number()
+    .nonnegative()
+    .default(512 * 1024 * 1024), // 512 MiB
+  previewWorkerConcurrency: z.number().int().nonnegative().default(1),
+  ffmpegPath: z.string().min(1).default("ffmpeg"),
+  videoPosterOffsetSeconds: z.number().nonnegative().default(1),
+  videoClipSeconds: z.number().positive().default(3),
+  storageDriver: z.enum(["fs", "s3"]).default("fs"),
+  s3Endpoint: z.string().default(""),
+  s3Region: z.string().min(1).default("us-east-1"),
+  s3Bucket: z.string().default(""),
+  s3Prefix: z.string().default(""),
+  s3AccessKeyId: z.string().default(""),
+  s3SecretAccessKey: z.string().default(""),
+  s3ForcePathStyle: z.boolean().default(false),
   corsOrigin: z.string().default(""),
   jsonLimit: z.string().default("5mb"),
   uploadMaxFileSizeBytes: z.number().nonnegative().default(0),
   uploadMaxTotalSizeBytes: z.number().nonnegative().default(0),
+  eventQuotaBytes: z.number().nonnegative().default(0),
+  eventQuotaFiles: z.number().int().nonnegative().default(0),
   logLevel: z.enum(["silent", "error", "info", "debug"]).default("info"),
   enableApiDocs: z.boolean().default(false),
   domain: z.string().default(""),
@@ -28,6 +50,31 @@ const appConfigSchema = z.object({
     .int()
     .positive()
     .default(5 * 60 * 1000), // 5 minutes
+  // generated once and kept in the config file, so sessions survive restarts
+  sessionSecret: z
+    .string()
+    .min(32)
+    .default(() => randomBytes(32).toString("hex")),
+  sessionTtlMs: z
+    .number()
+    .int()
+    .positive()
+    .default(12 * 60 * 60 * 1000), // 12 hours
+  // empty disables the operator console
+  operatorPassword: z.string().default(""),
+  // "archive" locks expired events and keeps their files, "delete" removes them
+  expiredEventAction: z.enum(["archive", "delete"]).default("archive"),
+  eventSweepIntervalMs: z
+    .number()
+    .int()
+    .positive()
+    .default(15 * 60 * 1000), // 15 minutes
+  // 0 deletes files right away instead of moving them to the trash
+  trashRetentionMs: z
+    .number()
+    .int()
+    .nonnegative()
+    .default(30 * 24 * 60 * 60 * 1000), // 30 days
 });
 
 export type AppConfig = z.infer<typeof appConfigSchema>;
@@ -87,10 +134,26 @@ const envOverrides: Partial<AppConfig> = dropUndefined({
   port: parseNumberEnv(process.env.PORT),
   dataRootPath: parseStringEnv(process.env.DATA_ROOT_PATH),
   uploadTempPath: parseStringEnv(process.env.UPLOAD_TEMP_PATH),
+  previewCachePath: parseStringEnv(process.env.PREVIEW_CACHE_PATH),
+  previewCacheMaxBytes: parseNumberEnv(process.env.PREVIEW_CACHE_MAX_BYTES),
+  previewWorkerConcurrency: parseNumberEnv(process.env.PREVIEW_WORKER_CONCURRENCY),
+  ffmpegPath: parseStringEnv(process.env.FFMPEG_PATH),
+  videoPosterOffsetSeconds: parseNumberEnv(process.env.VIDEO_POSTER_OFFSET_SECONDS),
+  videoClipSeconds: parseNumberEnv(process.env.VIDEO_CLIP_SECONDS),
+  storageDriver: (parseStringEnv(process.env.STORAGE_DRIVER) as StorageDriver) || undefined,
+  s3Endpoint: parseStringEnv(process.env.S3_ENDPOINT),
+  s3Region: parseStringEnv(process.env.S3_REGION),
+  s3Bucket: parseStringEnv(process.env.S3_BUCKET),
+  s3Prefix: parseStringEnv(process.env.S3_PREFIX),
+  s3AccessKeyId: parseStringEnv(process.env.S3_ACCESS_KEY_ID),
+  s3SecretAccessKey: parseStringEnv(process.env.S3_SECRET_ACCESS_KEY),
+  s3ForcePathStyle: parseBooleanEnv(process.env.S3_FORCE_PATH_STYLE),
   corsOrigin: parseStringEnv(process.env.CORS_ORIGIN),
   jsonLimit: parseStringEnv(process.env.JSON_LIMIT),
   uploadMaxFileSizeBytes: parseNumberEnv(process.env.UPLOAD_MAX_FILE_SIZE_BYTES),
   uploadMaxTotalSizeBytes: parseNumberEnv(process.env.UPLOAD_MAX_TOTAL_SIZE_BYTES),
+  eventQuotaBytes: parseNumberEnv(process.env.EVENT_QUOTA_BYTES),
+  eventQuotaFiles: parseNumberEnv(process.env.EVENT_QUOTA_FILES),
   logLevel: (parseStringEnv(process.env.LOG_LEVEL) as LogLevel) || undefined,
   enableApiDocs: process.env.ENABLE_API_DOCS === "true" ? true : undefined,
   allowedDomains: parseStringArrayEnv(process.env.ALLOWED_DOMAINS),
@@ -99,22 +162,45 @@ const envOverrides: Partial<AppConfig> = dropUndefined({
   authRateLimitMaxAttempts: parseNumberEnv(process.env.AUTH_RATE_LIMIT_MAX_ATTEMPTS),
   authRateLimitWindowMs: parseNumberEnv(process.env.AUTH_RATE_LIMIT_WINDOW_MS),
   authRateLimitBlockMs: parseNumberEnv(process.env.AUTH_RATE_LIMIT_BLOCK_MS),
+  sessionSecret: parseStringEnv(process.env.SESSION_SECRET),
+  sessionTtlMs: parseNumberEnv(process.env.SESSION_TTL_MS),
+  operatorPassword: parseStringEnv(process.env.OPERATOR_PASSWORD),
+  expiredEventAction:
+    (parseStringEnv(process.env.EXPIRED_EVENT_ACTION) as ExpiredEventAction) || undefined,
+  eventSweepIntervalMs: parseNumberEnv(process.env.EVENT_SWEEP_INTERVAL_MS),
+  trashRetentionMs: parseNumberEnv(process.env.TRASH_RETENTION_MS),
 });
 
+// secrets from the environment are only kept in memory, removing the variable takes them away
+const ENV_ONLY_KEYS = new Set<keyof AppConfig>([
+  "s3SecretAccessKey",
+  "sessionSecret",
+  "operatorPassword",
+]);
+
+const persistedEnvOverrides = Object.fromEntries(
+  Object.entries(envOverrides).filter(([key]) => !ENV_ONLY_KEYS.has(key as keyof AppConfig))
+) as Partial<AppConfig>;
+
+const withEnvSecrets = (persistedConfig: AppConfig): AppConfig =>
+  appConfigSchema.parse({ ...persistedConfig, ...envOverrides });
+
 let loadedConfig: AppConfig;
 
 try {
   if (!fs.existsSync(CONFIG_FILE_PATH)) {
-    loadedConfig = buildConfig({}, envOverrides);
+    const persistedConfig = buildConfig({}, persistedEnvOverrides);
+    loadedConfig = withEnvSecrets(persistedConfig);
     fs.mkdirSync(path.dirname(CONFIG_FILE_PATH), { recursive: true });
-    fs.writeFileSync(CONFIG_FILE_PATH, JSON.stringify(loadedConfig, null, 2), "utf8");
+    fs.writeFileSync(CONFIG_FILE_PATH, JSON.stringify(persistedConfig, null, 2), "utf8");
 
     console.log(`Created default config file at ${CONFIG_FILE_PATH}`);
   } else {
     const raw = fs.readFileSync(CONFIG_FILE_PATH, "utf8");
     const parsed = raw.trim().length ? (JSON.parse(raw) as Partial<AppConfig>) : {};
-    loadedConfig = buildConfig(parsed, envOverrides);
-    const normalized = JSON.stringify(loadedConfig, null, 2);
+    const persistedConfig = buildConfig(parsed, persistedEnvOverrides);
+    loadedConfig = withEnvSecrets(persistedConfig);
+    const normalized = JSON.stringify(persistedConfig, null, 2);
     if (raw.trim() !== normalized.trim()) {
       fs.writeFileSync(CONFIG_FILE_PATH, normalized, "utf8");
       console.log(`Updated config file at ${CONFIG_FILE_PATH}`);
@@ -134,15 +220,31 @@ export const DOMAIN = CONFIG.domain || "localhost";
 export const PORT = CONFIG.port;
 export const DATA_ROOT_PATH = CONFIG.dataRootPath;
 export const UPLOAD_TEMP_PATH = CONFIG.uploadTempPath;
+export const PREVIEW_CACHE_PATH = CONFIG.previewCachePath;
+export const PREVIEW_CACHE_MAX_BYTES = CONFIG.previewCacheMaxBytes;
+export const PREVIEW_WORKER_CONCURRENCY = CONFIG.previewWorkerConcurrency;
+export const FFMPEG_PATH = CONFIG.ffmpegPath;
+export const VIDEO_POSTER_OFFSET_SECONDS = CONFIG.videoPosterOffsetSeconds;
+export const VIDEO_CLIP_SECONDS = CONFIG.videoClipSeconds;
+export const STORAGE_DRIVER: StorageDriver = CONFIG.storageDriver;
+export const S3_ENDPOINT = CONFIG.s3Endpoint;
+export const S3_REGION = CONFIG.s3Region;
+export const S3_BUCKET = CONFIG.s3Bucket;
+export const S3_PREFIX = CONFIG.s3Prefix;
+export const S3_ACCESS_KEY_ID = CONFIG.s3AccessKeyId;
+export const S3_SECRET_ACCESS_KEY = CONFIG.s3SecretAccessKey;
+export const S3_FORCE_PATH_STYLE = CONFIG.s3ForcePathStyle;
 export const EVENT_REGEX = /^[-a-z0-9]+$/i;
 export const NOT_ALLOWED_EVENTNAMES_REGEX =
-  /^(?!\b(admin|login|logout|api|docs|static|public|uploads)\b).+$/i;
+  /^(?!\b(admin|login|logout|api|docs|static|public|uploads|operator)\b).+$/i;
 export const FOLDER_REGEX = /^[A-Za-z0-9 -]+$/;
 export const DIST_PATH = path.resolve(__dirname, "../dist");
 export const JSON_LIMIT = CONFIG.jsonLimit;
 export const CORS_ORIGIN = CONFIG.corsOrigin;
 export const UPLOAD_MAX_FILE_SIZE_BYTES = CONFIG.uploadMaxFileSizeBytes;
 export const UPLOAD_MAX_TOTAL_SIZE_BYTES = CONFIG.uploadMaxTotalSizeBytes;
+export const EVENT_QUOTA_BYTES = CONFIG.eventQuotaBytes;
+export const EVENT_QUOTA_FILES = CONFIG.eventQuotaFiles;
 export const LOG_LEVEL: LogLevel = CONFIG.logLevel;
 export const ENABLE_API_DOCS = CONFIG.enableApiDocs;
 export const ALLOWED_DOMAINS = CONFIG.allowedDomains;
@@ -151,3 +253,9 @@ export const ALLOW_EVENT_CREATION = CONFIG.allowEventCreation;
 export const AUTH_RATE_LIMIT_MAX_ATTEMPTS = CONFIG.authRateLimitMaxAttempts;
 export const AUTH_RATE_LIMIT_WINDOW_MS = CONFIG.authRateLimitWindowMs;
 export const AUTH_RATE_LIMIT_BLOCK_MS = CONFIG.authRateLimitBlockMs;
+export const SESSION_SECRET = CONFIG.sessionSecret;
+export const SESSION_TTL_MS = CONFIG.sessionTtlMs;
+export const OPERATOR_PASSWORD = CONFIG.operatorPassword;
+export const EXPIRED_EVENT_ACTION: ExpiredEventAction = CONFIG.expiredEventAction;
+export const EVENT_SWEEP_INTERVAL_MS = CONFIG.eventSweepIntervalMs;
+export const TRASH_RETENTION_MS = CONFIG.trashRetentionMs;
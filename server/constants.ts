@@ -1,3 +1,25 @@
 export const FILES_DIR_NAME = "files";
+export const PENDING_DIR_NAME = "pending";
+export const TRASH_DIR_NAME = "trash";
+export const MAX_FOLDER_DEPTH = 8;
+export const MAX_UPLOAD_FOLDERS = 50;
 export const UPLOAD_DIR_NAME = "uploads";
 export const MAX_PREVIEW_SIZE = 1500;
+export const RESUMABLE_UPLOAD_DIR_NAME = "resumable";
+export const RESUMABLE_UPLOAD_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+export const PREVIEW_JOB_MAX_ATTEMPTS = 3;
+export const PREVIEW_JOB_RETRY_DELAY_MS = 5000;
+export const LOCAL_COPY_DIR_NAME = "local-copies";
+export const VIDEO_PREVIEW_CONCURRENCY = 2;
+export const VIDEO_PROCESS_TIMEOUT_MS = 60_000;
+export const VIDEO_CLIP_DEFAULT_SIZE = 480;
+export const VIDEO_CLIP_MAX_BITRATE = "500k";
+export const SHARE_LINK_DEFAULT_TTL_HOURS = 7 * 24;
+export const SHARE_LINK_MAX_TTL_HOURS = 90 * 24;
+export const AUDIT_LOG_FILE_NAME = "audit.jsonl";
+export const AUDIT_LOG_DEFAULT_PAGE_SIZE = 50;
+export const AUDIT_LOG_MAX_PAGE_SIZE = 200;
+export const AUDIT_LOGIN_USER_MAX_LENGTH = 64;
+export const AUDIT_LOGIN_FAILURES_PER_IP = 20;
+export const FILE_LIST_MAX_PAGE_SIZE = 500;
+export const ZIP_SKIPPED_HEADER_MAX_LENGTH = 4096;
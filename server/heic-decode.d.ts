@@ -0,0 +1,6 @@
+declare module "heic-decode" {
+  type DecodedImage = { width: number; height: number; data: Uint8ClampedArray };
+
+  const decode: (input: { buffer: ArrayBufferLike | Uint8Array }) => Promise<DecodedImage>;
+  export default decode;
+}
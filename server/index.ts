@@ -7,6 +7,7 @@ import {
   CORS_ORIGIN,
   JSON_LIMIT,
   DATA_ROOT_PATH,
+  STORAGE_DRIVER,
   PORT,
   ENABLE_API_DOCS,
   CONFIG,
@@ -14,8 +15,10 @@ import {
   IS_PROD_ENV,
 } from "./config.js";
 import { ensureBaseDir } from "./services/events.js";
+import { startEventSweeper } from "./services/event-sweeper.js";
 import { registerEventRoutes } from "./routes/events.js";
 import { registerAppConfigRoutes } from "./routes/app-config.js";
+import { registerOperatorRoutes } from "./routes/operator.js";
 import { logger } from "./logger.js";
 import { createOpenApiDocument } from "./openapi.js";
 
@@ -88,6 +91,7 @@ app.use(
       }
       callback(new Error("Not allowed by CORS"));
     },
+    exposedHeaders: ["Upload-Offset", "Upload-Length", "Zip-Skipped-Count", "Zip-Skipped-Files"],
   })
 );
 app.use(express.json({ limit: JSON_LIMIT }));
@@ -114,6 +118,7 @@ app.use((req, res, next) => {
 
 registerEventRoutes(app);
 registerAppConfigRoutes(app);
+registerOperatorRoutes(app);
 if (ENABLE_API_DOCS) {
   app.get("/openapi.json", (_req, res) => res.json(openApiDocument));
   app.use("/docs", swaggerUi.serve, swaggerUi.setup(openApiDocument));
@@ -131,7 +136,17 @@ app.use((error: Error, _req: Request, res: Response) => {
 });
 
 await ensureBaseDir();
-logger.info("Loaded server config", { configFile: CONFIG_FILE_PATH_LOADED, config: CONFIG });
+logger.info("Loaded server config", {
+  configFile: CONFIG_FILE_PATH_LOADED,
+  config: {
+    ...CONFIG,
+    s3SecretAccessKey: CONFIG.s3SecretAccessKey ? "***" : "",
+    sessionSecret: "***",
+    operatorPassword: CONFIG.operatorPassword ? "***" : "",
+  },
+});
+startEventSweeper();
 app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT} with DATA_ROOT_PATH=${DATA_ROOT_PATH}`);
+  const target = STORAGE_DRIVER === "s3" ? "STORAGE_DRIVER=s3" : `DATA_ROOT_PATH=${DATA_ROOT_PATH}`;
+  console.log(`Server running on port ${PORT} with ${target}`);
 });
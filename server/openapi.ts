@@ -5,9 +5,27 @@ import {
   extendZodWithOpenApi,
 } from "@asteasolutions/zod-to-openapi";
 import { createEventSchema, updateEventSchema } from "./utils/validation.js";
-import { eventIdSchema } from "./routes/events/validators.js";
-import { FOLDER_REGEX } from "./config.js";
-import { MAX_PREVIEW_SIZE } from "./constants.js";
+import {
+  changeAdminPasswordBodySchema,
+  coHostParamsSchema,
+  createCoHostBodySchema,
+  createResumableUploadBodySchema,
+  auditLogQuerySchema,
+  batchFilesBodySchema,
+  createShareLinkBodySchema,
+  eventIdSchema,
+  loginBodySchema,
+  moveFilesBodySchema,
+  operatorLoginBodySchema,
+  recoverAdminBodySchema,
+  resumableUploadParamsSchema,
+  reviewPendingFilesBodySchema,
+  shareLinkParamsSchema,
+  trashParamsSchema,
+  updateOperatorEventBodySchema,
+} from "./routes/events/validators.js";
+import { FILE_LIST_MAX_PAGE_SIZE, MAX_FOLDER_DEPTH, MAX_PREVIEW_SIZE } from "./constants.js";
+import { AUDIT_ACTIONS, FILE_SORT_FIELDS, SORT_ORDERS } from "./types.js";
 
 extendZodWithOpenApi(z);
 
@@ -19,14 +37,78 @@ const ProjectResponseSchema = z.object({
   eventId: z.string(),
   allowedMimeTypes: z.array(z.string()),
   secured: z.boolean(),
+  moderatorEnabled: z.boolean(),
   allowGuestDownload: z.boolean(),
   allowGuestUpload: z.boolean(),
   requireUploadFolder: z.boolean(),
   uploadFolderHint: z.string().nullable(),
-  accessLevel: z.enum(["unauthenticated", "guest", "admin"]),
+  uploadFolders: z.array(z.string()).openapi({ description: "Folders offered for uploads" }),
+  restrictUploadFolders: z
+    .boolean()
+    .openapi({ description: "Uploads may only go to one of uploadFolders" }),
+  moderateUploads: z.boolean(),
+  accessLevel: z.enum(["unauthenticated", "guest", "moderator", "admin"]),
   uploadMaxFileSizeBytes: z.number(),
   uploadMaxTotalSizeBytes: z.number(),
+  usedBytes: z.number().optional().openapi({ description: "Only returned to admins" }),
+  usedFiles: z.number().optional().openapi({ description: "Only returned to admins" }),
+  quotaBytes: z.number(),
+  quotaFiles: z.number(),
   createdAt: z.string().optional(),
+  uploadOpensAt: z.string().nullable().openapi({ description: "Guests cannot upload before" }),
+  uploadClosesAt: z.string().nullable().openapi({ description: "Guests cannot upload after" }),
+  expiresAt: z
+    .string()
+    .nullable()
+    .openapi({ description: "The event closes and is later archived or deleted" }),
+});
+
+const SessionResponseSchema = z.object({
+  token: z.string(),
+  role: z.enum(["admin", "moderator", "guest"]),
+  expiresAt: z.string(),
+});
+
+const CreateEventResponseSchema = ProjectResponseSchema.extend({
+  recoveryCode: z.string().openapi({ description: "One-time admin recovery code, shown once" }),
+});
+
+const RecoveryCodeResponseSchema = z.object({
+  recoveryCode: z.string(),
+});
+
+const RecoverAdminResponseSchema = SessionResponseSchema.extend({
+  recoveryCode: z.string().openapi({ description: "Replaces the used recovery code" }),
+});
+
+const LogoutResponseSchema = z.object({
+  success: z.boolean(),
+});
+
+const OperatorSessionResponseSchema = z.object({
+  token: z.string(),
+  expiresAt: z.string(),
+});
+
+const OperatorEventSummarySchema = z.object({
+  eventId: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string().nullable(),
+  locked: z.boolean(),
+  usedBytes: z.number(),
+  usedFiles: z.number(),
+  lastUploadAt: z.string().nullable().openapi({ description: "Time of the newest file" }),
+  quotaBytes: z.number().openapi({ description: "Effective byte limit, 0 = unlimited" }),
+  quotaFiles: z.number().openapi({ description: "Effective file limit, 0 = unlimited" }),
+});
+
+const OperatorEventsResponseSchema = z.object({
+  events: z.array(OperatorEventSummarySchema),
+});
+
+const ResetAdminPasswordResponseSchema = z.object({
+  adminPassword: z.string(),
 });
 
 const UpdateProjectResponseSchema = ProjectResponseSchema.extend({
@@ -38,6 +120,7 @@ const ErrorKeySchema = z.enum([
   "GUEST_ACCESS_REQUIRED",
   "GUEST_ACCESS_DISABLED",
   "UPLOAD_FOLDER_REQUIRED",
+  "UPLOAD_FOLDER_NOT_ALLOWED",
   "INVALID_FILENAME",
   "INVALID_FOLDER",
   "INVALID_INPUT",
@@ -54,6 +137,27 @@ const ErrorKeySchema = z.enum([
   "GUEST_DOWNLOADS_DISABLED",
   "EVENT_CREATION_DISABLED",
   "RATE_LIMITED",
+  "UPLOAD_TOO_LARGE",
+  "QUOTA_EXCEEDED",
+  "UPLOAD_NOT_FOUND",
+  "UPLOAD_OFFSET_MISMATCH",
+  "UPLOAD_INCOMPLETE",
+  "VIDEO_PREVIEWS_UNAVAILABLE",
+  "RANGE_NOT_SATISFIABLE",
+  "FOLDER_NOT_FOUND",
+  "SHARE_LINK_NOT_FOUND",
+  "SHARE_LINK_INVALID",
+  "SHARE_LINK_EXPIRED",
+  "EVENT_LOCKED",
+  "OPERATOR_DISABLED",
+  "WRONG_CURRENT_PASSWORD",
+  "INVALID_RECOVERY_CODE",
+  "OWNER_ACCESS_REQUIRED",
+  "CO_HOST_NAME_TAKEN",
+  "CO_HOST_NOT_FOUND",
+  "UPLOADS_CLOSED",
+  "EVENT_EXPIRED",
+  "FILE_SHARED",
 ]);
 
 const ErrorResponseSchema = z.object({
@@ -70,6 +174,11 @@ const DeleteProjectResponseSchema = z.object({
   ok: z.boolean(),
 });
 
+const FolderPathSchema = z.string().openapi({
+  description: `Folder path, up to ${MAX_FOLDER_DEPTH} segments separated by "/"`,
+  example: "Ceremony/Camera A",
+});
+
 const FileEntrySchema = z.object({
   name: z.string(),
   size: z.number(),
@@ -77,9 +186,24 @@ const FileEntrySchema = z.object({
 });
 
 const ListFilesResponseSchema = z.object({
-  files: z.array(FileEntrySchema),
-  folders: z.array(z.string()),
+  files: z.array(
+    FileEntrySchema.extend({
+      folder: z
+        .string()
+        .optional()
+        .openapi({ description: "Folder path of the file, only set for recursive listings" }),
+    })
+  ),
+  folders: z
+    .array(z.string())
+    .openapi({ description: "Subfolders, on every page and regardless of the filters" }),
   folder: z.string(),
+  breadcrumbs: z.array(z.object({ name: z.string(), path: FolderPathSchema })),
+  total: z.number().int().openapi({ description: "Files matching the filters, across all pages" }),
+  nextCursor: z
+    .string()
+    .nullable()
+    .openapi({ description: "Pass as cursor to get the next page, null on the last page" }),
 });
 
 const UploadRejectSchema = z.object({
@@ -93,14 +217,182 @@ const UploadResponseSchema = z.object({
   rejected: z.array(UploadRejectSchema).optional(),
 });
 
+const PendingFilesResponseSchema = z.object({
+  files: z.array(
+    FileEntrySchema.extend({
+      folder: z
+        .string()
+        .openapi({ description: "Folder the file was uploaded to, empty for root" }),
+    })
+  ),
+});
+
+const BatchFilesResponseSchema = z.object({
+  message: z.string(),
+  processed: z.number(),
+  failed: z.array(UploadRejectSchema),
+});
+
 const DeleteFileResponseSchema = z.object({
   message: z.string(),
 });
 
+const UpdateFileRequestSchema = z.object({
+  name: z.string().optional().openapi({ description: "New file name, the extension is kept" }),
+  to: FolderPathSchema.optional().openapi({ description: "Folder to move into, empty for root" }),
+});
+
+const UpdateFileResponseSchema = z.object({
+  message: z.string(),
+  folder: z.string(),
+  filename: z.string().openapi({ description: "Stored name, a taken name gets a _N suffix" }),
+});
+
+const ResumableUploadStatusSchema = z.object({
+  uploadId: z.string(),
+  offset: z.number(),
+  size: z.number(),
+});
+
+const UploadOffsetHeadersSchema = z.object({
+  "Upload-Offset": z.string(),
+  "Upload-Length": z.string(),
+});
+
+const ZipSkippedHeadersSchema = z.object({
+  "Zip-Skipped-Count": z.string(),
+  "Zip-Skipped-Files": z.string(),
+});
+
+const PreviewHeadersSchema = z.object({
+  "X-Preview-Cache": z.enum(["HIT", "MISS"]),
+});
+
+const DownloadRequestHeadersSchema = z.object({
+  Range: z.string().optional().openapi({ example: "bytes=0-1023" }),
+  "If-Range": z.string().optional(),
+  "If-None-Match": z.string().optional(),
+  "If-Modified-Since": z.string().optional(),
+});
+
+const DownloadHeadersSchema = z.object({
+  "Accept-Ranges": z.literal("bytes"),
+  ETag: z.string(),
+  "Last-Modified": z.string(),
+});
+
+const PartialDownloadHeadersSchema = DownloadHeadersSchema.extend({
+  "Content-Range": z.string().openapi({ example: "bytes 0-1023/4096" }),
+});
+
+const PreviewJobStatusSchema = z.object({
+  pending: z.number(),
+  processing: z.number(),
+  completed: z.number(),
+  failed: z.number(),
+});
+
 const RenameFolderResponseSchema = z.object({
   success: z.boolean(),
 });
 
+const MergeFolderResponseSchema = z.object({
+  message: z.string(),
+  moved: z.number(),
+  renamed: z
+    .number()
+    .openapi({ description: "Files that got a _N suffix because the name was taken" }),
+});
+
+const DeleteFolderResponseSchema = z.object({
+  message: z.string(),
+  deleted: z.number().openapi({ description: "Files that were moved to the trash" }),
+});
+
+const ShareLinkSchema = z.object({
+  shareId: z.string(),
+  kind: z.enum(["file", "folder", "zip"]),
+  folder: z.string(),
+  filename: z.string().nullable(),
+  createdAt: z.string(),
+  expiresAt: z.string(),
+  token: z.string(),
+  path: z.string(),
+});
+
+const ShareLinksResponseSchema = z.object({
+  shares: z.array(ShareLinkSchema),
+});
+
+const RevokeShareLinkResponseSchema = z.object({
+  success: z.boolean(),
+});
+
+const TrashEntrySchema = z.object({
+  trashId: z.string(),
+  folder: z.string().openapi({ description: "Folder the file was deleted from" }),
+  name: z.string(),
+  size: z.number(),
+  deletedAt: z.string(),
+  deletedByRole: z.enum(["admin", "moderator", "guest"]),
+  deletedBy: z.string().nullable().openapi({ description: "Owner or co-host name" }),
+});
+
+const TrashListResponseSchema = z.object({
+  files: z.array(TrashEntrySchema),
+  retentionMs: z.number().openapi({ description: "Time until trashed files are purged" }),
+});
+
+const RestoreTrashedFileResponseSchema = z.object({
+  message: z.string(),
+  folder: z.string(),
+  filename: z.string().openapi({ description: "Name after resolving name collisions" }),
+});
+
+const AuditLogEntrySchema = z.object({
+  entryId: z.string(),
+  createdAt: z.string(),
+  action: z.enum(AUDIT_ACTIONS),
+  role: z.enum(["admin", "moderator", "guest"]).nullable(),
+  actor: z.string().nullable().openapi({
+    description: "Owner or co-host name of admins, the name given with from for guest uploads",
+  }),
+  ipHash: z.string().openapi({ description: "Keyed hash of the client IP" }),
+  folder: z.string().optional(),
+  files: z.array(z.string()).optional(),
+  to: z
+    .string()
+    .optional()
+    .openapi({ description: "New name of a renamed folder, or the folder files were moved to" }),
+  storedAs: z.array(z.string()).optional().openapi({
+    description: "Names the moved files were stored under, in the order of files",
+  }),
+  fields: z.array(z.string()).optional().openapi({ description: "Names of changed settings" }),
+  user: z.string().optional().openapi({ description: "User of a failed login" }),
+});
+
+const AuditLogPageSchema = z.object({
+  entries: z.array(AuditLogEntrySchema),
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+});
+
+const CoHostSchema = z.object({
+  coHostId: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+});
+
+const CoHostsResponseSchema = z.object({
+  coHosts: z.array(CoHostSchema),
+  principal: z.string().openapi({ description: 'Name of the caller, "admin" for the owner' }),
+});
+
+const RemoveCoHostResponseSchema = z.object({
+  success: z.boolean(),
+});
+
 const AppConfigResponseSchema = z.object({
   allowedDomains: z.array(z.string()),
   supportSubdomain: z.boolean(),
@@ -114,30 +406,47 @@ const FileParamSchema = EventIdParamSchema.extend({
 });
 
 const FolderedFileParamSchema = EventIdParamSchema.extend({
-  folder: z.string().regex(FOLDER_REGEX, "Invalid folder"),
+  folder: FolderPathSchema,
   filename: z.string().min(1),
 });
 
 const FolderQuerySchema = z.object({
-  folder: z.string().regex(FOLDER_REGEX, "Invalid folder").optional(),
+  folder: FolderPathSchema.optional(),
 });
 
+const ShareQuerySchema = z.object({
+  share: z.string().optional().openapi({ description: "Token of a share link" }),
+});
+
+const SharedFolderQuerySchema = FolderQuerySchema.merge(ShareQuerySchema);
+
 const PreviewQuerySchema = z.object({
   w: z.coerce.number().int().positive().max(MAX_PREVIEW_SIZE).optional(),
   h: z.coerce.number().int().positive().optional(),
   q: z.coerce.number().int().min(1).max(100).optional(),
   fit: z.enum(["inside", "cover"]).optional(),
   format: z.enum(["jpeg", "webp", "png"]).optional(),
+  share: ShareQuerySchema.shape.share,
 });
 
+const VideoClipQuerySchema = PreviewQuerySchema.pick({ w: true, h: true, share: true });
+
 const FileUploadSchema = z.any().openapi({ type: "string", format: "binary" });
 const UploadRequestSchema = z.object({
   files: z.array(FileUploadSchema),
   from: z.string().optional(),
 });
 
+const CreateFolderRequestSchema = z.object({
+  folder: FolderPathSchema,
+});
+
+const MergeFolderRequestSchema = z.object({
+  into: FolderPathSchema.openapi({ description: "Folder receiving the files, empty for root" }),
+});
+
 const RenameFolderRequestSchema = z.object({
-  to: z.string().regex(FOLDER_REGEX, "Invalid folder"),
+  to: FolderPathSchema.openapi({ description: "New path, a folder can also be moved elsewhere" }),
 });
 
 const BinaryResponseSchema = z.string().openapi({ type: "string", format: "binary" });
@@ -182,6 +491,14 @@ registry.registerPath({
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
@@ -198,7 +515,7 @@ registry.registerPath({
   responses: {
     200: {
       description: "Event created",
-      content: { "application/json": { schema: ProjectResponseSchema } },
+      content: { "application/json": { schema: CreateEventResponseSchema } },
     },
     400: {
       description: "Invalid input",
@@ -212,78 +529,94 @@ registry.registerPath({
 });
 
 registry.registerPath({
-  method: "patch",
-  path: "/api/events/{eventId}",
+  method: "post",
+  path: "/api/events/{eventId}/login",
   request: {
     params: EventIdParamSchema,
     body: {
       content: {
-        "application/json": { schema: updateEventSchema },
+        "application/json": { schema: loginBodySchema },
       },
     },
   },
   responses: {
     200: {
-      description: "Event updated",
-      content: { "application/json": { schema: UpdateProjectResponseSchema } },
+      description: "Session token, sent as Bearer token in the Authorization header",
+      content: { "application/json": { schema: SessionResponseSchema } },
     },
     400: {
       description: "Invalid input",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
     401: {
-      description: "Authorization required",
-      content: { "application/json": { schema: ErrorResponseSchema } },
-    },
-    403: {
-      description: "Access denied",
+      description: "Wrong password",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
     404: {
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    429: {
+      description: "Too many failed attempts",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
 registry.registerPath({
-  method: "delete",
-  path: "/api/events/{eventId}",
+  method: "post",
+  path: "/api/events/{eventId}/logout",
   request: { params: EventIdParamSchema },
   responses: {
     200: {
-      description: "Event deleted",
-      content: { "application/json": { schema: DeleteProjectResponseSchema } },
+      description: "Session ended",
+      content: { "application/json": { schema: LogoutResponseSchema } },
     },
     401: {
       description: "Authorization required",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
-    403: {
-      description: "Access denied",
-      content: { "application/json": { schema: ErrorResponseSchema } },
-    },
     404: {
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
 registry.registerPath({
-  method: "get",
-  path: "/api/events/{eventId}/files",
+  method: "post",
+  path: "/api/events/{eventId}/admin-password",
   request: {
     params: EventIdParamSchema,
-    query: FolderQuerySchema,
+    body: {
+      content: {
+        "application/json": { schema: changeAdminPasswordBodySchema },
+      },
+    },
   },
   responses: {
     200: {
-      description: "List files",
-      content: { "application/json": { schema: ListFilesResponseSchema } },
+      description: "Password changed, previous admin sessions are ended and a new one is returned",
+      content: { "application/json": { schema: SessionResponseSchema } },
     },
     400: {
-      description: "Invalid input",
+      description: "Invalid input or wrong current password",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
     401: {
@@ -291,103 +624,118 @@ registry.registerPath({
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
     403: {
-      description: "Access denied",
+      description: "Owner access required",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
     404: {
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    429: {
+      description: "Too many failed attempts",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
 registry.registerPath({
   method: "post",
-  path: "/api/events/{eventId}/files",
+  path: "/api/events/{eventId}/recover",
   request: {
     params: EventIdParamSchema,
     body: {
       content: {
-        "multipart/form-data": { schema: UploadRequestSchema },
+        "application/json": { schema: recoverAdminBodySchema },
       },
     },
   },
   responses: {
     200: {
-      description: "Files uploaded",
-      content: { "application/json": { schema: UploadResponseSchema } },
+      description: "Admin password set with the recovery code, which is replaced by a new one",
+      content: { "application/json": { schema: RecoverAdminResponseSchema } },
     },
     400: {
       description: "Invalid input",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
     401: {
-      description: "Authorization required",
-      content: { "application/json": { schema: ErrorResponseSchema } },
-    },
-    403: {
-      description: "Access denied",
+      description: "Invalid recovery code",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
     404: {
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    429: {
+      description: "Too many failed attempts",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
 registry.registerPath({
-  method: "patch",
-  path: "/api/events/{eventId}/folders/{folder}",
-  request: {
-    params: EventIdParamSchema.extend({
-      folder: z.string().regex(FOLDER_REGEX, "Invalid folder"),
-    }),
-    body: {
-      content: {
-        "application/json": { schema: RenameFolderRequestSchema },
-      },
-    },
-  },
+  method: "post",
+  path: "/api/events/{eventId}/recovery-code",
+  request: { params: EventIdParamSchema },
   responses: {
     200: {
-      description: "Folder renamed",
-      content: { "application/json": { schema: RenameFolderResponseSchema } },
-    },
-    400: {
-      description: "Invalid input",
-      content: { "application/json": { schema: ErrorResponseSchema } },
+      description: "New recovery code, the previous one stops working",
+      content: { "application/json": { schema: RecoveryCodeResponseSchema } },
     },
     401: {
       description: "Authorization required",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
     403: {
-      description: "Access denied",
+      description: "Owner access required",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
     404: {
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
-    409: {
-      description: "Folder already exists",
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
   },
 });
 
 registry.registerPath({
-  method: "get",
-  path: "/api/events/{eventId}/files/{filename}",
+  method: "patch",
+  path: "/api/events/{eventId}",
   request: {
-    params: FileParamSchema,
-    query: FolderQuerySchema,
+    params: EventIdParamSchema,
+    body: {
+      content: {
+        "application/json": { schema: updateEventSchema },
+      },
+    },
   },
   responses: {
     200: {
-      description: "File download",
-      content: { "application/octet-stream": { schema: BinaryResponseSchema } },
+      description: "Event updated",
+      content: { "application/json": { schema: UpdateProjectResponseSchema } },
     },
     400: {
       description: "Invalid input",
@@ -405,28 +753,25 @@ registry.registerPath({
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
 registry.registerPath({
-  method: "get",
-  path: "/api/events/{eventId}/files/{filename}/preview",
-  request: {
-    params: FileParamSchema,
-    query: PreviewQuerySchema,
-  },
+  method: "delete",
+  path: "/api/events/{eventId}",
+  request: { params: EventIdParamSchema },
   responses: {
     200: {
-      description: "Preview image",
-      content: {
-        "image/jpeg": { schema: BinaryResponseSchema },
-        "image/webp": { schema: BinaryResponseSchema },
-        "image/png": { schema: BinaryResponseSchema },
-      },
-    },
-    400: {
-      description: "Invalid input",
-      content: { "application/json": { schema: ErrorResponseSchema } },
+      description: "Event deleted",
+      content: { "application/json": { schema: DeleteProjectResponseSchema } },
     },
     401: {
       description: "Authorization required",
@@ -440,8 +785,12 @@ registry.registerPath({
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
-    415: {
-      description: "Unsupported file type",
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
   },
@@ -449,19 +798,45 @@ registry.registerPath({
 
 registry.registerPath({
   method: "get",
-  path: "/api/events/{eventId}/files/{folder}/{filename}/preview",
+  path: "/api/events/{eventId}/files",
   request: {
-    params: FileParamSchema.extend({ folder: z.string() }),
-    query: PreviewQuerySchema,
+    params: EventIdParamSchema,
+    query: SharedFolderQuerySchema.extend({
+      recursive: z
+        .enum(["true", "false"])
+        .optional()
+        .openapi({ description: "Include the files of all subfolders" }),
+      sort: z
+        .enum(FILE_SORT_FIELDS)
+        .optional()
+        .openapi({ description: "Sort field, defaults to name. Equal values are sorted by name" }),
+      order: z.enum(SORT_ORDERS).optional().openapi({ description: "Defaults to asc" }),
+      search: z
+        .string()
+        .max(255)
+        .optional()
+        .openapi({ description: "Only files whose name contains this text, ignoring case" }),
+      type: z.string().optional().openapi({
+        description: "Comma separated content types the files must match",
+        example: "image/*,video/mp4",
+      }),
+      cursor: z
+        .string()
+        .optional()
+        .openapi({ description: "nextCursor of the previous page, with the same sort and order" }),
+      limit: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(FILE_LIST_MAX_PAGE_SIZE)
+        .optional()
+        .openapi({ description: `Files per page, defaults to ${FILE_LIST_MAX_PAGE_SIZE}` }),
+    }),
   },
   responses: {
     200: {
-      description: "Preview image",
-      content: {
-        "image/jpeg": { schema: BinaryResponseSchema },
-        "image/webp": { schema: BinaryResponseSchema },
-        "image/png": { schema: BinaryResponseSchema },
-      },
+      description: "List files",
+      content: { "application/json": { schema: ListFilesResponseSchema } },
     },
     400: {
       description: "Invalid input",
@@ -479,23 +854,32 @@ registry.registerPath({
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
-    415: {
-      description: "Unsupported file type",
+    410: {
+      description: "Event or share link expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
   },
 });
 
 registry.registerPath({
-  method: "get",
-  path: "/api/events/{eventId}/files/{folder}/{filename}",
+  method: "post",
+  path: "/api/events/{eventId}/files",
   request: {
-    params: FolderedFileParamSchema,
+    params: EventIdParamSchema,
+    body: {
+      content: {
+        "multipart/form-data": { schema: UploadRequestSchema },
+      },
+    },
   },
   responses: {
     200: {
-      description: "File download",
-      content: { "application/octet-stream": { schema: BinaryResponseSchema } },
+      description: "Files uploaded",
+      content: { "application/json": { schema: UploadResponseSchema } },
     },
     400: {
       description: "Invalid input",
@@ -513,20 +897,165 @@ registry.registerPath({
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    413: {
+      description: "Upload too large",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
 registry.registerPath({
-  method: "delete",
-  path: "/api/events/{eventId}/files/{filename}",
+  method: "post",
+  path: "/api/events/{eventId}/uploads",
   request: {
-    params: FileParamSchema,
-    query: FolderQuerySchema,
+    params: EventIdParamSchema,
+    body: {
+      content: {
+        "application/json": { schema: createResumableUploadBodySchema },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Upload created",
+      headers: UploadOffsetHeadersSchema,
+      content: { "application/json": { schema: ResumableUploadStatusSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    413: {
+      description: "Upload too large or quota exceeded",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    415: {
+      description: "Unsupported file type",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "head",
+  path: "/api/events/{eventId}/uploads/{uploadId}",
+  request: {
+    params: resumableUploadParamsSchema,
   },
   responses: {
     200: {
-      description: "File deleted",
-      content: { "application/json": { schema: DeleteFileResponseSchema } },
+      description: "Upload status",
+      headers: UploadOffsetHeadersSchema,
+    },
+    401: { description: "Authorization required" },
+    403: { description: "Access denied" },
+    404: { description: "Not found" },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/events/{eventId}/uploads/{uploadId}",
+  request: {
+    params: resumableUploadParamsSchema,
+    headers: z.object({ "Upload-Offset": z.string() }),
+    body: {
+      content: {
+        "application/offset+octet-stream": { schema: FileUploadSchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Chunk stored",
+      headers: UploadOffsetHeadersSchema,
+      content: { "application/json": { schema: ResumableUploadStatusSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "Offset mismatch",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    413: {
+      description: "Chunk exceeds the upload size",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    415: {
+      description: "Invalid content type",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/events/{eventId}/uploads/{uploadId}/complete",
+  request: {
+    params: resumableUploadParamsSchema,
+  },
+  responses: {
+    200: {
+      description: "File uploaded",
+      content: { "application/json": { schema: UploadResponseSchema } },
     },
     400: {
       description: "Invalid input",
@@ -544,18 +1073,34 @@ registry.registerPath({
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    409: {
+      description: "Upload incomplete",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    413: {
+      description: "Quota exceeded",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
 registry.registerPath({
   method: "delete",
-  path: "/api/events/{eventId}/files/{folder}/{filename}",
+  path: "/api/events/{eventId}/uploads/{uploadId}",
   request: {
-    params: FolderedFileParamSchema,
+    params: resumableUploadParamsSchema,
   },
   responses: {
     200: {
-      description: "File deleted",
+      description: "Upload canceled",
       content: { "application/json": { schema: DeleteFileResponseSchema } },
     },
     400: {
@@ -574,20 +1119,130 @@ registry.registerPath({
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
 registry.registerPath({
-  method: "get",
-  path: "/api/events/{eventId}/files.zip",
+  method: "patch",
+  path: "/api/events/{eventId}/folders/{folder}",
+  request: {
+    params: EventIdParamSchema.extend({
+      folder: FolderPathSchema,
+    }),
+    body: {
+      content: {
+        "application/json": { schema: RenameFolderRequestSchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Folder renamed",
+      content: { "application/json": { schema: RenameFolderResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "Folder already exists",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/events/{eventId}/folders",
   request: {
     params: EventIdParamSchema,
-    query: FolderQuerySchema,
+    body: {
+      content: {
+        "application/json": { schema: CreateFolderRequestSchema },
+      },
+    },
   },
   responses: {
     200: {
-      description: "Zip download",
-      content: { "application/zip": { schema: BinaryResponseSchema } },
+      description: "Empty folder created",
+      content: { "application/json": { schema: RenameFolderResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "Folder already exists",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/events/{eventId}/folders/{folder}/merge",
+  request: {
+    params: EventIdParamSchema.extend({
+      folder: FolderPathSchema,
+    }),
+    body: {
+      content: {
+        "application/json": { schema: MergeFolderRequestSchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Files moved into the target folder, the merged folder is removed",
+      content: { "application/json": { schema: MergeFolderResponseSchema } },
     },
     400: {
       description: "Invalid input",
@@ -605,6 +1260,1544 @@ registry.registerPath({
       description: "Not found",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/events/{eventId}/folders/{folder}",
+  request: {
+    params: EventIdParamSchema.extend({
+      folder: FolderPathSchema,
+    }),
+  },
+  responses: {
+    200: {
+      description: "Folder deleted, its files went to the trash",
+      content: { "application/json": { schema: DeleteFolderResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/files/{filename}",
+  request: {
+    params: FileParamSchema,
+    query: SharedFolderQuerySchema,
+    headers: DownloadRequestHeadersSchema,
+  },
+  responses: {
+    200: {
+      description: "File download",
+      headers: DownloadHeadersSchema,
+      content: { "application/octet-stream": { schema: BinaryResponseSchema } },
+    },
+    206: {
+      description: "Requested byte range of the file",
+      headers: PartialDownloadHeadersSchema,
+      content: { "application/octet-stream": { schema: BinaryResponseSchema } },
+    },
+    304: {
+      description: "File not modified",
+      headers: DownloadHeadersSchema,
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event or share link expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    416: {
+      description: "Range not satisfiable",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/files/{filename}/preview",
+  request: {
+    params: FileParamSchema,
+    query: PreviewQuerySchema,
+  },
+  responses: {
+    200: {
+      description: "Preview image",
+      headers: PreviewHeadersSchema,
+      content: {
+        "image/jpeg": { schema: BinaryResponseSchema },
+        "image/webp": { schema: BinaryResponseSchema },
+        "image/png": { schema: BinaryResponseSchema },
+      },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event or share link expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    415: {
+      description: "Unsupported file type",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/files/{folder}/{filename}/preview",
+  request: {
+    params: FileParamSchema.extend({ folder: z.string() }),
+    query: PreviewQuerySchema,
+  },
+  responses: {
+    200: {
+      description: "Preview image",
+      headers: PreviewHeadersSchema,
+      content: {
+        "image/jpeg": { schema: BinaryResponseSchema },
+        "image/webp": { schema: BinaryResponseSchema },
+        "image/png": { schema: BinaryResponseSchema },
+      },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event or share link expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    415: {
+      description: "Unsupported file type",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/files/{filename}/poster",
+  request: {
+    params: FileParamSchema,
+    query: PreviewQuerySchema,
+  },
+  responses: {
+    200: {
+      description: "Video poster frame",
+      headers: PreviewHeadersSchema,
+      content: {
+        "image/jpeg": { schema: BinaryResponseSchema },
+        "image/webp": { schema: BinaryResponseSchema },
+        "image/png": { schema: BinaryResponseSchema },
+      },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event or share link expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    415: {
+      description: "Unsupported file type",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    503: {
+      description: "Video previews not available",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/files/{folder}/{filename}/poster",
+  request: {
+    params: FileParamSchema.extend({ folder: z.string() }),
+    query: PreviewQuerySchema,
+  },
+  responses: {
+    200: {
+      description: "Video poster frame",
+      headers: PreviewHeadersSchema,
+      content: {
+        "image/jpeg": { schema: BinaryResponseSchema },
+        "image/webp": { schema: BinaryResponseSchema },
+        "image/png": { schema: BinaryResponseSchema },
+      },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event or share link expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    415: {
+      description: "Unsupported file type",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    503: {
+      description: "Video previews not available",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/files/{filename}/clip",
+  request: {
+    params: FileParamSchema,
+    query: VideoClipQuerySchema,
+  },
+  responses: {
+    200: {
+      description: "Short muted video preview",
+      headers: PreviewHeadersSchema,
+      content: {
+        "video/mp4": { schema: BinaryResponseSchema },
+      },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event or share link expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    415: {
+      description: "Unsupported file type",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    503: {
+      description: "Video previews not available",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/files/{folder}/{filename}/clip",
+  request: {
+    params: FileParamSchema.extend({ folder: z.string() }),
+    query: VideoClipQuerySchema,
+  },
+  responses: {
+    200: {
+      description: "Short muted video preview",
+      headers: PreviewHeadersSchema,
+      content: {
+        "video/mp4": { schema: BinaryResponseSchema },
+      },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event or share link expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    415: {
+      description: "Unsupported file type",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    503: {
+      description: "Video previews not available",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/pending",
+  request: { params: EventIdParamSchema },
+  responses: {
+    200: {
+      description: "Guest uploads awaiting review, oldest first",
+      content: { "application/json": { schema: PendingFilesResponseSchema } },
+    },
+    400: {
+      description: "Invalid event id",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/pending/{filename}",
+  request: { params: FileParamSchema, query: FolderQuerySchema },
+  responses: {
+    200: {
+      description: "Download of an upload awaiting review",
+      content: { "application/octet-stream": { schema: BinaryResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/events/{eventId}/pending/approve",
+  request: {
+    params: EventIdParamSchema,
+    body: {
+      content: {
+        "application/json": { schema: reviewPendingFilesBodySchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Pending uploads moved into their folders, name collisions get a _N suffix",
+      content: { "application/json": { schema: BatchFilesResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/events/{eventId}/pending/reject",
+  request: {
+    params: EventIdParamSchema,
+    body: {
+      content: {
+        "application/json": { schema: reviewPendingFilesBodySchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Pending uploads deleted",
+      content: { "application/json": { schema: BatchFilesResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/previews/status",
+  request: { params: EventIdParamSchema },
+  responses: {
+    200: {
+      description: "Background preview generation status",
+      content: { "application/json": { schema: PreviewJobStatusSchema } },
+    },
+    400: {
+      description: "Invalid event id",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/files/{folder}/{filename}",
+  request: {
+    params: FolderedFileParamSchema,
+    query: ShareQuerySchema,
+    headers: DownloadRequestHeadersSchema,
+  },
+  responses: {
+    200: {
+      description: "File download",
+      headers: DownloadHeadersSchema,
+      content: { "application/octet-stream": { schema: BinaryResponseSchema } },
+    },
+    206: {
+      description: "Requested byte range of the file",
+      headers: PartialDownloadHeadersSchema,
+      content: { "application/octet-stream": { schema: BinaryResponseSchema } },
+    },
+    304: {
+      description: "File not modified",
+      headers: DownloadHeadersSchema,
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event or share link expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    416: {
+      description: "Range not satisfiable",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/events/{eventId}/files/{filename}",
+  request: {
+    params: FileParamSchema,
+    query: FolderQuerySchema,
+    body: {
+      content: {
+        "application/json": { schema: UpdateFileRequestSchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "File renamed and/or moved",
+      content: { "application/json": { schema: UpdateFileResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "File is shared by a link",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/events/{eventId}/files/{folder}/{filename}",
+  request: {
+    params: FolderedFileParamSchema,
+    body: {
+      content: {
+        "application/json": { schema: UpdateFileRequestSchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "File renamed and/or moved",
+      content: { "application/json": { schema: UpdateFileResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "File is shared by a link",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/events/{eventId}/files/{filename}",
+  request: {
+    params: FileParamSchema,
+    query: FolderQuerySchema,
+  },
+  responses: {
+    200: {
+      description: "File moved to trash, or deleted when the trash is turned off",
+      content: { "application/json": { schema: DeleteFileResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/events/{eventId}/files/{folder}/{filename}",
+  request: {
+    params: FolderedFileParamSchema,
+  },
+  responses: {
+    200: {
+      description: "File moved to trash, or deleted when the trash is turned off",
+      content: { "application/json": { schema: DeleteFileResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/files.zip",
+  request: {
+    params: EventIdParamSchema,
+    query: SharedFolderQuerySchema,
+  },
+  responses: {
+    200: {
+      description: "Zip download",
+      content: { "application/zip": { schema: BinaryResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event or share link expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/shares",
+  request: { params: EventIdParamSchema },
+  responses: {
+    200: {
+      description: "Share links that have not expired",
+      content: { "application/json": { schema: ShareLinksResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/events/{eventId}/shares",
+  request: {
+    params: EventIdParamSchema,
+    body: {
+      content: {
+        "application/json": { schema: createShareLinkBodySchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Share link created",
+      content: { "application/json": { schema: ShareLinkSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Event, file or folder not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/events/{eventId}/shares/{shareId}",
+  request: { params: shareLinkParamsSchema },
+  responses: {
+    200: {
+      description: "Share link revoked",
+      content: { "application/json": { schema: RevokeShareLinkResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/co-hosts",
+  request: { params: EventIdParamSchema },
+  responses: {
+    200: {
+      description: "Co-hosts of the event",
+      content: { "application/json": { schema: CoHostsResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Admin access required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/events/{eventId}/co-hosts",
+  request: {
+    params: EventIdParamSchema,
+    body: {
+      content: {
+        "application/json": { schema: createCoHostBodySchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Co-host added, logs in with name and password",
+      content: { "application/json": { schema: CoHostSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Owner access required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "Name taken",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/events/{eventId}/co-hosts/{coHostId}",
+  request: { params: coHostParamsSchema },
+  responses: {
+    200: {
+      description: "Co-host removed, their sessions end",
+      content: { "application/json": { schema: RemoveCoHostResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Owner access required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/events/{eventId}/files/batch/delete",
+  request: {
+    params: EventIdParamSchema,
+    body: {
+      content: {
+        "application/json": { schema: batchFilesBodySchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Files moved to trash, files that could not be deleted are listed in failed",
+      content: { "application/json": { schema: BatchFilesResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/events/{eventId}/files/batch/move",
+  request: {
+    params: EventIdParamSchema,
+    body: {
+      content: {
+        "application/json": { schema: moveFilesBodySchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description:
+        "Files moved into the folder, name collisions get a _N suffix, files that could not be moved are listed in failed",
+      content: { "application/json": { schema: BatchFilesResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/events/{eventId}/files/batch/zip",
+  request: {
+    params: EventIdParamSchema,
+    body: {
+      content: {
+        "application/json": { schema: batchFilesBodySchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description:
+        "Zip of the selected files. Files that were not found are left out, Zip-Skipped-Count tells how many and Zip-Skipped-Files lists the first of them as URI-encoded JSON",
+      headers: ZipSkippedHeadersSchema,
+      content: { "application/zip": { schema: BinaryResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/trash",
+  request: { params: EventIdParamSchema },
+  responses: {
+    200: {
+      description: "Deleted files awaiting purge, newest first",
+      content: { "application/json": { schema: TrashListResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/events/{eventId}/trash/{trashId}/restore",
+  request: { params: trashParamsSchema },
+  responses: {
+    200: {
+      description: "File moved back into its folder",
+      content: { "application/json": { schema: RestoreTrashedFileResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    413: {
+      description: "Restoring the file would exceed the quota",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/events/{eventId}/trash/{trashId}",
+  request: { params: trashParamsSchema },
+  responses: {
+    200: {
+      description: "File deleted permanently",
+      content: { "application/json": { schema: DeleteFileResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/events/{eventId}/audit",
+  request: { params: EventIdParamSchema, query: auditLogQuerySchema },
+  responses: {
+    200: {
+      description: "Audit log of the event, newest entries first",
+      content: { "application/json": { schema: AuditLogPageSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    410: {
+      description: "Event expired",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    423: {
+      description: "Event locked by the operator",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/operator/login",
+  request: {
+    body: {
+      content: {
+        "application/json": { schema: operatorLoginBodySchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Operator session token, sent as Bearer token in the Authorization header",
+      content: { "application/json": { schema: OperatorSessionResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Wrong password",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Operator console disabled",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    429: {
+      description: "Too many failed attempts",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/operator/logout",
+  responses: {
+    200: {
+      description: "Session ended",
+      content: { "application/json": { schema: LogoutResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Operator console disabled",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/operator/events",
+  responses: {
+    200: {
+      description: "All events with their storage use",
+      content: { "application/json": { schema: OperatorEventsResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Operator console disabled",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/operator/events/{eventId}",
+  request: {
+    params: EventIdParamSchema,
+    body: {
+      content: {
+        "application/json": { schema: updateOperatorEventBodySchema },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Event locked, unlocked or its quota changed",
+      content: { "application/json": { schema: OperatorEventSummarySchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found or operator console disabled",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/operator/events/{eventId}/admin-password",
+  request: { params: EventIdParamSchema },
+  responses: {
+    200: {
+      description: "New random admin password, existing admin sessions are ended",
+      content: { "application/json": { schema: ResetAdminPasswordResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found or operator console disabled",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/operator/events/{eventId}",
+  request: { params: EventIdParamSchema },
+  responses: {
+    200: {
+      description: "Event deleted",
+      content: { "application/json": { schema: DeleteProjectResponseSchema } },
+    },
+    400: {
+      description: "Invalid input",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Authorization required",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Access denied",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Not found or operator console disabled",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
@@ -0,0 +1,41 @@
+import express, { NextFunction, Response } from "express";
+import { AUDIT_LOG_DEFAULT_PAGE_SIZE } from "../../constants.js";
+import { listAuditLog } from "../../services/audit-log.js";
+import { AuditLogPage, ErrorResponse } from "../../types.js";
+import { loadEvent, verifyAccess } from "./middleware.js";
+import { sendStorageError } from "./storage-response.js";
+import { auditLogQuerySchema, eventIdSchema, validateRequest, ValidatedReq } from "./validators.js";
+
+export const registerAuditRoutes = (router: express.Router) => {
+  router.get(
+    "/:eventId/audit",
+    validateRequest(
+      { params: eventIdSchema, query: auditLogQuerySchema },
+      { errorKey: { params: "INVALID_EVENT_ID", query: "INVALID_INPUT" } }
+    ),
+    loadEvent,
+    verifyAccess("audit:view"),
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema; query: typeof auditLogQuerySchema }>,
+      res: Response<AuditLogPage | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const result = await listAuditLog(req.event!.eventId, {
+          page: req.query.page ?? 1,
+          pageSize: req.query.pageSize ?? AUDIT_LOG_DEFAULT_PAGE_SIZE,
+          action: req.query.action,
+          actor: req.query.actor || undefined,
+        });
+        if (!result.ok) {
+          return sendStorageError(res, result.error);
+        }
+        // the log names guests and IP hashes, it must not end up in shared caches
+        res.setHeader("Cache-Control", "private, no-store");
+        return res.status(200).json(result.data);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
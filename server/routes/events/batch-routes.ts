@@ -0,0 +1,182 @@
+import express, { NextFunction, Response } from "express";
+import { ZIP_SKIPPED_HEADER_MAX_LENGTH } from "../../constants.js";
+import { logger } from "../../logger.js";
+import { recordAuditEntry } from "../../services/audit-log.js";
+import { invalidateFilePreviews } from "../../services/preview-cache.js";
+import { queuePreviewGeneration } from "../../services/preview-worker.js";
+import { carryOverPreviews } from "../../services/previews.js";
+import { isFileShared } from "../../services/shares.js";
+import { removeFile } from "../../services/trash.js";
+import { storage } from "../../storage/index.js";
+import { FileRef } from "../../storage/types.js";
+import { BatchFilesResult, ErrorResponse } from "../../types.js";
+import { describeFile, groupByFolder, processFiles } from "./file-batch.js";
+import { ensureGuestDownloadsEnabled, loadEvent, verifyAccess } from "./middleware.js";
+import { sendStorageError } from "./storage-response.js";
+import {
+  batchFilesBodySchema,
+  eventIdSchema,
+  moveFilesBodySchema,
+  validateRequest,
+  ValidatedReq,
+} from "./validators.js";
+
+/**
+ * Encodes the skipped files for the Zip-Skipped-Files header. Proxies reject large headers,
+ * so the list is cut to the first files that fit, Zip-Skipped-Count has the full number.
+ */
+const encodeSkippedFiles = (skipped: BatchFilesResult["failed"]) => {
+  // encodeURIComponent works per character, so the parts add up to the encoded array
+  const parts: string[] = [];
+  let length = "%5B%5D".length;
+  for (const entry of skipped) {
+    const part = encodeURIComponent(JSON.stringify(entry));
+    const separator = parts.length ? "%2C".length : 0;
+    if (length + separator + part.length > ZIP_SKIPPED_HEADER_MAX_LENGTH) break;
+    parts.push(part);
+    length += separator + part.length;
+  }
+  return `%5B${parts.join("%2C")}%5D`;
+};
+
+const validateBatchBody = (body: typeof batchFilesBodySchema | typeof moveFilesBodySchema) =>
+  validateRequest(
+    { params: eventIdSchema, body },
+    {
+      errorKey: ({ part, issue, defaultKey }) => {
+        if (part === "params") return "INVALID_EVENT_ID";
+        const field = issue.path[issue.path.length - 1];
+        if (field === "folder" || field === "to") return "INVALID_FOLDER";
+        if (field === "filename") return "INVALID_FILENAME";
+        return defaultKey;
+      },
+    }
+  );
+
+export const registerBatchRoutes = (router: express.Router) => {
+  router.post(
+    "/:eventId/files/batch/delete",
+    validateBatchBody(batchFilesBodySchema),
+    loadEvent,
+    verifyAccess("files:delete"),
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema; body: typeof batchFilesBodySchema }>,
+      res: Response<BatchFilesResult | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const eventId = req.event!.eventId;
+        const deleted: FileRef[] = [];
+        const result = await processFiles(req.body.files, async (file) => {
+          const deleteResult = await removeFile(req, eventId, file.folder, file.filename);
+          if (!deleteResult.ok) return deleteResult.error.message;
+          await invalidateFilePreviews(eventId, file.folder, file.filename);
+          deleted.push(file);
+          return null;
+        });
+        for (const [folder, files] of groupByFolder(deleted)) {
+          await recordAuditEntry(req, eventId, { action: "delete", folder, files });
+        }
+        logger.info("Files deleted", {
+          eventId,
+          count: result.processed,
+          by: req.user?.principal?.name ?? req.user?.role,
+        });
+        return res.status(200).json({ message: "Files deleted.", ...result });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/:eventId/files/batch/move",
+    validateBatchBody(moveFilesBodySchema),
+    loadEvent,
+    verifyAccess("files:move"),
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema; body: typeof moveFilesBodySchema }>,
+      res: Response<BatchFilesResult | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const eventId = req.event!.eventId;
+        const { to } = req.body;
+        const moved: Array<FileRef & { storedAs: string }> = [];
+        const result = await processFiles(req.body.files, async (file) => {
+          if (file.folder === to) return "File is already in this folder.";
+          if (isFileShared(req.event!, file.folder, file.filename)) {
+            return "The file is shared by a link, revoke the link first.";
+          }
+          const infoResult = await storage.files.getFileInfo(eventId, file.folder, file.filename);
+          if (!infoResult.ok) return infoResult.error.message;
+          const moveResult = await storage.files.moveFile(eventId, file.folder, file.filename, to);
+          if (!moveResult.ok) return moveResult.error.message;
+          const storedAs = moveResult.data.filename;
+          await carryOverPreviews(
+            { eventId, ...file, lastModified: infoResult.data.lastModified },
+            { folder: to, filename: storedAs }
+          );
+          queuePreviewGeneration(eventId, to, [storedAs]);
+          moved.push({ ...file, storedAs });
+          return null;
+        });
+        for (const [folder, files] of groupByFolder(moved)) {
+          // a taken name in the target folder gets a _N suffix, the entry keeps both names
+          const storedAs = moved
+            .filter((file) => file.folder === folder)
+            .map((file) => file.storedAs);
+          await recordAuditEntry(req, eventId, { action: "move", folder, files, to, storedAs });
+        }
+        logger.info("Files moved", {
+          eventId,
+          to,
+          count: result.processed,
+          by: req.user?.principal?.name ?? req.user?.role,
+        });
+        return res.status(200).json({ message: "Files moved.", ...result });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/:eventId/files/batch/zip",
+    validateBatchBody(batchFilesBodySchema),
+    loadEvent,
+    verifyAccess("files:download"),
+    ensureGuestDownloadsEnabled,
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema; body: typeof batchFilesBodySchema }>,
+      res: Response<ErrorResponse | void>,
+      next: NextFunction
+    ) => {
+      try {
+        const eventId = req.event!.eventId;
+        const zipResult = await storage.files.createFilesZipStream(eventId, req.body.files);
+        if (!zipResult.ok) {
+          return sendStorageError(res, zipResult.error);
+        }
+
+        // the body is the archive, so files that were left out are reported in headers
+        const skipped: BatchFilesResult["failed"] = zipResult.data.skipped.map((file) => ({
+          file: describeFile(file),
+          reason: "File not found.",
+        }));
+        res.setHeader("Content-Type", "application/zip");
+        res.setHeader("Content-Disposition", `attachment; filename="${eventId}-selection.zip"`);
+        res.setHeader("Cache-Control", "no-store");
+        res.setHeader("Zip-Skipped-Count", String(skipped.length));
+        res.setHeader("Zip-Skipped-Files", encodeSkippedFiles(skipped));
+
+        const archive = zipResult.data.stream;
+        archive.on("error", (err: Error) => next(err));
+        archive.pipe(res);
+        await archive.finalize();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
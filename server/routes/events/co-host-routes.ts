@@ -0,0 +1,110 @@
+import express, { NextFunction, Response } from "express";
+import { OWNER_USER } from "../../services/auth.js";
+import { buildCoHostResponse, createCoHost, findCoHostByName } from "../../services/co-hosts.js";
+import { saveEvent } from "../../services/events.js";
+import { CoHostResponse, CoHostsResponse, ErrorResponse } from "../../types.js";
+import { sendError } from "../../utils/error-response.js";
+import { loadEvent, verifyAccess, verifyOwner } from "./middleware.js";
+import {
+  coHostParamsSchema,
+  createCoHostBodySchema,
+  eventIdSchema,
+  validateRequest,
+  ValidatedReq,
+} from "./validators.js";
+
+export const registerCoHostRoutes = (router: express.Router) => {
+  // co-hosts see who else manages the event, only the owner changes the list
+  router.get(
+    "/:eventId/co-hosts",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    loadEvent,
+    verifyAccess("event:manage"),
+    (
+      req: ValidatedReq<{ params: typeof eventIdSchema }>,
+      res: Response<CoHostsResponse | ErrorResponse>
+    ) => {
+      return res.status(200).json({
+        coHosts: req.event!.auth.coHosts.map(buildCoHostResponse),
+        principal: req.user?.principal?.name ?? OWNER_USER,
+      });
+    }
+  );
+
+  router.post(
+    "/:eventId/co-hosts",
+    validateRequest(
+      { params: eventIdSchema, body: createCoHostBodySchema },
+      { errorKey: { params: "INVALID_EVENT_ID" } }
+    ),
+    loadEvent,
+    verifyAccess("event:manage"),
+    verifyOwner,
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema; body: typeof createCoHostBodySchema }>,
+      res: Response<CoHostResponse | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const event = req.event!;
+        if (findCoHostByName(event, req.body.name)) {
+          return sendError(res, 409, {
+            message: "A co-host with this name already exists.",
+            errorKey: "CO_HOST_NAME_TAKEN",
+            property: "name",
+            eventId: event.eventId,
+          });
+        }
+
+        const coHost = await createCoHost(req.body.name, req.body.password);
+        await saveEvent({
+          ...event,
+          auth: { ...event.auth, coHosts: [...event.auth.coHosts, coHost] },
+        });
+        return res.status(200).json(buildCoHostResponse(coHost));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.delete(
+    "/:eventId/co-hosts/:coHostId",
+    validateRequest(
+      { params: coHostParamsSchema },
+      {
+        errorKey: ({ issue, defaultKey }) =>
+          issue.path[0] === "eventId" ? "INVALID_EVENT_ID" : defaultKey,
+      }
+    ),
+    loadEvent,
+    verifyAccess("event:manage"),
+    verifyOwner,
+    async (
+      req: ValidatedReq<{ params: typeof coHostParamsSchema }>,
+      res: Response<{ success: boolean } | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const event = req.event!;
+        const remaining = event.auth.coHosts.filter(
+          (coHost) => coHost.coHostId !== req.params.coHostId
+        );
+        if (remaining.length === event.auth.coHosts.length) {
+          return sendError(res, 404, {
+            message: "Co-host not found.",
+            errorKey: "CO_HOST_NOT_FOUND",
+            property: "coHostId",
+            eventId: event.eventId,
+          });
+        }
+
+        // sessions are checked against the stored co-hosts, so this ends them right away
+        await saveEvent({ ...event, auth: { ...event.auth, coHosts: remaining } });
+        return res.status(200).json({ success: true });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
@@ -1,36 +1,53 @@
 import express, { NextFunction, Response } from "express";
 import bcrypt from "bcryptjs";
-import { createEventSchema, updateEventSchema } from "../../utils/validation.js";
+import {
+  createEventSchema,
+  isValidUploadWindow,
+  updateEventSchema,
+} from "../../utils/validation.js";
 import {
   createEvent,
   deleteEvent,
   getEvent,
+  getEventUsage,
   isEventIdAvailable,
   saveEvent,
   EventAlreadyExistsError,
 } from "../../services/events.js";
+import { removeAllResumableUploads } from "../../services/resumable-uploads.js";
+import { removeEventPreviews } from "../../services/preview-cache.js";
+import { clearPreviewJobs } from "../../services/preview-worker.js";
 import { buildEventResponse } from "./response.js";
 import { ALLOW_EVENT_CREATION } from "../../config.js";
 import { loadEvent, verifyAccess } from "./middleware.js";
 import { eventIdSchema, validateRequest, ValidatedReq } from "./validators.js";
-import { ErrorResponse, EventConfigResponse } from "../../types.js";
+import { generateRecoveryCode } from "../../services/auth.js";
+import { CreateEventResponse, ErrorResponse, EventConfigResponse } from "../../types.js";
 import { sendError } from "../../utils/error-response.js";
+import { recordAuditEntry } from "../../services/audit-log.js";
+import { hasPermission } from "../../services/permissions.js";
 
 export const registerConfigRoutes = (router: express.Router) => {
   router.get(
     "/:eventId",
     validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
     loadEvent,
-    verifyAccess(["admin", "guest"]),
+    verifyAccess("event:view"),
     async (
       req: ValidatedReq<{ params: typeof eventIdSchema }>,
       res: Response<EventConfigResponse | ErrorResponse>,
       next: NextFunction
     ) => {
       try {
+        const event = req.event!;
+        // listing the storage is costly, and the usage is nothing guests need to know
+        const usage =
+          req.user && hasPermission(req.user.role, "event:manage")
+            ? await getEventUsage(event.eventId)
+            : undefined;
         return res
           .status(200)
-          .json(buildEventResponse(req.event!, req.user?.role ?? "unauthenticated"));
+          .json(buildEventResponse(event, req.user?.role ?? "unauthenticated", usage));
       } catch (error) {
         next(error);
       }
@@ -42,7 +59,7 @@ export const registerConfigRoutes = (router: express.Router) => {
     validateRequest({ body: createEventSchema }, { errorKey: "INVALID_INPUT" }),
     async (
       req: ValidatedReq<{ body: typeof createEventSchema }>,
-      res: Response<EventConfigResponse | ErrorResponse>,
+      res: Response<CreateEventResponse | ErrorResponse>,
       next: NextFunction
     ) => {
       try {
@@ -65,6 +82,9 @@ export const registerConfigRoutes = (router: express.Router) => {
           allowGuestUpload,
           requireUploadFolder,
           uploadFolderHint,
+          uploadOpensAt,
+          uploadClosesAt,
+          expiresAt,
         } = req.body;
 
         if (adminPassword !== adminPasswordConfirm) {
@@ -110,20 +130,35 @@ export const registerConfigRoutes = (router: express.Router) => {
           });
         }
 
+        if (!isValidUploadWindow(uploadOpensAt ?? null, uploadClosesAt ?? null)) {
+          return sendError(res, 400, {
+            message: "Uploads must close after they open.",
+            errorKey: "INVALID_INPUT",
+            property: "uploadClosesAt",
+          });
+        }
+
+        const recoveryCode = generateRecoveryCode();
         const event = await createEvent({
           name,
           description,
           eventId,
           guestPassword,
           adminPassword,
+          recoveryCode,
           allowedMimeTypes,
           allowGuestDownload: Boolean(allowGuestDownload),
           allowGuestUpload,
           requireUploadFolder,
           uploadFolderHint,
+          uploadOpensAt,
+          uploadClosesAt,
+          expiresAt,
         });
 
-        return res.status(200).json(buildEventResponse(event, "unauthenticated"));
+        return res
+          .status(200)
+          .json({ ...buildEventResponse(event, "unauthenticated"), recoveryCode });
       } catch (error) {
         if (error instanceof EventAlreadyExistsError) {
           return sendError(res, 409, {
@@ -142,7 +177,7 @@ export const registerConfigRoutes = (router: express.Router) => {
     validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
     validateRequest({ body: updateEventSchema }, { errorKey: "INVALID_INPUT" }),
     loadEvent,
-    verifyAccess(["admin"]),
+    verifyAccess("event:manage"),
     async (
       req: ValidatedReq<{ params: typeof eventIdSchema; body: typeof updateEventSchema }>,
       res: Response<({ ok: true } & EventConfigResponse) | ErrorResponse>,
@@ -153,13 +188,20 @@ export const registerConfigRoutes = (router: express.Router) => {
 
         const {
           guestPassword,
+          moderatorPassword,
           allowGuestDownload,
           allowGuestUpload,
           requireUploadFolder,
+          moderateUploads,
           uploadFolderHint,
+          uploadFolders,
+          restrictUploadFolders,
           name,
           description,
           allowedMimeTypes,
+          uploadOpensAt,
+          uploadClosesAt,
+          expiresAt,
         } = req.body;
         const updated = {
           ...project,
@@ -183,6 +225,12 @@ export const registerConfigRoutes = (router: express.Router) => {
           }
         }
 
+        if (moderatorPassword !== undefined) {
+          updated.auth.moderatorPasswordHash = moderatorPassword
+            ? await bcrypt.hash(moderatorPassword, 10)
+            : null;
+        }
+
         if (allowGuestDownload !== undefined) {
           if (allowGuestDownload && !updated.auth.guestPasswordHash) {
             return sendError(res, 400, {
@@ -202,6 +250,10 @@ export const registerConfigRoutes = (router: express.Router) => {
           updated.settings.requireUploadFolder = Boolean(requireUploadFolder);
         }
 
+        if (moderateUploads !== undefined) {
+          updated.settings.moderateUploads = moderateUploads;
+        }
+
         if (uploadFolderHint !== undefined) {
           updated.settings.uploadFolderHint =
             typeof uploadFolderHint === "string"
@@ -209,6 +261,22 @@ export const registerConfigRoutes = (router: express.Router) => {
               : uploadFolderHint;
         }
 
+        if (uploadFolders !== undefined) {
+          updated.settings.uploadFolders = uploadFolders;
+        }
+
+        if (restrictUploadFolders !== undefined) {
+          updated.settings.restrictUploadFolders = restrictUploadFolders;
+        }
+
+        if (updated.settings.restrictUploadFolders && !updated.settings.uploadFolders.length) {
+          return sendError(res, 400, {
+            message: "Restricted upload folders need at least one folder.",
+            errorKey: "INVALID_INPUT",
+            property: "uploadFolders",
+          });
+        }
+
         if (!updated.settings.allowGuestDownload && !updated.settings.allowGuestUpload) {
           return sendError(res, 400, {
             message: "Guest uploads or downloads must be enabled.",
@@ -221,11 +289,31 @@ export const registerConfigRoutes = (router: express.Router) => {
           updated.allowedMimeTypes = allowedMimeTypes.map((m) => m.trim());
         }
 
+        if (uploadOpensAt !== undefined) updated.uploadOpensAt = uploadOpensAt;
+        if (uploadClosesAt !== undefined) updated.uploadClosesAt = uploadClosesAt;
+        if (expiresAt !== undefined) updated.expiresAt = expiresAt;
+
+        if (!isValidUploadWindow(updated.uploadOpensAt, updated.uploadClosesAt)) {
+          return sendError(res, 400, {
+            message: "Uploads must close after they open.",
+            errorKey: "INVALID_INPUT",
+            property: "uploadClosesAt",
+          });
+        }
+
         await saveEvent(updated);
+        await recordAuditEntry(req, updated.eventId, {
+          action: "settingsChange",
+          // only the names, the body carries the new passwords in plain text
+          fields: Object.keys(req.body).filter(
+            (field) => req.body[field as keyof typeof req.body] !== undefined
+          ),
+        });
+        const usage = await getEventUsage(updated.eventId);
 
         return res
           .status(200)
-          .json({ ok: true, ...buildEventResponse(updated, req.user?.role ?? "admin") });
+          .json({ ok: true, ...buildEventResponse(updated, req.user?.role ?? "admin", usage) });
       } catch (error) {
         next(error);
       }
@@ -236,7 +324,7 @@ export const registerConfigRoutes = (router: express.Router) => {
     "/:eventId",
     validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
     loadEvent,
-    verifyAccess(["admin"]),
+    verifyAccess("event:manage"),
     async (
       req: ValidatedReq<{ params: typeof eventIdSchema }>,
       res: Response<{ message: string; ok: boolean } | ErrorResponse>,
@@ -246,6 +334,9 @@ export const registerConfigRoutes = (router: express.Router) => {
         const event = req.event!;
 
         await deleteEvent(event.eventId);
+        await removeAllResumableUploads(event.eventId);
+        clearPreviewJobs(event.eventId);
+        await removeEventPreviews(event.eventId);
         return res.status(200).json({ message: "Event deleted successfully.", ok: true });
       } catch (error) {
         next(error);
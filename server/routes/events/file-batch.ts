@@ -0,0 +1,36 @@
+import { FileRef } from "../../storage/types.js";
+import { BatchFilesResult } from "../../types.js";
+
+export const describeFile = ({ folder, filename }: FileRef) =>
+  folder ? `${folder}/${filename}` : filename;
+
+/**
+ * Applies a step to each file, files that fail are reported instead of aborting
+ * the rest of the batch.
+ * @param step Resolves with the reason when the file failed, null otherwise
+ */
+export const processFiles = async (
+  files: FileRef[],
+  step: (file: FileRef) => Promise<string | null>
+) => {
+  let processed = 0;
+  const failed: BatchFilesResult["failed"] = [];
+  for (const file of files) {
+    const reason = await step(file);
+    if (reason) {
+      failed.push({ file: describeFile(file), reason });
+    } else {
+      processed += 1;
+    }
+  }
+  return { processed, failed };
+};
+
+/** Groups the files by folder, so each folder gets one audit log entry. */
+export const groupByFolder = (files: FileRef[]) => {
+  const groups = new Map<string, string[]>();
+  for (const { folder, filename } of files) {
+    groups.set(folder, [...(groups.get(folder) ?? []), filename]);
+  }
+  return groups;
+};
@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { FILE_SORT_FIELDS, FileCursor, SORT_ORDERS } from "../../types.js";
+
+const fileCursorSchema = z.object({
+  sort: z.enum(FILE_SORT_FIELDS),
+  order: z.enum(SORT_ORDERS),
+  key: z.union([z.string(), z.number()]),
+  name: z.string(),
+  folder: z.string(),
+});
+
+/** Cursors are opaque to clients, they carry the position as base64url encoded JSON. */
+export const encodeFileCursor = (cursor: FileCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+export const decodeFileCursor = (value: string): FileCursor | null => {
+  try {
+    const json = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    const parsed = fileCursorSchema.safeParse(json);
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
@@ -1,45 +1,247 @@
 import express, { NextFunction, Response } from "express";
 import path from "node:path";
 import { storage } from "../../storage/index.js";
-import { parseFolder, isSafeFilename } from "../../utils/validation.js";
+import { parseFolder, isSafeFilename, matchesAllowedMimeType } from "../../utils/validation.js";
 import {
   ensureGuestDownloadsEnabled,
   ensureGuestUploadsEnabled,
   ensureUploadFolderRequired,
   loadEvent,
   verifyAccess,
+  verifyShareLink,
 } from "./middleware.js";
-import { upload, cleanupUploadedFilesFromRequest, cleanupUploadedFiles } from "./upload.js";
+import multer from "multer";
+import {
+  upload,
+  cleanupUploadedFilesFromRequest,
+  cleanupUploadedFiles,
+  UploadTooLargeError,
+} from "./upload.js";
 import {
   eventFileInFolderParamsSchema,
   eventFileParamsSchema,
   eventFolderParamsSchema,
   eventIdSchema,
+  listFilesQuerySchema,
   renameFolderBodySchema,
+  updateFileBodySchema,
+  UpdateFileBody,
   uploadFilesBodySchema,
   validateRequest,
   ValidatedReq,
 } from "./validators.js";
-import { DeleteFileResult, ErrorResponse, FileEntry } from "../../types.js";
+import { UPLOAD_MAX_FILE_SIZE_BYTES } from "../../config.js";
+import { FILE_LIST_MAX_PAGE_SIZE } from "../../constants.js";
+import {
+  DeleteFileResult,
+  ErrorResponse,
+  FileEntry,
+  FolderBreadcrumb,
+  UpdateFileResult,
+} from "../../types.js";
+import { buildBreadcrumbs, isWithinFolder } from "../../utils/folders.js";
 import { sendStorageError } from "./storage-response.js";
+import { encodeFileCursor } from "./file-cursor.js";
 import { sendError } from "../../utils/error-response.js";
+import { getEventQuota, isUploadModerated } from "../../services/events.js";
+import { invalidateFilePreviews, invalidateFolderPreviews } from "../../services/preview-cache.js";
+import { carryOverPreviews } from "../../services/previews.js";
+import { queuePreviewGeneration } from "../../services/preview-worker.js";
+import { ByteRange } from "../../storage/types.js";
+import { createFileEtag, isRangeFresh } from "../../utils/http-cache.js";
+import { logger } from "../../logger.js";
+import { recordAuditEntry } from "../../services/audit-log.js";
+import { removeFile } from "../../services/trash.js";
+import { isFileShared } from "../../services/shares.js";
+
+/**
+ * Streams a stored file with validators and byte ranges, so browsers can seek in videos,
+ * resume downloads and revalidate their cache with a 304.
+ */
+const sendStoredFile = async (
+  req: express.Request,
+  res: Response,
+  next: NextFunction,
+  file: { eventId: string; folder: string; filename: string }
+) => {
+  const infoResult = await storage.files.getFileInfo(file.eventId, file.folder, file.filename);
+  if (!infoResult.ok) {
+    return sendStorageError(res, infoResult.error);
+  }
+  const { size, lastModified } = infoResult.data;
+  const etag = createFileEtag(infoResult.data);
+
+  res.setHeader("Cache-Control", "public, max-age=86400");
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("ETag", etag);
+  res.setHeader("Last-Modified", lastModified.toUTCString());
+  res.type(path.extname(file.filename));
+
+  // compares If-None-Match / If-Modified-Since with the headers set above
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+
+  let range: ByteRange | undefined;
+  if (req.headers.range && isRangeFresh(req, etag, lastModified)) {
+    const ranges = req.range(size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader("Content-Range", `bytes */${size}`);
+      return sendError(res, 416, {
+        message: "Requested range not satisfiable.",
+        errorKey: "RANGE_NOT_SATISFIABLE",
+        property: "range",
+      });
+    }
+    // malformed headers and multiple ranges are answered with the whole file
+    if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+    }
+  }
+
+  const fileResult = await storage.files.getFileStream(
+    file.eventId,
+    file.folder,
+    file.filename,
+    range
+  );
+  if (!fileResult.ok) {
+    return sendStorageError(res, fileResult.error);
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.setHeader("Content-Length", size);
+  }
+  fileResult.data.stream.on("error", (err) => next(err));
+  fileResult.data.stream.pipe(res);
+};
+
+/**
+ * Renames a file and then moves it, as requested. Both steps dodge taken names with a _N suffix,
+ * so the response tells where the file ended up.
+ */
+const updateStoredFile = async (
+  req: express.Request,
+  res: Response<UpdateFileResult | ErrorResponse>,
+  file: { eventId: string; folder: string; filename: string },
+  changes: UpdateFileBody
+) => {
+  const { eventId, folder } = file;
+  const { name, to } = changes;
+  // the extension decides the content type the file is served with
+  if (
+    name !== undefined &&
+    path.extname(name).toLowerCase() !== path.extname(file.filename).toLowerCase()
+  ) {
+    return sendError(res, 400, {
+      message: "The file extension cannot be changed.",
+      errorKey: "INVALID_FILENAME",
+      property: "name",
+    });
+  }
+  const renaming = name !== undefined && name !== file.filename;
+  const moving = to !== undefined && to !== folder;
+  if (!renaming && !moving) {
+    return sendError(res, 400, {
+      message: "The file already has this name and folder.",
+      errorKey: "INVALID_INPUT",
+      property: name !== undefined ? "name" : "to",
+    });
+  }
+  // the token of a file link is signed for the name, it would stop working after the change
+  if (isFileShared(req.event!, folder, file.filename)) {
+    return sendError(res, 409, {
+      message: "The file is shared by a link, revoke the link first.",
+      errorKey: "FILE_SHARED",
+    });
+  }
+
+  const infoResult = await storage.files.getFileInfo(eventId, folder, file.filename);
+  if (!infoResult.ok) {
+    return sendStorageError(res, infoResult.error);
+  }
+  const source = { ...file, lastModified: infoResult.data.lastModified };
+
+  let filename = file.filename;
+  if (renaming) {
+    const renameResult = await storage.files.renameFile(eventId, folder, filename, name);
+    if (!renameResult.ok) {
+      return sendStorageError(res, renameResult.error);
+    }
+    await recordAuditEntry(req, eventId, {
+      action: "rename",
+      folder,
+      files: [filename],
+      to: renameResult.data.filename,
+    });
+    filename = renameResult.data.filename;
+  }
+
+  if (moving) {
+    const moveResult = await storage.files.moveFile(eventId, folder, filename, to);
+    if (!moveResult.ok) {
+      if (renaming) await carryOverPreviews(source, { folder, filename });
+      return sendStorageError(res, moveResult.error);
+    }
+    await recordAuditEntry(req, eventId, {
+      action: "move",
+      folder,
+      files: [filename],
+      to,
+      storedAs: [moveResult.data.filename],
+    });
+    filename = moveResult.data.filename;
+  }
+
+  const target = moving ? to : folder;
+  await carryOverPreviews(source, { folder: target, filename });
+  queuePreviewGeneration(eventId, target, [filename]);
+  logger.info("File updated", {
+    eventId,
+    folder,
+    filename: file.filename,
+    to: target,
+    name: filename,
+    by: req.user?.principal?.name ?? req.user?.role,
+  });
+  return res.status(200).json({ message: "File updated.", folder: target, filename });
+};
 
 export const registerFileRoutes = (router: express.Router) => {
   router.get(
     "/:eventId/files",
-    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    validateRequest(
+      { params: eventIdSchema, query: listFilesQuerySchema },
+      { errorKey: { params: "INVALID_EVENT_ID", query: "INVALID_INPUT" } }
+    ),
     loadEvent,
-    verifyAccess(["admin", "guest"]),
+    verifyShareLink("list"),
+    verifyAccess("files:list"),
     ensureGuestDownloadsEnabled,
     async (
       req: ValidatedReq<{
         params: typeof eventIdSchema;
+        query: typeof listFilesQuerySchema;
       }>,
-      res: Response<{ files: FileEntry[]; folders: string[]; folder: string } | ErrorResponse>,
+      res: Response<
+        | {
+            files: FileEntry[];
+            folders: string[];
+            folder: string;
+            breadcrumbs: FolderBreadcrumb[];
+            total: number;
+            nextCursor: string | null;
+          }
+        | ErrorResponse
+      >,
       next: NextFunction
     ) => {
       try {
-        const folder = parseFolder((req.query.folder as string) || "");
+        const folder = parseFolder(req.query.folder || "");
         if (folder === null) {
           return sendError(res, 400, {
             message: "Invalid folder name.",
@@ -50,13 +252,29 @@ export const registerFileRoutes = (router: express.Router) => {
 
         const event = req.event!;
 
-        const listResult = await storage.files.listFiles(event.eventId, folder);
+        const { recursive, sort, order, search, type, cursor, limit } = req.query;
+        const listResult = await storage.files.listFiles(event.eventId, folder, {
+          recursive: recursive === "true",
+          sort,
+          order,
+          search: search || undefined,
+          types: type,
+          after: cursor,
+          limit: limit ?? FILE_LIST_MAX_PAGE_SIZE,
+        });
         if (!listResult.ok) {
           return sendStorageError(res, listResult.error);
         }
-        const { files, folders } = listResult.data;
-
-        res.status(200).json({ files, folders, folder: folder || "" });
+        const { files, folders, total, nextCursor } = listResult.data;
+
+        res.status(200).json({
+          files,
+          folders,
+          folder,
+          breadcrumbs: buildBreadcrumbs(folder),
+          total,
+          nextCursor: nextCursor && encodeFileCursor(nextCursor),
+        });
       } catch (error) {
         next(error);
       }
@@ -88,12 +306,24 @@ export const registerFileRoutes = (router: express.Router) => {
     next: NextFunction
   ) => {
     (async () => {
-      try {
-        await cleanupUploadedFilesFromRequest(req).catch(() => {});
-      } finally {
-        // forward to the next error handler
-        next(err);
+      await cleanupUploadedFilesFromRequest(req).catch(() => {});
+
+      if (err instanceof UploadTooLargeError) {
+        return sendError(res, 413, {
+          message: err.message,
+          errorKey: "UPLOAD_TOO_LARGE",
+          additionalParams: { maxBytes: err.maxBytes },
+        });
       }
+      if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+        return sendError(res, 413, {
+          message: `File exceeds the maximum size of ${UPLOAD_MAX_FILE_SIZE_BYTES} bytes.`,
+          errorKey: "UPLOAD_TOO_LARGE",
+          additionalParams: { maxBytes: UPLOAD_MAX_FILE_SIZE_BYTES },
+        });
+      }
+      // forward to the next error handler
+      next(err);
     })();
   };
   router.post(
@@ -106,7 +336,7 @@ export const registerFileRoutes = (router: express.Router) => {
       { errorKey: { params: "INVALID_EVENT_ID", body: "INVALID_INPUT" } }
     ),
     loadEvent,
-    verifyAccess(["admin", "guest"]),
+    verifyAccess("files:upload"),
     ensureGuestUploadsEnabled,
 
     addFileUploadCleanupHook,
@@ -147,15 +377,7 @@ export const registerFileRoutes = (router: express.Router) => {
 
         const uploads = Array.isArray(req.files) ? req.files : [];
         const allowed = project.allowedMimeTypes || [];
-        const matchesMime = (mime: string) => {
-          if (!allowed.length) return true;
-          return allowed.some((allowedType) => {
-            if (!allowedType.includes("*")) return mime === allowedType;
-            const [allowedMain] = allowedType.split("/");
-            const [main] = mime.split("/");
-            return allowedMain && allowedMain === main;
-          });
-        };
+        const matchesMime = (mime: string) => matchesAllowedMimeType(allowed, mime);
 
         const accepted = uploads.filter((file) => matchesMime(file.mimetype || ""));
         const rejectedFiles = uploads.filter((file) => !matchesMime(file.mimetype || ""));
@@ -163,10 +385,27 @@ export const registerFileRoutes = (router: express.Router) => {
         // the rejected files are removed from the upload folder
         await cleanupUploadedFiles(rejectedFiles).catch(() => {});
 
-        const moveResult = await storage.files.moveUploadedFiles(project.eventId, folder, accepted);
+        const pending = isUploadModerated(project, req.user?.role);
+        const moveResult = await storage.files.moveUploadedFiles(
+          project.eventId,
+          folder,
+          accepted,
+          getEventQuota(project),
+          { pending }
+        );
         if (!moveResult.ok) {
           return sendStorageError(res, moveResult.error);
         }
+        // previews of pending uploads are created once they are approved
+        if (!pending) queuePreviewGeneration(project.eventId, folder, moveResult.data.files);
+        if (moveResult.data.files.length) {
+          await recordAuditEntry(req, project.eventId, {
+            action: "upload",
+            actor: req.body.from || null,
+            folder,
+            files: moveResult.data.files,
+          });
+        }
 
         return res.status(200).json({
           message: "Files uploaded successfully.",
@@ -180,7 +419,7 @@ export const registerFileRoutes = (router: express.Router) => {
         next(error);
       }
     },
-    // route-level error handler: cleans up uploaded files and forwards the error
+    // route-level error handler: cleans up uploaded files, maps size limit errors and forwards the rest
     ensureFileUploadsClearedOnError
   );
 
@@ -204,7 +443,7 @@ export const registerFileRoutes = (router: express.Router) => {
       }
     ),
     loadEvent,
-    verifyAccess(["admin"]),
+    verifyAccess("files:move"),
     async (
       req: ValidatedReq<{
         params: typeof eventFolderParamsSchema;
@@ -216,11 +455,21 @@ export const registerFileRoutes = (router: express.Router) => {
       try {
         const folder = req.params.folder;
         const to = req.body.to;
+        if (isWithinFolder(to, folder)) {
+          return sendError(res, 400, {
+            message: "A folder cannot be moved into itself.",
+            errorKey: "INVALID_FOLDER",
+            property: "to",
+          });
+        }
 
         const renameResult = await storage.files.renameFolder(req.params.eventId, folder, to);
         if (!renameResult.ok) {
           return sendStorageError(res, renameResult.error);
         }
+        await invalidateFolderPreviews(req.params.eventId, folder);
+        await invalidateFolderPreviews(req.params.eventId, to);
+        await recordAuditEntry(req, req.params.eventId, { action: "folderRename", folder, to });
 
         return res.status(200).json(renameResult.data);
       } catch (error) {
@@ -244,7 +493,8 @@ export const registerFileRoutes = (router: express.Router) => {
       }
     ),
     loadEvent,
-    verifyAccess(["admin", "guest"]),
+    verifyShareLink("download"),
+    verifyAccess("files:download"),
     ensureGuestDownloadsEnabled,
     async (
       req: ValidatedReq<{ params: typeof eventFileParamsSchema }>,
@@ -270,18 +520,11 @@ export const registerFileRoutes = (router: express.Router) => {
           });
         }
 
-        const fileResult = await storage.files.getFileStream(
-          req.params.eventId,
-          folder || "",
-          filename
-        );
-        if (!fileResult.ok) {
-          return sendStorageError(res, fileResult.error);
-        }
-        res.setHeader("Cache-Control", "public, max-age=86400");
-        res.type(path.extname(filename));
-        fileResult.data.stream.on("error", (err) => next(err));
-        fileResult.data.stream.pipe(res);
+        await sendStoredFile(req, res, next, {
+          eventId: req.params.eventId,
+          folder: folder || "",
+          filename,
+        });
       } catch (error) {
         next(error);
       }
@@ -304,7 +547,8 @@ export const registerFileRoutes = (router: express.Router) => {
       }
     ),
     loadEvent,
-    verifyAccess(["admin", "guest"]),
+    verifyShareLink("download"),
+    verifyAccess("files:download"),
     ensureGuestDownloadsEnabled,
     async (
       req: ValidatedReq<{ params: typeof eventFileInFolderParamsSchema }>,
@@ -330,15 +574,112 @@ export const registerFileRoutes = (router: express.Router) => {
           });
         }
 
-        const fileResult = await storage.files.getFileStream(req.params.eventId, folder, filename);
-        if (!fileResult.ok) {
-          return sendStorageError(res, fileResult.error);
+        await sendStoredFile(req, res, next, { eventId: req.params.eventId, folder, filename });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.patch(
+    "/:eventId/files/:folder/:filename",
+    validateRequest(
+      { params: eventFileInFolderParamsSchema, body: updateFileBodySchema },
+      {
+        errorKey: ({ part, issue, defaultKey }) => {
+          const field = issue.path[0];
+          if (field === "eventId") return "INVALID_EVENT_ID";
+          if (field === "folder" || field === "to") return "INVALID_FOLDER";
+          if (field === "filename" || (part === "body" && field === "name")) {
+            return "INVALID_FILENAME";
+          }
+          return defaultKey;
+        },
+      }
+    ),
+    loadEvent,
+    verifyAccess("files:move"),
+    async (
+      req: ValidatedReq<{
+        params: typeof eventFileInFolderParamsSchema;
+        body: typeof updateFileBodySchema;
+      }>,
+      res: Response<UpdateFileResult | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const filename = req.params.filename || "";
+        if (!isSafeFilename(filename)) {
+          return sendError(res, 400, {
+            message: "Invalid file name.",
+            errorKey: "INVALID_FILENAME",
+            property: "filename",
+          });
+        }
+
+        await updateStoredFile(
+          req,
+          res,
+          { eventId: req.params.eventId, folder: req.params.folder, filename },
+          req.body
+        );
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.patch(
+    "/:eventId/files/:filename",
+    validateRequest(
+      { params: eventFileParamsSchema, body: updateFileBodySchema },
+      {
+        errorKey: ({ part, issue, defaultKey }) => {
+          const field = issue.path[0];
+          if (field === "eventId") return "INVALID_EVENT_ID";
+          if (field === "to") return "INVALID_FOLDER";
+          if (field === "filename" || (part === "body" && field === "name")) {
+            return "INVALID_FILENAME";
+          }
+          return defaultKey;
+        },
+      }
+    ),
+    loadEvent,
+    verifyAccess("files:move"),
+    async (
+      req: ValidatedReq<{
+        params: typeof eventFileParamsSchema;
+        body: typeof updateFileBodySchema;
+      }>,
+      res: Response<UpdateFileResult | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const folder = parseFolder((req.query.folder as string) || "");
+        if (folder === null) {
+          return sendError(res, 400, {
+            message: "Invalid folder name.",
+            errorKey: "INVALID_FOLDER",
+            property: "folder",
+          });
         }
 
-        res.setHeader("Cache-Control", "public, max-age=86400");
-        res.type(path.extname(filename));
-        fileResult.data.stream.on("error", (err) => next(err));
-        fileResult.data.stream.pipe(res);
+        const filename = req.params.filename || "";
+        if (!isSafeFilename(filename)) {
+          return sendError(res, 400, {
+            message: "Invalid file name.",
+            errorKey: "INVALID_FILENAME",
+            property: "filename",
+          });
+        }
+
+        await updateStoredFile(
+          req,
+          res,
+          { eventId: req.params.eventId, folder, filename },
+          req.body
+        );
       } catch (error) {
         next(error);
       }
@@ -361,7 +702,7 @@ export const registerFileRoutes = (router: express.Router) => {
       }
     ),
     loadEvent,
-    verifyAccess(["admin"]),
+    verifyAccess("files:delete"),
     async (
       req: ValidatedReq<{ params: typeof eventFileInFolderParamsSchema }>,
       res: Response<DeleteFileResult | ErrorResponse>,
@@ -386,10 +727,22 @@ export const registerFileRoutes = (router: express.Router) => {
           });
         }
 
-        const deleteResult = await storage.files.deleteFile(req.params.eventId, folder, filename);
+        const deleteResult = await removeFile(req, req.params.eventId, folder, filename);
         if (!deleteResult.ok) {
           return sendStorageError(res, deleteResult.error);
         }
+        await invalidateFilePreviews(req.params.eventId, folder, filename);
+        await recordAuditEntry(req, req.params.eventId, {
+          action: "delete",
+          folder,
+          files: [filename],
+        });
+        logger.info("File deleted", {
+          eventId: req.params.eventId,
+          folder,
+          filename,
+          by: req.user?.principal?.name ?? req.user?.role,
+        });
         return res.status(200).json(deleteResult.data);
       } catch (error) {
         next(error);
@@ -412,7 +765,7 @@ export const registerFileRoutes = (router: express.Router) => {
       }
     ),
     loadEvent,
-    verifyAccess(["admin"]),
+    verifyAccess("files:delete"),
     async (
       req: ValidatedReq<{ params: typeof eventFileParamsSchema }>,
       res: Response<DeleteFileResult | ErrorResponse>,
@@ -437,14 +790,22 @@ export const registerFileRoutes = (router: express.Router) => {
           });
         }
 
-        const deleteResult = await storage.files.deleteFile(
-          req.params.eventId,
-          folder || "",
-          filename
-        );
+        const deleteResult = await removeFile(req, req.params.eventId, folder || "", filename);
         if (!deleteResult.ok) {
           return sendStorageError(res, deleteResult.error);
         }
+        await invalidateFilePreviews(req.params.eventId, folder || "", filename);
+        await recordAuditEntry(req, req.params.eventId, {
+          action: "delete",
+          folder: folder || "",
+          files: [filename],
+        });
+        logger.info("File deleted", {
+          eventId: req.params.eventId,
+          folder: folder || "",
+          filename,
+          by: req.user?.principal?.name ?? req.user?.role,
+        });
         return res.status(200).json(deleteResult.data);
       } catch (error) {
         next(error);
@@ -456,7 +817,8 @@ export const registerFileRoutes = (router: express.Router) => {
     "/:eventId/files.zip",
     validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
     loadEvent,
-    verifyAccess(["admin", "guest"]),
+    verifyShareLink("zip"),
+    verifyAccess("files:download"),
     ensureGuestDownloadsEnabled,
     async (
       req: ValidatedReq<{ params: typeof eventIdSchema }>,
@@ -0,0 +1,159 @@
+import express, { NextFunction, Response } from "express";
+import type { ZodIssue } from "zod";
+import { logger } from "../../logger.js";
+import { recordAuditEntry } from "../../services/audit-log.js";
+import { invalidateFolderPreviews } from "../../services/preview-cache.js";
+import { queuePreviewGeneration } from "../../services/preview-worker.js";
+import { removeFile } from "../../services/trash.js";
+import { storage } from "../../storage/index.js";
+import { DeleteFolderResult, ErrorKey, ErrorResponse, MergeFolderResult } from "../../types.js";
+import { sendError } from "../../utils/error-response.js";
+import { isWithinFolder } from "../../utils/folders.js";
+import { groupByFolder } from "./file-batch.js";
+import { loadEvent, verifyAccess } from "./middleware.js";
+import { sendStorageError } from "./storage-response.js";
+import {
+  createFolderBodySchema,
+  eventFolderParamsSchema,
+  eventIdSchema,
+  mergeFolderBodySchema,
+  validateRequest,
+  ValidatedReq,
+} from "./validators.js";
+
+// besides the event id every field of these routes is a folder path
+const folderErrorKey = ({ issue }: { issue: ZodIssue }): ErrorKey =>
+  issue.path[0] === "eventId" ? "INVALID_EVENT_ID" : "INVALID_FOLDER";
+
+export const registerFolderRoutes = (router: express.Router) => {
+  router.post(
+    "/:eventId/folders",
+    validateRequest(
+      { params: eventIdSchema, body: createFolderBodySchema },
+      { errorKey: folderErrorKey }
+    ),
+    loadEvent,
+    verifyAccess("event:manage"),
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema; body: typeof createFolderBodySchema }>,
+      res: Response<{ success: true } | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const eventId = req.event!.eventId;
+        const { folder } = req.body;
+        const result = await storage.files.createFolder(eventId, folder);
+        if (!result.ok) {
+          return sendStorageError(res, result.error);
+        }
+        await recordAuditEntry(req, eventId, { action: "folderCreate", folder });
+        return res.status(200).json(result.data);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/:eventId/folders/:folder/merge",
+    validateRequest(
+      { params: eventFolderParamsSchema, body: mergeFolderBodySchema },
+      { errorKey: folderErrorKey }
+    ),
+    loadEvent,
+    verifyAccess("event:manage"),
+    async (
+      req: ValidatedReq<{
+        params: typeof eventFolderParamsSchema;
+        body: typeof mergeFolderBodySchema;
+      }>,
+      res: Response<MergeFolderResult | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const eventId = req.event!.eventId;
+        const { folder } = req.params;
+        const { into } = req.body;
+        if (isWithinFolder(into, folder)) {
+          return sendError(res, 400, {
+            message: "A folder cannot be merged into itself.",
+            errorKey: "INVALID_FOLDER",
+            property: "into",
+          });
+        }
+
+        const result = await storage.files.mergeFolder(eventId, folder, into);
+        if (!result.ok) {
+          return sendStorageError(res, result.error);
+        }
+        const { moved, renamed } = result.data;
+        await invalidateFolderPreviews(eventId, folder);
+        for (const [target, filenames] of groupByFolder(moved)) {
+          queuePreviewGeneration(eventId, target, filenames);
+        }
+        await recordAuditEntry(req, eventId, { action: "folderMerge", folder, to: into });
+        logger.info("Folder merged", { eventId, folder, into, count: moved.length, renamed });
+        return res.status(200).json({ message: "Folders merged.", moved: moved.length, renamed });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.delete(
+    "/:eventId/folders/:folder",
+    validateRequest({ params: eventFolderParamsSchema }, { errorKey: folderErrorKey }),
+    loadEvent,
+    verifyAccess("event:manage"),
+    async (
+      req: ValidatedReq<{ params: typeof eventFolderParamsSchema }>,
+      res: Response<DeleteFolderResult | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const eventId = req.event!.eventId;
+        const { folder } = req.params;
+        // checked up front, a remote folder is gone once its files are in the trash
+        const existsResult = await storage.files.folderExists(eventId, folder);
+        if (!existsResult.ok) {
+          return sendStorageError(res, existsResult.error);
+        }
+        if (!existsResult.data) {
+          return sendError(res, 404, {
+            message: "Folder not found.",
+            errorKey: "FILE_NOT_FOUND",
+            property: "folder",
+          });
+        }
+        const listResult = await storage.files.listFiles(eventId, folder, { recursive: true });
+        if (!listResult.ok) {
+          return sendStorageError(res, listResult.error);
+        }
+
+        // files go through the trash one by one, whatever is left afterwards are empty folders
+        const { files } = listResult.data;
+        for (const file of files) {
+          const removeResult = await removeFile(req, eventId, file.folder!, file.name);
+          if (!removeResult.ok) {
+            return sendStorageError(res, removeResult.error);
+          }
+        }
+        const deleteResult = await storage.files.deleteFolder(eventId, folder);
+        if (!deleteResult.ok) {
+          return sendStorageError(res, deleteResult.error);
+        }
+        await invalidateFolderPreviews(eventId, folder);
+        await recordAuditEntry(req, eventId, { action: "folderDelete", folder });
+        logger.info("Folder deleted", {
+          eventId,
+          folder,
+          count: files.length,
+          by: req.user?.principal?.name ?? req.user?.role,
+        });
+        return res.status(200).json({ message: "Folder deleted.", deleted: files.length });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
@@ -1,15 +1,35 @@
 ﻿import express from "express";
+import { registerAuditRoutes } from "./audit-routes.js";
+import { registerBatchRoutes } from "./batch-routes.js";
+import { registerCoHostRoutes } from "./co-host-routes.js";
 import { registerConfigRoutes } from "./config-routes.js";
 import { registerFileRoutes } from "./file-routes.js";
+import { registerFolderRoutes } from "./folder-routes.js";
+import { registerPasswordRoutes } from "./password-routes.js";
+import { registerPendingRoutes } from "./pending-routes.js";
 import { registerPreviewRoutes } from "./preview-routes.js";
+import { registerResumableUploadRoutes } from "./resumable-upload-routes.js";
+import { registerSessionRoutes } from "./session-routes.js";
+import { registerShareRoutes } from "./share-routes.js";
+import { registerTrashRoutes } from "./trash-routes.js";
 
 export const registerEventRoutes = (app: express.Application) => {
   const router = express.Router();
 
   registerConfigRoutes(router);
+  registerSessionRoutes(router);
+  registerPasswordRoutes(router);
+  registerCoHostRoutes(router);
 
   registerPreviewRoutes(router);
   registerFileRoutes(router);
+  registerFolderRoutes(router);
+  registerBatchRoutes(router);
+  registerResumableUploadRoutes(router);
+  registerPendingRoutes(router);
+  registerShareRoutes(router);
+  registerTrashRoutes(router);
+  registerAuditRoutes(router);
 
   app.use("/api/events", router);
 };
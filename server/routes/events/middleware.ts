@@ -1,21 +1,38 @@
 import { RequestHandler, Response } from "express";
 import {
+  AdminPrincipal,
   AllowedUserRole,
   AuthCredentials,
   hasAdminAccess,
   hasGuestAccess,
+  hasModeratorAccess,
+  OWNER_PRINCIPAL,
+  OWNER_USER,
   parseBasicAuth,
 } from "../../services/auth.js";
-import { getEvent } from "../../services/events.js";
-import { ErrorResponse, EventConfig } from "../../types.js";
+import { findCoHostById, findCoHostByName } from "../../services/co-hosts.js";
+import { getEvent, getUploadWindowState, isEventExpired } from "../../services/events.js";
+import { ErrorResponse, EventConfig, ShareLink } from "../../types.js";
 import { DOMAIN } from "../../config.js";
-import { isAuthBlocked, recordAuthFailure } from "../../services/auth-rate-limit.js";
+import { isAuthBlocked } from "../../services/auth-rate-limit.js";
+import { recordLoginFailure } from "../../services/audit-log.js";
+import { hasPermission, Permission, rolesWithPermission } from "../../services/permissions.js";
+import { parseBearerToken, Session, verifySessionToken } from "../../services/sessions.js";
+import {
+  findShareLink,
+  isShareLinkExpired,
+  shareLinkCovers,
+  ShareScope,
+} from "../../services/shares.js";
 import { sendError } from "../../utils/error-response.js";
+import { parseFolder } from "../../utils/validation.js";
 
 declare module "express-serve-static-core" {
   interface Request {
     event?: EventConfig;
-    user?: { role: AllowedUserRole };
+    /** principal is set for admins, to tell the owner and co-hosts apart. */
+    user?: { role: AllowedUserRole; session?: Session; principal?: AdminPrincipal };
+    share?: ShareLink;
   }
 }
 
@@ -29,6 +46,21 @@ export const loadEvent: EventRequest = async (req, res, next) => {
       res.header("X-Domain", DOMAIN);
       return sendError(res, 404, { message: "Event not found.", errorKey: "EVENT_NOT_FOUND" });
     }
+    if (event.locked) {
+      return sendError(res, 423, {
+        message: "This event has been locked by the operator.",
+        errorKey: "EVENT_LOCKED",
+        eventId: event.eventId,
+      });
+    }
+    // expired events stay closed until the sweeper archives or deletes them
+    if (isEventExpired(event)) {
+      return sendError(res, 410, {
+        message: "This event has expired.",
+        errorKey: "EVENT_EXPIRED",
+        eventId: event.eventId,
+      });
+    }
     req.event = event;
     next();
   } catch (error) {
@@ -36,9 +68,70 @@ export const loadEvent: EventRequest = async (req, res, next) => {
   }
 };
 
+/**
+ * Grants access through the share query parameter when it carries a valid share link for the
+ * requested file or folder. Requests without one are left to verifyAccess.
+ */
+export const verifyShareLink = (scope: ShareScope): EventRequest => {
+  return (req, res, next) => {
+    const token = typeof req.query.share === "string" ? req.query.share : "";
+    if (!token) return next();
+
+    const event = req.event;
+    if (!event) {
+      return sendError(res, 500, {
+        message: "Event context missing.",
+        errorKey: "EVENT_CONTEXT_MISSING",
+      });
+    }
+
+    const share = findShareLink(event, token);
+    if (share && isShareLinkExpired(share)) {
+      return sendError(res, 410, {
+        message: "This share link has expired.",
+        errorKey: "SHARE_LINK_EXPIRED",
+        eventId: event.eventId,
+      });
+    }
+
+    // files in folders are addressed by path, the other routes take the folder as query
+    const params = req.params as { folder?: string; filename?: string };
+    const rawFolder =
+      params.folder ?? (typeof req.query.folder === "string" ? req.query.folder : "");
+    const folder = parseFolder(rawFolder);
+    if (
+      !share ||
+      folder === null ||
+      !shareLinkCovers(share, scope, { folder, filename: params.filename })
+    ) {
+      return sendError(res, 403, {
+        message: "This share link is invalid or was revoked.",
+        errorKey: "SHARE_LINK_INVALID",
+        eventId: event.eventId,
+      });
+    }
+
+    req.share = share;
+    return next();
+  };
+};
+
+const getSessionPrincipal = (event: EventConfig, session: Session) => {
+  if (session.role !== "admin") return undefined;
+  if (!session.coHostId) return OWNER_PRINCIPAL;
+  // verifySessionToken already rejects sessions of removed co-hosts
+  const coHost = findCoHostById(event, session.coHostId);
+  return coHost ? { name: coHost.name, coHostId: coHost.coHostId } : undefined;
+};
+
+/**
+ * Lets requests through whose session or Basic credentials belong to a role holding the
+ * permission. Valid credentials of a role without it get a 403, wrong ones a 401.
+ */
 export const verifyAccess = (
-  allowedUsers: AllowedUserRole[]
+  permission: Permission
 ): RequestHandler<{ eventId?: string }, ErrorResponse> => {
+  const allowedUsers = rolesWithPermission(permission);
   return async (req, res: Response<ErrorResponse>, next) => {
     try {
       const event = req.event;
@@ -49,6 +142,32 @@ export const verifyAccess = (
         });
       }
 
+      // already granted by verifyShareLink, which only sits in front of read-only routes
+      if (req.share) return next();
+
+      const bearerToken = parseBearerToken(req);
+      if (bearerToken) {
+        const session = verifySessionToken(bearerToken, event);
+        if (session && hasPermission(session.role, permission)) {
+          req.user = {
+            role: session.role,
+            session,
+            principal: getSessionPrincipal(event, session),
+          };
+          return next();
+        }
+        // like requests without credentials, guests of unsecured events need no valid session
+        if (allowedUsers.includes("guest") && !event.auth.guestPasswordHash) {
+          req.user = { role: "guest" };
+          return next();
+        }
+        return sendError(res, session ? 403 : 401, {
+          message: session ? "Authorization required." : "Session expired or invalid.",
+          errorKey: "AUTHORIZATION_REQUIRED",
+          eventId: event.eventId,
+        });
+      }
+
       const credentials: AuthCredentials = parseBasicAuth(req);
       const hasAuthHeader = Boolean(req.headers.authorization);
       if (hasAuthHeader && credentials.user) {
@@ -64,16 +183,33 @@ export const verifyAccess = (
         }
       }
 
+      if (credentials.user === "moderator") {
+        const granted = await hasModeratorAccess(req, event, credentials);
+        if (granted && allowedUsers.includes("moderator")) {
+          req.user = { role: "moderator" };
+          return next();
+        }
+        if (!granted && hasAuthHeader) {
+          await recordLoginFailure(req, event.eventId, credentials.user);
+        }
+        return sendError(res, granted ? 403 : 401, {
+          message: "Authorization required.",
+          errorKey: "AUTHORIZATION_REQUIRED",
+          eventId: event.eventId,
+        });
+      }
+
       const adminAllowed = allowedUsers.includes("admin");
       const guestAllowed = allowedUsers.includes("guest");
 
       if (adminAllowed) {
-        if (await hasAdminAccess(req, event, credentials)) {
-          req.user = { role: "admin" };
+        const principal = await hasAdminAccess(req, event, credentials);
+        if (principal) {
+          req.user = { role: "admin", principal };
           return next();
-        } else if (credentials.user == "admin") {
+        } else if (credentials.user == OWNER_USER || findCoHostByName(event, credentials.user)) {
           if (hasAuthHeader) {
-            recordAuthFailure(req, event.eventId, "admin");
+            await recordLoginFailure(req, event.eventId, credentials.user);
           }
           return sendError(res, 401, {
             message: "Authorization required.",
@@ -99,7 +235,7 @@ export const verifyAccess = (
       }
 
       if (hasAuthHeader && credentials.user) {
-        recordAuthFailure(req, event.eventId, credentials.user);
+        await recordLoginFailure(req, event.eventId, credentials.user);
       }
 
       return sendError(res, 403, {
@@ -113,6 +249,18 @@ export const verifyAccess = (
   };
 };
 
+/** Lets only the event owner through, co-hosts cannot manage admins or the owner password. */
+export const verifyOwner: EventRequest = (req, res, next) => {
+  if (req.user?.role === "admin" && req.user.principal && !req.user.principal.coHostId) {
+    return next();
+  }
+  return sendError(res, 403, {
+    message: "Only the event owner can do this.",
+    errorKey: "OWNER_ACCESS_REQUIRED",
+    eventId: req.event?.eventId,
+  });
+};
+
 export const ensureGuestDownloadsEnabled: RequestHandler<{ eventId?: string }, ErrorResponse> = (
   req,
   res,
@@ -163,6 +311,19 @@ export const ensureGuestUploadsEnabled: RequestHandler<{ eventId?: string }, Err
         eventId: event.eventId,
       });
     }
+
+    const windowState = getUploadWindowState(event);
+    if (windowState !== "open") {
+      return sendError(res, 403, {
+        message: windowState === "notYetOpen" ? "Uploads are not open yet." : "Uploads are closed.",
+        errorKey: "UPLOADS_CLOSED",
+        eventId: event.eventId,
+        additionalParams: {
+          ...(event.uploadOpensAt ? { uploadOpensAt: event.uploadOpensAt } : {}),
+          ...(event.uploadClosesAt ? { uploadClosesAt: event.uploadClosesAt } : {}),
+        },
+      });
+    }
   }
 
   return next();
@@ -181,15 +342,23 @@ export const ensureUploadFolderRequired: RequestHandler<{ eventId?: string }, Er
     });
   }
 
-  if (event.settings.requireUploadFolder) {
-    const rawFolder = typeof req.body?.from === "string" ? req.body.from.trim() : "";
-    if (!rawFolder) {
-      return sendError(res, 400, {
-        message: "Upload folder is required.",
-        errorKey: "UPLOAD_FOLDER_REQUIRED",
-        property: "from",
-      });
-    }
+  const rawFolder = typeof req.body?.from === "string" ? req.body.from.trim() : "";
+  if (event.settings.requireUploadFolder && !rawFolder) {
+    return sendError(res, 400, {
+      message: "Upload folder is required.",
+      errorKey: "UPLOAD_FOLDER_REQUIRED",
+      property: "from",
+    });
+  }
+
+  // from is already normalized by the body validation, like the stored folders
+  const { uploadFolders, restrictUploadFolders } = event.settings;
+  if (restrictUploadFolders && rawFolder && !uploadFolders.includes(rawFolder)) {
+    return sendError(res, 400, {
+      message: "Uploads are only allowed into the predefined folders.",
+      errorKey: "UPLOAD_FOLDER_NOT_ALLOWED",
+      property: "from",
+    });
   }
 
   return next();
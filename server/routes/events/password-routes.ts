@@ -0,0 +1,139 @@
+import express, { NextFunction, Response } from "express";
+import {
+  generateRecoveryCode,
+  hasAdminAccess,
+  hasValidRecoveryCode,
+  OWNER_USER,
+} from "../../services/auth.js";
+import { isAuthBlocked } from "../../services/auth-rate-limit.js";
+import { recordLoginFailure } from "../../services/audit-log.js";
+import { changeAdminPassword, replaceRecoveryCode } from "../../services/events.js";
+import { createSessionToken } from "../../services/sessions.js";
+import { ErrorResponse, EventConfig, RecoverAdminResponse, SessionResponse } from "../../types.js";
+import { sendError } from "../../utils/error-response.js";
+import { loadEvent, verifyAccess, verifyOwner } from "./middleware.js";
+import {
+  changeAdminPasswordBodySchema,
+  eventIdSchema,
+  recoverAdminBodySchema,
+  validateRequest,
+  ValidatedReq,
+} from "./validators.js";
+
+// recovery attempts are limited separately from admin logins of the same event
+const RECOVERY_RATE_LIMIT_USER = "recovery";
+
+const sendRateLimited = (res: Response<ErrorResponse>, eventId: string, retryAfter: number) => {
+  res.setHeader("Retry-After", String(retryAfter));
+  return sendError(res, 429, {
+    message: "Too many failed authentication attempts. Please wait and try again.",
+    errorKey: "RATE_LIMITED",
+    eventId,
+    additionalParams: { retryAfterSeconds: retryAfter },
+  });
+};
+
+const buildAdminSession = (event: EventConfig): SessionResponse => {
+  const { token, session } = createSessionToken(event, "admin");
+  return { token, role: session.role, expiresAt: new Date(session.expiresAt).toISOString() };
+};
+
+export const registerPasswordRoutes = (router: express.Router) => {
+  router.post(
+    "/:eventId/admin-password",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    validateRequest({ body: changeAdminPasswordBodySchema }, { errorKey: "INVALID_INPUT" }),
+    loadEvent,
+    verifyAccess("event:manage"),
+    verifyOwner,
+    async (
+      req: ValidatedReq<{
+        params: typeof eventIdSchema;
+        body: typeof changeAdminPasswordBodySchema;
+      }>,
+      res: Response<SessionResponse | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const event = req.event!;
+        const blocked = isAuthBlocked(req, event.eventId, "admin");
+        if (blocked.blocked) return sendRateLimited(res, event.eventId, blocked.retryAfter);
+
+        const granted = await hasAdminAccess(req, event, {
+          user: OWNER_USER,
+          password: req.body.currentPassword,
+        });
+        if (!granted) {
+          await recordLoginFailure(req, event.eventId, "admin");
+          return sendError(res, 400, {
+            message: "The current password is wrong.",
+            errorKey: "WRONG_CURRENT_PASSWORD",
+            property: "currentPassword",
+            eventId: event.eventId,
+          });
+        }
+
+        // the new password hash ends every existing admin session, this one included
+        const updated = await changeAdminPassword(event, req.body.newPassword);
+        return res.status(200).json(buildAdminSession(updated));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/:eventId/recover",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    validateRequest({ body: recoverAdminBodySchema }, { errorKey: "INVALID_INPUT" }),
+    loadEvent,
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema; body: typeof recoverAdminBodySchema }>,
+      res: Response<RecoverAdminResponse | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const event = req.event!;
+        const blocked = isAuthBlocked(req, event.eventId, RECOVERY_RATE_LIMIT_USER);
+        if (blocked.blocked) return sendRateLimited(res, event.eventId, blocked.retryAfter);
+
+        if (!(await hasValidRecoveryCode(event, req.body.recoveryCode))) {
+          await recordLoginFailure(req, event.eventId, RECOVERY_RATE_LIMIT_USER);
+          return sendError(res, 401, {
+            message: "Invalid recovery code.",
+            errorKey: "INVALID_RECOVERY_CODE",
+            property: "recoveryCode",
+            eventId: event.eventId,
+          });
+        }
+
+        const recoveryCode = generateRecoveryCode();
+        const updated = await changeAdminPassword(event, req.body.newPassword, recoveryCode);
+        return res.status(200).json({ ...buildAdminSession(updated), recoveryCode });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/:eventId/recovery-code",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    loadEvent,
+    verifyAccess("event:manage"),
+    verifyOwner,
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema }>,
+      res: Response<{ recoveryCode: string } | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const recoveryCode = generateRecoveryCode();
+        await replaceRecoveryCode(req.event!, recoveryCode);
+        return res.status(200).json({ recoveryCode });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
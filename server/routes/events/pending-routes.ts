@@ -0,0 +1,188 @@
+import path from "node:path";
+import express, { NextFunction, Response } from "express";
+import { logger } from "../../logger.js";
+import { recordAuditEntry } from "../../services/audit-log.js";
+import { queuePreviewGeneration } from "../../services/preview-worker.js";
+import { storage } from "../../storage/index.js";
+import { FileRef } from "../../storage/types.js";
+import { ErrorResponse, PendingFileEntry, ReviewPendingFilesResult } from "../../types.js";
+import { sendError } from "../../utils/error-response.js";
+import { parseFolder } from "../../utils/validation.js";
+import { groupByFolder, processFiles } from "./file-batch.js";
+import { loadEvent, verifyAccess } from "./middleware.js";
+import { sendStorageError } from "./storage-response.js";
+import {
+  eventFileParamsSchema,
+  eventIdSchema,
+  reviewPendingFilesBodySchema,
+  validateRequest,
+  ValidatedReq,
+} from "./validators.js";
+
+const validateReviewRequest = validateRequest(
+  { params: eventIdSchema, body: reviewPendingFilesBodySchema },
+  {
+    errorKey: ({ part, issue, defaultKey }) => {
+      if (part === "params") return "INVALID_EVENT_ID";
+      const field = issue.path[issue.path.length - 1];
+      if (field === "folder") return "INVALID_FOLDER";
+      if (field === "filename") return "INVALID_FILENAME";
+      return defaultKey;
+    },
+  }
+);
+
+export const registerPendingRoutes = (router: express.Router) => {
+  router.get(
+    "/:eventId/pending",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    loadEvent,
+    verifyAccess("files:review"),
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema }>,
+      res: Response<{ files: PendingFileEntry[] } | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const result = await storage.files.listPendingFiles(req.event!.eventId);
+        if (!result.ok) {
+          return sendStorageError(res, result.error);
+        }
+        return res.status(200).json({ files: result.data });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get(
+    "/:eventId/pending/:filename",
+    validateRequest(
+      { params: eventFileParamsSchema },
+      {
+        errorKey: ({ part, issue, defaultKey }) => {
+          if (part !== "params") return defaultKey;
+          const field = issue.path[0];
+          if (field === "eventId") return "INVALID_EVENT_ID";
+          if (field === "filename") return "INVALID_FILENAME";
+          return defaultKey;
+        },
+      }
+    ),
+    loadEvent,
+    verifyAccess("files:review"),
+    async (
+      req: ValidatedReq<{ params: typeof eventFileParamsSchema }>,
+      res: Response<ErrorResponse | Buffer>,
+      next: NextFunction
+    ) => {
+      try {
+        const folder = parseFolder((req.query.folder as string) || "");
+        if (folder === null) {
+          return sendError(res, 400, {
+            message: "Invalid folder name.",
+            errorKey: "INVALID_FOLDER",
+            property: "folder",
+          });
+        }
+
+        const fileResult = await storage.files.getPendingFileStream(
+          req.event!.eventId,
+          folder,
+          req.params.filename
+        );
+        if (!fileResult.ok) {
+          return sendStorageError(res, fileResult.error);
+        }
+        // unreviewed content must not end up in shared caches
+        res.setHeader("Cache-Control", "private, no-store");
+        res.setHeader("Content-Length", fileResult.data.size);
+        res.type(path.extname(req.params.filename));
+        fileResult.data.stream.on("error", (err) => next(err));
+        fileResult.data.stream.pipe(res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/:eventId/pending/approve",
+    validateReviewRequest,
+    loadEvent,
+    verifyAccess("files:review"),
+    async (
+      req: ValidatedReq<{
+        params: typeof eventIdSchema;
+        body: typeof reviewPendingFilesBodySchema;
+      }>,
+      res: Response<ReviewPendingFilesResult | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const eventId = req.event!.eventId;
+        const approved: FileRef[] = [];
+        const result = await processFiles(req.body.files, async ({ folder, filename }) => {
+          const approveResult = await storage.files.approvePendingFile(eventId, folder, filename);
+          if (!approveResult.ok) return approveResult.error.message;
+          queuePreviewGeneration(eventId, folder, [approveResult.data.filename]);
+          // the name it was stored under, a collision may have changed it
+          approved.push({ folder, filename: approveResult.data.filename });
+          return null;
+        });
+        for (const [folder, files] of groupByFolder(approved)) {
+          await recordAuditEntry(req, eventId, { action: "approve", folder, files });
+        }
+        logger.info("Pending uploads approved", {
+          eventId,
+          count: result.processed,
+          by: req.user?.principal?.name ?? req.user?.role,
+        });
+        return res.status(200).json({ message: "Files approved.", ...result });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/:eventId/pending/reject",
+    validateReviewRequest,
+    loadEvent,
+    verifyAccess("files:review"),
+    async (
+      req: ValidatedReq<{
+        params: typeof eventIdSchema;
+        body: typeof reviewPendingFilesBodySchema;
+      }>,
+      res: Response<ReviewPendingFilesResult | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const eventId = req.event!.eventId;
+        const rejected: FileRef[] = [];
+        const result = await processFiles(req.body.files, async (file) => {
+          const deleteResult = await storage.files.deletePendingFile(
+            eventId,
+            file.folder,
+            file.filename
+          );
+          if (!deleteResult.ok) return deleteResult.error.message;
+          rejected.push(file);
+          return null;
+        });
+        for (const [folder, files] of groupByFolder(rejected)) {
+          await recordAuditEntry(req, eventId, { action: "reject", folder, files });
+        }
+        logger.info("Pending uploads rejected", {
+          eventId,
+          count: result.processed,
+          by: req.user?.principal?.name ?? req.user?.role,
+        });
+        return res.status(200).json({ message: "Files rejected.", ...result });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
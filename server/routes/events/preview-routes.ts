@@ -1,18 +1,52 @@
 import express, { NextFunction, Response } from "express";
-import sharp from "sharp";
-import { ensureGuestDownloadsEnabled, loadEvent, verifyAccess } from "./middleware.js";
+import {
+  ensureGuestDownloadsEnabled,
+  loadEvent,
+  verifyAccess,
+  verifyShareLink,
+} from "./middleware.js";
 import {
   eventFileInFolderParamsSchema,
   eventFileParamsSchema,
+  eventIdSchema,
   validateRequest,
   ValidatedReq,
   previewQuerySchema,
+  videoClipQuerySchema,
 } from "./validators.js";
-import { ErrorResponse } from "../../types.js";
-import { logger } from "../../logger.js";
-import { storage } from "../../storage/index.js";
+import { ErrorResponse, PreviewJobStatus } from "../../types.js";
 import { sendStorageError } from "./storage-response.js";
-import { sendError } from "../../utils/error-response.js";
+import { getPreview } from "../../services/previews.js";
+import { getVideoClip, getVideoPoster } from "../../services/video-previews.js";
+import { VIDEO_CLIP_DEFAULT_SIZE } from "../../constants.js";
+import { getPreviewJobStatus } from "../../services/preview-worker.js";
+
+const validateFileParams = validateRequest(
+  { params: eventFileParamsSchema },
+  {
+    errorKey: ({ part, issue, defaultKey }) => {
+      if (part !== "params") return defaultKey;
+      const field = issue.path[0];
+      if (field === "eventId") return "INVALID_EVENT_ID";
+      if (field === "filename") return "INVALID_FILENAME";
+      return defaultKey;
+    },
+  }
+);
+
+const validateFolderFileParams = validateRequest(
+  { params: eventFileInFolderParamsSchema },
+  {
+    errorKey: ({ part, issue, defaultKey }) => {
+      if (part !== "params") return defaultKey;
+      const field = issue.path[0];
+      if (field === "eventId") return "INVALID_EVENT_ID";
+      if (field === "folder") return "INVALID_FOLDER";
+      if (field === "filename") return "INVALID_FILENAME";
+      return defaultKey;
+    },
+  }
+);
 
 export const registerPreviewRoutes = (router: express.Router) => {
   const handlePreview = async (
@@ -31,124 +65,203 @@ export const registerPreviewRoutes = (router: express.Router) => {
       const fit = req.query.fit;
       const format = req.query.format ?? "jpeg";
 
-      const lowerName = filename.toLowerCase();
-      const isImage =
-        lowerName.endsWith(".jpg") ||
-        lowerName.endsWith(".jpeg") ||
-        lowerName.endsWith(".png") ||
-        lowerName.endsWith(".webp");
-
-      if (!isImage) {
-        return sendError(res, 415, {
-          message: "Preview not available for this file type.",
-          errorKey: "UNSUPPORTED_FILE_TYPE",
-          property: "filename",
-        });
-      }
-
-      const fileResult = await storage.files.getFileBuffer(
-        req.params.eventId,
-        folderValue || "",
-        filename
+      // the format is detected from the content, undecodable files are answered with 415
+      const previewResult = await getPreview(
+        { eventId: req.params.eventId, folder: folderValue || "", filename },
+        {
+          width: width ?? undefined,
+          height: height ?? undefined,
+          fit: fit ?? "inside",
+          quality: req.query.q ?? 80,
+          format,
+        }
       );
-      if (!fileResult.ok) {
-        return sendStorageError(res, fileResult.error);
+      if (!previewResult.ok) {
+        return sendStorageError(res, previewResult.error);
       }
+      res.type(`image/${format}`);
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+      res.setHeader("X-Preview-Cache", previewResult.data.cacheHit ? "HIT" : "MISS");
+      return res.status(200).send(previewResult.data.buffer);
+    } catch (error) {
+      next(error);
+    }
+  };
 
-      try {
-        let pipeline = sharp(fileResult.data.buffer).rotate();
-        if (width || height) {
-          pipeline = pipeline.resize({
-            width: width ?? undefined,
-            height: height ?? undefined,
-            fit: fit ?? "inside",
-            withoutEnlargement: true,
-          });
-        }
+  router.get(
+    "/:eventId/files/:filename/preview",
+    validateFileParams,
+    loadEvent,
+    validateRequest({ query: previewQuerySchema }, { errorKey: "INVALID_INPUT" }),
+    verifyShareLink("download"),
+    verifyAccess("files:download"),
+    ensureGuestDownloadsEnabled,
+    async (
+      req: ValidatedReq<{ params: typeof eventFileParamsSchema }>,
+      res: Response<ErrorResponse | Buffer>,
+      next: NextFunction
+    ) => {
+      await handlePreview(req, res, next, "");
+    }
+  );
 
-        if (format === "jpeg") {
-          pipeline = pipeline.jpeg({ quality: req.query.q ?? 80 });
-          res.type("image/jpeg");
-        } else if (format === "webp") {
-          pipeline = pipeline.webp({ quality: req.query.q ?? 80 });
-          res.type("image/webp");
-        } else {
-          pipeline = pipeline.png();
-          res.type("image/png");
+  router.get(
+    "/:eventId/files/:folder/:filename/preview",
+    validateFolderFileParams,
+    loadEvent,
+    validateRequest({ query: previewQuerySchema }, { errorKey: "INVALID_INPUT" }),
+    verifyShareLink("download"),
+    verifyAccess("files:download"),
+    ensureGuestDownloadsEnabled,
+    async (
+      req: ValidatedReq<{ params: typeof eventFileInFolderParamsSchema }>,
+      res: Response<ErrorResponse | Buffer>,
+      next: NextFunction
+    ) => {
+      await handlePreview(req, res, next, req.params.folder || "");
+    }
+  );
+
+  const handleVideoPoster = async (
+    req: ValidatedReq<{
+      params: typeof eventFileParamsSchema | typeof eventFileInFolderParamsSchema;
+      query: typeof previewQuerySchema;
+    }>,
+    res: Response<ErrorResponse | Buffer>,
+    next: NextFunction,
+    folderValue: string
+  ) => {
+    try {
+      const format = req.query.format ?? "jpeg";
+      const posterResult = await getVideoPoster(
+        { eventId: req.params.eventId, folder: folderValue, filename: req.params.filename },
+        {
+          width: req.query.w ?? undefined,
+          height: req.query.h ?? undefined,
+          fit: req.query.fit ?? "inside",
+          quality: req.query.q ?? 80,
+          format,
         }
+      );
+      if (!posterResult.ok) {
+        return sendStorageError(res, posterResult.error);
+      }
+      res.type(`image/${format}`);
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+      res.setHeader("X-Preview-Cache", posterResult.data.cacheHit ? "HIT" : "MISS");
+      return res.status(200).send(posterResult.data.buffer);
+    } catch (error) {
+      next(error);
+    }
+  };
 
-        const buffer = await pipeline.toBuffer();
-        res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
-        return res.status(200).send(buffer);
-      } catch (err) {
-        logger.error(
-          "Error generating preview for file",
-          { eventId: req.params.eventId, folder: folderValue, filename },
-          err
-        );
-        return sendError(res, 400, {
-          message: "Preview not available for this file.",
-          errorKey: "INVALID_INPUT",
-          property: "filename",
-        });
+  const handleVideoClip = async (
+    req: ValidatedReq<{
+      params: typeof eventFileParamsSchema | typeof eventFileInFolderParamsSchema;
+      query: typeof videoClipQuerySchema;
+    }>,
+    res: Response<ErrorResponse | Buffer>,
+    next: NextFunction,
+    folderValue: string
+  ) => {
+    try {
+      const clipResult = await getVideoClip(
+        { eventId: req.params.eventId, folder: folderValue, filename: req.params.filename },
+        {
+          width: req.query.w ?? VIDEO_CLIP_DEFAULT_SIZE,
+          height: req.query.h ?? VIDEO_CLIP_DEFAULT_SIZE,
+        }
+      );
+      if (!clipResult.ok) {
+        return sendStorageError(res, clipResult.error);
       }
+      res.type("video/mp4");
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+      res.setHeader("X-Preview-Cache", clipResult.data.cacheHit ? "HIT" : "MISS");
+      return res.status(200).send(clipResult.data.buffer);
     } catch (error) {
       next(error);
     }
   };
 
   router.get(
-    "/:eventId/files/:filename/preview",
-    validateRequest(
-      { params: eventFileParamsSchema },
-      {
-        errorKey: ({ part, issue, defaultKey }) => {
-          if (part !== "params") return defaultKey;
-          const field = issue.path[0];
-          if (field === "eventId") return "INVALID_EVENT_ID";
-          if (field === "filename") return "INVALID_FILENAME";
-          return defaultKey;
-        },
-      }
-    ),
+    "/:eventId/files/:filename/poster",
+    validateFileParams,
     loadEvent,
     validateRequest({ query: previewQuerySchema }, { errorKey: "INVALID_INPUT" }),
-    verifyAccess(["admin", "guest"]),
+    verifyShareLink("download"),
+    verifyAccess("files:download"),
     ensureGuestDownloadsEnabled,
     async (
       req: ValidatedReq<{ params: typeof eventFileParamsSchema }>,
       res: Response<ErrorResponse | Buffer>,
       next: NextFunction
     ) => {
-      await handlePreview(req, res, next, "");
+      await handleVideoPoster(req, res, next, "");
     }
   );
 
   router.get(
-    "/:eventId/files/:folder/:filename/preview",
-    validateRequest(
-      { params: eventFileInFolderParamsSchema },
-      {
-        errorKey: ({ part, issue, defaultKey }) => {
-          if (part !== "params") return defaultKey;
-          const field = issue.path[0];
-          if (field === "eventId") return "INVALID_EVENT_ID";
-          if (field === "folder") return "INVALID_FOLDER";
-          if (field === "filename") return "INVALID_FILENAME";
-          return defaultKey;
-        },
-      }
-    ),
+    "/:eventId/files/:folder/:filename/poster",
+    validateFolderFileParams,
     loadEvent,
     validateRequest({ query: previewQuerySchema }, { errorKey: "INVALID_INPUT" }),
-    verifyAccess(["admin", "guest"]),
+    verifyShareLink("download"),
+    verifyAccess("files:download"),
     ensureGuestDownloadsEnabled,
     async (
       req: ValidatedReq<{ params: typeof eventFileInFolderParamsSchema }>,
       res: Response<ErrorResponse | Buffer>,
       next: NextFunction
     ) => {
-      await handlePreview(req, res, next, req.params.folder || "");
+      await handleVideoPoster(req, res, next, req.params.folder || "");
+    }
+  );
+
+  router.get(
+    "/:eventId/files/:filename/clip",
+    validateFileParams,
+    loadEvent,
+    validateRequest({ query: videoClipQuerySchema }, { errorKey: "INVALID_INPUT" }),
+    verifyShareLink("download"),
+    verifyAccess("files:download"),
+    ensureGuestDownloadsEnabled,
+    async (
+      req: ValidatedReq<{ params: typeof eventFileParamsSchema }>,
+      res: Response<ErrorResponse | Buffer>,
+      next: NextFunction
+    ) => {
+      await handleVideoClip(req, res, next, "");
+    }
+  );
+
+  router.get(
+    "/:eventId/files/:folder/:filename/clip",
+    validateFolderFileParams,
+    loadEvent,
+    validateRequest({ query: videoClipQuerySchema }, { errorKey: "INVALID_INPUT" }),
+    verifyShareLink("download"),
+    verifyAccess("files:download"),
+    ensureGuestDownloadsEnabled,
+    async (
+      req: ValidatedReq<{ params: typeof eventFileInFolderParamsSchema }>,
+      res: Response<ErrorResponse | Buffer>,
+      next: NextFunction
+    ) => {
+      await handleVideoClip(req, res, next, req.params.folder || "");
+    }
+  );
+
+  router.get(
+    "/:eventId/previews/status",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    loadEvent,
+    verifyAccess("event:manage"),
+    (
+      req: ValidatedReq<{ params: typeof eventIdSchema }>,
+      res: Response<PreviewJobStatus | ErrorResponse>
+    ) => {
+      return res.status(200).json(getPreviewJobStatus(req.params.eventId));
     }
   );
 };
@@ -1,26 +1,40 @@
 ﻿import { UPLOAD_MAX_FILE_SIZE_BYTES, UPLOAD_MAX_TOTAL_SIZE_BYTES } from "../../config.js";
-import { AccessLevel, EventConfig, EventConfigResponse } from "../../types.js";
+import { getEventQuota } from "../../services/events.js";
+import { AccessLevel, EventConfig, EventConfigResponse, StorageUsage } from "../../types.js";
 
+/** The usage is only passed for admins, everyone else gets the response without it. */
 export const buildEventResponse = (
   event: EventConfig,
-  accessLevel: AccessLevel = "unauthenticated"
+  accessLevel: AccessLevel = "unauthenticated",
+  usage?: StorageUsage
 ): EventConfigResponse => {
   const secured = Boolean(event.auth.guestPasswordHash);
   const allowGuestDownload = Boolean(event.settings.allowGuestDownload && secured);
   const allowGuestUpload = event.settings.allowGuestUpload ?? true;
+  const quota = getEventQuota(event);
   return {
     eventId: event.eventId,
     allowedMimeTypes: event.allowedMimeTypes || [],
     name: event.name,
     description: event.description || "",
     secured,
+    moderatorEnabled: Boolean(event.auth.moderatorPasswordHash),
     allowGuestDownload,
     allowGuestUpload,
     requireUploadFolder: Boolean(event.settings.requireUploadFolder),
     uploadFolderHint: event.settings.uploadFolderHint ?? null,
+    uploadFolders: event.settings.uploadFolders,
+    restrictUploadFolders: event.settings.restrictUploadFolders,
+    moderateUploads: event.settings.moderateUploads,
     accessLevel,
     uploadMaxFileSizeBytes: UPLOAD_MAX_FILE_SIZE_BYTES,
     uploadMaxTotalSizeBytes: UPLOAD_MAX_TOTAL_SIZE_BYTES,
+    ...(usage && { usedBytes: usage.usedBytes, usedFiles: usage.usedFiles }),
+    quotaBytes: quota.maxBytes,
+    quotaFiles: quota.maxFiles,
     createdAt: event.createdAt,
+    uploadOpensAt: event.uploadOpensAt,
+    uploadClosesAt: event.uploadClosesAt,
+    expiresAt: event.expiresAt,
   };
 };
@@ -0,0 +1,298 @@
+import express, { NextFunction, Response } from "express";
+import { UPLOAD_MAX_FILE_SIZE_BYTES, UPLOAD_MAX_TOTAL_SIZE_BYTES } from "../../config.js";
+import { storage } from "../../storage/index.js";
+import { getEventQuota, getEventUsage, isUploadModerated } from "../../services/events.js";
+import {
+  appendResumableUploadChunk,
+  createResumableUpload,
+  getResumableUpload,
+  removeResumableUpload,
+  toUploadedFile,
+  toUploadStatus,
+} from "../../services/resumable-uploads.js";
+import { queuePreviewGeneration } from "../../services/preview-worker.js";
+import { matchesAllowedMimeType, parseFolder } from "../../utils/validation.js";
+import { sendError } from "../../utils/error-response.js";
+import { logger } from "../../logger.js";
+import { recordAuditEntry } from "../../services/audit-log.js";
+import {
+  ensureGuestUploadsEnabled,
+  ensureUploadFolderRequired,
+  loadEvent,
+  verifyAccess,
+} from "./middleware.js";
+import {
+  createResumableUploadBodySchema,
+  eventIdSchema,
+  resumableUploadParamsSchema,
+  validateRequest,
+  ValidatedReq,
+} from "./validators.js";
+import { sendStorageError } from "./storage-response.js";
+import { DeleteFileResult, ErrorResponse, ResumableUploadStatus } from "../../types.js";
+
+const CHUNK_CONTENT_TYPE = "application/offset+octet-stream";
+
+const setOffsetHeaders = (res: Response, status: ResumableUploadStatus) => {
+  res.setHeader("Upload-Offset", String(status.offset));
+  res.setHeader("Upload-Length", String(status.size));
+  res.setHeader("Cache-Control", "no-store");
+};
+
+export const registerResumableUploadRoutes = (router: express.Router) => {
+  router.post(
+    "/:eventId/uploads",
+    validateRequest(
+      { params: eventIdSchema, body: createResumableUploadBodySchema },
+      { errorKey: { params: "INVALID_EVENT_ID", body: "INVALID_INPUT" } }
+    ),
+    loadEvent,
+    verifyAccess("files:upload"),
+    ensureGuestUploadsEnabled,
+    ensureUploadFolderRequired,
+    async (
+      req: ValidatedReq<{
+        params: typeof eventIdSchema;
+        body: typeof createResumableUploadBodySchema;
+      }>,
+      res: Response<ResumableUploadStatus | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const folder = parseFolder(req.body.from || "");
+        if (folder === null) {
+          return sendError(res, 400, {
+            message: "Invalid folder name.",
+            errorKey: "INVALID_FOLDER",
+            property: "from",
+          });
+        }
+
+        const event = req.event!;
+        const { filename, size, mimeType } = req.body;
+
+        if (!matchesAllowedMimeType(event.allowedMimeTypes || [], mimeType)) {
+          return sendError(res, 415, {
+            message: "File type not allowed.",
+            errorKey: "UNSUPPORTED_FILE_TYPE",
+            property: "mimeType",
+          });
+        }
+
+        const maxBytes = Math.min(
+          ...[UPLOAD_MAX_FILE_SIZE_BYTES, UPLOAD_MAX_TOTAL_SIZE_BYTES].filter((limit) => limit > 0)
+        );
+        if (size > maxBytes) {
+          return sendError(res, 413, {
+            message: `Upload exceeds the maximum size of ${maxBytes} bytes.`,
+            errorKey: "UPLOAD_TOO_LARGE",
+            property: "size",
+            additionalParams: { maxBytes },
+          });
+        }
+
+        // fail early instead of after the whole file was transferred
+        const quota = getEventQuota(event);
+        if (quota.maxBytes > 0 || quota.maxFiles > 0) {
+          const { usedBytes, usedFiles } = await getEventUsage(event.eventId);
+          if (
+            (quota.maxBytes > 0 && usedBytes + size > quota.maxBytes) ||
+            (quota.maxFiles > 0 && usedFiles + 1 > quota.maxFiles)
+          ) {
+            return sendError(res, 413, {
+              message: "Upload exceeds the storage quota of this event.",
+              errorKey: "QUOTA_EXCEEDED",
+              property: "size",
+              additionalParams: {
+                usedBytes,
+                usedFiles,
+                quotaBytes: quota.maxBytes,
+                quotaFiles: quota.maxFiles,
+              },
+            });
+          }
+        }
+
+        const upload = await createResumableUpload({
+          eventId: event.eventId,
+          filename,
+          mimeType,
+          size,
+          folder,
+        });
+        const status = toUploadStatus(upload, 0);
+        setOffsetHeaders(res, status);
+        return res.status(201).json(status);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.head(
+    "/:eventId/uploads/:uploadId",
+    validateRequest({ params: resumableUploadParamsSchema }, { errorKey: "INVALID_INPUT" }),
+    loadEvent,
+    verifyAccess("files:upload"),
+    ensureGuestUploadsEnabled,
+    async (
+      req: ValidatedReq<{ params: typeof resumableUploadParamsSchema }>,
+      res: Response<ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const result = await getResumableUpload(req.event!.eventId, req.params.uploadId);
+        if (!result.ok) {
+          return sendStorageError(res, result.error);
+        }
+        setOffsetHeaders(res, toUploadStatus(result.data.upload, result.data.offset));
+        return res.status(200).end();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.patch(
+    "/:eventId/uploads/:uploadId",
+    validateRequest({ params: resumableUploadParamsSchema }, { errorKey: "INVALID_INPUT" }),
+    loadEvent,
+    verifyAccess("files:upload"),
+    ensureGuestUploadsEnabled,
+    async (
+      req: ValidatedReq<{ params: typeof resumableUploadParamsSchema }>,
+      res: Response<ResumableUploadStatus | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        if (!req.is(CHUNK_CONTENT_TYPE)) {
+          return sendError(res, 415, {
+            message: `Chunks must be sent as ${CHUNK_CONTENT_TYPE}.`,
+            errorKey: "INVALID_INPUT",
+            property: "Content-Type",
+          });
+        }
+
+        const offset = Number(req.header("Upload-Offset"));
+        if (!Number.isInteger(offset) || offset < 0) {
+          return sendError(res, 400, {
+            message: "Invalid upload offset.",
+            errorKey: "INVALID_INPUT",
+            property: "Upload-Offset",
+          });
+        }
+
+        const current = await getResumableUpload(req.event!.eventId, req.params.uploadId);
+        if (!current.ok) {
+          return sendStorageError(res, current.error);
+        }
+
+        const result = await appendResumableUploadChunk(current.data.upload, offset, req);
+        if (!result.ok) {
+          return sendStorageError(res, result.error);
+        }
+        setOffsetHeaders(res, result.data);
+        return res.status(200).json(result.data);
+      } catch (error) {
+        if (req.destroyed) {
+          // the client went away mid-chunk, the received bytes stay staged for resuming
+          logger.debug("Resumable upload chunk aborted by client", {
+            uploadId: req.params.uploadId,
+          });
+          return;
+        }
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/:eventId/uploads/:uploadId/complete",
+    validateRequest({ params: resumableUploadParamsSchema }, { errorKey: "INVALID_INPUT" }),
+    loadEvent,
+    verifyAccess("files:upload"),
+    ensureGuestUploadsEnabled,
+    async (
+      req: ValidatedReq<{ params: typeof resumableUploadParamsSchema }>,
+      res: Response<
+        | {
+            message: string;
+            uploaded: number;
+            rejected?: { file: string; reason: string }[];
+          }
+        | ErrorResponse
+      >,
+      next: NextFunction
+    ) => {
+      try {
+        const event = req.event!;
+        const current = await getResumableUpload(event.eventId, req.params.uploadId);
+        if (!current.ok) {
+          return sendStorageError(res, current.error);
+        }
+
+        const { upload, offset } = current.data;
+        if (offset !== upload.size) {
+          return sendError(res, 409, {
+            message: "Upload is not complete yet.",
+            errorKey: "UPLOAD_INCOMPLETE",
+            additionalParams: { offset, size: upload.size },
+          });
+        }
+
+        const pending = isUploadModerated(event, req.user?.role);
+        const moveResult = await storage.files.moveUploadedFiles(
+          event.eventId,
+          upload.folder,
+          [toUploadedFile(upload)],
+          getEventQuota(event),
+          { pending }
+        );
+        await removeResumableUpload(event.eventId, upload.uploadId);
+        if (!moveResult.ok) {
+          return sendStorageError(res, moveResult.error);
+        }
+        if (!pending) queuePreviewGeneration(event.eventId, upload.folder, moveResult.data.files);
+        // the upload folder is the name the guest gave with from
+        await recordAuditEntry(req, event.eventId, {
+          action: "upload",
+          actor: upload.folder || null,
+          folder: upload.folder,
+          files: moveResult.data.files,
+        });
+
+        return res.status(200).json({
+          message: "Files uploaded successfully.",
+          uploaded: moveResult.data.moved,
+          rejected: [],
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.delete(
+    "/:eventId/uploads/:uploadId",
+    validateRequest({ params: resumableUploadParamsSchema }, { errorKey: "INVALID_INPUT" }),
+    loadEvent,
+    verifyAccess("files:upload"),
+    ensureGuestUploadsEnabled,
+    async (
+      req: ValidatedReq<{ params: typeof resumableUploadParamsSchema }>,
+      res: Response<DeleteFileResult | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const current = await getResumableUpload(req.event!.eventId, req.params.uploadId);
+        if (!current.ok) {
+          return sendStorageError(res, current.error);
+        }
+        await removeResumableUpload(req.event!.eventId, req.params.uploadId);
+        return res.status(200).json({ ok: true, message: "Upload canceled." });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
@@ -0,0 +1,87 @@
+import express, { NextFunction, Response } from "express";
+import { hasAdminAccess, hasGuestAccess, hasModeratorAccess } from "../../services/auth.js";
+import { isAuthBlocked } from "../../services/auth-rate-limit.js";
+import { recordLoginFailure } from "../../services/audit-log.js";
+import { createSessionToken, revokeSession } from "../../services/sessions.js";
+import { ErrorResponse, SessionResponse } from "../../types.js";
+import { sendError } from "../../utils/error-response.js";
+import { loadEvent, verifyAccess } from "./middleware.js";
+import { eventIdSchema, loginBodySchema, validateRequest, ValidatedReq } from "./validators.js";
+
+export const registerSessionRoutes = (router: express.Router) => {
+  router.post(
+    "/:eventId/login",
+    validateRequest({ params: eventIdSchema, body: loginBodySchema }),
+    loadEvent,
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema; body: typeof loginBodySchema }>,
+      res: Response<SessionResponse | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const event = req.event!;
+        const credentials = {
+          user: req.body.user === "admin" && req.body.name ? req.body.name : req.body.user,
+          password: req.body.password,
+        };
+
+        const blocked = isAuthBlocked(req, event.eventId, credentials.user);
+        if (blocked.blocked) {
+          res.setHeader("Retry-After", String(blocked.retryAfter));
+          return sendError(res, 429, {
+            message: "Too many failed authentication attempts. Please wait and try again.",
+            errorKey: "RATE_LIMITED",
+            eventId: event.eventId,
+            additionalParams: { retryAfterSeconds: blocked.retryAfter },
+          });
+        }
+
+        const principal =
+          req.body.user === "admin" ? await hasAdminAccess(req, event, credentials) : null;
+        const granted =
+          req.body.user === "admin"
+            ? Boolean(principal)
+            : req.body.user === "moderator"
+              ? await hasModeratorAccess(req, event, credentials)
+              : await hasGuestAccess(req, event, credentials);
+        if (!granted) {
+          await recordLoginFailure(req, event.eventId, credentials.user);
+          return sendError(res, 401, {
+            message: "Wrong password.",
+            errorKey: "AUTHORIZATION_REQUIRED",
+            property: "password",
+            eventId: event.eventId,
+          });
+        }
+
+        const { token, session } = createSessionToken(
+          event,
+          req.body.user,
+          principal?.coHostId ?? null
+        );
+        return res.status(200).json({
+          token,
+          role: session.role,
+          expiresAt: new Date(session.expiresAt).toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/:eventId/logout",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    loadEvent,
+    verifyAccess("event:view"),
+    (
+      req: ValidatedReq<{ params: typeof eventIdSchema }>,
+      res: Response<{ success: boolean } | ErrorResponse>
+    ) => {
+      // requests without a session (e.g. guests of unsecured events) have nothing to end
+      if (req.user?.session) revokeSession(req.user.session);
+      return res.status(200).json({ success: true });
+    }
+  );
+};
@@ -0,0 +1,131 @@
+import express, { NextFunction, Response } from "express";
+import { saveEvent } from "../../services/events.js";
+import {
+  buildShareLinkResponse,
+  createShareLink,
+  getActiveShareLinks,
+} from "../../services/shares.js";
+import { storage } from "../../storage/index.js";
+import { ErrorResponse, ShareLinkResponse } from "../../types.js";
+import { sendError } from "../../utils/error-response.js";
+import { splitFolderPath } from "../../utils/folders.js";
+import { loadEvent, verifyAccess } from "./middleware.js";
+import { sendStorageError } from "./storage-response.js";
+import {
+  createShareLinkBodySchema,
+  eventIdSchema,
+  shareLinkParamsSchema,
+  validateRequest,
+  ValidatedReq,
+} from "./validators.js";
+
+export const registerShareRoutes = (router: express.Router) => {
+  router.get(
+    "/:eventId/shares",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    loadEvent,
+    verifyAccess("shares:manage"),
+    (
+      req: ValidatedReq<{ params: typeof eventIdSchema }>,
+      res: Response<{ shares: ShareLinkResponse[] } | ErrorResponse>
+    ) => {
+      const event = req.event!;
+      const shares = getActiveShareLinks(event).map((share) =>
+        buildShareLinkResponse(event.eventId, share)
+      );
+      return res.status(200).json({ shares });
+    }
+  );
+
+  router.post(
+    "/:eventId/shares",
+    validateRequest(
+      { params: eventIdSchema, body: createShareLinkBodySchema },
+      {
+        errorKey: ({ part, issue, defaultKey }) => {
+          if (part === "params") return "INVALID_EVENT_ID";
+          const field = issue.path[0];
+          if (field === "folder") return "INVALID_FOLDER";
+          if (field === "filename") return "INVALID_FILENAME";
+          return defaultKey;
+        },
+      }
+    ),
+    loadEvent,
+    verifyAccess("shares:manage"),
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema; body: typeof createShareLinkBodySchema }>,
+      res: Response<ShareLinkResponse | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const event = req.event!;
+        const { kind, expiresInHours } = req.body;
+        const folder = req.body.folder ?? "";
+        const filename = req.body.filename ?? null;
+
+        if (kind === "file") {
+          const infoResult = await storage.files.getFileInfo(event.eventId, folder, filename!);
+          if (!infoResult.ok) {
+            return sendStorageError(res, infoResult.error);
+          }
+        } else {
+          const { parent, name } = splitFolderPath(folder);
+          const listResult = await storage.files.listFiles(event.eventId, parent);
+          if (!listResult.ok) {
+            return sendStorageError(res, listResult.error);
+          }
+          if (!listResult.data.folders.includes(name)) {
+            return sendError(res, 404, {
+              message: "Folder not found.",
+              errorKey: "FOLDER_NOT_FOUND",
+              property: "folder",
+            });
+          }
+        }
+
+        const share = createShareLink({ kind, folder, filename, expiresInHours });
+        await saveEvent({ ...event, shares: [...getActiveShareLinks(event), share] });
+        return res.status(200).json(buildShareLinkResponse(event.eventId, share));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.delete(
+    "/:eventId/shares/:shareId",
+    validateRequest(
+      { params: shareLinkParamsSchema },
+      {
+        errorKey: ({ issue, defaultKey }) =>
+          issue.path[0] === "eventId" ? "INVALID_EVENT_ID" : defaultKey,
+      }
+    ),
+    loadEvent,
+    verifyAccess("shares:manage"),
+    async (
+      req: ValidatedReq<{ params: typeof shareLinkParamsSchema }>,
+      res: Response<{ success: boolean } | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const event = req.event!;
+        const remaining = event.shares.filter((share) => share.shareId !== req.params.shareId);
+        if (remaining.length === event.shares.length) {
+          return sendError(res, 404, {
+            message: "Share link not found.",
+            errorKey: "SHARE_LINK_NOT_FOUND",
+            property: "shareId",
+          });
+        }
+
+        // links are checked against the stored list, so removing one revokes it right away
+        await saveEvent({ ...event, shares: remaining });
+        return res.status(200).json({ success: true });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
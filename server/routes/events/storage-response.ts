@@ -10,8 +10,16 @@ const STATUS_BY_ERROR_KEY: Partial<Record<ErrorKey, number>> = {
   EVENT_NOT_FOUND: 404,
   FILE_NOT_FOUND: 404,
   FOLDER_ALREADY_EXISTS: 409,
+  FOLDER_NOT_FOUND: 404,
+  SHARE_LINK_NOT_FOUND: 404,
   NO_FILES_AVAILABLE: 404,
   UNSUPPORTED_FILE_TYPE: 415,
+  UPLOAD_TOO_LARGE: 413,
+  QUOTA_EXCEEDED: 413,
+  UPLOAD_NOT_FOUND: 404,
+  UPLOAD_OFFSET_MISMATCH: 409,
+  UPLOAD_INCOMPLETE: 409,
+  VIDEO_PREVIEWS_UNAVAILABLE: 503,
   RATE_LIMITED: 429,
 };
 
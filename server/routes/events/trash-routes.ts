@@ -0,0 +1,110 @@
+import express, { NextFunction, Response } from "express";
+import { TRASH_RETENTION_MS } from "../../config.js";
+import { logger } from "../../logger.js";
+import { recordAuditEntry } from "../../services/audit-log.js";
+import { getEventQuota } from "../../services/events.js";
+import { queuePreviewGeneration } from "../../services/preview-worker.js";
+import { storage } from "../../storage/index.js";
+import {
+  DeleteFileResult,
+  ErrorResponse,
+  RestoreTrashedFileResult,
+  TrashListResponse,
+} from "../../types.js";
+import { loadEvent, verifyAccess } from "./middleware.js";
+import { sendStorageError } from "./storage-response.js";
+import { eventIdSchema, trashParamsSchema, validateRequest, ValidatedReq } from "./validators.js";
+
+const validateTrashParams = validateRequest(
+  { params: trashParamsSchema },
+  {
+    errorKey: ({ issue, defaultKey }) =>
+      issue.path[0] === "eventId" ? "INVALID_EVENT_ID" : defaultKey,
+  }
+);
+
+export const registerTrashRoutes = (router: express.Router) => {
+  router.get(
+    "/:eventId/trash",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    loadEvent,
+    verifyAccess("files:delete"),
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema }>,
+      res: Response<TrashListResponse | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const result = await storage.files.listTrash(req.event!.eventId);
+        if (!result.ok) {
+          return sendStorageError(res, result.error);
+        }
+        return res.status(200).json({ files: result.data, retentionMs: TRASH_RETENTION_MS });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/:eventId/trash/:trashId/restore",
+    validateTrashParams,
+    loadEvent,
+    verifyAccess("files:delete"),
+    async (
+      req: ValidatedReq<{ params: typeof trashParamsSchema }>,
+      res: Response<RestoreTrashedFileResult | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const eventId = req.event!.eventId;
+        const result = await storage.files.restoreTrashedFile(
+          eventId,
+          req.params.trashId,
+          getEventQuota(req.event!)
+        );
+        if (!result.ok) {
+          return sendStorageError(res, result.error);
+        }
+        const { folder, filename } = result.data;
+        queuePreviewGeneration(eventId, folder, [filename]);
+        await recordAuditEntry(req, eventId, { action: "restore", folder, files: [filename] });
+        logger.info("File restored from trash", {
+          eventId,
+          folder,
+          filename,
+          by: req.user?.principal?.name ?? req.user?.role,
+        });
+        return res.status(200).json({ message: "File restored.", folder, filename });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // moderators may delete and restore, removing a file for good stays with the admins
+  router.delete(
+    "/:eventId/trash/:trashId",
+    validateTrashParams,
+    loadEvent,
+    verifyAccess("event:manage"),
+    async (
+      req: ValidatedReq<{ params: typeof trashParamsSchema }>,
+      res: Response<DeleteFileResult | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const eventId = req.event!.eventId;
+        const result = await storage.files.deleteTrashedFile(eventId, req.params.trashId);
+        if (!result.ok) {
+          return sendStorageError(res, result.error);
+        }
+        const { folder, name } = result.data;
+        await recordAuditEntry(req, eventId, { action: "purge", folder, files: [name] });
+        return res.status(200).json({ ok: true, message: "File deleted permanently." });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
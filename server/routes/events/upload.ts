@@ -1,8 +1,14 @@
 ﻿import multer from "multer";
-import { UPLOAD_MAX_FILE_SIZE_BYTES, UPLOAD_TEMP_PATH } from "../../config.js";
+import type { Request } from "express";
+import {
+  UPLOAD_MAX_FILE_SIZE_BYTES,
+  UPLOAD_MAX_TOTAL_SIZE_BYTES,
+  UPLOAD_TEMP_PATH,
+} from "../../config.js";
 import { randomUUID } from "crypto";
 import fs from "node:fs";
 import path from "node:path";
+import { Transform } from "node:stream";
 import { ValidatedReq } from "./validators.js";
 import { logger } from "../../logger.js";
 
@@ -22,7 +28,64 @@ const uploadStorage = multer.diskStorage({
   },
 });
 
-const multerOptions: multer.Options = { storage: uploadStorage };
+export class UploadTooLargeError extends Error {
+  constructor(public readonly maxBytes: number) {
+    super(`Upload exceeds the maximum total size of ${maxBytes} bytes.`);
+    this.name = "UploadTooLargeError";
+  }
+}
+
+const receivedBytesByRequest = new WeakMap<Request, number>();
+
+/**
+ * Wraps a storage engine and counts the streamed bytes of all files in a request.
+ * Once the total exceeds maxBytes the current file is cut off and removed, and multer
+ * aborts the request with an UploadTooLargeError (already stored files are removed by multer).
+ */
+const createTotalSizeLimitedStorage = (
+  inner: multer.StorageEngine,
+  maxBytes: number
+): multer.StorageEngine => ({
+  _handleFile: (req, file, cb) => {
+    const source = file.stream;
+    let exceeded = false;
+    const limited = new Transform({
+      transform(chunk: Buffer, _encoding, done) {
+        if (exceeded) return done();
+        const received = (receivedBytesByRequest.get(req) ?? 0) + chunk.length;
+        receivedBytesByRequest.set(req, received);
+        if (received > maxBytes) {
+          exceeded = true;
+          source.unpipe(limited);
+          source.resume();
+          limited.end();
+          return done();
+        }
+        done(null, chunk);
+      },
+    });
+    source.pipe(limited);
+
+    inner._handleFile(req, { ...file, stream: limited }, (error, info) => {
+      if (!exceeded) {
+        cb(error, info);
+        return;
+      }
+      logger.info(`Upload exceeds total size limit of ${maxBytes} bytes, aborting.`);
+      inner._removeFile(req, { ...file, ...info } as Express.Multer.File, () =>
+        cb(new UploadTooLargeError(maxBytes))
+      );
+    });
+  },
+  _removeFile: (req, file, cb) => inner._removeFile(req, file, cb),
+});
+
+const multerOptions: multer.Options = {
+  storage:
+    UPLOAD_MAX_TOTAL_SIZE_BYTES > 0
+      ? createTotalSizeLimitedStorage(uploadStorage, UPLOAD_MAX_TOTAL_SIZE_BYTES)
+      : uploadStorage,
+};
 
 if (UPLOAD_MAX_FILE_SIZE_BYTES > 0) {
   multerOptions.limits = { fileSize: UPLOAD_MAX_FILE_SIZE_BYTES };
@@ -1,10 +1,22 @@
 import { Request, RequestHandler } from "express";
 import type * as core from "express-serve-static-core";
 import { z, ZodTypeAny } from "zod";
-import { FOLDER_REGEX } from "../../config.js";
-import { buildValidationError, createEventSchema } from "../../utils/validation.js";
-import { ErrorKey, ErrorResponse } from "../../types.js";
-import { MAX_PREVIEW_SIZE } from "../../constants.js";
+import { buildValidationError, createEventSchema, parseFolder } from "../../utils/validation.js";
+import {
+  AUDIT_ACTIONS,
+  ErrorKey,
+  ErrorResponse,
+  FILE_SORT_FIELDS,
+  SORT_ORDERS,
+} from "../../types.js";
+import {
+  AUDIT_LOG_MAX_PAGE_SIZE,
+  FILE_LIST_MAX_PAGE_SIZE,
+  MAX_PREVIEW_SIZE,
+  SHARE_LINK_DEFAULT_TTL_HOURS,
+  SHARE_LINK_MAX_TTL_HOURS,
+} from "../../constants.js";
+import { decodeFileCursor } from "./file-cursor.js";
 
 type SchemaMap = { body?: ZodTypeAny; params?: ZodTypeAny; query?: ZodTypeAny };
 
@@ -84,6 +96,20 @@ const isUnsafeFilename = (value: string) => {
   );
 };
 
+// folders may be nested like "Ceremony/Camera A", an empty path addresses the root
+const folderPathSchema = z.string().transform((value, ctx) => {
+  const folder = parseFolder(value);
+  if (folder === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid folder name." });
+    return z.NEVER;
+  }
+  return folder;
+});
+
+const requiredFolderPathSchema = folderPathSchema.refine((value) => value !== "", {
+  message: "Invalid folder name.",
+});
+
 export const eventIdSchema = z.object({ eventId: createEventSchema.shape.eventId });
 export const eventFileParamsSchema = eventIdSchema.extend({
   filename: z.string().refine((value) => !isUnsafeFilename(value), {
@@ -91,24 +117,261 @@ export const eventFileParamsSchema = eventIdSchema.extend({
   }),
 });
 export const eventFileInFolderParamsSchema = eventFileParamsSchema.extend({
-  folder: z.string().trim().regex(FOLDER_REGEX, { message: "Invalid folder name." }),
+  folder: requiredFolderPathSchema,
 });
 export const eventFolderParamsSchema = eventIdSchema.extend({
-  folder: z.string().trim().regex(FOLDER_REGEX, { message: "Invalid folder name." }),
+  folder: requiredFolderPathSchema,
 });
 export const uploadFilesBodySchema = z.object({
-  from: z.string().trim().regex(FOLDER_REGEX, { message: "Invalid folder name." }).optional(),
+  from: requiredFolderPathSchema.optional(),
 });
 export type UploadFilesBody = z.infer<typeof uploadFilesBodySchema>;
 
+export const resumableUploadParamsSchema = eventIdSchema.extend({
+  uploadId: z.string().uuid({ message: "Invalid upload id." }),
+});
+export const createResumableUploadBodySchema = uploadFilesBodySchema.extend({
+  filename: z
+    .string()
+    .trim()
+    .min(1, "File name is required.")
+    .max(255, "File name can be at most 255 characters.")
+    .refine((value) => !isUnsafeFilename(value), { message: "Invalid file name." }),
+  size: z.number().int().nonnegative(),
+  mimeType: z.string().trim().max(255).optional().default(""),
+});
+
+const fileRefSchema = z.object({
+  folder: folderPathSchema.default(""),
+  filename: eventFileParamsSchema.shape.filename,
+});
+
+export const batchFilesBodySchema = z.object({
+  files: z.array(fileRefSchema).min(1).max(500),
+});
+
+export const reviewPendingFilesBodySchema = batchFilesBodySchema;
+
+export const moveFilesBodySchema = batchFilesBodySchema.extend({
+  to: folderPathSchema.default(""),
+});
+
+export const updateFileBodySchema = z
+  .object({
+    /** New file name in the same folder. */
+    name: z
+      .string()
+      .trim()
+      .min(1, "File name is required.")
+      .max(255, "File name can be at most 255 characters.")
+      .refine((value) => !isUnsafeFilename(value), { message: "Invalid file name." })
+      .optional(),
+    /** Folder to move the file into, "" moves it to the root. */
+    to: folderPathSchema.optional(),
+  })
+  .refine((value) => value.name !== undefined || value.to !== undefined, {
+    message: "A new name or folder is required.",
+  });
+export type UpdateFileBody = z.infer<typeof updateFileBodySchema>;
+
+export const createFolderBodySchema = z.object({
+  folder: requiredFolderPathSchema,
+});
+
 export const renameFolderBodySchema = z.object({
-  to: z.string().trim().regex(FOLDER_REGEX, { message: "Invalid folder name." }),
+  /** Full path of the folder afterwards, so a folder can be moved to another parent as well. */
+  to: requiredFolderPathSchema,
 });
 
+export const mergeFolderBodySchema = z.object({
+  /** Folder that receives the files, "" merges them into the root. */
+  into: folderPathSchema,
+});
+
+// a main type with a subtype or *, like image/jpeg or video/*
+const CONTENT_TYPE_FILTER_REGEX = /^[a-z]+\/(\*|[a-z0-9][a-z0-9.+-]*)$/;
+
+export const listFilesQuerySchema = z
+  .object({
+    /** Parsed by the route, which reports it as INVALID_FOLDER. */
+    folder: z.string().optional(),
+    recursive: z.string().optional(),
+    share: z.string().optional(),
+    sort: z.enum(FILE_SORT_FIELDS).optional(),
+    order: z.enum(SORT_ORDERS).optional(),
+    search: z.string().trim().max(255).optional(),
+    /** Comma separated content types, like "image/*,video/*". */
+    type: z
+      .string()
+      .toLowerCase()
+      .transform((value) =>
+        value
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+      )
+      .pipe(z.array(z.string().regex(CONTENT_TYPE_FILTER_REGEX, "Invalid content type.")).max(20))
+      .optional(),
+    /** The nextCursor of the previous page, decoded into its position. */
+    cursor: z
+      .string()
+      .max(2048)
+      .transform((value, ctx) => {
+        const cursor = decodeFileCursor(value);
+        if (!cursor) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor." });
+          return z.NEVER;
+        }
+        return cursor;
+      })
+      .optional(),
+    limit: z.coerce.number().int().min(1).max(FILE_LIST_MAX_PAGE_SIZE).optional(),
+  })
+  // a cursor only marks a position within the order it was created for
+  .refine(
+    ({ cursor, sort = "name", order = "asc" }) =>
+      !cursor || (cursor.sort === sort && cursor.order === order),
+    { message: "The cursor belongs to another sort order.", path: ["cursor"] }
+  );
+
 export const previewQuerySchema = z.object({
   w: z.coerce.number().int().positive().max(MAX_PREVIEW_SIZE).optional(),
   h: z.coerce.number().int().positive().optional(),
   q: z.coerce.number().int().min(1).max(100).optional(),
   fit: z.enum(["inside", "cover"]).optional(),
   format: z.enum(["jpeg", "webp", "png"]).optional(),
+  share: z.string().optional(),
+});
+
+export const videoClipQuerySchema = previewQuerySchema.pick({ w: true, h: true, share: true });
+
+export const trashParamsSchema = eventIdSchema.extend({
+  trashId: z.string().uuid({ message: "Invalid trash id." }),
+});
+
+export const auditLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(AUDIT_LOG_MAX_PAGE_SIZE).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actor: z.string().trim().max(64).optional(),
+});
+
+// co-host names end up as Basic auth user, so they cannot contain a colon
+const CO_HOST_NAME_REGEX = /^[\p{L}\p{N}][\p{L}\p{N} ._-]*$/u;
+const RESERVED_CO_HOST_NAMES = ["admin", "moderator", "guest"];
+
+export const coHostNameSchema = z
+  .string()
+  .trim()
+  .min(2, "Name must be at least 2 characters.")
+  .max(32, "Name must be at most 32 characters.")
+  .regex(CO_HOST_NAME_REGEX, "Only letters, numbers, spaces, dots, dashes and underscores.")
+  .refine((value) => !RESERVED_CO_HOST_NAMES.includes(value.toLowerCase()), {
+    message: "This name is reserved.",
+  });
+
+export const loginBodySchema = z
+  .object({
+    user: z.enum(["admin", "moderator", "guest"]),
+    /** Co-host name for admin logins, the owner leaves it out. */
+    name: z.string().trim().min(1).max(64).optional(),
+    password: z.string().max(256),
+  })
+  .refine((value) => value.user === "admin" || !value.name, {
+    path: ["name"],
+    message: "Only admins log in with a name.",
+  });
+
+export const shareLinkParamsSchema = eventIdSchema.extend({
+  shareId: z.string().uuid({ message: "Invalid share link id." }),
+});
+export const createShareLinkBodySchema = z
+  .object({
+    kind: z.enum(["file", "folder", "zip"]),
+    folder: folderPathSchema.optional(),
+    filename: z
+      .string()
+      .trim()
+      .min(1, "File name is required.")
+      .refine((value) => !isUnsafeFilename(value), { message: "Invalid file name." })
+      .optional(),
+    expiresInHours: z
+      .number()
+      .int()
+      .min(1)
+      .max(SHARE_LINK_MAX_TTL_HOURS)
+      .default(SHARE_LINK_DEFAULT_TTL_HOURS),
+  })
+  .superRefine((value, ctx) => {
+    if (value.kind === "file" && !value.filename) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["filename"],
+        message: "File name is required.",
+      });
+    }
+    // links to the top level would share every upload of the event
+    if (value.kind !== "file" && !value.folder) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["folder"],
+        message: "Folder is required.",
+      });
+    }
+  });
+
+export const coHostParamsSchema = eventIdSchema.extend({
+  coHostId: z.string().uuid({ message: "Invalid co-host id." }),
+});
+export const createCoHostBodySchema = z.object({
+  name: coHostNameSchema,
+  password: z.string().min(8, "Password must be at least 8 characters.").max(256),
+});
+
+export const operatorLoginBodySchema = z.object({
+  password: z.string().max(256),
+});
+
+// null falls back to the server wide default, 0 is unlimited
+const eventQuotaLimitSchema = z
+  .number()
+  .int()
+  .nonnegative()
+  .max(Number.MAX_SAFE_INTEGER)
+  .nullable();
+
+export const updateOperatorEventBodySchema = z
+  .object({
+    locked: z.boolean().optional(),
+    quotaBytes: eventQuotaLimitSchema.optional(),
+    quotaFiles: eventQuotaLimitSchema.optional(),
+  })
+  .refine((value) => Object.values(value).some((field) => field !== undefined), {
+    message: "Nothing to update.",
+  });
+
+const newAdminPasswordSchema = z.object({
+  newPassword: z.string().min(8, "Admin password must be at least 8 characters.").max(256),
+  newPasswordConfirm: z.string().max(256),
 });
+
+const requireMatchingPasswords = (
+  value: z.infer<typeof newAdminPasswordSchema>,
+  ctx: z.RefinementCtx
+) => {
+  if (value.newPassword !== value.newPasswordConfirm) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["newPasswordConfirm"],
+      message: "Admin passwords must match.",
+    });
+  }
+};
+
+export const changeAdminPasswordBodySchema = newAdminPasswordSchema
+  .extend({ currentPassword: z.string().max(256) })
+  .superRefine(requireMatchingPasswords);
+
+export const recoverAdminBodySchema = newAdminPasswordSchema
+  .extend({ recoveryCode: z.string().trim().min(1, "Recovery code is required.").max(64) })
+  .superRefine(requireMatchingPasswords);
@@ -0,0 +1,293 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import express, { NextFunction, RequestHandler, Response } from "express";
+import { OPERATOR_PASSWORD } from "../config.js";
+import { parseBasicAuth } from "../services/auth.js";
+import { isAuthBlocked, recordAuthFailure } from "../services/auth-rate-limit.js";
+import {
+  deleteEvent,
+  getEvent,
+  getEventQuota,
+  getEventUsage,
+  isEventExpired,
+  listEvents,
+  resetAdminPassword,
+  saveEvent,
+} from "../services/events.js";
+import { removeEventPreviews } from "../services/preview-cache.js";
+import { clearPreviewJobs } from "../services/preview-worker.js";
+import { removeAllResumableUploads } from "../services/resumable-uploads.js";
+import {
+  createOperatorSessionToken,
+  OperatorSession,
+  parseBearerToken,
+  revokeSession,
+  verifyOperatorSessionToken,
+} from "../services/sessions.js";
+import {
+  ErrorResponse,
+  EventConfig,
+  OperatorEventSummary,
+  OperatorSessionResponse,
+} from "../types.js";
+import { sendError } from "../utils/error-response.js";
+import {
+  eventIdSchema,
+  operatorLoginBodySchema,
+  updateOperatorEventBodySchema,
+  validateRequest,
+  ValidatedReq,
+} from "./events/validators.js";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    operator?: { session?: OperatorSession };
+  }
+}
+
+type OperatorRequest = RequestHandler<{ eventId?: string }, ErrorResponse>;
+
+// the rate limit is keyed by event, operator attempts get a key no event id can take
+const OPERATOR_RATE_LIMIT_KEY = "operator";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+const isOperatorPassword = (password: string) =>
+  timingSafeEqual(digest(password), digest(OPERATOR_PASSWORD));
+
+const ensureOperatorEnabled: OperatorRequest = (_req, res, next) => {
+  if (!OPERATOR_PASSWORD) {
+    return sendError(res, 404, {
+      message: "The operator console is disabled.",
+      errorKey: "OPERATOR_DISABLED",
+    });
+  }
+  return next();
+};
+
+const verifyOperator: OperatorRequest = (req, res, next) => {
+  const bearerToken = parseBearerToken(req);
+  if (bearerToken) {
+    const session = verifyOperatorSessionToken(bearerToken);
+    if (!session) {
+      return sendError(res, 401, {
+        message: "Session expired or invalid.",
+        errorKey: "AUTHORIZATION_REQUIRED",
+      });
+    }
+    req.operator = { session };
+    return next();
+  }
+
+  const credentials = parseBasicAuth(req);
+  if (!credentials.user || !credentials.password) {
+    return sendError(res, 401, {
+      message: "Authorization required.",
+      errorKey: "AUTHORIZATION_REQUIRED",
+    });
+  }
+
+  const blocked = isAuthBlocked(req, OPERATOR_RATE_LIMIT_KEY, credentials.user);
+  if (blocked.blocked) {
+    res.setHeader("Retry-After", String(blocked.retryAfter));
+    return sendError(res, 429, {
+      message: "Too many failed authentication attempts. Please wait and try again.",
+      errorKey: "RATE_LIMITED",
+      additionalParams: { retryAfterSeconds: blocked.retryAfter },
+    });
+  }
+
+  if (credentials.user !== "operator" || !isOperatorPassword(credentials.password)) {
+    recordAuthFailure(req, OPERATOR_RATE_LIMIT_KEY, credentials.user);
+    return sendError(res, 403, {
+      message: "Authorization required.",
+      errorKey: "AUTHORIZATION_REQUIRED",
+    });
+  }
+
+  req.operator = {};
+  return next();
+};
+
+/** Loads the event without the lock check of loadEvent, operators manage locked events too. */
+const loadOperatorEvent: OperatorRequest = async (req, res, next) => {
+  try {
+    const event = req.params.eventId ? await getEvent(req.params.eventId) : null;
+    if (!event) {
+      return sendError(res, 404, { message: "Event not found.", errorKey: "EVENT_NOT_FOUND" });
+    }
+    req.event = event;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+const buildEventSummary = async (event: EventConfig): Promise<OperatorEventSummary> => {
+  const usage = await getEventUsage(event.eventId);
+  const quota = getEventQuota(event);
+  return {
+    eventId: event.eventId,
+    name: event.name,
+    createdAt: event.createdAt,
+    expiresAt: event.expiresAt,
+    locked: event.locked,
+    usedBytes: usage.usedBytes,
+    usedFiles: usage.usedFiles,
+    lastUploadAt: usage.lastUploadAt,
+    quotaBytes: quota.maxBytes,
+    quotaFiles: quota.maxFiles,
+  };
+};
+
+export const registerOperatorRoutes = (app: express.Application) => {
+  const router = express.Router();
+  router.use(ensureOperatorEnabled);
+
+  router.post(
+    "/login",
+    validateRequest({ body: operatorLoginBodySchema }),
+    async (
+      req: ValidatedReq<{ body: typeof operatorLoginBodySchema }>,
+      res: Response<OperatorSessionResponse | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const blocked = isAuthBlocked(req, OPERATOR_RATE_LIMIT_KEY, "operator");
+        if (blocked.blocked) {
+          res.setHeader("Retry-After", String(blocked.retryAfter));
+          return sendError(res, 429, {
+            message: "Too many failed authentication attempts. Please wait and try again.",
+            errorKey: "RATE_LIMITED",
+            additionalParams: { retryAfterSeconds: blocked.retryAfter },
+          });
+        }
+
+        if (!isOperatorPassword(req.body.password)) {
+          recordAuthFailure(req, OPERATOR_RATE_LIMIT_KEY, "operator");
+          return sendError(res, 401, {
+            message: "Wrong password.",
+            errorKey: "AUTHORIZATION_REQUIRED",
+            property: "password",
+          });
+        }
+
+        const { token, session } = createOperatorSessionToken();
+        return res
+          .status(200)
+          .json({ token, expiresAt: new Date(session.expiresAt).toISOString() });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/logout",
+    verifyOperator,
+    (req: express.Request, res: Response<{ success: boolean } | ErrorResponse>) => {
+      // Basic auth requests have no session to end
+      if (req.operator?.session) revokeSession(req.operator.session);
+      return res.status(200).json({ success: true });
+    }
+  );
+
+  router.get(
+    "/events",
+    verifyOperator,
+    async (
+      _req: express.Request,
+      res: Response<{ events: OperatorEventSummary[] } | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const events = await listEvents();
+        const summaries: OperatorEventSummary[] = [];
+        // one event at a time, every summary walks the files of its event
+        for (const event of events) {
+          summaries.push(await buildEventSummary(event));
+        }
+        summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        return res.status(200).json({ events: summaries });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.patch(
+    "/events/:eventId",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    verifyOperator,
+    // checked after the login, callers without one get a 401 instead of validation details
+    validateRequest({ body: updateOperatorEventBodySchema }),
+    loadOperatorEvent,
+    async (
+      req: ValidatedReq<{
+        params: typeof eventIdSchema;
+        body: typeof updateOperatorEventBodySchema;
+      }>,
+      res: Response<OperatorEventSummary | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const { locked, quotaBytes, quotaFiles } = req.body;
+        const event: EventConfig = { ...req.event!, settings: { ...req.event!.settings } };
+        if (locked !== undefined) {
+          event.locked = locked;
+          // unlocking an archived event restores it, the sweeper would lock it again otherwise
+          if (!locked && isEventExpired(event)) event.expiresAt = null;
+        }
+        if (quotaBytes !== undefined) event.settings.quotaBytes = quotaBytes;
+        if (quotaFiles !== undefined) event.settings.quotaFiles = quotaFiles;
+        await saveEvent(event);
+        return res.status(200).json(await buildEventSummary(event));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/events/:eventId/admin-password",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    verifyOperator,
+    loadOperatorEvent,
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema }>,
+      res: Response<{ adminPassword: string } | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const adminPassword = await resetAdminPassword(req.event!);
+        return res.status(200).json({ adminPassword });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.delete(
+    "/events/:eventId",
+    validateRequest({ params: eventIdSchema }, { errorKey: "INVALID_EVENT_ID" }),
+    verifyOperator,
+    loadOperatorEvent,
+    async (
+      req: ValidatedReq<{ params: typeof eventIdSchema }>,
+      res: Response<{ message: string; ok: boolean } | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const eventId = req.event!.eventId;
+        await deleteEvent(eventId);
+        await removeAllResumableUploads(eventId);
+        clearPreviewJobs(eventId);
+        await removeEventPreviews(eventId);
+        return res.status(200).json({ message: "Event deleted successfully.", ok: true });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.use("/api/operator", router);
+};
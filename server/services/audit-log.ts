@@ -0,0 +1,119 @@
+import { createHmac, randomUUID } from "node:crypto";
+import type { Request } from "express";
+import { AUTH_RATE_LIMIT_WINDOW_MS, SESSION_SECRET } from "../config.js";
+import { AUDIT_LOGIN_FAILURES_PER_IP, AUDIT_LOGIN_USER_MAX_LENGTH } from "../constants.js";
+import { logger } from "../logger.js";
+import { storage } from "../storage/index.js";
+import { ok, StorageResult } from "../storage/types.js";
+import { AuditAction, AuditLogEntry, AuditLogPage } from "../types.js";
+import { getClientIp, recordAuthFailure } from "./auth-rate-limit.js";
+
+/** What a route knows about the action, the caller and the time are added by recordAuditEntry. */
+export type AuditDetails = Pick<
+  AuditLogEntry,
+  "action" | "folder" | "files" | "to" | "storedAs" | "fields" | "user"
+> & {
+  /** Used when the caller has no name of their own, e.g. the uploader name of guests. */
+  actor?: string | null;
+};
+
+export type AuditLogQuery = {
+  page: number;
+  pageSize: number;
+  action?: AuditAction;
+  /** Matches names of the caller, case-insensitive and partial. */
+  actor?: string;
+};
+
+// keyed with the session secret, so the hashes cannot be reversed by hashing every address
+const hashClientIp = (req: Request) =>
+  createHmac("sha256", SESSION_SECRET)
+    .update(`audit|${getClientIp(req)}`)
+    .digest("base64url")
+    .slice(0, 16);
+
+/**
+ * Appends an entry to the audit log of the event. Failures are logged and swallowed, a
+ * missing log line must not fail the request that was already carried out.
+ */
+export const recordAuditEntry = async (req: Request, eventId: string, details: AuditDetails) => {
+  const { actor, ...rest } = details;
+  const entry: AuditLogEntry = {
+    entryId: randomUUID(),
+    createdAt: new Date().toISOString(),
+    role: rest.action === "loginFailed" ? null : (req.user?.role ?? null),
+    actor: req.user?.principal?.name ?? actor ?? null,
+    ipHash: hashClientIp(req),
+    ...rest,
+  };
+  try {
+    const result = await storage.events.appendAuditEntry(eventId, entry);
+    if (!result.ok) {
+      logger.warn("Audit log entry not written", { eventId, action: entry.action });
+    }
+  } catch (error) {
+    logger.error("Failed to write audit log entry", { eventId, action: entry.action }, error);
+  }
+};
+
+type LoginFailureWindow = { count: number; windowStart: number };
+
+const loginFailureWindows = new Map<string, LoginFailureWindow>();
+
+// the rate limit is per user name, a new name for every attempt must not grow the log forever
+const takeLoginFailureSlot = (req: Request, eventId: string, now = Date.now()) => {
+  const key = `${getClientIp(req)}|${eventId}`;
+  const existing = loginFailureWindows.get(key);
+  if (existing && now - existing.windowStart <= AUTH_RATE_LIMIT_WINDOW_MS) {
+    existing.count += 1;
+    return existing.count <= AUDIT_LOGIN_FAILURES_PER_IP;
+  }
+  for (const [staleKey, window] of loginFailureWindows) {
+    if (now - window.windowStart > AUTH_RATE_LIMIT_WINDOW_MS) loginFailureWindows.delete(staleKey);
+  }
+  loginFailureWindows.set(key, { count: 1, windowStart: now });
+  return true;
+};
+
+// the name is whatever the caller sent, only a short printable form of it is kept
+const normalizeLoginUser = (user: string) =>
+  Array.from(user.normalize("NFKC").replace(/\p{C}/gu, "").trim())
+    .slice(0, AUDIT_LOGIN_USER_MAX_LENGTH)
+    .join("");
+
+/**
+ * Counts the failure towards the rate limit and keeps it in the audit log. Past
+ * AUDIT_LOGIN_FAILURES_PER_IP failures of an address within the rate limit window, only the
+ * rate limit counts them.
+ */
+export const recordLoginFailure = async (req: Request, eventId: string, user: string) => {
+  recordAuthFailure(req, eventId, user);
+  if (!takeLoginFailureSlot(req, eventId)) return;
+  await recordAuditEntry(req, eventId, { action: "loginFailed", user: normalizeLoginUser(user) });
+};
+
+/** Newest entries first, filtered before paging so the total matches the filter. */
+export const listAuditLog = async (
+  eventId: string,
+  query: AuditLogQuery
+): Promise<StorageResult<AuditLogPage>> => {
+  const result = await storage.events.listAuditEntries(eventId);
+  if (!result.ok) return result;
+
+  const actor = query.actor?.toLowerCase();
+  const matches = result.data
+    .filter((entry) => !query.action || entry.action === query.action)
+    .filter(
+      (entry) =>
+        !actor || [entry.actor, entry.user].some((name) => name?.toLowerCase().includes(actor))
+    )
+    .reverse();
+
+  const start = (query.page - 1) * query.pageSize;
+  return ok({
+    entries: matches.slice(start, start + query.pageSize),
+    total: matches.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  });
+};
@@ -14,7 +14,7 @@ type AuthFailureEntry = {
 
 const authFailureTracker = new Map<string, AuthFailureEntry>();
 
-const getClientIp = (req: Request) => req.ip || req.socket.remoteAddress || "unknown";
+export const getClientIp = (req: Request) => req.ip || req.socket.remoteAddress || "unknown";
 
 const buildAuthKey = (req: Request, eventId: string, user: string) =>
   `${getClientIp(req)}|${eventId}|${user}`;
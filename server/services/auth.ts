@@ -1,9 +1,11 @@
+import { randomInt } from "node:crypto";
 import bcrypt from "bcryptjs";
 import { EventConfig } from "../types.js";
 import { Request } from "express";
 import { logger } from "../logger.js";
+import { findCoHostByName } from "./co-hosts.js";
 
-export type AllowedUserRole = "admin" | "guest";
+export type AllowedUserRole = "admin" | "moderator" | "guest";
 
 export type AuthCredentials = { user: string; password: string };
 
@@ -68,16 +70,76 @@ export const hasGuestAccess = async (
   );
 };
 
-export const hasAdminAccess = async (
+/** Moderators share one password, events without it have no moderator access. */
+export const hasModeratorAccess = async (
   req: Request,
   eventConfig: EventConfig,
   credentials: AuthCredentials
 ): Promise<boolean> => {
-  return hasAccess(
-    req,
-    eventConfig.eventId,
-    "admin",
-    eventConfig.auth.adminPasswordHash,
-    credentials
-  );
+  const hash = eventConfig.auth.moderatorPasswordHash;
+  if (!hash) return false;
+  return hasAccess(req, eventConfig.eventId, "moderator", hash, credentials);
+};
+
+/** Login name of the event owner; co-hosts log in with their own name. */
+export const OWNER_USER = "admin";
+
+/** Who acts with admin rights, so changes can be attributed to a person. */
+export type AdminPrincipal = { name: string; coHostId: string | null };
+
+export const OWNER_PRINCIPAL: AdminPrincipal = { name: OWNER_USER, coHostId: null };
+
+/** Checks the owner password for user "admin", otherwise the password of the named co-host. */
+export const hasAdminAccess = async (
+  req: Request,
+  eventConfig: EventConfig,
+  credentials: AuthCredentials
+): Promise<AdminPrincipal | null> => {
+  if (credentials.user === OWNER_USER) {
+    const granted = await hasAccess(
+      req,
+      eventConfig.eventId,
+      "admin",
+      eventConfig.auth.adminPasswordHash,
+      credentials
+    );
+    return granted ? OWNER_PRINCIPAL : null;
+  }
+
+  const coHost = findCoHostByName(eventConfig, credentials.user);
+  if (!coHost) return null;
+  if (!(await bcrypt.compare(credentials.password, coHost.passwordHash))) {
+    logger.debug("co-host access denied. Wrong password submitted.", {
+      path: req.path,
+      user: coHost.name,
+      eventId: eventConfig.eventId,
+      ip: req.ip,
+    });
+    return null;
+  }
+  return { name: coHost.name, coHostId: coHost.coHostId };
+};
+
+// no 0/O and 1/I, the code is read off a screen or a printout
+const RECOVERY_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const RECOVERY_CODE_GROUPS = 4;
+const RECOVERY_CODE_GROUP_LENGTH = 4;
+
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+/** Creates a one-time code that lets the admin set a new password, e.g. "ABCD-EFGH-JKLM-NPQR". */
+export const generateRecoveryCode = () =>
+  Array.from({ length: RECOVERY_CODE_GROUPS }, () =>
+    Array.from(
+      { length: RECOVERY_CODE_GROUP_LENGTH },
+      () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]
+    ).join("")
+  ).join("-");
+
+export const hashRecoveryCode = (code: string) => bcrypt.hash(normalizeRecoveryCode(code), 10);
+
+export const hasValidRecoveryCode = async (eventConfig: EventConfig, code: string) => {
+  const hash = eventConfig.auth.recoveryCodeHash;
+  if (!hash) return false;
+  return bcrypt.compare(normalizeRecoveryCode(code), hash);
 };
@@ -0,0 +1,26 @@
+import { randomUUID } from "node:crypto";
+import bcrypt from "bcryptjs";
+import { CoHost, CoHostResponse, EventConfig } from "../types.js";
+
+/** Finds the co-host a login name belongs to, names are compared regardless of case. */
+export const findCoHostByName = (event: EventConfig, name: string) => {
+  const normalized = name.trim().toLowerCase();
+  if (!normalized) return undefined;
+  return event.auth.coHosts.find((coHost) => coHost.name.toLowerCase() === normalized);
+};
+
+export const findCoHostById = (event: EventConfig, coHostId: string) =>
+  event.auth.coHosts.find((coHost) => coHost.coHostId === coHostId);
+
+export const createCoHost = async (name: string, password: string): Promise<CoHost> => ({
+  coHostId: randomUUID(),
+  name,
+  passwordHash: await bcrypt.hash(password, 10),
+  createdAt: new Date().toISOString(),
+});
+
+export const buildCoHostResponse = ({ coHostId, name, createdAt }: CoHost): CoHostResponse => ({
+  coHostId,
+  name,
+  createdAt,
+});
@@ -0,0 +1,74 @@
+import { EVENT_SWEEP_INTERVAL_MS, EXPIRED_EVENT_ACTION } from "../config.js";
+import { logger } from "../logger.js";
+import { EventConfig } from "../types.js";
+import { deleteEvent, isEventExpired, listEvents, saveEvent } from "./events.js";
+import { removeEventPreviews } from "./preview-cache.js";
+import { clearPreviewJobs } from "./preview-worker.js";
+import { removeAllResumableUploads } from "./resumable-uploads.js";
+import { purgeExpiredTrash } from "./trash.js";
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepRunning = false;
+
+/** Drops everything that can be rebuilt or is of no use once uploads are over. */
+const removeTransientData = async (eventId: string) => {
+  await removeAllResumableUploads(eventId);
+  clearPreviewJobs(eventId);
+  await removeEventPreviews(eventId);
+};
+
+/** Locks the event and keeps its files, the operator can unlock it again. */
+const archiveEvent = async (event: EventConfig) => {
+  await saveEvent({ ...event, locked: true });
+  await removeTransientData(event.eventId);
+  logger.info("Archived expired event", { eventId: event.eventId, expiresAt: event.expiresAt });
+};
+
+const purgeEvent = async (event: EventConfig) => {
+  await deleteEvent(event.eventId);
+  await removeTransientData(event.eventId);
+  logger.info("Deleted expired event", { eventId: event.eventId, expiresAt: event.expiresAt });
+};
+
+/**
+ * Archives or deletes every expired event, depending on EXPIRED_EVENT_ACTION, and
+ * purges trashed files of the remaining events once their retention ran out.
+ */
+export const sweepExpiredEvents = async () => {
+  // a slow sweep must not overlap with the next one
+  if (sweepRunning) return;
+  sweepRunning = true;
+  try {
+    const now = Date.now();
+    const events = await listEvents();
+    for (const event of events) {
+      try {
+        if (isEventExpired(event, now)) {
+          if (EXPIRED_EVENT_ACTION === "delete") {
+            await purgeEvent(event);
+            continue;
+          }
+          if (!event.locked) await archiveEvent(event);
+        }
+        await purgeExpiredTrash(event.eventId, now);
+      } catch (error) {
+        logger.error("Failed to sweep event", { eventId: event.eventId }, error);
+      }
+    }
+  } finally {
+    sweepRunning = false;
+  }
+};
+
+export const startEventSweeper = () => {
+  if (sweepTimer) return;
+  const run = () => {
+    sweepExpiredEvents().catch((error: unknown) => {
+      logger.error("Expired event sweep failed", error);
+    });
+  };
+  run();
+  sweepTimer = setInterval(run, EVENT_SWEEP_INTERVAL_MS);
+  // the sweeper alone must not keep the process alive
+  sweepTimer.unref();
+};
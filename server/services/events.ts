@@ -1,10 +1,12 @@
 import path from "node:path";
 import fs from "node:fs";
+import { randomBytes } from "node:crypto";
 import bcrypt from "bcryptjs";
-import { DATA_ROOT_PATH } from "../config.js";
-import { EventConfig } from "../types.js";
+import { DATA_ROOT_PATH, EVENT_QUOTA_BYTES, EVENT_QUOTA_FILES } from "../config.js";
+import { EventConfig, EventQuota, StorageUsage } from "../types.js";
 import { storage } from "../storage/index.js";
 import { StorageResult } from "../storage/types.js";
+import { AllowedUserRole, hashRecoveryCode } from "./auth.js";
 
 export class EventAlreadyExistsError extends Error {
   constructor(eventId: string) {
@@ -17,6 +19,9 @@ const normalizeProject = (config: EventConfig): EventConfig => ({
   ...config,
   name: (config.name || "").trim() || config.eventId,
   description: config.description ? config.description.trim() : undefined,
+  uploadOpensAt: config.uploadOpensAt ?? null,
+  uploadClosesAt: config.uploadClosesAt ?? null,
+  expiresAt: config.expiresAt ?? null,
   allowedMimeTypes: Array.isArray(config.allowedMimeTypes)
     ? config.allowedMimeTypes.filter(Boolean).map((m) => m.trim())
     : [],
@@ -26,11 +31,23 @@ const normalizeProject = (config: EventConfig): EventConfig => ({
     allowGuestUpload: config.settings?.allowGuestUpload ?? true,
     requireUploadFolder: Boolean(config.settings?.requireUploadFolder),
     uploadFolderHint: config.settings?.uploadFolderHint ?? null,
+    uploadFolders: Array.isArray(config.settings?.uploadFolders)
+      ? config.settings.uploadFolders
+      : [],
+    restrictUploadFolders: Boolean(config.settings?.restrictUploadFolders),
+    moderateUploads: Boolean(config.settings?.moderateUploads),
+    quotaBytes: config.settings?.quotaBytes ?? null,
+    quotaFiles: config.settings?.quotaFiles ?? null,
   },
   auth: {
     guestPasswordHash: config.auth?.guestPasswordHash ?? null,
     adminPasswordHash: config.auth?.adminPasswordHash || "",
+    moderatorPasswordHash: config.auth?.moderatorPasswordHash ?? null,
+    recoveryCodeHash: config.auth?.recoveryCodeHash ?? null,
+    coHosts: Array.isArray(config.auth?.coHosts) ? config.auth.coHosts : [],
   },
+  shares: Array.isArray(config.shares) ? config.shares : [],
+  locked: Boolean(config.locked),
 });
 
 const requireOk = <T>(result: StorageResult<T>): T => {
@@ -56,6 +73,9 @@ export const getEvent = async (eventId: string): Promise<EventConfig | null> =>
   return normalizeProject(result.data);
 };
 
+export const listEvents = async (): Promise<EventConfig[]> =>
+  requireOk(await storage.events.listEvents()).map(normalizeProject);
+
 export const saveEvent = async (project: EventConfig) => {
   const normalized = normalizeProject(project);
   requireOk(await storage.events.saveEvent(normalized));
@@ -67,11 +87,15 @@ export const createEventConfig = async (params: {
   eventId: string;
   guestPassword: string;
   adminPassword: string;
+  recoveryCode: string;
   allowedMimeTypes?: string[];
   allowGuestDownload?: boolean;
   allowGuestUpload?: boolean;
   requireUploadFolder?: boolean;
   uploadFolderHint?: string | null;
+  uploadOpensAt?: string | null;
+  uploadClosesAt?: string | null;
+  expiresAt?: string | null;
 }): Promise<EventConfig> => {
   const {
     name,
@@ -79,11 +103,15 @@ export const createEventConfig = async (params: {
     eventId,
     guestPassword,
     adminPassword,
+    recoveryCode,
     allowedMimeTypes,
     allowGuestDownload,
     allowGuestUpload,
     requireUploadFolder,
     uploadFolderHint,
+    uploadOpensAt,
+    uploadClosesAt,
+    expiresAt,
   } = params;
   const mimeTypes = Array.isArray(allowedMimeTypes)
     ? allowedMimeTypes.filter(Boolean).map((m) => m.trim())
@@ -93,6 +121,9 @@ export const createEventConfig = async (params: {
     description: description?.trim() || undefined,
     eventId: eventId,
     createdAt: new Date().toISOString(),
+    uploadOpensAt: uploadOpensAt ?? null,
+    uploadClosesAt: uploadClosesAt ?? null,
+    expiresAt: expiresAt ?? null,
     allowedMimeTypes: mimeTypes,
     settings: {
       rootPath: DATA_ROOT_PATH,
@@ -105,11 +136,19 @@ export const createEventConfig = async (params: {
         const trimmed = uploadFolderHint.trim();
         return trimmed ? trimmed : null;
       })(),
+      uploadFolders: [],
+      restrictUploadFolders: false,
+      moderateUploads: false,
     },
     auth: {
       guestPasswordHash: guestPassword ? await bcrypt.hash(guestPassword, 10) : null,
       adminPasswordHash: await bcrypt.hash(adminPassword, 10),
+      moderatorPasswordHash: null,
+      recoveryCodeHash: await hashRecoveryCode(recoveryCode),
+      coHosts: [],
     },
+    shares: [],
+    locked: false,
   };
 };
 
@@ -119,11 +158,15 @@ export const createEvent = async (params: {
   eventId: string;
   guestPassword: string;
   adminPassword: string;
+  recoveryCode: string;
   allowedMimeTypes?: string[];
   allowGuestDownload?: boolean;
   allowGuestUpload?: boolean;
   requireUploadFolder?: boolean;
   uploadFolderHint?: string | null;
+  uploadOpensAt?: string | null;
+  uploadClosesAt?: string | null;
+  expiresAt?: string | null;
 }): Promise<EventConfig> => {
   const event = await createEventConfig(params);
   const result = await storage.events.createEvent(event);
@@ -136,10 +179,75 @@ export const createEvent = async (params: {
   return result.data;
 };
 
+export const getEventQuota = (event: EventConfig): EventQuota => ({
+  maxBytes: event.settings.quotaBytes ?? EVENT_QUOTA_BYTES,
+  maxFiles: event.settings.quotaFiles ?? EVENT_QUOTA_FILES,
+});
+
+/** Only guest uploads are reviewed, admins and moderators curate the gallery themselves. */
+export const isUploadModerated = (event: EventConfig, role?: AllowedUserRole) =>
+  event.settings.moderateUploads && role === "guest";
+
+export const isEventExpired = (event: EventConfig, now = Date.now()) =>
+  event.expiresAt !== null && Date.parse(event.expiresAt) <= now;
+
+export type UploadWindowState = "open" | "notYetOpen" | "closed";
+
+/** Where now falls relative to the upload window of the event. */
+export const getUploadWindowState = (event: EventConfig, now = Date.now()): UploadWindowState => {
+  if (event.uploadOpensAt && now < Date.parse(event.uploadOpensAt)) return "notYetOpen";
+  if (event.uploadClosesAt && now >= Date.parse(event.uploadClosesAt)) return "closed";
+  return "open";
+};
+
+export const getEventUsage = async (eventId: string): Promise<StorageUsage> =>
+  requireOk(await storage.files.getUsage(eventId));
+
 export const deleteEvent = async (eventId: string) => {
   requireOk(await storage.events.deleteEvent(eventId));
 };
 
+/**
+ * Sets a new admin password, which ends all admin sessions. A given recovery code
+ * replaces the stored one.
+ */
+export const changeAdminPassword = async (
+  event: EventConfig,
+  adminPassword: string,
+  recoveryCode?: string
+): Promise<EventConfig> => {
+  const updated: EventConfig = {
+    ...event,
+    auth: {
+      ...event.auth,
+      adminPasswordHash: await bcrypt.hash(adminPassword, 10),
+      recoveryCodeHash: recoveryCode
+        ? await hashRecoveryCode(recoveryCode)
+        : event.auth.recoveryCodeHash,
+    },
+  };
+  await saveEvent(updated);
+  return updated;
+};
+
+/** Replaces the recovery code, the previous one stops working. */
+export const replaceRecoveryCode = async (event: EventConfig, recoveryCode: string) => {
+  await saveEvent({
+    ...event,
+    auth: { ...event.auth, recoveryCodeHash: await hashRecoveryCode(recoveryCode) },
+  });
+};
+
+/** Replaces the admin password with a random one, which also ends all admin sessions. */
+export const resetAdminPassword = async (event: EventConfig): Promise<string> => {
+  const adminPassword = randomBytes(12).toString("base64url");
+  await saveEvent({
+    ...event,
+    auth: { ...event.auth, adminPasswordHash: await bcrypt.hash(adminPassword, 10) },
+  });
+  return adminPassword;
+};
+
 export const findUniqueName = (dir: string, originalName: string) => {
   const parsed = path.parse(originalName);
   let candidate = originalName;
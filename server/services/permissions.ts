@@ -0,0 +1,49 @@
+import { AllowedUserRole } from "./auth.js";
+
+/** Actions a route can require, verifyAccess grants them based on the role of the caller. */
+export type Permission =
+  | "event:view"
+  | "event:manage"
+  | "files:list"
+  | "files:download"
+  | "files:upload"
+  | "files:delete"
+  | "files:move"
+  | "files:review"
+  | "shares:manage"
+  | "audit:view";
+
+const GUEST_PERMISSIONS: Permission[] = [
+  "event:view",
+  "files:list",
+  "files:download",
+  "files:upload",
+];
+
+// moderators curate the gallery, settings, passwords and share links stay with the admins
+const MODERATOR_PERMISSIONS: Permission[] = [
+  ...GUEST_PERMISSIONS,
+  "files:delete",
+  "files:move",
+  "files:review",
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...MODERATOR_PERMISSIONS,
+  "event:manage",
+  "shares:manage",
+  "audit:view",
+];
+
+const ROLE_PERMISSIONS: Record<AllowedUserRole, readonly Permission[]> = {
+  guest: GUEST_PERMISSIONS,
+  moderator: MODERATOR_PERMISSIONS,
+  admin: ADMIN_PERMISSIONS,
+};
+
+export const hasPermission = (role: AllowedUserRole, permission: Permission) =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+/** Roles that hold the permission, most privileged first. */
+export const rolesWithPermission = (permission: Permission): AllowedUserRole[] =>
+  (["admin", "moderator", "guest"] as const).filter((role) => hasPermission(role, permission));
@@ -0,0 +1,239 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { PREVIEW_CACHE_MAX_BYTES, PREVIEW_CACHE_PATH } from "../config.js";
+import { logger } from "../logger.js";
+
+export type PreviewFormat = "jpeg" | "webp" | "png";
+
+export type PreviewVariant = {
+  width?: number;
+  height?: number;
+  fit: "inside" | "cover";
+  quality: number;
+  format: PreviewFormat;
+};
+
+/** Video clips share the cache with images, only the file extension differs. */
+export type CachedVariant = Omit<PreviewVariant, "format"> & { format: PreviewFormat | "mp4" };
+
+export type PreviewSource = {
+  eventId: string;
+  folder: string;
+  filename: string;
+  lastModified: Date;
+};
+
+// folder names never contain underscores, so this cannot clash with a real folder
+const ROOT_FOLDER_KEY = "_root";
+
+/** Cached files in least recently used order, mapped to their size in bytes. */
+const entries = new Map<string, number>();
+let totalBytes = 0;
+let indexReady: Promise<void> | null = null;
+
+// renders in flight, so concurrent requests for the same variant share one sharp run
+const pending = new Map<string, Promise<Buffer>>();
+
+const isErrnoException = (error: unknown): error is NodeJS.ErrnoException =>
+  Boolean(error) && typeof error === "object" && "code" in (error as NodeJS.ErrnoException);
+
+const eventDir = (eventId: string) => path.join(PREVIEW_CACHE_PATH, eventId);
+
+const folderDir = (eventId: string, folder: string) =>
+  path.join(eventDir(eventId), folder || ROOT_FOLDER_KEY);
+
+const fileDir = (eventId: string, folder: string, filename: string) =>
+  path.join(folderDir(eventId, folder), createHash("sha1").update(filename).digest("hex"));
+
+const variantPath = (source: PreviewSource, variant: CachedVariant) => {
+  const size = `${variant.width ?? "auto"}x${variant.height ?? "auto"}`;
+  const name = `${source.lastModified.getTime()}-${size}-${variant.fit}-q${variant.quality}.${variant.format}`;
+  return path.join(fileDir(source.eventId, source.folder, source.filename), name);
+};
+
+const forget = (filePath: string) => {
+  const size = entries.get(filePath);
+  if (size === undefined) return;
+  entries.delete(filePath);
+  totalBytes -= size;
+};
+
+const track = (filePath: string, size: number) => {
+  forget(filePath);
+  entries.set(filePath, size);
+  totalBytes += size;
+};
+
+const forgetBelow = (dir: string) => {
+  const prefix = `${dir}${path.sep}`;
+  for (const filePath of [...entries.keys()]) {
+    if (filePath.startsWith(prefix)) forget(filePath);
+  }
+};
+
+const scanDir = async (
+  dir: string,
+  found: { filePath: string; size: number; mtimeMs: number }[]
+) => {
+  let dirents: fs.Dirent[];
+  try {
+    dirents = await readdir(dir, { withFileTypes: true });
+  } catch (error: unknown) {
+    if (isErrnoException(error) && error.code === "ENOENT") return;
+    throw error;
+  }
+
+  for (const dirent of dirents) {
+    const entryPath = path.join(dir, dirent.name);
+    if (dirent.isDirectory()) {
+      await scanDir(entryPath, found);
+    } else if (dirent.isFile() && !dirent.name.endsWith(".tmp")) {
+      const s = await stat(entryPath);
+      found.push({ filePath: entryPath, size: s.size, mtimeMs: s.mtimeMs });
+    }
+  }
+};
+
+const evict = async () => {
+  while (totalBytes > PREVIEW_CACHE_MAX_BYTES && entries.size > 0) {
+    const [oldest] = entries.keys();
+    forget(oldest);
+    await unlink(oldest).catch(() => {});
+  }
+};
+
+/** Rebuilds the LRU order from the file mtimes, which are bumped on every cache hit. */
+const ensureIndex = () => {
+  if (!indexReady) {
+    indexReady = (async () => {
+      const found: { filePath: string; size: number; mtimeMs: number }[] = [];
+      await scanDir(PREVIEW_CACHE_PATH, found);
+      found.sort((a, b) => a.mtimeMs - b.mtimeMs);
+      for (const entry of found) track(entry.filePath, entry.size);
+      logger.debug("Preview cache index loaded", { files: entries.size, bytes: totalBytes });
+      await evict();
+    })().catch((error) => {
+      indexReady = null;
+      throw error;
+    });
+  }
+  return indexReady;
+};
+
+const store = async (filePath: string, buffer: Buffer) => {
+  if (buffer.length > PREVIEW_CACHE_MAX_BYTES) return;
+  try {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, buffer);
+    await rename(tmpPath, filePath);
+    track(filePath, buffer.length);
+    await evict();
+  } catch (error) {
+    logger.warn("Failed to store preview in cache", { filePath }, error);
+  }
+};
+
+/**
+ * Returns the rendered preview for the variant, from disk when it was rendered before.
+ * The cache key contains the file mtime, so replaced files never serve an old preview.
+ */
+export const getCachedPreview = async (
+  source: PreviewSource,
+  variant: CachedVariant,
+  render: () => Promise<Buffer>
+): Promise<{ buffer: Buffer; cacheHit: boolean }> => {
+  if (PREVIEW_CACHE_MAX_BYTES <= 0) {
+    return { buffer: await render(), cacheHit: false };
+  }
+
+  await ensureIndex();
+  const filePath = variantPath(source, variant);
+
+  if (entries.has(filePath)) {
+    try {
+      const buffer = await readFile(filePath);
+      track(filePath, buffer.length);
+      const now = new Date();
+      utimes(filePath, now, now).catch(() => {});
+      return { buffer, cacheHit: true };
+    } catch (error: unknown) {
+      if (!isErrnoException(error) || error.code !== "ENOENT") throw error;
+      forget(filePath);
+    }
+  }
+
+  let rendering = pending.get(filePath);
+  if (!rendering) {
+    rendering = render()
+      .then(async (buffer) => {
+        await store(filePath, buffer);
+        return buffer;
+      })
+      .finally(() => pending.delete(filePath));
+    pending.set(filePath, rendering);
+  }
+  return { buffer: await rendering, cacheHit: false };
+};
+
+const removeDir = async (dir: string) => {
+  forgetBelow(dir);
+  await rm(dir, { recursive: true, force: true });
+};
+
+export const invalidateFilePreviews = async (eventId: string, folder: string, filename: string) => {
+  await removeDir(fileDir(eventId, folder, filename));
+};
+
+/**
+ * Carries the previews of a renamed or moved file over to its new name. Moving can change the
+ * mtime, so the previews are re-keyed with the one the file has now.
+ */
+export const moveFilePreviews = async (from: PreviewSource, to: PreviewSource) => {
+  const fromDir = fileDir(from.eventId, from.folder, from.filename);
+  const toDir = fileDir(to.eventId, to.folder, to.filename);
+  if (fromDir === toDir) return;
+  await removeDir(toDir);
+  if (PREVIEW_CACHE_MAX_BYTES > 0) {
+    await ensureIndex();
+    // previews of older content of the file are not served anymore, they go with the old dir
+    const fromPrefix = `${from.lastModified.getTime()}-`;
+    const current = [...entries].filter(
+      ([filePath]) =>
+        path.dirname(filePath) === fromDir && path.basename(filePath).startsWith(fromPrefix)
+    );
+    for (const [filePath, size] of current) {
+      const name = path.basename(filePath).slice(fromPrefix.length);
+      const target = path.join(toDir, `${to.lastModified.getTime()}-${name}`);
+      forget(filePath);
+      try {
+        await mkdir(toDir, { recursive: true });
+        await rename(filePath, target);
+        track(target, size);
+      } catch (error: unknown) {
+        if (!isErrnoException(error) || error.code !== "ENOENT") throw error;
+      }
+    }
+  }
+  await removeDir(fromDir);
+};
+
+export const invalidateFolderPreviews = async (eventId: string, folder: string) => {
+  await removeDir(folderDir(eventId, folder));
+};
+
+export const removeEventPreviews = async (eventId: string) => {
+  await removeDir(eventDir(eventId));
+};
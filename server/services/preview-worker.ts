@@ -0,0 +1,113 @@
+import { PREVIEW_CACHE_MAX_BYTES, PREVIEW_WORKER_CONCURRENCY } from "../config.js";
+import { PREVIEW_JOB_MAX_ATTEMPTS, PREVIEW_JOB_RETRY_DELAY_MS } from "../constants.js";
+import { logger } from "../logger.js";
+import { PreviewJobStatus } from "../types.js";
+import { getPreview, isPreviewableImage, PREVIEW_PRESETS } from "./previews.js";
+
+type PreviewJob = {
+  eventId: string;
+  folder: string;
+  filename: string;
+  attempts: number;
+};
+
+const queue: PreviewJob[] = [];
+let running = 0;
+
+/** Job counters per event since the server started, shown to admins. */
+const statusByEvent = new Map<string, PreviewJobStatus>();
+
+const isEnabled = () => PREVIEW_WORKER_CONCURRENCY > 0 && PREVIEW_CACHE_MAX_BYTES > 0;
+
+// jobs of a deleted event may still finish, their counters are dropped then
+const updateStatus = (eventId: string, update: (status: PreviewJobStatus) => void) => {
+  const status = statusByEvent.get(eventId);
+  if (status) update(status);
+};
+
+const runJob = async (job: PreviewJob) => {
+  try {
+    for (const variant of Object.values(PREVIEW_PRESETS)) {
+      const result = await getPreview(job, variant);
+      // the file was deleted before its turn, there is nothing left to render
+      if (!result.ok) break;
+    }
+    updateStatus(job.eventId, (status) => {
+      status.processing -= 1;
+      status.completed += 1;
+    });
+  } catch (error) {
+    job.attempts += 1;
+    if (job.attempts < PREVIEW_JOB_MAX_ATTEMPTS && statusByEvent.has(job.eventId)) {
+      updateStatus(job.eventId, (status) => {
+        status.processing -= 1;
+        status.pending += 1;
+      });
+      setTimeout(() => {
+        queue.push(job);
+        drain();
+      }, PREVIEW_JOB_RETRY_DELAY_MS * job.attempts).unref();
+      return;
+    }
+    updateStatus(job.eventId, (status) => {
+      status.processing -= 1;
+      status.failed += 1;
+    });
+    logger.warn(
+      "Failed to pre-generate previews",
+      { eventId: job.eventId, folder: job.folder, filename: job.filename },
+      error
+    );
+  }
+};
+
+const drain = () => {
+  while (running < PREVIEW_WORKER_CONCURRENCY && queue.length > 0) {
+    const job = queue.shift()!;
+    running += 1;
+    updateStatus(job.eventId, (status) => {
+      status.pending -= 1;
+      status.processing += 1;
+    });
+    void runJob(job).finally(() => {
+      running -= 1;
+      drain();
+    });
+  }
+};
+
+/**
+ * Queues rendering of the standard preview sizes for newly stored images,
+ * so the first visitor of the file browser gets them from the cache.
+ */
+export const queuePreviewGeneration = (eventId: string, folder: string, filenames: string[]) => {
+  if (!isEnabled()) return;
+  const images = filenames.filter(isPreviewableImage);
+  if (!images.length) return;
+
+  if (!statusByEvent.has(eventId)) {
+    statusByEvent.set(eventId, { pending: 0, processing: 0, completed: 0, failed: 0 });
+  }
+  for (const filename of images) {
+    queue.push({ eventId, folder, filename, attempts: 0 });
+  }
+  updateStatus(eventId, (status) => {
+    status.pending += images.length;
+  });
+  drain();
+};
+
+export const getPreviewJobStatus = (eventId: string): PreviewJobStatus => ({
+  pending: 0,
+  processing: 0,
+  completed: 0,
+  failed: 0,
+  ...statusByEvent.get(eventId),
+});
+
+export const clearPreviewJobs = (eventId: string) => {
+  for (let i = queue.length - 1; i >= 0; i -= 1) {
+    if (queue[i].eventId === eventId) queue.splice(i, 1);
+  }
+  statusByEvent.delete(eventId);
+};
@@ -0,0 +1,208 @@
+import sharp from "sharp";
+import decodeHeic from "heic-decode";
+import { MAX_PREVIEW_SIZE } from "../constants.js";
+import { storage } from "../storage/index.js";
+import { createStorageError, fail, ok, StorageResult } from "../storage/types.js";
+import { ErrorResponse } from "../types.js";
+import { detectImageFormat, IMAGE_SIGNATURE_BYTES, ImageFormat } from "../utils/image-format.js";
+import { logger } from "../logger.js";
+import {
+  getCachedPreview,
+  invalidateFilePreviews,
+  moveFilePreviews,
+  PreviewSource,
+  PreviewVariant,
+} from "./preview-cache.js";
+
+/**
+ * Variants the frontend requests, rendered ahead of time after uploads. They have to match its
+ * requests exactly, any other variant is cached without ever being served.
+ */
+export const PREVIEW_PRESETS = {
+  lightbox: {
+    width: MAX_PREVIEW_SIZE,
+    height: MAX_PREVIEW_SIZE,
+    fit: "inside",
+    quality: 80,
+    format: "jpeg",
+  },
+} satisfies Record<string, PreviewVariant>;
+
+// only used to pick files for background rendering, requests detect the format from the content
+const PREVIEW_EXTENSIONS = [
+  ".jpg",
+  ".jpeg",
+  ".png",
+  ".webp",
+  ".gif",
+  ".tif",
+  ".tiff",
+  ".avif",
+  ".heic",
+  ".heif",
+];
+
+// the file disappeared between the stat and reading it for rendering
+export class PreviewSourceMissingError extends Error {
+  constructor(public readonly error: ErrorResponse) {
+    super(error.message);
+  }
+}
+
+/** The content is no image libvips (or the HEIC fallback) can decode. */
+export class UnsupportedPreviewError extends Error {
+  constructor(message = "Preview not available for this file type.") {
+    super(message);
+  }
+}
+
+export const isPreviewableImage = (filename: string) => {
+  const lowerName = filename.toLowerCase();
+  return PREVIEW_EXTENSIONS.some((extension) => lowerName.endsWith(extension));
+};
+
+export const readFileHead = async (
+  eventId: string,
+  folder: string,
+  filename: string
+): Promise<StorageResult<Buffer>> => {
+  const streamResult = await storage.files.getFileStream(eventId, folder, filename);
+  if (!streamResult.ok) return streamResult;
+
+  const { stream } = streamResult.data;
+  const chunks: Buffer[] = [];
+  let length = 0;
+  try {
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+      length += (chunk as Buffer).length;
+      if (length >= IMAGE_SIGNATURE_BYTES) break;
+    }
+  } finally {
+    stream.destroy();
+  }
+  return ok(Buffer.concat(chunks).subarray(0, IMAGE_SIGNATURE_BYTES));
+};
+
+const applyVariant = (image: sharp.Sharp, variant: PreviewVariant) => {
+  let pipeline = image;
+  if (variant.width || variant.height) {
+    pipeline = pipeline.resize({
+      width: variant.width,
+      height: variant.height,
+      fit: variant.fit,
+      withoutEnlargement: true,
+    });
+  }
+
+  if (variant.format === "jpeg") {
+    pipeline = pipeline.jpeg({ quality: variant.quality });
+  } else if (variant.format === "webp") {
+    pipeline = pipeline.webp({ quality: variant.quality });
+  } else {
+    pipeline = pipeline.png();
+  }
+  return pipeline.toBuffer();
+};
+
+/**
+ * The prebuilt libvips of sharp has no HEVC decoder, so HEIC photos from iPhones
+ * are decoded with libheif compiled to wasm when sharp cannot read them.
+ */
+const renderHeicFallback = async (input: Buffer, variant: PreviewVariant) => {
+  const decoded = await decodeHeic({ buffer: input });
+  const pixels = Buffer.from(decoded.data.buffer, decoded.data.byteOffset, decoded.data.byteLength);
+  return applyVariant(
+    sharp(pixels, { raw: { width: decoded.width, height: decoded.height, channels: 4 } }),
+    variant
+  );
+};
+
+/**
+ * Renders a preview variant. Only the first page is read, which is the first frame of GIFs.
+ * Content that cannot be decoded throws an UnsupportedPreviewError.
+ */
+export const renderPreview = async (
+  input: Buffer,
+  variant: PreviewVariant,
+  format: ImageFormat | null = detectImageFormat(input)
+) => {
+  if (!format) throw new UnsupportedPreviewError();
+
+  try {
+    return await applyVariant(sharp(input).rotate(), variant);
+  } catch (error) {
+    if (format === "heic") {
+      try {
+        return await renderHeicFallback(input, variant);
+      } catch (fallbackError) {
+        logger.debug("Could not decode HEIC image for preview", {}, fallbackError);
+      }
+    }
+    logger.debug("Could not decode image for preview", { format }, error);
+    throw new UnsupportedPreviewError("Preview not available for this file.");
+  }
+};
+
+export const unsupportedPreview = (error: UnsupportedPreviewError): StorageResult<never> =>
+  fail(
+    createStorageError({
+      message: error.message,
+      errorKey: "UNSUPPORTED_FILE_TYPE",
+      property: "filename",
+    })
+  );
+
+/**
+ * Returns the preview of a stored file, rendering it only when the variant is not cached.
+ * The format is detected from the first bytes, so other files are never loaded completely.
+ */
+export const getPreview = async (
+  file: { eventId: string; folder: string; filename: string },
+  variant: PreviewVariant
+): Promise<StorageResult<{ buffer: Buffer; cacheHit: boolean }>> => {
+  const infoResult = await storage.files.getFileInfo(file.eventId, file.folder, file.filename);
+  if (!infoResult.ok) return infoResult;
+
+  try {
+    const preview = await getCachedPreview(
+      { ...file, lastModified: infoResult.data.lastModified },
+      variant,
+      async () => {
+        const headResult = await readFileHead(file.eventId, file.folder, file.filename);
+        if (!headResult.ok) throw new PreviewSourceMissingError(headResult.error);
+        const format = detectImageFormat(headResult.data);
+        if (!format) throw new UnsupportedPreviewError();
+
+        const fileResult = await storage.files.getFileBuffer(
+          file.eventId,
+          file.folder,
+          file.filename
+        );
+        if (!fileResult.ok) throw new PreviewSourceMissingError(fileResult.error);
+        return renderPreview(fileResult.data.buffer, variant, format);
+      }
+    );
+    return ok(preview);
+  } catch (error) {
+    if (error instanceof PreviewSourceMissingError) return fail(error.error);
+    if (error instanceof UnsupportedPreviewError) return unsupportedPreview(error);
+    throw error;
+  }
+};
+
+/**
+ * Keeps the cached previews of a renamed or moved file, they are dropped when its new location
+ * cannot be read.
+ */
+export const carryOverPreviews = async (
+  from: PreviewSource,
+  to: { folder: string; filename: string }
+) => {
+  const infoResult = await storage.files.getFileInfo(from.eventId, to.folder, to.filename);
+  if (infoResult.ok) {
+    await moveFilePreviews(from, { ...from, ...to, lastModified: infoResult.data.lastModified });
+  } else {
+    await invalidateFilePreviews(from.eventId, from.folder, from.filename);
+  }
+};
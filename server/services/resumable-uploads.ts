@@ -0,0 +1,193 @@
+import fs from "node:fs";
+import { mkdir, readFile, readdir, rm, stat, truncate, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { Transform, type Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { UPLOAD_TEMP_PATH } from "../config.js";
+import { RESUMABLE_UPLOAD_DIR_NAME, RESUMABLE_UPLOAD_MAX_AGE_MS } from "../constants.js";
+import { logger } from "../logger.js";
+import { createStorageError, fail, ok, StorageResult, UploadedFile } from "../storage/types.js";
+import { ResumableUpload, ResumableUploadStatus } from "../types.js";
+
+const uploadsDir = (eventId: string) =>
+  path.join(UPLOAD_TEMP_PATH, eventId, RESUMABLE_UPLOAD_DIR_NAME);
+
+const dataPath = (eventId: string, uploadId: string) => path.join(uploadsDir(eventId), uploadId);
+
+const metaPath = (eventId: string, uploadId: string) =>
+  path.join(uploadsDir(eventId), `${uploadId}.json`);
+
+// chunks currently being written, a second PATCH for the same upload is rejected
+const activeUploads = new Set<string>();
+
+const isErrnoException = (error: unknown): error is NodeJS.ErrnoException =>
+  Boolean(error) && typeof error === "object" && "code" in (error as NodeJS.ErrnoException);
+
+const uploadNotFound = (): StorageResult<never> =>
+  fail(
+    createStorageError({
+      message: "Upload not found.",
+      errorKey: "UPLOAD_NOT_FOUND",
+      property: "uploadId",
+    })
+  );
+
+const removeFiles = async (eventId: string, uploadId: string) => {
+  await unlink(dataPath(eventId, uploadId)).catch(() => {});
+  await unlink(metaPath(eventId, uploadId)).catch(() => {});
+};
+
+const removeStaleUploads = async (eventId: string) => {
+  let entries: string[];
+  try {
+    entries = await readdir(uploadsDir(eventId));
+  } catch (error: unknown) {
+    if (isErrnoException(error) && error.code === "ENOENT") return;
+    throw error;
+  }
+
+  const now = Date.now();
+  for (const entry of entries) {
+    if (!entry.endsWith(".json")) continue;
+    const uploadId = entry.slice(0, -".json".length);
+    try {
+      const s = await stat(metaPath(eventId, uploadId));
+      if (now - s.mtimeMs > RESUMABLE_UPLOAD_MAX_AGE_MS) {
+        logger.debug(`Removing stale resumable upload ${eventId}/${uploadId}`);
+        await removeFiles(eventId, uploadId);
+      }
+    } catch {
+      // ignore uploads that disappear while sweeping
+    }
+  }
+};
+
+export const createResumableUpload = async (params: {
+  eventId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  folder: string;
+}): Promise<ResumableUpload> => {
+  await removeStaleUploads(params.eventId);
+
+  const upload: ResumableUpload = {
+    ...params,
+    uploadId: randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+  await mkdir(uploadsDir(upload.eventId), { recursive: true });
+  await writeFile(dataPath(upload.eventId, upload.uploadId), "");
+  await writeFile(metaPath(upload.eventId, upload.uploadId), JSON.stringify(upload), "utf8");
+  return upload;
+};
+
+export const getResumableUpload = async (
+  eventId: string,
+  uploadId: string
+): Promise<StorageResult<{ upload: ResumableUpload; offset: number }>> => {
+  try {
+    const raw = await readFile(metaPath(eventId, uploadId), "utf8");
+    const upload = JSON.parse(raw) as ResumableUpload;
+    const s = await stat(dataPath(eventId, uploadId));
+    return ok({ upload, offset: s.size });
+  } catch (error: unknown) {
+    if (isErrnoException(error) && error.code === "ENOENT") return uploadNotFound();
+    throw error;
+  }
+};
+
+export const toUploadStatus = (upload: ResumableUpload, offset: number): ResumableUploadStatus => ({
+  uploadId: upload.uploadId,
+  offset,
+  size: upload.size,
+});
+
+/**
+ * Appends a chunk at the given offset. The offset has to match the bytes already received,
+ * so a client that lost its connection asks for the current offset first and continues there.
+ * Bytes received before a connection drop are kept.
+ */
+export const appendResumableUploadChunk = async (
+  upload: ResumableUpload,
+  offset: number,
+  chunk: Readable
+): Promise<StorageResult<ResumableUploadStatus>> => {
+  const key = `${upload.eventId}/${upload.uploadId}`;
+  const filePath = dataPath(upload.eventId, upload.uploadId);
+
+  if (activeUploads.has(key)) {
+    return fail(
+      createStorageError({
+        message: "Another chunk of this upload is still being written.",
+        errorKey: "UPLOAD_OFFSET_MISMATCH",
+        property: "Upload-Offset",
+      })
+    );
+  }
+
+  activeUploads.add(key);
+  try {
+    const current = (await stat(filePath)).size;
+    if (current !== offset) {
+      return fail(
+        createStorageError({
+          message: "Upload offset does not match the received bytes.",
+          errorKey: "UPLOAD_OFFSET_MISMATCH",
+          property: "Upload-Offset",
+          additionalParams: { offset: current },
+        })
+      );
+    }
+
+    let received = current;
+    let exceeded = false;
+    const limit = new Transform({
+      transform(data: Buffer, _encoding, done) {
+        received += data.length;
+        if (received > upload.size) {
+          exceeded = true;
+          return done(new Error("Chunk exceeds the declared upload size."));
+        }
+        done(null, data);
+      },
+    });
+
+    try {
+      await pipeline(chunk, limit, fs.createWriteStream(filePath, { flags: "a" }));
+    } catch (error) {
+      if (!exceeded) throw error;
+      await truncate(filePath, current);
+      return fail(
+        createStorageError({
+          message: "Chunk exceeds the declared upload size.",
+          errorKey: "UPLOAD_TOO_LARGE",
+          additionalParams: { maxBytes: upload.size },
+        })
+      );
+    }
+
+    return ok(toUploadStatus(upload, (await stat(filePath)).size));
+  } catch (error: unknown) {
+    if (isErrnoException(error) && error.code === "ENOENT") return uploadNotFound();
+    throw error;
+  } finally {
+    activeUploads.delete(key);
+  }
+};
+
+export const toUploadedFile = (upload: ResumableUpload): UploadedFile => ({
+  originalname: upload.filename,
+  path: dataPath(upload.eventId, upload.uploadId),
+  size: upload.size,
+  mimetype: upload.mimeType,
+});
+
+export const removeResumableUpload = async (eventId: string, uploadId: string) => {
+  await removeFiles(eventId, uploadId);
+};
+
+export const removeAllResumableUploads = async (eventId: string) => {
+  await rm(uploadsDir(eventId), { recursive: true, force: true });
+};
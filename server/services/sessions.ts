@@ -0,0 +1,175 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { Request } from "express";
+import { OPERATOR_PASSWORD, SESSION_SECRET, SESSION_TTL_MS } from "../config.js";
+import { EventConfig } from "../types.js";
+import { AllowedUserRole } from "./auth.js";
+import { findCoHostById } from "./co-hosts.js";
+
+export type Session = {
+  sessionId: string;
+  eventId: string;
+  role: AllowedUserRole;
+  /** Set for admin sessions of a co-host, null for the owner, moderators and guests. */
+  coHostId: string | null;
+  expiresAt: number;
+};
+
+/** Operators are not bound to an event, their sessions only carry id and expiry. */
+export type OperatorSession = Pick<Session, "sessionId" | "expiresAt">;
+
+type SessionPayload = {
+  sid: string;
+  eid: string;
+  role: AllowedUserRole | "operator";
+  cid?: string;
+  exp: number;
+  key: string;
+};
+
+// sessions logged out before they expire, kept until they would have expired anyway
+const revokedSessions = new Map<string, number>();
+
+const sign = (value: string) =>
+  createHmac("sha256", SESSION_SECRET).update(value).digest("base64url");
+
+/**
+ * Fingerprint of the password the session was created with. Changing or removing
+ * the password changes it, which ends all sessions of that role or co-host.
+ */
+const credentialKey = (event: EventConfig, role: AllowedUserRole, coHostId: string | null) => {
+  if (coHostId) {
+    const coHost = findCoHostById(event, coHostId);
+    // removed co-hosts have no key any token could carry
+    if (!coHost) return null;
+    return sign(`${event.eventId}|cohost|${coHostId}|${coHost.passwordHash}`).slice(0, 16);
+  }
+  if (role === "moderator") {
+    // without a moderator password no moderator session is valid
+    if (!event.auth.moderatorPasswordHash) return null;
+    return sign(`${event.eventId}|moderator|${event.auth.moderatorPasswordHash}`).slice(0, 16);
+  }
+  const hash = role === "admin" ? event.auth.adminPasswordHash : event.auth.guestPasswordHash;
+  return sign(`${event.eventId}|${role}|${hash ?? ""}`).slice(0, 16);
+};
+
+const operatorCredentialKey = () => sign(`operator|${OPERATOR_PASSWORD}`).slice(0, 16);
+
+const encodeToken = (payload: SessionPayload) => {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+};
+
+/** Returns the payload of a token that is signed, not expired and not revoked. */
+const decodeToken = (token: string): SessionPayload | null => {
+  const [encoded, signature, ...rest] = token.split(".");
+  if (!encoded || !signature || rest.length) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  let payload: SessionPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8")) as SessionPayload;
+  } catch {
+    return null;
+  }
+
+  if (!(payload.exp > Date.now())) return null;
+  if (revokedSessions.has(payload.sid)) return null;
+  return payload;
+};
+
+const pruneRevokedSessions = (now: number) => {
+  for (const [sessionId, expiresAt] of revokedSessions) {
+    if (expiresAt <= now) revokedSessions.delete(sessionId);
+  }
+};
+
+export const parseBearerToken = (req: Request) => {
+  const authHeader = req.headers.authorization || "";
+  return authHeader.startsWith("Bearer ") ? authHeader.slice(7).trim() : "";
+};
+
+/**
+ * Creates a signed token for a user who just logged in with the password of the role,
+ * or with the password of a co-host.
+ */
+export const createSessionToken = (
+  event: EventConfig,
+  role: AllowedUserRole,
+  coHostId: string | null = null
+) => {
+  const key = credentialKey(event, role, coHostId);
+  if (!key) throw new Error(`No credentials for ${coHostId ? `co-host ${coHostId}` : role}.`);
+  const payload: SessionPayload = {
+    sid: randomUUID(),
+    eid: event.eventId,
+    role,
+    ...(coHostId ? { cid: coHostId } : {}),
+    exp: Date.now() + SESSION_TTL_MS,
+    key,
+  };
+  return {
+    token: encodeToken(payload),
+    session: {
+      sessionId: payload.sid,
+      eventId: payload.eid,
+      role,
+      coHostId,
+      expiresAt: payload.exp,
+    } satisfies Session,
+  };
+};
+
+/** Returns the session of a token, or null when it is forged, expired, revoked or outdated. */
+export const verifySessionToken = (token: string, event: EventConfig): Session | null => {
+  const payload = decodeToken(token);
+  if (!payload) return null;
+  if (payload.eid !== event.eventId) return null;
+  if (payload.role !== "admin" && payload.role !== "moderator" && payload.role !== "guest") {
+    return null;
+  }
+  const coHostId = payload.role === "admin" && payload.cid ? payload.cid : null;
+  if (payload.key !== credentialKey(event, payload.role, coHostId)) return null;
+
+  return {
+    sessionId: payload.sid,
+    eventId: payload.eid,
+    role: payload.role,
+    coHostId,
+    expiresAt: payload.exp,
+  };
+};
+
+/** Creates a signed token for the operator console. */
+export const createOperatorSessionToken = () => {
+  const payload: SessionPayload = {
+    sid: randomUUID(),
+    eid: "",
+    role: "operator",
+    exp: Date.now() + SESSION_TTL_MS,
+    key: operatorCredentialKey(),
+  };
+  return {
+    token: encodeToken(payload),
+    session: { sessionId: payload.sid, expiresAt: payload.exp } satisfies OperatorSession,
+  };
+};
+
+/** Like verifySessionToken, changing the operator password ends all operator sessions. */
+export const verifyOperatorSessionToken = (token: string): OperatorSession | null => {
+  const payload = decodeToken(token);
+  if (!payload || payload.role !== "operator") return null;
+  if (payload.key !== operatorCredentialKey()) return null;
+  return { sessionId: payload.sid, expiresAt: payload.exp };
+};
+
+/** Ends a session before it expires. Only kept in memory, like the auth rate limit. */
+export const revokeSession = (session: Session | OperatorSession) => {
+  const now = Date.now();
+  pruneRevokedSessions(now);
+  if (session.expiresAt > now) {
+    revokedSessions.set(session.sessionId, session.expiresAt);
+  }
+};
@@ -0,0 +1,103 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { SESSION_SECRET } from "../config.js";
+import { EventConfig, ShareLink, ShareLinkKind, ShareLinkResponse } from "../types.js";
+import { isWithinFolder } from "../utils/folders.js";
+
+/** What a request to a route reads, to check it against the target of a share link. */
+export type ShareScope = "download" | "list" | "zip";
+
+// the share id alone would be enough to find the link, the signature pins its target and expiry
+const sign = (eventId: string, share: ShareLink) =>
+  createHmac("sha256", SESSION_SECRET)
+    .update(
+      [
+        "share",
+        eventId,
+        share.shareId,
+        share.kind,
+        share.folder,
+        share.filename ?? "",
+        share.expiresAt,
+      ].join("|")
+    )
+    .digest("base64url");
+
+export const createShareToken = (eventId: string, share: ShareLink) =>
+  `${share.shareId}.${sign(eventId, share)}`;
+
+const buildSharePath = (eventId: string, share: ShareLink, token: string) => {
+  const base = `/api/events/${encodeURIComponent(eventId)}`;
+  const shareParam = `share=${encodeURIComponent(token)}`;
+  const folderParam = `folder=${encodeURIComponent(share.folder)}`;
+  if (share.kind === "file") {
+    const folderPath = share.folder ? `/${encodeURIComponent(share.folder)}` : "";
+    return `${base}/files${folderPath}/${encodeURIComponent(share.filename ?? "")}?${shareParam}`;
+  }
+  if (share.kind === "zip") return `${base}/files.zip?${folderParam}&${shareParam}`;
+  return `${base}/files?${folderParam}&${shareParam}`;
+};
+
+export const buildShareLinkResponse = (eventId: string, share: ShareLink): ShareLinkResponse => {
+  const token = createShareToken(eventId, share);
+  return { ...share, token, path: buildSharePath(eventId, share, token) };
+};
+
+export const isShareLinkExpired = (share: ShareLink, now = Date.now()) =>
+  Date.parse(share.expiresAt) <= now;
+
+export const getActiveShareLinks = (event: EventConfig) =>
+  event.shares.filter((share) => !isShareLinkExpired(share));
+
+export const createShareLink = (params: {
+  kind: ShareLinkKind;
+  folder: string;
+  filename: string | null;
+  expiresInHours: number;
+}): ShareLink => {
+  const now = Date.now();
+  return {
+    shareId: randomUUID(),
+    kind: params.kind,
+    folder: params.folder,
+    filename: params.kind === "file" ? params.filename : null,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + params.expiresInHours * 60 * 60 * 1000).toISOString(),
+  };
+};
+
+/** Returns the share link of a token, or null when it is forged or the link was revoked. */
+export const findShareLink = (event: EventConfig, token: string): ShareLink | null => {
+  const [shareId, signature, ...rest] = token.split(".");
+  if (!shareId || !signature || rest.length) return null;
+
+  const share = event.shares.find((entry) => entry.shareId === shareId);
+  if (!share) return null;
+
+  const expected = Buffer.from(sign(event.eventId, share));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  return share;
+};
+
+/**
+ * Checks whether a share link grants the request. Folder links include the files, previews
+ * and the ZIP of that folder and its subfolders, file links only the file itself and its
+ * previews.
+ */
+export const shareLinkCovers = (
+  share: ShareLink,
+  scope: ShareScope,
+  target: { folder: string; filename?: string }
+) => {
+  if (share.kind === "folder") return isWithinFolder(target.folder, share.folder);
+  if (share.kind === "zip") return scope === "zip" && isWithinFolder(target.folder, share.folder);
+  return (
+    scope === "download" && share.folder === target.folder && share.filename === target.filename
+  );
+};
+
+/** Whether an active file link points at the file, its token stops working once the file is renamed. */
+export const isFileShared = (event: EventConfig, folder: string, filename: string) =>
+  getActiveShareLinks(event).some(
+    (share) => share.kind === "file" && share.folder === folder && share.filename === filename
+  );
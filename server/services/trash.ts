@@ -0,0 +1,43 @@
+import type { Request } from "express";
+import { TRASH_RETENTION_MS } from "../config.js";
+import { logger } from "../logger.js";
+import { storage } from "../storage/index.js";
+import { ok, StorageResult } from "../storage/types.js";
+import { DeleteFileResult } from "../types.js";
+
+/**
+ * Moves the file into the trash of the event, or deletes it right away when the
+ * trash is turned off with a retention of 0.
+ */
+export const removeFile = async (
+  req: Request,
+  eventId: string,
+  folder: string,
+  filename: string
+): Promise<StorageResult<DeleteFileResult>> => {
+  if (TRASH_RETENTION_MS <= 0) {
+    return storage.files.deleteFile(eventId, folder, filename);
+  }
+  const result = await storage.files.trashFile(eventId, folder, filename, {
+    deletedByRole: req.user?.role ?? "admin",
+    deletedBy: req.user?.principal?.name ?? null,
+  });
+  if (!result.ok) return result;
+  return ok({ ok: true, message: "File moved to trash." });
+};
+
+/** Deletes trashed files of the event that are older than TRASH_RETENTION_MS. */
+export const purgeExpiredTrash = async (eventId: string, now = Date.now()) => {
+  const result = await storage.files.listTrash(eventId);
+  if (!result.ok) return;
+  const cutoff = now - TRASH_RETENTION_MS;
+  let purged = 0;
+  for (const entry of result.data) {
+    if (Date.parse(entry.deletedAt) > cutoff) continue;
+    const deleteResult = await storage.files.deleteTrashedFile(eventId, entry.trashId);
+    if (deleteResult.ok) purged += 1;
+  }
+  if (purged) {
+    logger.info("Purged expired trash", { eventId, count: purged });
+  }
+};
@@ -0,0 +1,200 @@
+import { spawn } from "node:child_process";
+import { FFMPEG_PATH, VIDEO_CLIP_SECONDS, VIDEO_POSTER_OFFSET_SECONDS } from "../config.js";
+import {
+  VIDEO_CLIP_MAX_BITRATE,
+  VIDEO_PREVIEW_CONCURRENCY,
+  VIDEO_PROCESS_TIMEOUT_MS,
+} from "../constants.js";
+import { logger } from "../logger.js";
+import { storage } from "../storage/index.js";
+import { createStorageError, fail, ok, StorageResult } from "../storage/types.js";
+import { detectVideoFormat } from "../utils/video-format.js";
+import { CachedVariant, getCachedPreview, PreviewVariant } from "./preview-cache.js";
+import {
+  PreviewSourceMissingError,
+  readFileHead,
+  renderPreview,
+  UnsupportedPreviewError,
+  unsupportedPreview,
+} from "./previews.js";
+
+type VideoFile = { eventId: string; folder: string; filename: string };
+
+// ffmpeg could not be started, usually because it is not installed
+class VideoToolUnavailableError extends Error {}
+
+// ffmpeg keeps a CPU core busy, so requests of a grid full of videos wait for their turn
+let active = 0;
+const waiting: (() => void)[] = [];
+
+const withSlot = async <T>(task: () => Promise<T>): Promise<T> => {
+  if (active >= VIDEO_PREVIEW_CONCURRENCY) {
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  } else {
+    active += 1;
+  }
+  try {
+    return await task();
+  } finally {
+    // the slot is handed over directly, so a new request cannot take it in between
+    const next = waiting.shift();
+    if (next) next();
+    else active -= 1;
+  }
+};
+
+const runFfmpeg = (args: string[]) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const child = spawn(FFMPEG_PATH, ["-hide_banner", "-loglevel", "error", ...args], {
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const chunks: Buffer[] = [];
+    let stderr = "";
+    const timer = setTimeout(() => child.kill("SIGKILL"), VIDEO_PROCESS_TIMEOUT_MS);
+
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(error.code === "ENOENT" ? new VideoToolUnavailableError(error.message) : error);
+    });
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(chunks));
+        return;
+      }
+      if (signal) {
+        reject(new Error(`ffmpeg was stopped with ${signal}`));
+        return;
+      }
+      logger.debug("ffmpeg could not process video", { code, stderr });
+      reject(new UnsupportedPreviewError("Preview not available for this file."));
+    });
+  });
+
+const extractFrame = async (inputPath: string, offsetSeconds: number) =>
+  runFfmpeg([
+    "-ss",
+    String(offsetSeconds),
+    "-i",
+    inputPath,
+    "-frames:v",
+    "1",
+    "-f",
+    "image2pipe",
+    "-c:v",
+    "png",
+    "pipe:1",
+  ]);
+
+const renderPoster = async (inputPath: string, variant: PreviewVariant) => {
+  let frame = await extractFrame(inputPath, VIDEO_POSTER_OFFSET_SECONDS);
+  // videos shorter than the offset have no frame there, their first frame is used instead
+  if (!frame.length && VIDEO_POSTER_OFFSET_SECONDS > 0) {
+    frame = await extractFrame(inputPath, 0);
+  }
+  if (!frame.length) throw new UnsupportedPreviewError("Preview not available for this file.");
+  return renderPreview(frame, variant, "png");
+};
+
+const renderClip = (inputPath: string, variant: CachedVariant) => {
+  const width = variant.width ?? -2;
+  const height = variant.height ?? -2;
+  // fragmented MP4 can be written to a pipe and still starts playing before it is complete
+  return runFfmpeg([
+    "-i",
+    inputPath,
+    "-t",
+    String(VIDEO_CLIP_SECONDS),
+    "-an",
+    "-vf",
+    `scale=w='min(${width},iw)':h='min(${height},ih)':force_original_aspect_ratio=decrease,scale=trunc(iw/2)*2:trunc(ih/2)*2`,
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-crf",
+    "30",
+    "-maxrate",
+    VIDEO_CLIP_MAX_BITRATE,
+    "-bufsize",
+    VIDEO_CLIP_MAX_BITRATE,
+    "-pix_fmt",
+    "yuv420p",
+    "-movflags",
+    "frag_keyframe+empty_moov+default_base_moof",
+    "-f",
+    "mp4",
+    "pipe:1",
+  ]);
+};
+
+const getVideoPreview = async (
+  file: VideoFile,
+  variant: CachedVariant,
+  render: (inputPath: string) => Promise<Buffer>
+): Promise<StorageResult<{ buffer: Buffer; cacheHit: boolean }>> => {
+  const infoResult = await storage.files.getFileInfo(file.eventId, file.folder, file.filename);
+  if (!infoResult.ok) return infoResult;
+
+  try {
+    const preview = await getCachedPreview(
+      { ...file, lastModified: infoResult.data.lastModified },
+      variant,
+      async () => {
+        const headResult = await readFileHead(file.eventId, file.folder, file.filename);
+        if (!headResult.ok) throw new PreviewSourceMissingError(headResult.error);
+        if (!detectVideoFormat(headResult.data)) throw new UnsupportedPreviewError();
+
+        return withSlot(async () => {
+          const localResult = await storage.files.getLocalFile(
+            file.eventId,
+            file.folder,
+            file.filename
+          );
+          if (!localResult.ok) throw new PreviewSourceMissingError(localResult.error);
+          try {
+            return await render(localResult.data.path);
+          } finally {
+            await localResult.data.release();
+          }
+        });
+      }
+    );
+    return ok(preview);
+  } catch (error) {
+    if (error instanceof PreviewSourceMissingError) return fail(error.error);
+    if (error instanceof UnsupportedPreviewError) return unsupportedPreview(error);
+    if (error instanceof VideoToolUnavailableError) {
+      logger.warn("Video previews need ffmpeg, set FFMPEG_PATH if it is not on the PATH", {
+        ffmpegPath: FFMPEG_PATH,
+      });
+      return fail(
+        createStorageError({
+          message: "Video previews are not available on this server.",
+          errorKey: "VIDEO_PREVIEWS_UNAVAILABLE",
+        })
+      );
+    }
+    throw error;
+  }
+};
+
+/** Returns a still image of the video, taken at the configured offset. */
+export const getVideoPoster = (file: VideoFile, variant: PreviewVariant) =>
+  getVideoPreview(file, variant, (inputPath) => renderPoster(inputPath, variant));
+
+/** Returns the first seconds of the video as a small muted MP4. */
+export const getVideoClip = (file: VideoFile, size: { width?: number; height?: number }) => {
+  // the clip length takes the place of the quality, so changing it renders new clips
+  const variant: CachedVariant = {
+    ...size,
+    fit: "inside",
+    quality: VIDEO_CLIP_SECONDS,
+    format: "mp4",
+  };
+  return getVideoPreview(file, variant, (inputPath) => renderClip(inputPath, variant));
+};
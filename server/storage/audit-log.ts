@@ -0,0 +1,17 @@
+import type { AuditLogEntry } from "../types.js";
+
+/** One JSON document per line, so appending never has to rewrite earlier entries. */
+export const serializeAuditEntry = (entry: AuditLogEntry) => `${JSON.stringify(entry)}\n`;
+
+export const parseAuditLog = (raw: string): AuditLogEntry[] => {
+  const entries: AuditLogEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as AuditLogEntry);
+    } catch {
+      // a line cut off by a crash during the write, the entries around it are still valid
+    }
+  }
+  return entries;
+};
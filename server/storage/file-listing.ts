@@ -0,0 +1,81 @@
+import express from "express";
+import type {
+  FileCursor,
+  FileEntry,
+  FileSortField,
+  ListFilesOptions,
+  ListFilesResult,
+} from "../types.js";
+import { matchesAllowedMimeType } from "../utils/validation.js";
+
+/** A file whose size and date have not been read yet. */
+export type FileCandidate = Pick<FileEntry, "name" | "folder">;
+
+type FilePosition = Pick<FileCursor, "key" | "name" | "folder">;
+
+type FilePage = Pick<ListFilesResult, "files" | "total" | "nextCursor">;
+
+const isLoaded = (file: FileCandidate | FileEntry): file is FileEntry => "size" in file;
+
+// the lookup res.type uses, so the filter matches the Content-Type files are served with
+const contentTypeOf = (name: string) => express.static.mime.lookup(name);
+
+const matchesFilters = (name: string, options: ListFilesOptions) =>
+  (!options.search || name.toLowerCase().includes(options.search.toLowerCase())) &&
+  (!options.types?.length || matchesAllowedMimeType(options.types, contentTypeOf(name)));
+
+const positionOf = (file: FileCandidate | FileEntry, sort: FileSortField): FilePosition => {
+  let key: string | number = file.name;
+  if (isLoaded(file) && sort === "size") key = file.size;
+  if (isLoaded(file) && sort === "date") key = file.createdAt;
+  return { key, name: file.name, folder: file.folder ?? "" };
+};
+
+const compareValues = (a: string | number, b: string | number) => {
+  if (typeof a === "string" && typeof b === "string") {
+    // numeric keeps IMG_9 before IMG_10, distinct names never compare equal
+    const byLocale = a.localeCompare(b, "en", { numeric: true });
+    if (byLocale !== 0) return byLocale;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+// every file gets a fixed position, so a cursor still works after files were added or removed
+const comparePositions = (a: FilePosition, b: FilePosition) =>
+  compareValues(a.key, b.key) || compareValues(a.name, b.name) || compareValues(a.folder, b.folder);
+
+/**
+ * Filters, sorts and pages the files of a listing. Sizes and dates are only loaded where needed,
+ * which for the name order is just the returned page.
+ */
+export const selectFilePage = async (
+  files: Array<FileCandidate | FileEntry>,
+  options: ListFilesOptions,
+  loadEntry?: (file: FileCandidate) => Promise<FileEntry>
+): Promise<FilePage> => {
+  const sort = options.sort ?? "name";
+  const order = options.order ?? "asc";
+  const direction = order === "desc" ? -1 : 1;
+  const load = (file: FileCandidate | FileEntry) =>
+    isLoaded(file) ? Promise.resolve(file) : loadEntry!(file);
+
+  const matching = files.filter((file) => matchesFilters(file.name, options));
+  const sortable = sort === "name" ? matching : await Promise.all(matching.map(load));
+  const sorted = sortable
+    .map((file) => ({ file, position: positionOf(file, sort) }))
+    .sort((a, b) => comparePositions(a.position, b.position) * direction);
+
+  const after = options.after;
+  const rest = after
+    ? sorted.filter(({ position }) => comparePositions(position, after) * direction > 0)
+    : sorted;
+  const page = options.limit ? rest.slice(0, options.limit) : rest;
+  const pageFiles = await Promise.all(page.map(({ file }) => load(file)));
+
+  const last = page[page.length - 1];
+  return {
+    files: pageFiles,
+    total: matching.length,
+    nextCursor: last && rest.length > page.length ? { sort, order, ...last.position } : null,
+  };
+};
@@ -1,11 +1,24 @@
 import path from "node:path";
-import { access, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { access, appendFile, mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
 import { DATA_ROOT_PATH } from "../../config.js";
-import { EventConfig } from "../../types.js";
+import { AUDIT_LOG_FILE_NAME } from "../../constants.js";
+import { AuditLogEntry, EventConfig } from "../../types.js";
+import { parseAuditLog, serializeAuditEntry } from "../audit-log.js";
 import { createStorageError, fail, ok, StorageResult, EventStore } from "../types.js";
 
 const projectPath = (eventId: string) => path.join(DATA_ROOT_PATH, eventId, "project.json");
 
+const auditLogPath = (eventId: string) => path.join(DATA_ROOT_PATH, eventId, AUDIT_LOG_FILE_NAME);
+
+const eventNotFound = () =>
+  fail(
+    createStorageError({
+      message: "Event not found.",
+      errorKey: "EVENT_NOT_FOUND",
+      property: "eventId",
+    })
+  );
+
 const isErrnoException = (error: unknown): error is NodeJS.ErrnoException =>
   Boolean(error) && typeof error === "object" && "code" in (error as NodeJS.ErrnoException);
 
@@ -30,18 +43,24 @@ export const createFsEventStore = (): EventStore => {
       return ok(JSON.parse(raw) as EventConfig);
     } catch (error: unknown) {
       if (isErrnoException(error) && error.code === "ENOENT") {
-        return fail(
-          createStorageError({
-            message: "Event not found.",
-            errorKey: "EVENT_NOT_FOUND",
-            property: "eventId",
-          })
-        );
+        return eventNotFound();
       }
       throw error;
     }
   };
 
+  const listEvents = async (): Promise<StorageResult<EventConfig[]>> => {
+    const entries = await readdir(DATA_ROOT_PATH, { withFileTypes: true });
+    const events: EventConfig[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      // directories without a project file are left over from failed creates
+      const result = await getEvent(entry.name);
+      if (result.ok) events.push(result.data);
+    }
+    return ok(events);
+  };
+
   const saveEvent = async (project: EventConfig): Promise<StorageResult<EventConfig>> => {
     const partyDir = path.join(DATA_ROOT_PATH, project.eventId);
     const uploadsDir = path.join(partyDir, "uploads");
@@ -77,12 +96,39 @@ export const createFsEventStore = (): EventStore => {
     return ok(undefined);
   };
 
+  const appendAuditEntry = async (
+    eventId: string,
+    entry: AuditLogEntry
+  ): Promise<StorageResult<void>> => {
+    try {
+      // appends of a single line are atomic, concurrent requests need no locking
+      await appendFile(auditLogPath(eventId), serializeAuditEntry(entry), "utf8");
+      return ok(undefined);
+    } catch (error: unknown) {
+      // the event directory is gone, the log must not bring it back
+      if (isErrnoException(error) && error.code === "ENOENT") return eventNotFound();
+      throw error;
+    }
+  };
+
+  const listAuditEntries = async (eventId: string): Promise<StorageResult<AuditLogEntry[]>> => {
+    try {
+      return ok(parseAuditLog(await readFile(auditLogPath(eventId), "utf8")));
+    } catch (error: unknown) {
+      if (isErrnoException(error) && error.code === "ENOENT") return ok([]);
+      throw error;
+    }
+  };
+
   return {
     ensureBaseDir,
     isEventIdAvailable,
     getEvent,
+    listEvents,
     saveEvent,
     createEvent,
     deleteEvent,
+    appendAuditEntry,
+    listAuditEntries,
   };
 };
@@ -1,16 +1,53 @@
 import path from "node:path";
 import fs from "node:fs";
-import { copyFile, mkdir, readdir, stat, unlink, readFile, rename } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import {
+  copyFile,
+  link,
+  mkdir,
+  readdir,
+  stat,
+  unlink,
+  readFile,
+  rename,
+  rm,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
 import archiver from "archiver";
 import { DATA_ROOT_PATH } from "../../config.js";
-import { FILES_DIR_NAME } from "../../constants.js";
+import { FILES_DIR_NAME, PENDING_DIR_NAME, TRASH_DIR_NAME } from "../../constants.js";
+import { joinFolderPath } from "../../utils/folders.js";
 import {
   DeleteFileResult,
+  EventQuota,
   FileEntry,
+  ListFilesOptions,
   ListFilesResult,
   MoveUploadedFilesResult,
+  PendingFileEntry,
+  StorageUsage,
+  TrashEntry,
 } from "../../types.js";
-import { createStorageError, fail, ok, FileStore, StorageResult } from "../types.js";
+import {
+  createStorageError,
+  fail,
+  ok,
+  ByteRange,
+  FileInfo,
+  FileRef,
+  FilesZipStreamData,
+  FileStore,
+  FileStreamData,
+  LocalFileData,
+  MergeFolderData,
+  MoveUploadedFilesOptions,
+  StorageResult,
+  TrashDeletedBy,
+  UploadedFile,
+} from "../types.js";
+import { FileCandidate, selectFilePage } from "../file-listing.js";
+import { checkQuota, hasQuota } from "../quota.js";
 
 const filesDir = (eventId: string, folder?: string | null) =>
   path.join(DATA_ROOT_PATH, eventId, FILES_DIR_NAME, folder || "");
@@ -18,6 +55,20 @@ const filesDir = (eventId: string, folder?: string | null) =>
 const resolveFilePath = (eventId: string, folder: string, filename: string) =>
   path.resolve(DATA_ROOT_PATH, eventId, FILES_DIR_NAME, folder || "", filename);
 
+const pendingDir = (eventId: string, folder?: string | null) =>
+  path.join(DATA_ROOT_PATH, eventId, PENDING_DIR_NAME, folder || "");
+
+const resolvePendingPath = (eventId: string, folder: string, filename: string) =>
+  path.resolve(DATA_ROOT_PATH, eventId, PENDING_DIR_NAME, folder || "", filename);
+
+const trashDir = (eventId: string) => path.join(DATA_ROOT_PATH, eventId, TRASH_DIR_NAME);
+
+// the file keeps its trash id as name, the entry next to it remembers where it came from
+const trashDataPath = (eventId: string, trashId: string) => path.join(trashDir(eventId), trashId);
+
+const trashEntryPath = (eventId: string, trashId: string) =>
+  path.join(trashDir(eventId), `${trashId}.json`);
+
 const isErrnoException = (error: unknown): error is NodeJS.ErrnoException =>
   Boolean(error) && typeof error === "object" && "code" in (error as NodeJS.ErrnoException);
 
@@ -30,6 +81,45 @@ const fileNotFound = (): StorageResult<never> =>
     })
   );
 
+const folderNotFound = (): StorageResult<never> =>
+  fail(
+    createStorageError({
+      message: "Folder not found.",
+      errorKey: "FILE_NOT_FOUND",
+      property: "folder",
+    })
+  );
+
+const trashEntryNotFound = (): StorageResult<never> =>
+  fail(
+    createStorageError({
+      message: "File not found in trash.",
+      errorKey: "FILE_NOT_FOUND",
+      property: "trashId",
+    })
+  );
+
+const readTrashEntry = async (
+  eventId: string,
+  trashId: string
+): Promise<StorageResult<TrashEntry>> => {
+  try {
+    return ok(JSON.parse(await readFile(trashEntryPath(eventId, trashId), "utf8")) as TrashEntry);
+  } catch (error: unknown) {
+    if (isErrnoException(error) && error.code === "ENOENT") return trashEntryNotFound();
+    throw error;
+  }
+};
+
+const statOrNull = async (target: string): Promise<fs.Stats | null> => {
+  try {
+    return await stat(target);
+  } catch (error: unknown) {
+    if (isErrnoException(error) && error.code === "ENOENT") return null;
+    throw error;
+  }
+};
+
 const statFile = async (filePath: string): Promise<StorageResult<fs.Stats>> => {
   try {
     const stats = await stat(filePath);
@@ -41,12 +131,92 @@ const statFile = async (filePath: string): Promise<StorageResult<fs.Stats>> => {
   }
 };
 
+// links the file under its new name first, unlike rename this fails on a taken name
+const placeFile = async (sourcePath: string, targetPath: string) => {
+  try {
+    await link(sourcePath, targetPath);
+  } catch (error: unknown) {
+    if (!isErrnoException(error) || !["EXDEV", "EPERM", "ENOTSUP"].includes(error.code ?? "")) {
+      throw error;
+    }
+    // hard links cannot leave the file system, the copy gets the times of the source
+    await copyFile(sourcePath, targetPath, fs.constants.COPYFILE_EXCL);
+    const { atime, mtime } = await stat(sourcePath);
+    await utimes(targetPath, atime, mtime);
+  }
+  await unlink(sourcePath);
+};
+
+/**
+ * Moves a file into the target directory, appending _1, _2, ... to the name
+ * until it no longer collides with an existing file. The file keeps its mtime,
+ * which listings report as its date.
+ * @returns The name the file was stored under
+ */
+const moveWithUniqueName = async (sourcePath: string, targetDir: string, filename: string) => {
+  await mkdir(targetDir, { recursive: true });
+  const parsed = path.parse(filename);
+  let counter = 0;
+  while (true) {
+    const suffix = counter === 0 ? "" : `_${counter}`;
+    const candidate = `${parsed.name}${suffix}${parsed.ext}`;
+    try {
+      await placeFile(sourcePath, path.join(targetDir, candidate));
+      return candidate;
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+      if (err?.code === "EEXIST") {
+        counter += 1;
+        continue;
+      }
+      throw error;
+    }
+  }
+};
+
+const collectUsage = async (dir: string, usage: StorageUsage): Promise<void> => {
+  let entries: fs.Dirent[];
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (error: unknown) {
+    if (isErrnoException(error) && error.code === "ENOENT") return;
+    throw error;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await collectUsage(entryPath, usage);
+    } else if (entry.isFile()) {
+      const s = await stat(entryPath);
+      usage.usedBytes += s.size;
+      usage.usedFiles += 1;
+      const modifiedAt = s.mtime.toISOString();
+      if (!usage.lastUploadAt || modifiedAt > usage.lastUploadAt) usage.lastUploadAt = modifiedAt;
+    }
+  }
+};
+
+// walks the subtree below dir, folder is the path of dir relative to the files directory
+const collectFiles = async (dir: string, folder: string, entries: FileEntry[]) => {
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await collectFiles(entryPath, path.posix.join(folder, entry.name), entries);
+    } else if (entry.isFile()) {
+      const s = await stat(entryPath);
+      entries.push({ name: entry.name, size: s.size, createdAt: s.mtime.toISOString(), folder });
+    }
+  }
+};
+
 export const createFsFileStore = (): FileStore => {
   const listFiles = async (
     eventId: string,
-    folder?: string | null
+    folder?: string | null,
+    options: ListFilesOptions = {}
   ): Promise<StorageResult<ListFilesResult>> => {
-    let entries: FileEntry[] = [];
+    let candidates: Array<FileCandidate | FileEntry> = [];
     const folders: string[] = [];
     const dir = filesDir(eventId, folder);
 
@@ -62,72 +232,149 @@ export const createFsFileStore = (): FileStore => {
         }
       }
 
-      entries = await Promise.all(
-        fileNames.map(async (name) => {
-          const s = await stat(path.join(dir, name));
-          return { name, size: s.size, createdAt: s.mtime.toISOString() };
-        })
-      );
+      if (options.recursive) {
+        const entries: FileEntry[] = [];
+        await collectFiles(dir, folder ?? "", entries);
+        candidates = entries;
+      } else {
+        candidates = fileNames.map((name) => ({ name }));
+      }
     } catch (error: unknown) {
       const err = error as NodeJS.ErrnoException;
-      if (err?.code === "ENOENT") {
-        entries = [];
-      } else {
+      if (err?.code !== "ENOENT") {
         throw error;
       }
     }
 
-    return ok({ files: entries, folders });
+    const page = await selectFilePage(candidates, options, async ({ name }) => {
+      const s = await stat(path.join(dir, name));
+      return { name, size: s.size, createdAt: s.mtime.toISOString() };
+    });
+    return ok({ ...page, folders });
+  };
+
+  const getUsage = async (eventId: string): Promise<StorageResult<StorageUsage>> => {
+    const usage: StorageUsage = { usedBytes: 0, usedFiles: 0, lastUploadAt: null };
+    await collectUsage(filesDir(eventId), usage);
+    // pending uploads take up space as well, the quota must not be bypassed by moderation
+    await collectUsage(pendingDir(eventId), usage);
+    return ok(usage);
   };
 
   const moveUploadedFiles = async (
     eventId: string,
     folder: string,
-    uploads: Express.Multer.File[]
+    uploads: UploadedFile[],
+    quota?: EventQuota,
+    options: MoveUploadedFilesOptions = {}
   ): Promise<StorageResult<MoveUploadedFilesResult>> => {
-    if (!uploads.length) return ok({ moved: 0 });
-    const targetDir = filesDir(eventId, folder);
-    await mkdir(targetDir, { recursive: true });
+    if (!uploads.length) return ok({ moved: 0, files: [] });
 
-    let moved = 0;
+    if (hasQuota(quota)) {
+      const usageResult = await getUsage(eventId);
+      if (!usageResult.ok) return usageResult;
+      const quotaResult = checkQuota(usageResult.data, uploads, quota);
+      if (!quotaResult.ok) return quotaResult;
+    }
+
+    const targetDir = options.pending ? pendingDir(eventId, folder) : filesDir(eventId, folder);
+
+    const stored: string[] = [];
     for (const file of uploads) {
-      const parsed = path.parse(file.originalname);
-      let counter = 0;
-      while (true) {
-        const suffix = counter === 0 ? "" : `_${counter}`;
-        const candidate = `${parsed.name}${suffix}${parsed.ext}`;
-        const targetPath = path.join(targetDir, candidate);
-        try {
-          await copyFile(file.path, targetPath, fs.constants.COPYFILE_EXCL);
-          await unlink(file.path);
-          moved += 1;
-          break;
-        } catch (error) {
-          const err = error as NodeJS.ErrnoException;
-          if (err?.code === "EEXIST") {
-            counter += 1;
-            continue;
-          }
-          throw error;
+      stored.push(await moveWithUniqueName(file.path, targetDir, file.originalname));
+    }
+
+    return ok({ moved: stored.length, files: stored });
+  };
+
+  const listPendingFiles = async (eventId: string): Promise<StorageResult<PendingFileEntry[]>> => {
+    const entries: PendingFileEntry[] = [];
+    // pending uploads keep the folder path they were uploaded to, like in files/
+    const collect = async (folder: string) => {
+      let directoryContent: fs.Dirent[];
+      try {
+        directoryContent = await readdir(pendingDir(eventId, folder), { withFileTypes: true });
+      } catch (error: unknown) {
+        if (isErrnoException(error) && error.code === "ENOENT") return;
+        throw error;
+      }
+      for (const d of directoryContent) {
+        if (d.isDirectory()) {
+          await collect(path.posix.join(folder, d.name));
+        } else if (d.isFile()) {
+          const s = await stat(path.join(pendingDir(eventId, folder), d.name));
+          entries.push({ folder, name: d.name, size: s.size, createdAt: s.mtime.toISOString() });
         }
       }
-    }
+    };
+    await collect("");
+    entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return ok(entries);
+  };
+
+  const getPendingFileStream = async (
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<FileStreamData>> => {
+    const filePath = resolvePendingPath(eventId, folder, filename);
+    const statsResult = await statFile(filePath);
+    if (!statsResult.ok) return statsResult;
+    return ok({
+      stream: fs.createReadStream(filePath),
+      size: statsResult.data.size,
+      lastModified: statsResult.data.mtime,
+    });
+  };
 
-    return ok({ moved });
+  const approvePendingFile = async (
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<{ filename: string }>> => {
+    const filePath = resolvePendingPath(eventId, folder, filename);
+    const statsResult = await statFile(filePath);
+    if (!statsResult.ok) return statsResult;
+    const stored = await moveWithUniqueName(filePath, filesDir(eventId, folder), filename);
+    return ok({ filename: stored });
   };
 
-  const getFileStream = async (
+  const deletePendingFile = async (
     eventId: string,
     folder: string,
     filename: string
-  ): Promise<StorageResult<{ stream: fs.ReadStream; size: number; lastModified: Date }>> => {
+  ): Promise<StorageResult<DeleteFileResult>> => {
+    const filePath = resolvePendingPath(eventId, folder, filename);
+    const statsResult = await statFile(filePath);
+    if (!statsResult.ok) return statsResult;
+    await unlink(filePath);
+    return ok({ ok: true, message: "File deleted." });
+  };
+
+  const getFileInfo = async (
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<FileInfo>> => {
+    const statsResult = await statFile(resolveFilePath(eventId, folder, filename));
+    if (!statsResult.ok) return statsResult;
+    return ok({ size: statsResult.data.size, lastModified: statsResult.data.mtime });
+  };
+
+  const getFileStream = async (
+    eventId: string,
+    folder: string,
+    filename: string,
+    range?: ByteRange
+  ): Promise<StorageResult<FileStreamData>> => {
     const filePath = resolveFilePath(eventId, folder, filename);
     const statsResult = await statFile(filePath);
     if (!statsResult.ok) return statsResult;
     return ok({
-      stream: fs.createReadStream(filePath),
+      stream: fs.createReadStream(filePath, range),
       size: statsResult.data.size,
       lastModified: statsResult.data.mtime,
+      range,
     });
   };
 
@@ -143,6 +390,18 @@ export const createFsFileStore = (): FileStore => {
     return ok({ buffer, size: statsResult.data.size, lastModified: statsResult.data.mtime });
   };
 
+  // files are already on disk, there is nothing to clean up afterwards
+  const getLocalFile = async (
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<LocalFileData>> => {
+    const filePath = resolveFilePath(eventId, folder, filename);
+    const statsResult = await statFile(filePath);
+    if (!statsResult.ok) return statsResult;
+    return ok({ path: filePath, release: async () => {} });
+  };
+
   const deleteFile = async (
     eventId: string,
     folder: string,
@@ -155,6 +414,85 @@ export const createFsFileStore = (): FileStore => {
     return ok({ ok: true, message: "File deleted." });
   };
 
+  const trashFile = async (
+    eventId: string,
+    folder: string,
+    filename: string,
+    deletedBy: TrashDeletedBy
+  ): Promise<StorageResult<TrashEntry>> => {
+    const filePath = resolveFilePath(eventId, folder, filename);
+    const statsResult = await statFile(filePath);
+    if (!statsResult.ok) return statsResult;
+
+    const entry: TrashEntry = {
+      trashId: randomUUID(),
+      folder,
+      name: filename,
+      size: statsResult.data.size,
+      deletedAt: new Date().toISOString(),
+      ...deletedBy,
+    };
+    await mkdir(trashDir(eventId), { recursive: true });
+    await rename(filePath, trashDataPath(eventId, entry.trashId));
+    await writeFile(trashEntryPath(eventId, entry.trashId), JSON.stringify(entry), "utf8");
+    return ok(entry);
+  };
+
+  const listTrash = async (eventId: string): Promise<StorageResult<TrashEntry[]>> => {
+    let names: string[];
+    try {
+      names = await readdir(trashDir(eventId));
+    } catch (error: unknown) {
+      if (isErrnoException(error) && error.code === "ENOENT") return ok([]);
+      throw error;
+    }
+
+    const entries: TrashEntry[] = [];
+    for (const name of names) {
+      if (!name.endsWith(".json")) continue;
+      const entryResult = await readTrashEntry(eventId, name.slice(0, -".json".length));
+      if (entryResult.ok) entries.push(entryResult.data);
+    }
+    entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    return ok(entries);
+  };
+
+  const restoreTrashedFile = async (
+    eventId: string,
+    trashId: string,
+    quota?: EventQuota
+  ): Promise<StorageResult<{ folder: string; filename: string }>> => {
+    const entryResult = await readTrashEntry(eventId, trashId);
+    if (!entryResult.ok) return entryResult;
+    const { folder, name } = entryResult.data;
+
+    if (hasQuota(quota)) {
+      const usageResult = await getUsage(eventId);
+      if (!usageResult.ok) return usageResult;
+      const quotaResult = checkQuota(usageResult.data, [entryResult.data], quota);
+      if (!quotaResult.ok) return quotaResult;
+    }
+
+    const stored = await moveWithUniqueName(
+      trashDataPath(eventId, trashId),
+      filesDir(eventId, folder),
+      name
+    );
+    await unlink(trashEntryPath(eventId, trashId));
+    return ok({ folder, filename: stored });
+  };
+
+  const deleteTrashedFile = async (
+    eventId: string,
+    trashId: string
+  ): Promise<StorageResult<TrashEntry>> => {
+    const entryResult = await readTrashEntry(eventId, trashId);
+    if (!entryResult.ok) return entryResult;
+    await unlink(trashDataPath(eventId, trashId)).catch(() => {});
+    await unlink(trashEntryPath(eventId, trashId));
+    return entryResult;
+  };
+
   const createZipStream = async (
     eventId: string,
     folder?: string | null
@@ -174,12 +512,84 @@ export const createFsFileStore = (): FileStore => {
     return ok({ stream: archive });
   };
 
+  const createFilesZipStream = async (
+    eventId: string,
+    files: FileRef[]
+  ): Promise<StorageResult<FilesZipStreamData>> => {
+    const archive = archiver("zip", { zlib: { level: 9 } });
+    const skipped: FileRef[] = [];
+    for (const file of files) {
+      const filePath = resolveFilePath(eventId, file.folder, file.filename);
+      const statsResult = await statFile(filePath);
+      if (!statsResult.ok) {
+        skipped.push(file);
+        continue;
+      }
+      archive.file(filePath, { name: path.posix.join(file.folder, file.filename) });
+    }
+    if (skipped.length === files.length) {
+      archive.abort();
+      return fail(
+        createStorageError({
+          message: "No files available.",
+          errorKey: "NO_FILES_AVAILABLE",
+          property: "files",
+        })
+      );
+    }
+    return ok({ stream: archive, skipped });
+  };
+
   const ensureFilesDir = (eventId: string) => {
     const target = filesDir(eventId);
     fs.mkdirSync(target, { recursive: true });
     return target;
   };
 
+  const moveFile = async (
+    eventId: string,
+    folder: string,
+    filename: string,
+    to: string
+  ): Promise<StorageResult<{ filename: string }>> => {
+    const filePath = resolveFilePath(eventId, folder, filename);
+    const statsResult = await statFile(filePath);
+    if (!statsResult.ok) return statsResult;
+    const stored = await moveWithUniqueName(filePath, filesDir(eventId, to), filename);
+    return ok({ filename: stored });
+  };
+
+  const renameFile = async (
+    eventId: string,
+    folder: string,
+    filename: string,
+    to: string
+  ): Promise<StorageResult<{ filename: string }>> => {
+    const filePath = resolveFilePath(eventId, folder, filename);
+    const statsResult = await statFile(filePath);
+    if (!statsResult.ok) return statsResult;
+    const stored = await moveWithUniqueName(filePath, filesDir(eventId, folder), to);
+    return ok({ filename: stored });
+  };
+
+  const createFolder = async (
+    eventId: string,
+    folder: string
+  ): Promise<StorageResult<{ success: true }>> => {
+    const dir = filesDir(eventId, folder);
+    if (await statOrNull(dir)) {
+      return fail(
+        createStorageError({
+          message: "Folder already exists.",
+          errorKey: "FOLDER_ALREADY_EXISTS",
+          property: "folder",
+        })
+      );
+    }
+    await mkdir(dir, { recursive: true });
+    return ok({ success: true });
+  };
+
   const renameFolder = async (
     eventId: string,
     from: string,
@@ -213,6 +623,8 @@ export const createFsFileStore = (): FileStore => {
     }
 
     try {
+      // a folder can be moved below a parent that does not exist yet
+      await mkdir(path.dirname(toPath), { recursive: true });
       await rename(fromPath, toPath);
     } catch (error: unknown) {
       if (isErrnoException(error)) {
@@ -251,14 +663,71 @@ export const createFsFileStore = (): FileStore => {
     return ok({ success: true });
   };
 
+  const mergeFolder = async (
+    eventId: string,
+    from: string,
+    into: string
+  ): Promise<StorageResult<MergeFolderData>> => {
+    const fromDir = filesDir(eventId, from);
+    if (!(await statOrNull(fromDir))?.isDirectory()) return folderNotFound();
+
+    const files: FileEntry[] = [];
+    await collectFiles(fromDir, "", files);
+    const moved: FileRef[] = [];
+    let renamed = 0;
+    for (const file of files) {
+      const folder = joinFolderPath(into, file.folder!);
+      const stored = await moveWithUniqueName(
+        path.join(fromDir, file.folder!, file.name),
+        filesDir(eventId, folder),
+        file.name
+      );
+      if (stored !== file.name) renamed += 1;
+      moved.push({ folder, filename: stored });
+    }
+    await rm(fromDir, { recursive: true, force: true });
+    return ok({ moved, renamed });
+  };
+
+  const folderExists = async (eventId: string, folder: string): Promise<StorageResult<boolean>> =>
+    ok(Boolean((await statOrNull(filesDir(eventId, folder)))?.isDirectory()));
+
+  const deleteFolder = async (
+    eventId: string,
+    folder: string
+  ): Promise<StorageResult<{ success: true }>> => {
+    const dir = filesDir(eventId, folder);
+    if (!(await statOrNull(dir))?.isDirectory()) return folderNotFound();
+    await rm(dir, { recursive: true, force: true });
+    return ok({ success: true });
+  };
+
   return {
     listFiles,
+    getUsage,
     moveUploadedFiles,
+    listPendingFiles,
+    getPendingFileStream,
+    approvePendingFile,
+    deletePendingFile,
+    getFileInfo,
     getFileStream,
     getFileBuffer,
+    getLocalFile,
     deleteFile,
+    trashFile,
+    listTrash,
+    restoreTrashedFile,
+    deleteTrashedFile,
+    moveFile,
+    renameFile,
+    createFolder,
     renameFolder,
+    mergeFolder,
+    folderExists,
+    deleteFolder,
     createZipStream,
+    createFilesZipStream,
     ensureFilesDir,
   };
 };
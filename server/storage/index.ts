@@ -1,9 +1,25 @@
+import { STORAGE_DRIVER } from "../config.js";
 import { createFsEventStore } from "./fs/event-store.js";
 import { createFsFileStore } from "./fs/file-store.js";
+import { createS3Context } from "./s3/client.js";
+import { createS3EventStore } from "./s3/event-store.js";
+import { createS3FileStore } from "./s3/file-store.js";
+import type { EventStore, FileStore } from "./types.js";
 
-export const storage = {
-  events: createFsEventStore(),
-  files: createFsFileStore(),
+const createStorage = (): { events: EventStore; files: FileStore } => {
+  if (STORAGE_DRIVER === "s3") {
+    const ctx = createS3Context();
+    return {
+      events: createS3EventStore(ctx),
+      files: createS3FileStore(ctx),
+    };
+  }
+  return {
+    events: createFsEventStore(),
+    files: createFsFileStore(),
+  };
 };
 
+export const storage = createStorage();
+
 export type Storage = typeof storage;
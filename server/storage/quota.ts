@@ -0,0 +1,33 @@
+import type { EventQuota, StorageUsage } from "../types.js";
+import { createStorageError, fail, ok, StorageResult, UploadedFile } from "./types.js";
+
+/** Checks whether storing the given uploads or restored files would exceed the quota of an event. */
+export const checkQuota = (
+  usage: StorageUsage,
+  uploads: Pick<UploadedFile, "size">[],
+  quota: EventQuota
+): StorageResult<void> => {
+  const { usedBytes, usedFiles } = usage;
+  const incomingBytes = uploads.reduce((sum, file) => sum + file.size, 0);
+  const exceedsBytes = quota.maxBytes > 0 && usedBytes + incomingBytes > quota.maxBytes;
+  const exceedsFiles = quota.maxFiles > 0 && usedFiles + uploads.length > quota.maxFiles;
+  if (exceedsBytes || exceedsFiles) {
+    return fail(
+      createStorageError({
+        message: "Upload exceeds the storage quota of this event.",
+        errorKey: "QUOTA_EXCEEDED",
+        property: "files",
+        additionalParams: {
+          usedBytes,
+          usedFiles,
+          quotaBytes: quota.maxBytes,
+          quotaFiles: quota.maxFiles,
+        },
+      })
+    );
+  }
+  return ok(undefined);
+};
+
+export const hasQuota = (quota?: EventQuota): quota is EventQuota =>
+  Boolean(quota && (quota.maxBytes > 0 || quota.maxFiles > 0));
@@ -0,0 +1,128 @@
+import {
+  CreateBucketCommand,
+  DeleteObjectsCommand,
+  HeadBucketCommand,
+  ListObjectsV2Command,
+  S3Client,
+  type _Object,
+} from "@aws-sdk/client-s3";
+import {
+  S3_ACCESS_KEY_ID,
+  S3_BUCKET,
+  S3_ENDPOINT,
+  S3_FORCE_PATH_STYLE,
+  S3_PREFIX,
+  S3_REGION,
+  S3_SECRET_ACCESS_KEY,
+} from "../../config.js";
+
+export type S3Context = {
+  client: S3Client;
+  bucket: string;
+  /** Key prefix for all objects of this instance, empty or ending with a slash. */
+  prefix: string;
+};
+
+// DeleteObjects accepts at most 1000 keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+const normalizePrefix = (value: string) => {
+  const trimmed = value.replace(/^\/+|\/+$/g, "");
+  return trimmed ? `${trimmed}/` : "";
+};
+
+export const createS3Context = (): S3Context => {
+  if (!S3_BUCKET) {
+    throw new Error("S3_BUCKET must be set when STORAGE_DRIVER is s3.");
+  }
+
+  const client = new S3Client({
+    region: S3_REGION,
+    endpoint: S3_ENDPOINT || undefined,
+    forcePathStyle: S3_FORCE_PATH_STYLE,
+    // aws-chunked checksum uploads are not understood by every S3-compatible server
+    requestChecksumCalculation: "WHEN_REQUIRED",
+    responseChecksumValidation: "WHEN_REQUIRED",
+    credentials:
+      S3_ACCESS_KEY_ID && S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: S3_ACCESS_KEY_ID, secretAccessKey: S3_SECRET_ACCESS_KEY }
+        : undefined,
+  });
+
+  return { client, bucket: S3_BUCKET, prefix: normalizePrefix(S3_PREFIX) };
+};
+
+export const eventPrefix = (ctx: S3Context, eventId: string) => `${ctx.prefix}${eventId}/`;
+
+const statusCodeOf = (error: unknown) =>
+  (error as { $metadata?: { httpStatusCode?: number } } | undefined)?.$metadata?.httpStatusCode;
+
+export const isNotFoundError = (error: unknown) => statusCodeOf(error) === 404;
+
+export const isPreconditionFailedError = (error: unknown) => statusCodeOf(error) === 412;
+
+/** Creates the bucket when it does not exist yet, e.g. on a fresh MinIO instance. */
+export const ensureBucket = async (ctx: S3Context) => {
+  try {
+    await ctx.client.send(new HeadBucketCommand({ Bucket: ctx.bucket }));
+  } catch (error: unknown) {
+    if (!isNotFoundError(error)) throw error;
+    await ctx.client.send(new CreateBucketCommand({ Bucket: ctx.bucket }));
+  }
+};
+
+/** Lists every object below the prefix, following continuation tokens. */
+export const listAllObjects = async (ctx: S3Context, prefix: string): Promise<_Object[]> => {
+  const objects: _Object[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const page = await ctx.client.send(
+      new ListObjectsV2Command({
+        Bucket: ctx.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      })
+    );
+    objects.push(...(page.Contents ?? []));
+    continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+  } while (continuationToken);
+  return objects;
+};
+
+/** Lists the direct "subdirectories" below the prefix, each ending with a slash. */
+export const listChildPrefixes = async (ctx: S3Context, prefix: string): Promise<string[]> => {
+  const prefixes: string[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const page = await ctx.client.send(
+      new ListObjectsV2Command({
+        Bucket: ctx.bucket,
+        Prefix: prefix,
+        Delimiter: "/",
+        ContinuationToken: continuationToken,
+      })
+    );
+    prefixes.push(...(page.CommonPrefixes ?? []).map((entry) => entry.Prefix!));
+    continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+  } while (continuationToken);
+  return prefixes;
+};
+
+export const hasObjects = async (ctx: S3Context, prefix: string) => {
+  const page = await ctx.client.send(
+    new ListObjectsV2Command({ Bucket: ctx.bucket, Prefix: prefix, MaxKeys: 1 })
+  );
+  return (page.KeyCount ?? page.Contents?.length ?? 0) > 0;
+};
+
+export const deleteObjects = async (ctx: S3Context, keys: string[]) => {
+  for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+    const batch = keys.slice(i, i + DELETE_BATCH_SIZE);
+    await ctx.client.send(
+      new DeleteObjectsCommand({
+        Bucket: ctx.bucket,
+        Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+      })
+    );
+  }
+};
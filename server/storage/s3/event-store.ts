@@ -0,0 +1,163 @@
+import { GetObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import { AUDIT_LOG_FILE_NAME } from "../../constants.js";
+import { AuditLogEntry, EventConfig } from "../../types.js";
+import { parseAuditLog, serializeAuditEntry } from "../audit-log.js";
+import { createStorageError, fail, ok, StorageResult, EventStore } from "../types.js";
+import {
+  deleteObjects,
+  ensureBucket,
+  eventPrefix,
+  hasObjects,
+  isNotFoundError,
+  isPreconditionFailedError,
+  listAllObjects,
+  listChildPrefixes,
+  S3Context,
+} from "./client.js";
+
+const AUDIT_WRITE_ATTEMPTS = 5;
+
+export const createS3EventStore = (ctx: S3Context): EventStore => {
+  const projectKey = (eventId: string) => `${eventPrefix(ctx, eventId)}project.json`;
+  const auditLogKey = (eventId: string) => `${eventPrefix(ctx, eventId)}${AUDIT_LOG_FILE_NAME}`;
+
+  const putProject = async (project: EventConfig, onlyIfAbsent = false) => {
+    await ctx.client.send(
+      new PutObjectCommand({
+        Bucket: ctx.bucket,
+        Key: projectKey(project.eventId),
+        Body: JSON.stringify(project, null, 2),
+        ContentType: "application/json",
+        IfNoneMatch: onlyIfAbsent ? "*" : undefined,
+      })
+    );
+  };
+
+  const ensureBaseDir = async () => {
+    await ensureBucket(ctx);
+  };
+
+  const isEventIdAvailable = async (eventId: string): Promise<StorageResult<boolean>> => {
+    return ok(!(await hasObjects(ctx, eventPrefix(ctx, eventId))));
+  };
+
+  const getEvent = async (eventId: string): Promise<StorageResult<EventConfig>> => {
+    try {
+      const response = await ctx.client.send(
+        new GetObjectCommand({ Bucket: ctx.bucket, Key: projectKey(eventId) })
+      );
+      const raw = await response.Body!.transformToString("utf8");
+      return ok(JSON.parse(raw) as EventConfig);
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return fail(
+          createStorageError({
+            message: "Event not found.",
+            errorKey: "EVENT_NOT_FOUND",
+            property: "eventId",
+          })
+        );
+      }
+      throw error;
+    }
+  };
+
+  const listEvents = async (): Promise<StorageResult<EventConfig[]>> => {
+    const prefixes = await listChildPrefixes(ctx, ctx.prefix);
+    const events: EventConfig[] = [];
+    for (const prefix of prefixes) {
+      const eventId = prefix.slice(ctx.prefix.length, -1);
+      const result = await getEvent(eventId);
+      if (result.ok) events.push(result.data);
+    }
+    return ok(events);
+  };
+
+  const saveEvent = async (project: EventConfig): Promise<StorageResult<EventConfig>> => {
+    await putProject(project);
+    return ok(project);
+  };
+
+  const createEvent = async (project: EventConfig): Promise<StorageResult<EventConfig>> => {
+    try {
+      // conditional write, so two concurrent requests cannot claim the same id
+      await putProject(project, true);
+    } catch (error: unknown) {
+      if (isPreconditionFailedError(error)) {
+        return fail(
+          createStorageError({
+            message: "Event ID is already taken.",
+            errorKey: "EVENT_ID_TAKEN",
+            property: "eventId",
+          })
+        );
+      }
+      throw error;
+    }
+    return ok(project);
+  };
+
+  const deleteEvent = async (eventId: string): Promise<StorageResult<void>> => {
+    const objects = await listAllObjects(ctx, eventPrefix(ctx, eventId));
+    await deleteObjects(
+      ctx,
+      objects.map((object) => object.Key!)
+    );
+    return ok(undefined);
+  };
+
+  const readAuditLog = async (eventId: string) => {
+    try {
+      const response = await ctx.client.send(
+        new GetObjectCommand({ Bucket: ctx.bucket, Key: auditLogKey(eventId) })
+      );
+      return { raw: await response.Body!.transformToString("utf8"), etag: response.ETag };
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return { raw: "", etag: undefined };
+      throw error;
+    }
+  };
+
+  const appendAuditEntry = async (
+    eventId: string,
+    entry: AuditLogEntry
+  ): Promise<StorageResult<void>> => {
+    // objects cannot be appended to, the log is rewritten with a conditional put and retried
+    // when another request wrote in between
+    for (let attempt = 1; ; attempt += 1) {
+      const { raw, etag } = await readAuditLog(eventId);
+      try {
+        await ctx.client.send(
+          new PutObjectCommand({
+            Bucket: ctx.bucket,
+            Key: auditLogKey(eventId),
+            Body: raw + serializeAuditEntry(entry),
+            ContentType: "application/x-ndjson",
+            IfMatch: etag,
+            IfNoneMatch: etag ? undefined : "*",
+          })
+        );
+        return ok(undefined);
+      } catch (error: unknown) {
+        if (!isPreconditionFailedError(error) || attempt >= AUDIT_WRITE_ATTEMPTS) throw error;
+      }
+    }
+  };
+
+  const listAuditEntries = async (eventId: string): Promise<StorageResult<AuditLogEntry[]>> => {
+    const { raw } = await readAuditLog(eventId);
+    return ok(parseAuditLog(raw));
+  };
+
+  return {
+    ensureBaseDir,
+    isEventIdAvailable,
+    getEvent,
+    listEvents,
+    saveEvent,
+    createEvent,
+    deleteEvent,
+    appendAuditEntry,
+    listAuditEntries,
+  };
+};
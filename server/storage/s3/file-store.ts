@@ -0,0 +1,819 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { mkdir, rm, unlink } from "node:fs/promises";
+import {
+  CopyObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+import archiver from "archiver";
+import { UPLOAD_TEMP_PATH } from "../../config.js";
+import {
+  FILES_DIR_NAME,
+  LOCAL_COPY_DIR_NAME,
+  PENDING_DIR_NAME,
+  TRASH_DIR_NAME,
+} from "../../constants.js";
+import { joinFolderPath } from "../../utils/folders.js";
+import {
+  DeleteFileResult,
+  EventQuota,
+  FileEntry,
+  ListFilesOptions,
+  ListFilesResult,
+  MoveUploadedFilesResult,
+  PendingFileEntry,
+  StorageUsage,
+  TrashEntry,
+} from "../../types.js";
+import {
+  createStorageError,
+  fail,
+  ok,
+  ByteRange,
+  FileInfo,
+  FileRef,
+  FilesZipStreamData,
+  FileStore,
+  FileStreamData,
+  LocalFileData,
+  MergeFolderData,
+  MoveUploadedFilesOptions,
+  StorageResult,
+  TrashDeletedBy,
+  UploadedFile,
+} from "../types.js";
+import { selectFilePage } from "../file-listing.js";
+import { checkQuota, hasQuota } from "../quota.js";
+import {
+  deleteObjects,
+  eventPrefix,
+  hasObjects,
+  isNotFoundError,
+  isPreconditionFailedError,
+  listAllObjects,
+  S3Context,
+} from "./client.js";
+
+const fileNotFound = (): StorageResult<never> =>
+  fail(
+    createStorageError({
+      message: "File not found.",
+      errorKey: "FILE_NOT_FOUND",
+      property: "filename",
+    })
+  );
+
+const folderNotFound = (): StorageResult<never> =>
+  fail(
+    createStorageError({
+      message: "Folder not found.",
+      errorKey: "FILE_NOT_FOUND",
+      property: "folder",
+    })
+  );
+
+const trashEntryNotFound = (): StorageResult<never> =>
+  fail(
+    createStorageError({
+      message: "File not found in trash.",
+      errorKey: "FILE_NOT_FOUND",
+      property: "trashId",
+    })
+  );
+
+export const createS3FileStore = (ctx: S3Context): FileStore => {
+  // folders only exist implicitly as key prefixes below files/
+  const filesPrefix = (eventId: string, folder?: string | null) =>
+    `${eventPrefix(ctx, eventId)}${FILES_DIR_NAME}/${folder ? `${folder}/` : ""}`;
+
+  const fileKey = (eventId: string, folder: string, filename: string) =>
+    `${filesPrefix(eventId, folder)}${filename}`;
+
+  // an empty folder is kept by a zero byte object named like its prefix, it is no file
+  const isFolderMarker = (key: string) => key.endsWith("/");
+
+  const listFileObjects = async (prefix: string) =>
+    (await listAllObjects(ctx, prefix)).filter((object) => !isFolderMarker(object.Key!));
+
+  const pendingPrefix = (eventId: string, folder?: string | null) =>
+    `${eventPrefix(ctx, eventId)}${PENDING_DIR_NAME}/${folder ? `${folder}/` : ""}`;
+
+  const pendingKey = (eventId: string, folder: string, filename: string) =>
+    `${pendingPrefix(eventId, folder)}${filename}`;
+
+  const trashPrefix = (eventId: string) => `${eventPrefix(ctx, eventId)}${TRASH_DIR_NAME}/`;
+
+  const trashDataKey = (eventId: string, trashId: string) => `${trashPrefix(eventId)}${trashId}`;
+
+  const trashEntryKey = (eventId: string, trashId: string) =>
+    `${trashPrefix(eventId)}${trashId}.json`;
+
+  const copySource = (key: string) =>
+    `${ctx.bucket}/${key.split("/").map(encodeURIComponent).join("/")}`;
+
+  /**
+   * Streams an object only once the consumer starts reading, so a ZIP with many entries
+   * does not open a request per file up front.
+   */
+  const createLazyObjectStream = (key: string) => {
+    let source: Readable | null = null;
+    let requested = false;
+    return new Readable({
+      read() {
+        if (source) {
+          source.resume();
+          return;
+        }
+        if (requested) return;
+        requested = true;
+        ctx.client.send(new GetObjectCommand({ Bucket: ctx.bucket, Key: key })).then(
+          (response) => {
+            source = response.Body as Readable;
+            source.on("data", (chunk: Buffer) => {
+              if (!this.push(chunk)) source!.pause();
+            });
+            source.on("end", () => this.push(null));
+            source.on("error", (error) => this.destroy(error));
+          },
+          (error: Error) => this.destroy(error)
+        );
+      },
+    });
+  };
+
+  /**
+   * Copies the object into the folder, appending _1, _2, ... to the name until it no
+   * longer collides with an existing file. The source is left in place.
+   * @returns The name the file was stored under
+   */
+  const copyWithUniqueName = async (
+    sourceKey: string,
+    eventId: string,
+    folder: string,
+    filename: string
+  ) => {
+    const parsed = path.parse(filename);
+    let counter = 0;
+    while (true) {
+      const suffix = counter === 0 ? "" : `_${counter}`;
+      const candidate = `${parsed.name}${suffix}${parsed.ext}`;
+      try {
+        await ctx.client.send(
+          new CopyObjectCommand({
+            Bucket: ctx.bucket,
+            CopySource: copySource(sourceKey),
+            Key: fileKey(eventId, folder, candidate),
+            IfNoneMatch: "*",
+          })
+        );
+        return candidate;
+      } catch (error) {
+        if (isPreconditionFailedError(error)) {
+          counter += 1;
+          continue;
+        }
+        throw error;
+      }
+    }
+  };
+
+  const readTrashEntry = async (
+    eventId: string,
+    trashId: string
+  ): Promise<StorageResult<TrashEntry>> => {
+    try {
+      const response = await ctx.client.send(
+        new GetObjectCommand({ Bucket: ctx.bucket, Key: trashEntryKey(eventId, trashId) })
+      );
+      return ok(JSON.parse(await response.Body!.transformToString("utf8")) as TrashEntry);
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return trashEntryNotFound();
+      throw error;
+    }
+  };
+
+  const listFiles = async (
+    eventId: string,
+    folder?: string | null,
+    options: ListFilesOptions = {}
+  ): Promise<StorageResult<ListFilesResult>> => {
+    const prefix = filesPrefix(eventId, folder);
+    const files: FileEntry[] = [];
+    const folders: string[] = [];
+
+    let continuationToken: string | undefined;
+    do {
+      const page = await ctx.client.send(
+        new ListObjectsV2Command({
+          Bucket: ctx.bucket,
+          Prefix: prefix,
+          Delimiter: "/",
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const commonPrefix of page.CommonPrefixes ?? []) {
+        folders.push(commonPrefix.Prefix!.slice(prefix.length, -1));
+      }
+      if (!options.recursive) {
+        for (const object of (page.Contents ?? []).filter((item) => !isFolderMarker(item.Key!))) {
+          files.push({
+            name: object.Key!.slice(prefix.length),
+            size: object.Size ?? 0,
+            createdAt: (object.LastModified ?? new Date()).toISOString(),
+          });
+        }
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    if (options.recursive) {
+      for (const object of await listFileObjects(prefix)) {
+        const relativePath = path.posix.join(folder || "", object.Key!.slice(prefix.length));
+        files.push({
+          name: path.posix.basename(relativePath),
+          size: object.Size ?? 0,
+          createdAt: (object.LastModified ?? new Date()).toISOString(),
+          folder: path.posix.dirname(relativePath).replace(/^\.$/, ""),
+        });
+      }
+    }
+
+    // the listing already carries sizes and dates, nothing is left to load
+    return ok({ ...(await selectFilePage(files, options)), folders });
+  };
+
+  const getUsage = async (eventId: string): Promise<StorageResult<StorageUsage>> => {
+    // pending uploads take up space as well, the quota must not be bypassed by moderation
+    const objects = [
+      ...(await listFileObjects(filesPrefix(eventId))),
+      ...(await listAllObjects(ctx, pendingPrefix(eventId))),
+    ];
+    const lastModified = objects.reduce(
+      (latest, object) => Math.max(latest, object.LastModified?.getTime() ?? 0),
+      0
+    );
+    return ok({
+      usedBytes: objects.reduce((sum, object) => sum + (object.Size ?? 0), 0),
+      usedFiles: objects.length,
+      lastUploadAt: lastModified ? new Date(lastModified).toISOString() : null,
+    });
+  };
+
+  const moveUploadedFiles = async (
+    eventId: string,
+    folder: string,
+    uploads: UploadedFile[],
+    quota?: EventQuota,
+    options: MoveUploadedFilesOptions = {}
+  ): Promise<StorageResult<MoveUploadedFilesResult>> => {
+    if (!uploads.length) return ok({ moved: 0, files: [] });
+
+    if (hasQuota(quota)) {
+      const usageResult = await getUsage(eventId);
+      if (!usageResult.ok) return usageResult;
+      const quotaResult = checkQuota(usageResult.data, uploads, quota);
+      if (!quotaResult.ok) return quotaResult;
+    }
+
+    const stored: string[] = [];
+    for (const file of uploads) {
+      const parsed = path.parse(file.originalname);
+      let counter = 0;
+      while (true) {
+        const suffix = counter === 0 ? "" : `_${counter}`;
+        const candidate = `${parsed.name}${suffix}${parsed.ext}`;
+        try {
+          // conditional write keeps existing files, like COPYFILE_EXCL on disk
+          await ctx.client.send(
+            new PutObjectCommand({
+              Bucket: ctx.bucket,
+              Key: options.pending
+                ? pendingKey(eventId, folder, candidate)
+                : fileKey(eventId, folder, candidate),
+              Body: fs.createReadStream(file.path),
+              ContentLength: file.size,
+              ContentType: file.mimetype || undefined,
+              IfNoneMatch: "*",
+            })
+          );
+          await unlink(file.path);
+          stored.push(candidate);
+          break;
+        } catch (error) {
+          if (isPreconditionFailedError(error)) {
+            counter += 1;
+            continue;
+          }
+          throw error;
+        }
+      }
+    }
+
+    return ok({ moved: stored.length, files: stored });
+  };
+
+  const listPendingFiles = async (eventId: string): Promise<StorageResult<PendingFileEntry[]>> => {
+    const prefix = pendingPrefix(eventId);
+    const objects = await listAllObjects(ctx, prefix);
+    const entries = objects.map((object): PendingFileEntry => {
+      const relative = object.Key!.slice(prefix.length);
+      const separator = relative.lastIndexOf("/");
+      return {
+        folder: separator === -1 ? "" : relative.slice(0, separator),
+        name: separator === -1 ? relative : relative.slice(separator + 1),
+        size: object.Size ?? 0,
+        createdAt: (object.LastModified ?? new Date()).toISOString(),
+      };
+    });
+    entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return ok(entries);
+  };
+
+  const getPendingFileStream = async (
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<FileStreamData>> => {
+    try {
+      const response = await ctx.client.send(
+        new GetObjectCommand({ Bucket: ctx.bucket, Key: pendingKey(eventId, folder, filename) })
+      );
+      return ok({
+        stream: response.Body as Readable,
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(),
+      });
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return fileNotFound();
+      throw error;
+    }
+  };
+
+  const approvePendingFile = async (
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<{ filename: string }>> => {
+    const sourceKey = pendingKey(eventId, folder, filename);
+    try {
+      await ctx.client.send(new HeadObjectCommand({ Bucket: ctx.bucket, Key: sourceKey }));
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return fileNotFound();
+      throw error;
+    }
+
+    const stored = await copyWithUniqueName(sourceKey, eventId, folder, filename);
+    await ctx.client.send(new DeleteObjectCommand({ Bucket: ctx.bucket, Key: sourceKey }));
+    return ok({ filename: stored });
+  };
+
+  const deletePendingFile = async (
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<DeleteFileResult>> => {
+    const key = pendingKey(eventId, folder, filename);
+    try {
+      await ctx.client.send(new HeadObjectCommand({ Bucket: ctx.bucket, Key: key }));
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return fileNotFound();
+      throw error;
+    }
+    await ctx.client.send(new DeleteObjectCommand({ Bucket: ctx.bucket, Key: key }));
+    return ok({ ok: true, message: "File deleted." });
+  };
+
+  const getFileInfo = async (
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<FileInfo>> => {
+    try {
+      const response = await ctx.client.send(
+        new HeadObjectCommand({ Bucket: ctx.bucket, Key: fileKey(eventId, folder, filename) })
+      );
+      return ok({
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(),
+      });
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return fileNotFound();
+      throw error;
+    }
+  };
+
+  const getFileStream = async (
+    eventId: string,
+    folder: string,
+    filename: string,
+    range?: ByteRange
+  ): Promise<StorageResult<FileStreamData>> => {
+    try {
+      const response = await ctx.client.send(
+        new GetObjectCommand({
+          Bucket: ctx.bucket,
+          Key: fileKey(eventId, folder, filename),
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        })
+      );
+      // ranged responses only report the full size in "Content-Range: bytes 0-99/1234"
+      const totalSize = response.ContentRange?.split("/")[1];
+      return ok({
+        stream: response.Body as Readable,
+        size: totalSize ? Number(totalSize) : (response.ContentLength ?? 0),
+        lastModified: response.LastModified ?? new Date(),
+        range,
+      });
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return fileNotFound();
+      throw error;
+    }
+  };
+
+  const getFileBuffer = async (
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<{ buffer: Buffer; size: number; lastModified: Date }>> => {
+    try {
+      const response = await ctx.client.send(
+        new GetObjectCommand({ Bucket: ctx.bucket, Key: fileKey(eventId, folder, filename) })
+      );
+      const buffer = Buffer.from(await response.Body!.transformToByteArray());
+      return ok({
+        buffer,
+        size: buffer.length,
+        lastModified: response.LastModified ?? new Date(),
+      });
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return fileNotFound();
+      throw error;
+    }
+  };
+
+  // tools like ffmpeg need to seek, so the object is copied to the temp dir first
+  const getLocalFile = async (
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<LocalFileData>> => {
+    const streamResult = await getFileStream(eventId, folder, filename);
+    if (!streamResult.ok) return streamResult;
+
+    const copyDir = path.join(UPLOAD_TEMP_PATH, LOCAL_COPY_DIR_NAME);
+    await mkdir(copyDir, { recursive: true });
+    const copyPath = path.join(copyDir, `${randomUUID()}${path.extname(filename)}`);
+    const release = () => rm(copyPath, { force: true });
+    try {
+      await pipeline(streamResult.data.stream, fs.createWriteStream(copyPath));
+    } catch (error) {
+      await release();
+      throw error;
+    }
+    return ok({ path: copyPath, release });
+  };
+
+  const deleteFile = async (
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<DeleteFileResult>> => {
+    const key = fileKey(eventId, folder, filename);
+    try {
+      await ctx.client.send(new HeadObjectCommand({ Bucket: ctx.bucket, Key: key }));
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return fileNotFound();
+      throw error;
+    }
+    await ctx.client.send(new DeleteObjectCommand({ Bucket: ctx.bucket, Key: key }));
+    return ok({ ok: true, message: "File deleted." });
+  };
+
+  const trashFile = async (
+    eventId: string,
+    folder: string,
+    filename: string,
+    deletedBy: TrashDeletedBy
+  ): Promise<StorageResult<TrashEntry>> => {
+    const sourceKey = fileKey(eventId, folder, filename);
+    let size: number;
+    try {
+      const head = await ctx.client.send(
+        new HeadObjectCommand({ Bucket: ctx.bucket, Key: sourceKey })
+      );
+      size = head.ContentLength ?? 0;
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return fileNotFound();
+      throw error;
+    }
+
+    const entry: TrashEntry = {
+      trashId: randomUUID(),
+      folder,
+      name: filename,
+      size,
+      deletedAt: new Date().toISOString(),
+      ...deletedBy,
+    };
+    await ctx.client.send(
+      new CopyObjectCommand({
+        Bucket: ctx.bucket,
+        CopySource: copySource(sourceKey),
+        Key: trashDataKey(eventId, entry.trashId),
+      })
+    );
+    await ctx.client.send(
+      new PutObjectCommand({
+        Bucket: ctx.bucket,
+        Key: trashEntryKey(eventId, entry.trashId),
+        Body: JSON.stringify(entry),
+        ContentType: "application/json",
+      })
+    );
+    await ctx.client.send(new DeleteObjectCommand({ Bucket: ctx.bucket, Key: sourceKey }));
+    return ok(entry);
+  };
+
+  const listTrash = async (eventId: string): Promise<StorageResult<TrashEntry[]>> => {
+    const prefix = trashPrefix(eventId);
+    const objects = await listAllObjects(ctx, prefix);
+    const entries: TrashEntry[] = [];
+    for (const object of objects) {
+      if (!object.Key!.endsWith(".json")) continue;
+      const trashId = object.Key!.slice(prefix.length, -".json".length);
+      const entryResult = await readTrashEntry(eventId, trashId);
+      if (entryResult.ok) entries.push(entryResult.data);
+    }
+    entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    return ok(entries);
+  };
+
+  const restoreTrashedFile = async (
+    eventId: string,
+    trashId: string,
+    quota?: EventQuota
+  ): Promise<StorageResult<{ folder: string; filename: string }>> => {
+    const entryResult = await readTrashEntry(eventId, trashId);
+    if (!entryResult.ok) return entryResult;
+    const { folder, name } = entryResult.data;
+
+    if (hasQuota(quota)) {
+      const usageResult = await getUsage(eventId);
+      if (!usageResult.ok) return usageResult;
+      const quotaResult = checkQuota(usageResult.data, [entryResult.data], quota);
+      if (!quotaResult.ok) return quotaResult;
+    }
+    const sourceKey = trashDataKey(eventId, trashId);
+
+    try {
+      const stored = await copyWithUniqueName(sourceKey, eventId, folder, name);
+      await deleteObjects(ctx, [sourceKey, trashEntryKey(eventId, trashId)]);
+      return ok({ folder, filename: stored });
+    } catch (error) {
+      if (isNotFoundError(error)) return trashEntryNotFound();
+      throw error;
+    }
+  };
+
+  const deleteTrashedFile = async (
+    eventId: string,
+    trashId: string
+  ): Promise<StorageResult<TrashEntry>> => {
+    const entryResult = await readTrashEntry(eventId, trashId);
+    if (!entryResult.ok) return entryResult;
+    await deleteObjects(ctx, [trashDataKey(eventId, trashId), trashEntryKey(eventId, trashId)]);
+    return entryResult;
+  };
+
+  const createZipStream = async (
+    eventId: string,
+    folder?: string | null
+  ): Promise<StorageResult<{ stream: archiver.Archiver }>> => {
+    const prefix = filesPrefix(eventId, folder);
+    const objects = await listFileObjects(prefix);
+    if (!objects.length) {
+      return fail(
+        createStorageError({
+          message: "No files available.",
+          errorKey: "NO_FILES_AVAILABLE",
+          property: "folder",
+        })
+      );
+    }
+    const archive = archiver("zip", { zlib: { level: 9 } });
+    for (const object of objects) {
+      archive.append(createLazyObjectStream(object.Key!), {
+        name: object.Key!.slice(prefix.length),
+        date: object.LastModified,
+      });
+    }
+    return ok({ stream: archive });
+  };
+
+  const createFilesZipStream = async (
+    eventId: string,
+    files: FileRef[]
+  ): Promise<StorageResult<FilesZipStreamData>> => {
+    const archive = archiver("zip", { zlib: { level: 9 } });
+    const skipped: FileRef[] = [];
+    for (const file of files) {
+      const key = fileKey(eventId, file.folder, file.filename);
+      try {
+        const head = await ctx.client.send(new HeadObjectCommand({ Bucket: ctx.bucket, Key: key }));
+        archive.append(createLazyObjectStream(key), {
+          name: path.posix.join(file.folder, file.filename),
+          date: head.LastModified,
+        });
+      } catch (error: unknown) {
+        if (!isNotFoundError(error)) throw error;
+        skipped.push(file);
+      }
+    }
+    if (skipped.length === files.length) {
+      archive.abort();
+      return fail(
+        createStorageError({
+          message: "No files available.",
+          errorKey: "NO_FILES_AVAILABLE",
+          property: "files",
+        })
+      );
+    }
+    return ok({ stream: archive, skipped });
+  };
+
+  // there are no directories to create, the prefix is returned for symmetry with the fs store
+  const ensureFilesDir = (eventId: string) => filesPrefix(eventId);
+
+  const moveFile = async (
+    eventId: string,
+    folder: string,
+    filename: string,
+    to: string
+  ): Promise<StorageResult<{ filename: string }>> => {
+    const sourceKey = fileKey(eventId, folder, filename);
+    try {
+      await ctx.client.send(new HeadObjectCommand({ Bucket: ctx.bucket, Key: sourceKey }));
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return fileNotFound();
+      throw error;
+    }
+    const stored = await copyWithUniqueName(sourceKey, eventId, to, filename);
+    await ctx.client.send(new DeleteObjectCommand({ Bucket: ctx.bucket, Key: sourceKey }));
+    return ok({ filename: stored });
+  };
+
+  const renameFile = async (
+    eventId: string,
+    folder: string,
+    filename: string,
+    to: string
+  ): Promise<StorageResult<{ filename: string }>> => {
+    const sourceKey = fileKey(eventId, folder, filename);
+    try {
+      await ctx.client.send(new HeadObjectCommand({ Bucket: ctx.bucket, Key: sourceKey }));
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return fileNotFound();
+      throw error;
+    }
+    const stored = await copyWithUniqueName(sourceKey, eventId, folder, to);
+    await ctx.client.send(new DeleteObjectCommand({ Bucket: ctx.bucket, Key: sourceKey }));
+    return ok({ filename: stored });
+  };
+
+  const createFolder = async (
+    eventId: string,
+    folder: string
+  ): Promise<StorageResult<{ success: true }>> => {
+    const prefix = filesPrefix(eventId, folder);
+    if (await hasObjects(ctx, prefix)) {
+      return fail(
+        createStorageError({
+          message: "Folder already exists.",
+          errorKey: "FOLDER_ALREADY_EXISTS",
+          property: "folder",
+        })
+      );
+    }
+    await ctx.client.send(new PutObjectCommand({ Bucket: ctx.bucket, Key: prefix, Body: "" }));
+    return ok({ success: true });
+  };
+
+  const renameFolder = async (
+    eventId: string,
+    from: string,
+    to: string
+  ): Promise<StorageResult<{ success: true }>> => {
+    const fromPrefix = filesPrefix(eventId, from);
+    const toPrefix = filesPrefix(eventId, to);
+
+    const objects = await listAllObjects(ctx, fromPrefix);
+    if (!objects.length) return folderNotFound();
+
+    if (await hasObjects(ctx, toPrefix)) {
+      return fail(
+        createStorageError({
+          message: "Folder already exists.",
+          errorKey: "FOLDER_ALREADY_EXISTS",
+          property: "to",
+        })
+      );
+    }
+
+    // S3 has no rename, every object is copied to the new prefix before the originals are removed
+    for (const object of objects) {
+      await ctx.client.send(
+        new CopyObjectCommand({
+          Bucket: ctx.bucket,
+          CopySource: copySource(object.Key!),
+          Key: `${toPrefix}${object.Key!.slice(fromPrefix.length)}`,
+        })
+      );
+    }
+    await deleteObjects(
+      ctx,
+      objects.map((object) => object.Key!)
+    );
+
+    return ok({ success: true });
+  };
+
+  const mergeFolder = async (
+    eventId: string,
+    from: string,
+    into: string
+  ): Promise<StorageResult<MergeFolderData>> => {
+    const fromPrefix = filesPrefix(eventId, from);
+    const objects = await listAllObjects(ctx, fromPrefix);
+    if (!objects.length) return folderNotFound();
+
+    const moved: FileRef[] = [];
+    let renamed = 0;
+    for (const object of objects.filter((item) => !isFolderMarker(item.Key!))) {
+      const relativePath = object.Key!.slice(fromPrefix.length);
+      const folder = joinFolderPath(into, path.posix.dirname(relativePath).replace(/^\.$/, ""));
+      const filename = path.posix.basename(relativePath);
+      const stored = await copyWithUniqueName(object.Key!, eventId, folder, filename);
+      if (stored !== filename) renamed += 1;
+      moved.push({ folder, filename: stored });
+    }
+    await deleteObjects(
+      ctx,
+      objects.map((object) => object.Key!)
+    );
+    return ok({ moved, renamed });
+  };
+
+  const folderExists = async (eventId: string, folder: string): Promise<StorageResult<boolean>> =>
+    ok(await hasObjects(ctx, filesPrefix(eventId, folder)));
+
+  const deleteFolder = async (
+    eventId: string,
+    folder: string
+  ): Promise<StorageResult<{ success: true }>> => {
+    // after the route moved the files to the trash, there may be nothing left to remove
+    const objects = await listAllObjects(ctx, filesPrefix(eventId, folder));
+    if (!objects.length) return ok({ success: true });
+    await deleteObjects(
+      ctx,
+      objects.map((object) => object.Key!)
+    );
+    return ok({ success: true });
+  };
+
+  return {
+    listFiles,
+    getUsage,
+    moveUploadedFiles,
+    listPendingFiles,
+    getPendingFileStream,
+    approvePendingFile,
+    deletePendingFile,
+    getFileInfo,
+    getFileStream,
+    getFileBuffer,
+    getLocalFile,
+    deleteFile,
+    trashFile,
+    listTrash,
+    restoreTrashedFile,
+    deleteTrashedFile,
+    moveFile,
+    renameFile,
+    createFolder,
+    renameFolder,
+    mergeFolder,
+    folderExists,
+    deleteFolder,
+    createZipStream,
+    createFilesZipStream,
+    ensureFilesDir,
+  };
+};
@@ -2,13 +2,19 @@ import type { Readable } from "node:stream";
 import type { Buffer } from "node:buffer";
 import type { Archiver } from "archiver";
 import type {
+  AuditLogEntry,
   DeleteFileResult,
   ErrorAdditionalParams,
   ErrorKey,
   ErrorResponse,
   EventConfig,
+  EventQuota,
+  ListFilesOptions,
   ListFilesResult,
   MoveUploadedFilesResult,
+  PendingFileEntry,
+  StorageUsage,
+  TrashEntry,
 } from "../types.js";
 
 export type StorageResult<T> = { ok: true; data: T } | { ok: false; error: ErrorResponse };
@@ -33,10 +39,32 @@ export const ok = <T>(data: T): StorageResult<T> => ({ ok: true, data });
 
 export const fail = (error: ErrorResponse): StorageResult<never> => ({ ok: false, error });
 
+/** The parts of an uploaded temp file needed to move it into the event storage. */
+export type UploadedFile = Pick<Express.Multer.File, "originalname" | "path" | "size" | "mimetype">;
+
+/** Inclusive byte offsets, like in the Range header. */
+export type ByteRange = {
+  start: number;
+  end: number;
+};
+
 export type FileStreamData = {
   stream: Readable;
+  /** Size of the whole file, also when only a range is streamed. */
   size: number;
   lastModified: Date;
+  range?: ByteRange;
+};
+
+export type FileInfo = {
+  size: number;
+  lastModified: Date;
+};
+
+/** A path external tools can read, release removes the temporary copy of remote stores. */
+export type LocalFileData = {
+  path: string;
+  release: () => Promise<void>;
 };
 
 export type FileBufferData = {
@@ -45,46 +73,160 @@ export type FileBufferData = {
   lastModified: Date;
 };
 
+export type MoveUploadedFilesOptions = {
+  /** Stores the files in the pending area of the event instead of the gallery. */
+  pending?: boolean;
+};
+
+/** Who deleted a file, stored with the trash entry. */
+export type TrashDeletedBy = Pick<TrashEntry, "deletedByRole" | "deletedBy">;
+
+/** A gallery file addressed by its folder, empty for the root. */
+export type FileRef = { folder: string; filename: string };
+
 export type ZipStreamData = {
   stream: Archiver;
 };
 
+export type FilesZipStreamData = ZipStreamData & {
+  /** Requested files that do not exist and were left out of the archive. */
+  skipped: FileRef[];
+};
+
+export type MergeFolderData = {
+  /** New locations of the moved files */
+  moved: FileRef[];
+  renamed: number;
+};
+
 export interface EventStore {
   ensureBaseDir(): Promise<void>;
   isEventIdAvailable(eventId: string): Promise<StorageResult<boolean>>;
   getEvent(eventId: string): Promise<StorageResult<EventConfig>>;
+  listEvents(): Promise<StorageResult<EventConfig[]>>;
   saveEvent(project: EventConfig): Promise<StorageResult<EventConfig>>;
   createEvent(project: EventConfig): Promise<StorageResult<EventConfig>>;
   deleteEvent(eventId: string): Promise<StorageResult<void>>;
+  /** Adds an entry to the audit log next to the project file, entries are never rewritten. */
+  appendAuditEntry(eventId: string, entry: AuditLogEntry): Promise<StorageResult<void>>;
+  /** Audit log entries in the order they were written. */
+  listAuditEntries(eventId: string): Promise<StorageResult<AuditLogEntry[]>>;
 }
 
 export interface FileStore {
-  listFiles(eventId: string, folder?: string | null): Promise<StorageResult<ListFilesResult>>;
+  /** With recursive set, files of all subfolders are included and carry their folder path. */
+  listFiles(
+    eventId: string,
+    folder?: string | null,
+    options?: ListFilesOptions
+  ): Promise<StorageResult<ListFilesResult>>;
+  /** Stored and pending files count towards the quota, trashed ones do not until restored. */
+  getUsage(eventId: string): Promise<StorageResult<StorageUsage>>;
   moveUploadedFiles(
     eventId: string,
     folder: string,
-    uploads: Express.Multer.File[]
+    uploads: UploadedFile[],
+    quota?: EventQuota,
+    options?: MoveUploadedFilesOptions
   ): Promise<StorageResult<MoveUploadedFilesResult>>;
-  getFileStream(
+  /** Uploads awaiting review, from all folders. */
+  listPendingFiles(eventId: string): Promise<StorageResult<PendingFileEntry[]>>;
+  getPendingFileStream(
     eventId: string,
     folder: string,
     filename: string
   ): Promise<StorageResult<FileStreamData>>;
+  /** Moves a pending upload into its folder, collisions are resolved like in moveUploadedFiles. */
+  approvePendingFile(
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<{ filename: string }>>;
+  deletePendingFile(
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<DeleteFileResult>>;
+  getFileInfo(eventId: string, folder: string, filename: string): Promise<StorageResult<FileInfo>>;
+  getFileStream(
+    eventId: string,
+    folder: string,
+    filename: string,
+    range?: ByteRange
+  ): Promise<StorageResult<FileStreamData>>;
   getFileBuffer(
     eventId: string,
     folder: string,
     filename: string
   ): Promise<StorageResult<FileBufferData>>;
+  getLocalFile(
+    eventId: string,
+    folder: string,
+    filename: string
+  ): Promise<StorageResult<LocalFileData>>;
   deleteFile(
     eventId: string,
     folder: string,
     filename: string
   ): Promise<StorageResult<DeleteFileResult>>;
+  /** Moves a file into the trash of the event, the entry remembers the folder it came from. */
+  trashFile(
+    eventId: string,
+    folder: string,
+    filename: string,
+    deletedBy: TrashDeletedBy
+  ): Promise<StorageResult<TrashEntry>>;
+  /** Trashed files, most recently deleted first. */
+  listTrash(eventId: string): Promise<StorageResult<TrashEntry[]>>;
+  /**
+   * Moves a trashed file back into its folder, collisions are resolved like in moveUploadedFiles.
+   * The trash does not count towards the quota, so the file is checked against it like an upload.
+   */
+  restoreTrashedFile(
+    eventId: string,
+    trashId: string,
+    quota?: EventQuota
+  ): Promise<StorageResult<{ folder: string; filename: string }>>;
+  /** Resolves with the entry of the file that was deleted for good. */
+  deleteTrashedFile(eventId: string, trashId: string): Promise<StorageResult<TrashEntry>>;
+  /** Moves a file into another folder, collisions are resolved like in moveUploadedFiles. */
+  moveFile(
+    eventId: string,
+    folder: string,
+    filename: string,
+    to: string
+  ): Promise<StorageResult<{ filename: string }>>;
+  /** Renames a file within its folder, a taken name gets a _N suffix like in moveUploadedFiles. */
+  renameFile(
+    eventId: string,
+    folder: string,
+    filename: string,
+    to: string
+  ): Promise<StorageResult<{ filename: string }>>;
+  /** Creates an empty folder, fails when it exists already. */
+  createFolder(eventId: string, folder: string): Promise<StorageResult<{ success: true }>>;
   renameFolder(
     eventId: string,
     from: string,
     to: string
   ): Promise<StorageResult<{ success: true }>>;
+  /**
+   * Moves every file below from into the same relative path below into and removes from,
+   * names that are taken get a _N suffix like in moveUploadedFiles.
+   */
+  mergeFolder(eventId: string, from: string, into: string): Promise<StorageResult<MergeFolderData>>;
+  /** Whether the folder exists, as directory, folder marker or prefix of stored files. */
+  folderExists(eventId: string, folder: string): Promise<StorageResult<boolean>>;
+  /**
+   * Removes the folder with everything that is still in it. Remote stores succeed for a prefix
+   * that is gone already, it disappears with its last object.
+   */
+  deleteFolder(eventId: string, folder: string): Promise<StorageResult<{ success: true }>>;
   createZipStream(eventId: string, folder?: string | null): Promise<StorageResult<ZipStreamData>>;
+  /** Archives the given files under their folder paths, fails when none of them exist. */
+  createFilesZipStream(
+    eventId: string,
+    files: FileRef[]
+  ): Promise<StorageResult<FilesZipStreamData>>;
   ensureFilesDir(eventId: string): string;
 }
@@ -3,6 +3,12 @@ export interface EventConfig {
   name: string;
   description?: string;
   createdAt: string;
+  /** Guests cannot upload before this time; null = open since creation. */
+  uploadOpensAt: string | null;
+  /** Guests cannot upload after this time; null = no closing time. */
+  uploadClosesAt: string | null;
+  /** The event is closed once this time passes and later archived or deleted by the sweeper. */
+  expiresAt: string | null;
   allowedMimeTypes: string[];
   settings: {
     rootPath: string;
@@ -10,20 +16,75 @@ export interface EventConfig {
     allowGuestUpload: boolean;
     requireUploadFolder: boolean;
     uploadFolderHint: string | null;
+    /** Folders offered in the upload form. */
+    uploadFolders: string[];
+    /** Uploads may only go to one of uploadFolders, otherwise they are just suggestions. */
+    restrictUploadFolders: boolean;
+    /** Guest uploads wait in the pending area until an admin or moderator approves them. */
+    moderateUploads: boolean;
+    /** Max stored bytes for this event; null/undefined falls back to EVENT_QUOTA_BYTES, 0 = unlimited. */
+    quotaBytes?: number | null;
+    /** Max stored files for this event; null/undefined falls back to EVENT_QUOTA_FILES, 0 = unlimited. */
+    quotaFiles?: number | null;
   };
   auth: {
     guestPasswordHash: string | null;
     adminPasswordHash: string;
+    /** Password of the moderators, who curate files but cannot manage the event; null = no moderators. */
+    moderatorPasswordHash: string | null;
+    /** One-time code to set a new admin password; null for events created before recovery codes. */
+    recoveryCodeHash: string | null;
+    /** Named admins next to the owner, each with their own password. */
+    coHosts: CoHost[];
   };
+  /** Share links minted by the admin; expired links are removed when new ones are created. */
+  shares: ShareLink[];
+  /** Set by the operator; a locked event cannot be opened by guests or admins. */
+  locked: boolean;
 }
 
-export type AccessLevel = "unauthenticated" | "guest" | "admin";
+export interface CoHost {
+  coHostId: string;
+  /** Login name, unique per event regardless of case. */
+  name: string;
+  passwordHash: string;
+  createdAt: string;
+}
+
+export type CoHostResponse = Omit<CoHost, "passwordHash">;
+
+export interface CoHostsResponse {
+  coHosts: CoHostResponse[];
+  /** Name the caller is logged in with, "admin" for the owner. */
+  principal: string;
+}
+
+export type ShareLinkKind = "file" | "folder" | "zip";
+
+export interface ShareLink {
+  shareId: string;
+  kind: ShareLinkKind;
+  folder: string;
+  /** Only set for links to a single file. */
+  filename: string | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ShareLinkResponse extends ShareLink {
+  token: string;
+  /** API path the link grants access to, with the token as share query parameter. */
+  path: string;
+}
+
+export type AccessLevel = "unauthenticated" | "guest" | "moderator" | "admin";
 
 export const ERROR_KEYS = [
   "ADMIN_ACCESS_REQUIRED",
   "GUEST_ACCESS_REQUIRED",
   "GUEST_ACCESS_DISABLED",
   "UPLOAD_FOLDER_REQUIRED",
+  "UPLOAD_FOLDER_NOT_ALLOWED",
   "INVALID_FILENAME",
   "INVALID_FOLDER",
   "INVALID_INPUT",
@@ -40,6 +101,27 @@ export const ERROR_KEYS = [
   "GUEST_DOWNLOADS_DISABLED",
   "EVENT_CREATION_DISABLED",
   "RATE_LIMITED",
+  "UPLOAD_TOO_LARGE",
+  "QUOTA_EXCEEDED",
+  "UPLOAD_NOT_FOUND",
+  "UPLOAD_OFFSET_MISMATCH",
+  "UPLOAD_INCOMPLETE",
+  "VIDEO_PREVIEWS_UNAVAILABLE",
+  "RANGE_NOT_SATISFIABLE",
+  "FOLDER_NOT_FOUND",
+  "SHARE_LINK_NOT_FOUND",
+  "SHARE_LINK_INVALID",
+  "SHARE_LINK_EXPIRED",
+  "EVENT_LOCKED",
+  "OPERATOR_DISABLED",
+  "WRONG_CURRENT_PASSWORD",
+  "INVALID_RECOVERY_CODE",
+  "OWNER_ACCESS_REQUIRED",
+  "CO_HOST_NAME_TAKEN",
+  "CO_HOST_NOT_FOUND",
+  "UPLOADS_CLOSED",
+  "EVENT_EXPIRED",
+  "FILE_SHARED",
 ] as const;
 
 export type ErrorKey = (typeof ERROR_KEYS)[number];
@@ -60,15 +142,64 @@ export interface EventConfigResponse {
   name: string;
   description?: string;
   secured: boolean;
+  /** A moderator password is set, so moderators can log in. */
+  moderatorEnabled: boolean;
   allowGuestDownload: boolean;
   allowGuestUpload: boolean;
   requireUploadFolder: boolean;
   uploadFolderHint: string | null;
+  uploadFolders: string[];
+  restrictUploadFolders: boolean;
+  moderateUploads: boolean;
   accessLevel: AccessLevel;
   createdAt: string;
+  uploadOpensAt: string | null;
+  uploadClosesAt: string | null;
+  expiresAt: string | null;
   allowedMimeTypes: string[];
   uploadMaxFileSizeBytes: number;
   uploadMaxTotalSizeBytes: number;
+  /** Only for admins. */
+  usedBytes?: number;
+  /** Only for admins. */
+  usedFiles?: number;
+  quotaBytes: number;
+  quotaFiles: number;
+}
+
+export interface SessionResponse {
+  token: string;
+  role: "admin" | "moderator" | "guest";
+  expiresAt: string;
+}
+
+export interface CreateEventResponse extends EventConfigResponse {
+  /** Shown once, only its hash is stored. */
+  recoveryCode: string;
+}
+
+export interface RecoverAdminResponse extends SessionResponse {
+  /** Replaces the used code, which is only valid once. */
+  recoveryCode: string;
+}
+
+export interface OperatorEventSummary {
+  eventId: string;
+  name: string;
+  createdAt: string;
+  expiresAt: string | null;
+  locked: boolean;
+  usedBytes: number;
+  usedFiles: number;
+  lastUploadAt: string | null;
+  /** Effective limits, 0 = unlimited. */
+  quotaBytes: number;
+  quotaFiles: number;
+}
+
+export interface OperatorSessionResponse {
+  token: string;
+  expiresAt: string;
 }
 
 export interface AppConfigResponse {
@@ -81,18 +212,216 @@ export interface FileEntry {
   name: string;
   size: number;
   createdAt: string;
+  /** Folder path of the file, only set for recursive listings */
+  folder?: string;
+}
+
+/** An upload awaiting review, stored for the folder it was uploaded to. */
+export interface PendingFileEntry extends FileEntry {
+  folder: string;
+}
+
+export const FILE_SORT_FIELDS = ["name", "size", "date"] as const;
+
+export type FileSortField = (typeof FILE_SORT_FIELDS)[number];
+
+export const SORT_ORDERS = ["asc", "desc"] as const;
+
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+/** Position of the last file of a page, the next page starts behind it. */
+export interface FileCursor {
+  sort: FileSortField;
+  order: SortOrder;
+  /** Name, size or creation time of the file, depending on the sort field */
+  key: string | number;
+  name: string;
+  /** Folder path of the file, names repeat across folders in recursive listings */
+  folder: string;
 }
 
 export interface ListFilesResult {
+  /** Files of the requested page */
   files: FileEntry[];
+  /** Subfolders of the listed folder, on every page and regardless of the filters */
   folders: string[];
+  /** Number of files matching the filters, across all pages */
+  total: number;
+  /** Set when more files follow the page */
+  nextCursor: FileCursor | null;
+}
+
+export interface ListFilesOptions {
+  /** Include the files of all subfolders as well */
+  recursive?: boolean;
+  /** Defaults to the name, equal values are ordered by name */
+  sort?: FileSortField;
+  order?: SortOrder;
+  /** Case-insensitive part of the file name */
+  search?: string;
+  /** Content types like "image/*" or "video/mp4", the file must match one of them */
+  types?: string[];
+  /** Returns the files after this position */
+  after?: FileCursor;
+  /** Number of files per page, all files when left out */
+  limit?: number;
+}
+
+export interface FolderBreadcrumb {
+  name: string;
+  /** Full folder path up to and including this segment */
+  path: string;
+}
+
+export interface EventQuota {
+  maxBytes: number;
+  maxFiles: number;
+}
+
+export interface StorageUsage {
+  usedBytes: number;
+  usedFiles: number;
+  /** Modification time of the newest file, null when the event has no files. */
+  lastUploadAt: string | null;
+}
+
+export interface ResumableUpload {
+  uploadId: string;
+  eventId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  folder: string;
+  createdAt: string;
+}
+
+export interface ResumableUploadStatus {
+  uploadId: string;
+  offset: number;
+  size: number;
 }
 
 export interface MoveUploadedFilesResult {
   moved: number;
+  /** Names the files were stored under, after resolving name collisions. */
+  files: string[];
+}
+
+/** Result of a batch operation on files, failed items are listed like rejected uploads. */
+export interface BatchFilesResult {
+  message: string;
+  processed: number;
+  failed: { file: string; reason: string }[];
+}
+
+/** Result of approving or rejecting pending uploads. */
+export type ReviewPendingFilesResult = BatchFilesResult;
+
+/** Result of deleting a folder, its files went to the trash unless the trash is turned off. */
+export interface DeleteFolderResult {
+  message: string;
+  deleted: number;
+}
+
+/** Result of merging a folder into another one. */
+export interface MergeFolderResult {
+  message: string;
+  moved: number;
+  /** Files that got a _N suffix because the name was taken in the target folder */
+  renamed: number;
+}
+
+/** A deleted file, kept in the trash until it is restored or its retention ran out. */
+export interface TrashEntry {
+  trashId: string;
+  /** Folder the file was deleted from, empty for the root. */
+  folder: string;
+  name: string;
+  size: number;
+  deletedAt: string;
+  deletedByRole: "admin" | "moderator" | "guest";
+  /** Owner or co-host name when an admin deleted the file. */
+  deletedBy: string | null;
+}
+
+export interface TrashListResponse {
+  files: TrashEntry[];
+  /** How long files stay in the trash before they are purged, in ms. */
+  retentionMs: number;
+}
+
+export interface RestoreTrashedFileResult {
+  message: string;
+  folder: string;
+  /** Name the file was restored under, after resolving name collisions. */
+  filename: string;
+}
+
+export interface PreviewJobStatus {
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
 }
 
 export interface DeleteFileResult {
   ok: boolean;
   message: string;
 }
+
+export interface UpdateFileResult {
+  message: string;
+  /** Where the file is stored now, the name may carry a _N suffix. */
+  folder: string;
+  filename: string;
+}
+
+export const AUDIT_ACTIONS = [
+  "upload",
+  "delete",
+  "move",
+  "rename",
+  "restore",
+  "purge",
+  "approve",
+  "reject",
+  "folderCreate",
+  "folderRename",
+  "folderMerge",
+  "folderDelete",
+  "settingsChange",
+  "loginFailed",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/** One line of the audit log of an event, entries are only ever appended. */
+export interface AuditLogEntry {
+  entryId: string;
+  createdAt: string;
+  action: AuditAction;
+  /** Role the request was granted, null for failed logins. */
+  role: "admin" | "moderator" | "guest" | null;
+  /** Owner or co-host name of admins, the name given with from for guest uploads. */
+  actor: string | null;
+  /** Keyed hash of the client IP, links the entries of one device without storing the address. */
+  ipHash: string;
+  /** Folder of uploads and deletions, the old name of renamed or merged folders. */
+  folder?: string;
+  files?: string[];
+  /** New name of a renamed file or folder, or the folder files were moved or merged into. */
+  to?: string;
+  /** Names the moved files were stored under in the target folder, in the order of files. */
+  storedAs?: string[];
+  /** Names of the changed settings, passwords are listed without their value. */
+  fields?: string[];
+  /** User a failed login was attempted for. */
+  user?: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
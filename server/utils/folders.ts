@@ -0,0 +1,24 @@
+import { FolderBreadcrumb } from "../types.js";
+
+/** True when the folder is the parent itself or lies anywhere below it, "" contains every folder. */
+export const isWithinFolder = (folder: string, parent: string) =>
+  !parent || folder === parent || folder.startsWith(`${parent}/`);
+
+/** Splits a normalized folder path into its parent path and its own name. */
+export const splitFolderPath = (folder: string) => {
+  const index = folder.lastIndexOf("/");
+  return index === -1
+    ? { parent: "", name: folder }
+    : { parent: folder.slice(0, index), name: folder.slice(index + 1) };
+};
+
+/** One entry per segment of a normalized folder path, the root itself is not included. */
+export const buildBreadcrumbs = (folder: string): FolderBreadcrumb[] => {
+  if (!folder) return [];
+  const segments = folder.split("/");
+  return segments.map((name, index) => ({ name, path: segments.slice(0, index + 1).join("/") }));
+};
+
+/** Joins two folder paths, either of them may be "" for the root. */
+export const joinFolderPath = (parent: string, child: string) =>
+  parent && child ? `${parent}/${child}` : parent || child;
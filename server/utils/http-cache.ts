@@ -0,0 +1,21 @@
+import type { Request } from "express";
+import type { FileInfo } from "../storage/types.js";
+
+/**
+ * Builds a strong validator from size and modification time, so it can also be used
+ * with If-Range, which only accepts strong ETags.
+ */
+export const createFileEtag = (info: FileInfo) =>
+  `"${info.size.toString(16)}-${info.lastModified.getTime().toString(16)}"`;
+
+/**
+ * Checks If-Range, a range of a file that changed in the meantime would mix old and
+ * new content, so the whole file is sent instead.
+ */
+export const isRangeFresh = (req: Request, etag: string, lastModified: Date) => {
+  const ifRange = req.get("If-Range");
+  if (!ifRange) return true;
+  if (ifRange.includes('"')) return ifRange === etag;
+  // HTTP dates have no milliseconds
+  return Date.parse(ifRange) >= Math.floor(lastModified.getTime() / 1000) * 1000;
+};
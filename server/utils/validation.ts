@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { FOLDER_REGEX, EVENT_REGEX, NOT_ALLOWED_EVENTNAMES_REGEX } from "../config.js";
+import { MAX_FOLDER_DEPTH, MAX_UPLOAD_FOLDERS } from "../constants.js";
 import { ErrorAdditionalParams, ErrorKey } from "../types.js";
 
 const MIME_TYPE_REGEX = /^[\w.+-]+\/[\w.+*%-]+$/i;
@@ -35,6 +36,32 @@ export const buildValidationError = (
   };
 };
 
+/** ISO 8601 time with an offset, stored in UTC. */
+const eventTimeSchema = z
+  .string()
+  .datetime({ offset: true, message: "Invalid date and time." })
+  .transform((value) => new Date(value).toISOString());
+
+// an expiry in the past would close the event right away
+const expiresAtSchema = eventTimeSchema.refine((value) => Date.parse(value) > Date.now(), {
+  message: "The expiry must be in the future.",
+});
+
+// same normalization as the upload folder itself, so the stored entries compare equal to it
+const uploadFoldersSchema = z
+  .array(
+    z.string().transform((value, ctx) => {
+      const folder = parseFolder(value);
+      if (!folder) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid folder name." });
+        return z.NEVER;
+      }
+      return folder;
+    })
+  )
+  .max(MAX_UPLOAD_FOLDERS, `At most ${MAX_UPLOAD_FOLDERS} upload folders are allowed.`)
+  .transform((folders) => [...new Set(folders)]);
+
 export const createEventSchema = z.object({
   name: z
     .string()
@@ -86,6 +113,9 @@ export const createEventSchema = z.object({
       ])
     )
     .optional(),
+  uploadOpensAt: eventTimeSchema.nullable().optional(),
+  uploadClosesAt: eventTimeSchema.nullable().optional(),
+  expiresAt: expiresAtSchema.nullable().optional(),
 });
 
 export const updateEventSchema = z
@@ -106,12 +136,20 @@ export const updateEventSchema = z
       .string()
       .optional()
       .transform((value) => (value === undefined ? undefined : value.trim())),
+    /** An empty string removes the moderator password and with it all moderator access. */
+    moderatorPassword: z
+      .string()
+      .optional()
+      .transform((value) => (value === undefined ? undefined : value.trim())),
     allowGuestDownload: z.boolean().optional(),
     allowedMimeTypes: z
       .array(z.string().trim().regex(MIME_TYPE_REGEX, "Invalid MIME type."))
       .optional(),
     allowGuestUpload: z.boolean().optional(),
     requireUploadFolder: z.boolean().optional(),
+    moderateUploads: z.boolean().optional(),
+    uploadFolders: uploadFoldersSchema.optional(),
+    restrictUploadFolders: z.boolean().optional(),
     uploadFolderHint: z
       .preprocess(
         (value) => {
@@ -130,17 +168,28 @@ export const updateEventSchema = z
         ])
       )
       .optional(),
+    /** null removes the time. */
+    uploadOpensAt: eventTimeSchema.nullable().optional(),
+    uploadClosesAt: eventTimeSchema.nullable().optional(),
+    expiresAt: expiresAtSchema.nullable().optional(),
   })
   .superRefine((value, ctx) => {
     if (
       value.guestPassword === undefined &&
+      value.moderatorPassword === undefined &&
       value.allowGuestDownload === undefined &&
       value.name === undefined &&
       value.description === undefined &&
       value.allowedMimeTypes === undefined &&
       value.allowGuestUpload === undefined &&
       value.requireUploadFolder === undefined &&
-      value.uploadFolderHint === undefined
+      value.moderateUploads === undefined &&
+      value.uploadFolderHint === undefined &&
+      value.uploadFolders === undefined &&
+      value.restrictUploadFolders === undefined &&
+      value.uploadOpensAt === undefined &&
+      value.uploadClosesAt === undefined &&
+      value.expiresAt === undefined
     ) {
       // TODO translate
       /*ctx.addIssue({
@@ -158,13 +207,44 @@ export const updateEventSchema = z
         path: ["guestPassword"],
       });
     }
+    if (value.moderatorPassword && value.moderatorPassword.length < 8) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.too_small,
+        minimum: 8,
+        inclusive: true,
+        type: "string",
+        message: "Moderator password must be at least 8 characters.",
+        path: ["moderatorPassword"],
+      });
+    }
   });
 
+/** Uploads have to close after they open, unset times leave the window open on that side. */
+export const isValidUploadWindow = (opensAt: string | null, closesAt: string | null) =>
+  !opensAt || !closesAt || Date.parse(opensAt) < Date.parse(closesAt);
+
+/**
+ * Normalizes a folder path like "Ceremony/Camera A", every segment is trimmed and has to
+ * match FOLDER_REGEX, so paths cannot leave the files directory.
+ * @returns The normalized path, "" for the root or null when the path is invalid
+ */
 export const parseFolder = (raw?: string | null): string | null => {
   const value = (raw ?? "").trim();
   if (!value) return "";
-  if (!FOLDER_REGEX.test(value)) return null;
-  return value;
+  const segments = value.split("/").map((segment) => segment.trim());
+  if (segments.length > MAX_FOLDER_DEPTH) return null;
+  if (!segments.every((segment) => FOLDER_REGEX.test(segment))) return null;
+  return segments.join("/");
 };
 
 export const isSafeFilename = (name: string) => !name.includes("/") && !name.includes("\\");
+
+export const matchesAllowedMimeType = (allowed: string[], mime: string) => {
+  if (!allowed.length) return true;
+  return allowed.some((allowedType) => {
+    if (!allowedType.includes("*")) return mime === allowedType;
+    const [allowedMain] = allowedType.split("/");
+    const [main] = mime.split("/");
+    return Boolean(allowedMain) && allowedMain === main;
+  });
+};
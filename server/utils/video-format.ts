@@ -0,0 +1,25 @@
+import { detectImageFormat } from "./image-format.js";
+
+export type VideoFormat = "mp4" | "quicktime" | "webm" | "avi";
+
+const ascii = (buffer: Buffer, start: number, end: number) =>
+  buffer.subarray(start, end).toString("latin1");
+
+// atoms older QuickTime files start with instead of ftyp
+const QUICKTIME_ATOMS = new Set(["moov", "mdat", "wide", "free", "skip", "pnot"]);
+
+/**
+ * Detects common video containers from the file signature. HEIC and AVIF share the
+ * ISO base media layout with MP4, so those are left to detectImageFormat.
+ */
+export const detectVideoFormat = (head: Buffer): VideoFormat | null => {
+  const box = ascii(head, 4, 8);
+  if (box === "ftyp") {
+    if (detectImageFormat(head)) return null;
+    return ascii(head, 8, 12) === "qt  " ? "quicktime" : "mp4";
+  }
+  if (QUICKTIME_ATOMS.has(box)) return "quicktime";
+  if (head.length >= 4 && head.readUInt32BE(0) === 0x1a45dfa3) return "webm";
+  if (ascii(head, 0, 4) === "RIFF" && ascii(head, 8, 12) === "AVI ") return "avi";
+  return null;
+};
@@ -6,11 +6,14 @@ import { AdminView } from "./features/admin/AdminView";
 import { HomeView } from "./features/home/HomeView";
 import { NewEventView } from "./features/new-event/NewEventView";
 import { EventView } from "./features/event/EventView";
+import { SharedFolderView } from "./features/share/SharedFolderView";
+import { OperatorView } from "./features/operator/OperatorView";
 import { Route } from "./types";
 import { ApiClient } from "./api/client";
 import { useAppConfigStore } from "./lib/appConfigStore";
 import { getDomainMatchFromHost, matchAllowedDomain } from "./lib/domain";
 import { resolveRoute } from "./lib/routing";
+import { getFolderShareFromLocation } from "./lib/shareLinks";
 import { HomeFooter } from "./features/home/components/HomeFooter";
 
 export default function App() {
@@ -28,7 +31,7 @@ export default function App() {
     if (!supportSubdomain) {
       const parts = window.location.pathname.split("/").filter(Boolean);
       if (!parts.length) return null;
-      if (parts[0] === "new") return null;
+      if (parts[0] === "new" || parts[0] === "operator") return null;
       return SUBDOMAIN_REGEX.test(parts[0]) ? parts[0] : null;
     }
     return getDomainMatchFromHost(appConfig?.allowedDomains ?? [], window.location.host).subdomain;
@@ -65,6 +68,8 @@ export default function App() {
     }
   }, [appConfig, isAppConfigExpired, setAppConfig, t]);
 
+  const folderShare = useMemo(() => getFolderShareFromLocation(), []);
+
   const [route, setRoute] = useState<Route>(() =>
     resolveRoute({
       pathname: window.location.pathname,
@@ -154,7 +159,13 @@ export default function App() {
   return (
     <>
       <div className="app-shell">
-        {route === "event" && hostEventId ? (
+        {route === "event" && hostEventId && folderShare ? (
+          <SharedFolderView
+            eventId={hostEventId}
+            share={folderShare}
+            onBackHome={() => redirectToHome(allowedDomain ?? window.location.hostname)}
+          />
+        ) : route === "event" && hostEventId ? (
           <EventView
             eventId={hostEventId}
             baseDomain={allowedDomain ?? window.location.hostname}
@@ -172,6 +183,7 @@ export default function App() {
         {route === "home" ? (
           <HomeView onStartNew={() => navigate("/new")} allowEventCreation={allowEventCreation} />
         ) : null}
+        {route === "operator" ? <OperatorView onBackHome={() => navigate("/")} /> : null}
         {route === "new" ? (
           allowEventCreation ? (
             <NewEventView
@@ -7,8 +7,11 @@ import type {
   DeleteEventResponse,
   DownloadFileRequest,
   PreviewFileRequest,
+  VideoClipRequest,
   DeleteFileRequest,
   DeleteFileResponse,
+  UpdateFileRequest,
+  UpdateFileResponse,
   ListFilesRequest,
   ListFilesResponse,
   EventInfo,
@@ -19,6 +22,44 @@ import type {
   AppConfigResponse,
   RenameFolderRequest,
   RenameFolderResponse,
+  MergeFolderRequest,
+  MergeFolderResponse,
+  DeleteFolderResponse,
+  CreateResumableUploadRequest,
+  ResumableUploadStatus,
+  PreviewJobStatus,
+  LoginRequest,
+  SessionResponse,
+  LogoutResponse,
+  CoHost,
+  CoHostsResponse,
+  CreateCoHostRequest,
+  RemoveCoHostResponse,
+  ChangeAdminPasswordRequest,
+  RecoverAdminRequest,
+  RecoverAdminResponse,
+  RecoveryCodeResponse,
+  ShareLink,
+  CreateShareLinkRequest,
+  ShareLinksResponse,
+  RevokeShareLinkResponse,
+  FileRef,
+  BatchFilesResponse,
+  MoveFilesRequest,
+  DownloadFilesZipResponse,
+  PendingFilesResponse,
+  PendingFileRef,
+  ReviewPendingFilesResponse,
+  TrashListResponse,
+  RestoreTrashedFileResponse,
+  AuditLogResponse,
+  ListAuditLogRequest,
+  OperatorLoginRequest,
+  OperatorSessionResponse,
+  OperatorEventsResponse,
+  OperatorEventSummary,
+  UpdateOperatorEventRequest,
+  ResetAdminPasswordResponse,
 } from "./types";
 
 /**
@@ -53,26 +94,35 @@ export class NetworkError extends Error {
 export class ApiClient {
   private readonly guestToken?: string;
   private readonly adminToken?: string;
+  private readonly operatorToken?: string;
 
-  constructor(guestToken?: string, adminToken?: string) {
+  constructor(guestToken?: string, adminToken?: string, operatorToken?: string) {
     this.guestToken = guestToken;
     this.adminToken = adminToken;
+    this.operatorToken = operatorToken;
   }
 
   /**
-   * Create a client with guest token
+   * Create a client with a guest session token
    */
   static withGuestToken(token: string): ApiClient {
     return new ApiClient(token, undefined);
   }
 
   /**
-   * Create a client with admin token
+   * Create a client with an admin session token
    */
   static withAdminToken(token: string): ApiClient {
     return new ApiClient(undefined, token);
   }
 
+  /**
+   * Create a client with an operator session token
+   */
+  static withOperatorToken(token: string): ApiClient {
+    return new ApiClient(undefined, undefined, token);
+  }
+
   /**
    * Create a client without authentication
    */
@@ -85,10 +135,9 @@ export class ApiClient {
    */
   private getAuthHeader(): Record<string, string> {
     const headers: Record<string, string> = {};
-    if (this.adminToken) {
-      headers.Authorization = `Basic ${btoa(`admin:${this.adminToken}`)}`;
-    } else if (this.guestToken) {
-      headers.Authorization = `Basic ${btoa(`guest:${this.guestToken}`)}`;
+    const token = this.adminToken || this.guestToken || this.operatorToken;
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
     }
     return headers;
   }
@@ -100,6 +149,20 @@ export class ApiClient {
     if (response.status === 429) {
       throw new ApiError(i18n.t("Errors.rateLimited"), response.status);
     }
+    if (response.status === 423) {
+      const errorBody = await response.json().catch(() => undefined);
+      throw new ApiError(i18n.t("Errors.eventLocked"), response.status, errorBody);
+    }
+    if (response.status === 410) {
+      const errorBody = await response.json().catch(() => undefined);
+      // expired share links answer with 410 as well, only expired events get the generic text
+      const expiredEvent =
+        (errorBody as { errorKey?: string } | undefined)?.errorKey === "EVENT_EXPIRED";
+      const message = expiredEvent
+        ? i18n.t("Errors.eventExpired")
+        : (errorBody as ApiErrorResponse | undefined)?.message || "Request failed";
+      throw new ApiError(message, response.status, errorBody);
+    }
     if (returnBlob) {
       if (!response.ok) {
         const errorBody = await response.json().catch(() => ({ message: "Request failed" }));
@@ -135,6 +198,126 @@ export class ApiClient {
     return this.handleResponse<EventInfo>(response);
   }
 
+  /**
+   * Exchange the admin, moderator or guest password for a session token
+   * @throws ApiError with status 401 if the password is wrong
+   */
+  async login(eventId: string, request: LoginRequest): Promise<SessionResponse> {
+    const response = await fetch(`${apiBase}/api/events/${encodeURIComponent(eventId)}/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+
+    return this.handleResponse<SessionResponse>(response);
+  }
+
+  /**
+   * End the session of the token this client was created with
+   */
+  async logout(eventId: string): Promise<LogoutResponse> {
+    const response = await fetch(`${apiBase}/api/events/${encodeURIComponent(eventId)}/logout`, {
+      method: "POST",
+      headers: this.getAuthHeader(),
+    });
+
+    return this.handleResponse<LogoutResponse>(response);
+  }
+
+  /**
+   * List the co-hosts of an event
+   * Requires admin access
+   */
+  async listCoHosts(eventId: string): Promise<CoHostsResponse> {
+    const response = await fetch(`${apiBase}/api/events/${encodeURIComponent(eventId)}/co-hosts`, {
+      headers: this.getAuthHeader(),
+    });
+
+    return this.handleResponse<CoHostsResponse>(response);
+  }
+
+  /**
+   * Add a co-host who logs in with their own name and password
+   * Requires the event owner
+   * @throws ApiError with status 409 if the name is taken
+   */
+  async addCoHost(eventId: string, request: CreateCoHostRequest): Promise<CoHost> {
+    const response = await fetch(`${apiBase}/api/events/${encodeURIComponent(eventId)}/co-hosts`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.getAuthHeader() },
+      body: JSON.stringify(request),
+    });
+
+    return this.handleResponse<CoHost>(response);
+  }
+
+  /**
+   * Remove a co-host, which ends their sessions
+   * Requires the event owner
+   */
+  async removeCoHost(eventId: string, coHostId: string): Promise<RemoveCoHostResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/co-hosts/${encodeURIComponent(coHostId)}`,
+      {
+        method: "DELETE",
+        headers: this.getAuthHeader(),
+      }
+    );
+
+    return this.handleResponse<RemoveCoHostResponse>(response);
+  }
+
+  /**
+   * Change the admin password, which ends all other admin sessions
+   * @returns A new admin session to replace the current token
+   * @throws ApiError with status 400 if the current password is wrong
+   */
+  async changeAdminPassword(
+    eventId: string,
+    request: ChangeAdminPasswordRequest
+  ): Promise<SessionResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/admin-password`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...this.getAuthHeader() },
+        body: JSON.stringify(request),
+      }
+    );
+
+    return this.handleResponse<SessionResponse>(response);
+  }
+
+  /**
+   * Set a new admin password with the recovery code shown at event creation
+   * @returns An admin session and the recovery code replacing the used one
+   * @throws ApiError with status 401 if the recovery code is wrong
+   */
+  async recoverAdmin(eventId: string, request: RecoverAdminRequest): Promise<RecoverAdminResponse> {
+    const response = await fetch(`${apiBase}/api/events/${encodeURIComponent(eventId)}/recover`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+
+    return this.handleResponse<RecoverAdminResponse>(response);
+  }
+
+  /**
+   * Replace the recovery code, the previous one stops working
+   */
+  async regenerateRecoveryCode(eventId: string): Promise<RecoveryCodeResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/recovery-code`,
+      {
+        method: "POST",
+        headers: this.getAuthHeader(),
+      }
+    );
+
+    return this.handleResponse<RecoveryCodeResponse>(response);
+  }
+
   /**
    * Check if subdomain is available
    * Returns null if available, ProjectInfo if taken
@@ -193,7 +376,7 @@ export class ApiClient {
   }
 
   /**
-   * List files of an event
+   * List files of an event page by page, FILE_LIST_MAX_PAGE_SIZE files when no limit is given
    * Requires admin access or guest access
    */
   async listFiles(eventId: string, request?: ListFilesRequest): Promise<ListFilesResponse> {
@@ -201,6 +384,30 @@ export class ApiClient {
     if (request?.folder) {
       params.set("folder", request.folder);
     }
+    if (request?.recursive) {
+      params.set("recursive", "true");
+    }
+    if (request?.share) {
+      params.set("share", request.share);
+    }
+    if (request?.sort) {
+      params.set("sort", request.sort);
+    }
+    if (request?.order) {
+      params.set("order", request.order);
+    }
+    if (request?.search) {
+      params.set("search", request.search);
+    }
+    if (request?.types?.length) {
+      params.set("type", request.types.join(","));
+    }
+    if (request?.cursor) {
+      params.set("cursor", request.cursor);
+    }
+    if (request?.limit) {
+      params.set("limit", String(request.limit));
+    }
     const queryString = params.toString() ? `?${params.toString()}` : "";
 
     const response = await fetch(
@@ -300,6 +507,161 @@ export class ApiClient {
     });
   }
 
+  /**
+   * Run a fetch and report connection failures as NetworkError so uploads can resume
+   */
+  private async fetchOrNetworkError(input: string, init?: RequestInit): Promise<Response> {
+    try {
+      return await fetch(input, init);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") throw error;
+      throw new NetworkError("Network error while uploading.");
+    }
+  }
+
+  /**
+   * Create a resumable upload for a single file
+   * Requires guest access if event is secured
+   */
+  async createResumableUpload(
+    eventId: string,
+    request: CreateResumableUploadRequest
+  ): Promise<ResumableUploadStatus> {
+    const response = await this.fetchOrNetworkError(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/uploads`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getAuthHeader(),
+        },
+        body: JSON.stringify(request),
+      }
+    );
+
+    return this.handleResponse<ResumableUploadStatus>(response);
+  }
+
+  /**
+   * Get the number of bytes the server already received for a resumable upload
+   * @throws ApiError with status 404 if the upload no longer exists
+   */
+  async getResumableUploadOffset(eventId: string, uploadId: string): Promise<number> {
+    const response = await this.fetchOrNetworkError(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/uploads/${encodeURIComponent(uploadId)}`,
+      {
+        method: "HEAD",
+        headers: this.getAuthHeader(),
+        cache: "no-store",
+      }
+    );
+
+    if (!response.ok) {
+      const message =
+        response.status === 429 ? i18n.t("Errors.rateLimited") : "Upload status request failed";
+      throw new ApiError(message, response.status);
+    }
+    return Number(response.headers.get("Upload-Offset") ?? 0);
+  }
+
+  /**
+   * Upload one chunk of a resumable upload with progress tracking
+   * The offset must match the bytes the server already received
+   */
+  async uploadResumableChunk(
+    eventId: string,
+    uploadId: string,
+    request: {
+      chunk: Blob;
+      offset: number;
+      onProgress?: (progress: { loaded: number; total: number }) => void;
+      signal?: AbortSignal;
+    }
+  ): Promise<ResumableUploadStatus> {
+    return new Promise<ResumableUploadStatus>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open(
+        "PATCH",
+        `${apiBase}/api/events/${encodeURIComponent(eventId)}/uploads/${encodeURIComponent(uploadId)}`
+      );
+
+      const headers = this.getAuthHeader();
+      Object.entries(headers).forEach(([key, value]) => {
+        xhr.setRequestHeader(key, value);
+      });
+      xhr.setRequestHeader("Content-Type", "application/offset+octet-stream");
+      xhr.setRequestHeader("Upload-Offset", String(request.offset));
+
+      xhr.responseType = "json";
+
+      xhr.upload.onprogress = (event) => {
+        const total = event.lengthComputable ? event.total : request.chunk.size;
+        request.onProgress?.({ loaded: event.loaded, total });
+      };
+
+      xhr.onload = () => {
+        const status = xhr.status;
+        const response = xhr.response ?? {};
+        if (status >= 200 && status < 300) {
+          resolve(response as ResumableUploadStatus);
+          return;
+        }
+        const message =
+          status === 429
+            ? i18n.t("Errors.rateLimited")
+            : (response as ApiErrorResponse).message || "Request failed";
+        reject(new ApiError(message, status, response));
+      };
+
+      xhr.onerror = () => {
+        reject(new NetworkError("Network error while uploading."));
+      };
+
+      xhr.ontimeout = () => {
+        reject(new NetworkError("Upload timed out."));
+      };
+
+      if (request.signal) {
+        request.signal.addEventListener("abort", () => {
+          xhr.abort();
+          reject(new NetworkError("Upload aborted."));
+        });
+      }
+
+      xhr.send(request.chunk);
+    });
+  }
+
+  /**
+   * Finish a resumable upload once all bytes were received
+   */
+  async completeResumableUpload(eventId: string, uploadId: string): Promise<UploadFilesResponse> {
+    const response = await this.fetchOrNetworkError(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/uploads/${encodeURIComponent(uploadId)}/complete`,
+      {
+        method: "POST",
+        headers: this.getAuthHeader(),
+      }
+    );
+
+    return this.handleResponse<UploadFilesResponse>(response);
+  }
+
+  /**
+   * Cancel a resumable upload and drop the bytes received so far
+   */
+  async cancelResumableUpload(eventId: string, uploadId: string): Promise<DeleteFileResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/uploads/${encodeURIComponent(uploadId)}`,
+      {
+        method: "DELETE",
+        headers: this.getAuthHeader(),
+      }
+    );
+
+    return this.handleResponse<DeleteFileResponse>(response);
+  }
+
   /**
    * Download a file from an event
    * Requires admin access or guest access
@@ -319,6 +681,33 @@ export class ApiClient {
    * Requires admin access or guest access
    */
   async downloadPreview(eventId: string, request: PreviewFileRequest): Promise<Blob> {
+    return this.downloadRendition(eventId, "preview", request);
+  }
+
+  /**
+   * Download a still frame of a video as image
+   * Requires admin access or guest access
+   */
+  async downloadVideoPoster(eventId: string, request: PreviewFileRequest): Promise<Blob> {
+    return this.downloadRendition(eventId, "poster", request);
+  }
+
+  /**
+   * Download the first seconds of a video as small muted MP4
+   * Requires admin access or guest access
+   */
+  async downloadVideoClip(eventId: string, request: VideoClipRequest): Promise<Blob> {
+    return this.downloadRendition(eventId, "clip", request);
+  }
+
+  /**
+   * Download a file rendered by the server, shared by image previews and video posters/clips
+   */
+  private async downloadRendition(
+    eventId: string,
+    kind: "preview" | "poster" | "clip",
+    request: PreviewFileRequest
+  ): Promise<Blob> {
     const params = new URLSearchParams();
     if (request.width) {
       params.set("w", String(request.width));
@@ -339,7 +728,7 @@ export class ApiClient {
     const folderSegment = request.folder ? `/${encodeURIComponent(request.folder)}` : "";
 
     const response = await fetch(
-      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files${folderSegment}/${encodeURIComponent(request.filename)}/preview${queryString}`,
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files${folderSegment}/${encodeURIComponent(request.filename)}/${kind}${queryString}`,
       {
         headers: this.getAuthHeader(),
       }
@@ -348,6 +737,19 @@ export class ApiClient {
     return this.handleResponse<Blob>(response, true);
   }
 
+  /**
+   * Get the progress of background preview generation for recent uploads
+   * Requires admin access
+   */
+  async getPreviewStatus(eventId: string): Promise<PreviewJobStatus> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/previews/status`,
+      { headers: this.getAuthHeader() }
+    );
+
+    return this.handleResponse<PreviewJobStatus>(response);
+  }
+
   /**
    * Delete a file from an event
    * Requires admin access
@@ -365,6 +767,27 @@ export class ApiClient {
     return this.handleResponse<DeleteFileResponse>(response);
   }
 
+  /**
+   * Rename a file and/or move it into another folder
+   * Requires admin or moderator access
+   */
+  async updateFile(eventId: string, request: UpdateFileRequest): Promise<UpdateFileResponse> {
+    const folderSegment = request.folder ? `/${encodeURIComponent(request.folder)}` : "";
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files${folderSegment}/${encodeURIComponent(request.filename)}`,
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getAuthHeader(),
+        },
+        body: JSON.stringify({ name: request.name, to: request.to }),
+      }
+    );
+
+    return this.handleResponse<UpdateFileResponse>(response);
+  }
+
   /**
    * Rename a folder in the event
    * Requires admin access
@@ -385,6 +808,59 @@ export class ApiClient {
     return this.handleResponse<RenameFolderResponse>(response);
   }
 
+  /**
+   * Create an empty folder, nested paths create missing parents as well
+   * Requires admin access
+   */
+  async createFolder(eventId: string, folder: string): Promise<RenameFolderResponse> {
+    const response = await fetch(`${apiBase}/api/events/${encodeURIComponent(eventId)}/folders`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...this.getAuthHeader(),
+      },
+      body: JSON.stringify({ folder }),
+    });
+
+    return this.handleResponse<RenameFolderResponse>(response);
+  }
+
+  /**
+   * Move all files of a folder into another one and remove the folder
+   * Requires admin access
+   */
+  async mergeFolder(eventId: string, request: MergeFolderRequest): Promise<MergeFolderResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/folders/${encodeURIComponent(request.folder)}/merge`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getAuthHeader(),
+        },
+        body: JSON.stringify({ into: request.into }),
+      }
+    );
+
+    return this.handleResponse<MergeFolderResponse>(response);
+  }
+
+  /**
+   * Delete a folder with everything in it, the files go to the trash
+   * Requires admin access
+   */
+  async deleteFolder(eventId: string, folder: string): Promise<DeleteFolderResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/folders/${encodeURIComponent(folder)}`,
+      {
+        method: "DELETE",
+        headers: this.getAuthHeader(),
+      }
+    );
+
+    return this.handleResponse<DeleteFolderResponse>(response);
+  }
+
   /**
    * Download all files as a ZIP archive
    * Requires admin access or guest access
@@ -406,6 +882,357 @@ export class ApiClient {
     return this.handleResponse<Blob>(response, true);
   }
 
+  /**
+   * Delete several files at once, files that fail are listed in the response
+   * Requires admin or moderator access
+   */
+  async deleteFiles(eventId: string, files: FileRef[]): Promise<BatchFilesResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/batch/delete`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getAuthHeader(),
+        },
+        body: JSON.stringify({ files }),
+      }
+    );
+
+    return this.handleResponse<BatchFilesResponse>(response);
+  }
+
+  /**
+   * Move several files into another folder, files that fail are listed in the response
+   * Requires admin or moderator access
+   */
+  async moveFiles(eventId: string, request: MoveFilesRequest): Promise<BatchFilesResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/batch/move`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getAuthHeader(),
+        },
+        body: JSON.stringify(request),
+      }
+    );
+
+    return this.handleResponse<BatchFilesResponse>(response);
+  }
+
+  /**
+   * Download the selected files as a ZIP archive
+   * Requires admin access or guest access
+   */
+  async downloadFilesZip(eventId: string, files: FileRef[]): Promise<DownloadFilesZipResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/batch/zip`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getAuthHeader(),
+        },
+        body: JSON.stringify({ files }),
+      }
+    );
+
+    const blob = await this.handleResponse<Blob>(response, true);
+    const skippedHeader = response.headers.get("Zip-Skipped-Files");
+    const skipped = skippedHeader ? JSON.parse(decodeURIComponent(skippedHeader)) : [];
+    return {
+      blob,
+      skipped,
+      skippedCount: Number(response.headers.get("Zip-Skipped-Count") ?? skipped.length),
+    };
+  }
+
+  /**
+   * List the guest uploads that wait for approval
+   * Requires admin or moderator access
+   */
+  async listPendingFiles(eventId: string): Promise<PendingFilesResponse> {
+    const response = await fetch(`${apiBase}/api/events/${encodeURIComponent(eventId)}/pending`, {
+      headers: this.getAuthHeader(),
+    });
+
+    return this.handleResponse<PendingFilesResponse>(response);
+  }
+
+  /**
+   * Download a pending upload to review it
+   * Requires admin or moderator access
+   */
+  async downloadPendingFile(eventId: string, file: PendingFileRef): Promise<Blob> {
+    const params = new URLSearchParams();
+    if (file.folder) {
+      params.set("folder", file.folder);
+    }
+    const queryString = params.toString() ? `?${params.toString()}` : "";
+
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/pending/${encodeURIComponent(file.filename)}${queryString}`,
+      {
+        headers: this.getAuthHeader(),
+      }
+    );
+
+    return this.handleResponse<Blob>(response, true);
+  }
+
+  /**
+   * Publish pending uploads, files that fail are listed in the response
+   * Requires admin or moderator access
+   */
+  async approvePendingFiles(
+    eventId: string,
+    files: PendingFileRef[]
+  ): Promise<ReviewPendingFilesResponse> {
+    return this.reviewPendingFiles(eventId, "approve", files);
+  }
+
+  /**
+   * Delete pending uploads, files that fail are listed in the response
+   * Requires admin or moderator access
+   */
+  async rejectPendingFiles(
+    eventId: string,
+    files: PendingFileRef[]
+  ): Promise<ReviewPendingFilesResponse> {
+    return this.reviewPendingFiles(eventId, "reject", files);
+  }
+
+  /**
+   * Shared request of approvePendingFiles and rejectPendingFiles
+   */
+  private async reviewPendingFiles(
+    eventId: string,
+    action: "approve" | "reject",
+    files: PendingFileRef[]
+  ): Promise<ReviewPendingFilesResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/pending/${action}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getAuthHeader(),
+        },
+        body: JSON.stringify({ files }),
+      }
+    );
+
+    return this.handleResponse<ReviewPendingFilesResponse>(response);
+  }
+
+  /**
+   * List the deleted files that are still in the trash, newest first
+   * Requires admin or moderator access
+   */
+  async listTrash(eventId: string): Promise<TrashListResponse> {
+    const response = await fetch(`${apiBase}/api/events/${encodeURIComponent(eventId)}/trash`, {
+      headers: this.getAuthHeader(),
+    });
+
+    return this.handleResponse<TrashListResponse>(response);
+  }
+
+  /**
+   * Move a trashed file back into its folder
+   * Requires admin or moderator access
+   */
+  async restoreTrashedFile(eventId: string, trashId: string): Promise<RestoreTrashedFileResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/trash/${encodeURIComponent(trashId)}/restore`,
+      {
+        method: "POST",
+        headers: this.getAuthHeader(),
+      }
+    );
+
+    return this.handleResponse<RestoreTrashedFileResponse>(response);
+  }
+
+  /**
+   * Delete a trashed file for good
+   * Requires admin access
+   */
+  async deleteTrashedFile(eventId: string, trashId: string): Promise<DeleteFileResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/trash/${encodeURIComponent(trashId)}`,
+      {
+        method: "DELETE",
+        headers: this.getAuthHeader(),
+      }
+    );
+
+    return this.handleResponse<DeleteFileResponse>(response);
+  }
+
+  /**
+   * List the audit log of an event, newest entries first
+   * Requires admin access
+   */
+  async listAuditLog(eventId: string, request?: ListAuditLogRequest): Promise<AuditLogResponse> {
+    const params = new URLSearchParams();
+    if (request?.page) {
+      params.set("page", String(request.page));
+    }
+    if (request?.pageSize) {
+      params.set("pageSize", String(request.pageSize));
+    }
+    if (request?.action) {
+      params.set("action", request.action);
+    }
+    if (request?.actor) {
+      params.set("actor", request.actor);
+    }
+    const queryString = params.toString() ? `?${params.toString()}` : "";
+
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/audit${queryString}`,
+      {
+        headers: this.getAuthHeader(),
+      }
+    );
+
+    return this.handleResponse<AuditLogResponse>(response);
+  }
+
+  /**
+   * List the share links of an event that have not expired
+   * Requires admin access
+   */
+  async listShareLinks(eventId: string): Promise<ShareLinksResponse> {
+    const response = await fetch(`${apiBase}/api/events/${encodeURIComponent(eventId)}/shares`, {
+      headers: this.getAuthHeader(),
+    });
+
+    return this.handleResponse<ShareLinksResponse>(response);
+  }
+
+  /**
+   * Create an expiring share link for a file, a folder or the ZIP of a folder
+   * Requires admin access
+   */
+  async createShareLink(eventId: string, request: CreateShareLinkRequest): Promise<ShareLink> {
+    const response = await fetch(`${apiBase}/api/events/${encodeURIComponent(eventId)}/shares`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...this.getAuthHeader(),
+      },
+      body: JSON.stringify(request),
+    });
+
+    return this.handleResponse<ShareLink>(response);
+  }
+
+  /**
+   * Revoke a share link before it expires
+   * Requires admin access
+   */
+  async revokeShareLink(eventId: string, shareId: string): Promise<RevokeShareLinkResponse> {
+    const response = await fetch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/shares/${encodeURIComponent(shareId)}`,
+      {
+        method: "DELETE",
+        headers: this.getAuthHeader(),
+      }
+    );
+
+    return this.handleResponse<RevokeShareLinkResponse>(response);
+  }
+
+  /**
+   * Exchange the operator password for a session token
+   * @throws ApiError with status 401 if the password is wrong, 404 if the console is disabled
+   */
+  async operatorLogin(request: OperatorLoginRequest): Promise<OperatorSessionResponse> {
+    const response = await fetch(`${apiBase}/api/operator/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+
+    return this.handleResponse<OperatorSessionResponse>(response);
+  }
+
+  /**
+   * End the operator session of the token this client was created with
+   */
+  async operatorLogout(): Promise<LogoutResponse> {
+    const response = await fetch(`${apiBase}/api/operator/logout`, {
+      method: "POST",
+      headers: this.getAuthHeader(),
+    });
+
+    return this.handleResponse<LogoutResponse>(response);
+  }
+
+  /**
+   * List all events with their storage use
+   * Requires operator access
+   */
+  async listOperatorEvents(): Promise<OperatorEventsResponse> {
+    const response = await fetch(`${apiBase}/api/operator/events`, {
+      headers: this.getAuthHeader(),
+    });
+
+    return this.handleResponse<OperatorEventsResponse>(response);
+  }
+
+  /**
+   * Lock or unlock an event
+   * Requires operator access
+   */
+  async updateOperatorEvent(
+    eventId: string,
+    request: UpdateOperatorEventRequest
+  ): Promise<OperatorEventSummary> {
+    const response = await fetch(`${apiBase}/api/operator/events/${encodeURIComponent(eventId)}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        ...this.getAuthHeader(),
+      },
+      body: JSON.stringify(request),
+    });
+
+    return this.handleResponse<OperatorEventSummary>(response);
+  }
+
+  /**
+   * Replace the admin password of an event with a random one
+   * Requires operator access
+   */
+  async resetEventAdminPassword(eventId: string): Promise<ResetAdminPasswordResponse> {
+    const response = await fetch(
+      `${apiBase}/api/operator/events/${encodeURIComponent(eventId)}/admin-password`,
+      {
+        method: "POST",
+        headers: this.getAuthHeader(),
+      }
+    );
+
+    return this.handleResponse<ResetAdminPasswordResponse>(response);
+  }
+
+  /**
+   * Delete an event with all its files
+   * Requires operator access
+   */
+  async deleteOperatorEvent(eventId: string): Promise<DeleteEventResponse> {
+    const response = await fetch(`${apiBase}/api/operator/events/${encodeURIComponent(eventId)}`, {
+      method: "DELETE",
+      headers: this.getAuthHeader(),
+    });
+
+    return this.handleResponse<DeleteEventResponse>(response);
+  }
+
   /**
    * Get global app configuration
    */
@@ -9,14 +9,34 @@ export interface EventInfo {
   eventId: string;
   allowedMimeTypes: string[];
   secured: boolean;
+  /** A moderator password is set */
+  moderatorEnabled: boolean;
+  /** Guest uploads wait for approval before they are listed */
+  moderateUploads: boolean;
   allowGuestDownload: boolean;
   allowGuestUpload: boolean;
   requireUploadFolder: boolean;
   uploadFolderHint: string | null;
-  accessLevel?: "unauthenticated" | "guest" | "admin";
+  /** Folders offered in the upload form */
+  uploadFolders: string[];
+  /** Uploads may only go to one of uploadFolders */
+  restrictUploadFolders: boolean;
+  accessLevel?: "unauthenticated" | "guest" | "moderator" | "admin";
   uploadMaxFileSizeBytes: number;
   uploadMaxTotalSizeBytes: number;
+  /** Only returned to admins */
+  usedBytes?: number;
+  /** Only returned to admins */
+  usedFiles?: number;
+  quotaBytes: number;
+  quotaFiles: number;
   createdAt?: string;
+  /** Guests cannot upload before this time */
+  uploadOpensAt: string | null;
+  /** Guests cannot upload after this time */
+  uploadClosesAt: string | null;
+  /** The event closes at this time and is archived or deleted later */
+  expiresAt: string | null;
 }
 
 export interface CreateEventRequest {
@@ -31,6 +51,9 @@ export interface CreateEventRequest {
   allowGuestUpload?: boolean;
   requireUploadFolder?: boolean;
   uploadFolderHint?: string | null;
+  uploadOpensAt?: string | null;
+  uploadClosesAt?: string | null;
+  expiresAt?: string | null;
 }
 
 export interface CreateEventResponse {
@@ -39,14 +62,33 @@ export interface CreateEventResponse {
   eventId: string;
   allowedMimeTypes: string[];
   secured: boolean;
+  /** A moderator password is set */
+  moderatorEnabled: boolean;
+  /** Guest uploads wait for approval before they are listed */
+  moderateUploads: boolean;
   allowGuestDownload: boolean;
   allowGuestUpload: boolean;
   requireUploadFolder: boolean;
   uploadFolderHint: string | null;
-  accessLevel?: "unauthenticated" | "guest" | "admin";
+  /** Folders offered in the upload form */
+  uploadFolders: string[];
+  /** Uploads may only go to one of uploadFolders */
+  restrictUploadFolders: boolean;
+  accessLevel?: "unauthenticated" | "guest" | "moderator" | "admin";
   uploadMaxFileSizeBytes: number;
   uploadMaxTotalSizeBytes: number;
+  /** Only returned to admins */
+  usedBytes?: number;
+  /** Only returned to admins */
+  usedFiles?: number;
+  quotaBytes: number;
+  quotaFiles: number;
   createdAt: string;
+  uploadOpensAt: string | null;
+  uploadClosesAt: string | null;
+  expiresAt: string | null;
+  /** One-time admin recovery code, only returned here */
+  recoveryCode: string;
 }
 
 export interface DeleteEventResponse {
@@ -59,10 +101,19 @@ export interface UpdateEventRequest {
   description?: string;
   allowedMimeTypes?: string[];
   guestPassword?: string;
+  /** At least 8 characters, an empty string removes moderator access */
+  moderatorPassword?: string;
+  moderateUploads?: boolean;
   allowGuestDownload?: boolean;
   allowGuestUpload?: boolean;
   requireUploadFolder?: boolean;
   uploadFolderHint?: string | null;
+  uploadFolders?: string[];
+  restrictUploadFolders?: boolean;
+  /** null removes the time */
+  uploadOpensAt?: string | null;
+  uploadClosesAt?: string | null;
+  expiresAt?: string | null;
 }
 
 export interface UpdateEventResponse {
@@ -72,14 +123,282 @@ export interface UpdateEventResponse {
   eventId: string;
   allowedMimeTypes: string[];
   secured: boolean;
+  /** A moderator password is set */
+  moderatorEnabled: boolean;
+  /** Guest uploads wait for approval before they are listed */
+  moderateUploads: boolean;
   allowGuestDownload: boolean;
   allowGuestUpload: boolean;
   requireUploadFolder: boolean;
   uploadFolderHint: string | null;
-  accessLevel?: "unauthenticated" | "guest" | "admin";
+  /** Folders offered in the upload form */
+  uploadFolders: string[];
+  /** Uploads may only go to one of uploadFolders */
+  restrictUploadFolders: boolean;
+  accessLevel?: "unauthenticated" | "guest" | "moderator" | "admin";
   uploadMaxFileSizeBytes: number;
   uploadMaxTotalSizeBytes: number;
+  /** Only returned to admins */
+  usedBytes?: number;
+  /** Only returned to admins */
+  usedFiles?: number;
+  quotaBytes: number;
+  quotaFiles: number;
   createdAt?: string;
+  /** Guests cannot upload before this time */
+  uploadOpensAt: string | null;
+  /** Guests cannot upload after this time */
+  uploadClosesAt: string | null;
+  /** The event closes at this time and is archived or deleted later */
+  expiresAt: string | null;
+}
+
+// Session-related types
+export interface LoginRequest {
+  user: "admin" | "moderator" | "guest";
+  /** Co-host name, the event owner leaves it out */
+  name?: string;
+  password: string;
+}
+
+export interface SessionResponse {
+  token: string;
+  role: "admin" | "moderator" | "guest";
+  expiresAt: string;
+}
+
+export interface LogoutResponse {
+  success: boolean;
+}
+
+// Co-host-related types
+export interface CoHost {
+  coHostId: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface CoHostsResponse {
+  coHosts: CoHost[];
+  /** Name the current admin is logged in with, "admin" for the owner */
+  principal: string;
+}
+
+export interface CreateCoHostRequest {
+  name: string;
+  password: string;
+}
+
+export interface RemoveCoHostResponse {
+  success: boolean;
+}
+
+// Admin-password-related types
+export interface ChangeAdminPasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+  newPasswordConfirm: string;
+}
+
+export interface RecoverAdminRequest {
+  recoveryCode: string;
+  newPassword: string;
+  newPasswordConfirm: string;
+}
+
+export interface RecoverAdminResponse extends SessionResponse {
+  recoveryCode: string;
+}
+
+export interface RecoveryCodeResponse {
+  recoveryCode: string;
+}
+
+// Share-link-related types
+export type ShareLinkKind = "file" | "folder" | "zip";
+
+export interface ShareLink {
+  shareId: string;
+  kind: ShareLinkKind;
+  folder: string;
+  filename: string | null;
+  createdAt: string;
+  expiresAt: string;
+  token: string;
+  path: string;
+}
+
+export interface CreateShareLinkRequest {
+  kind: ShareLinkKind;
+  folder?: string;
+  filename?: string;
+  expiresInHours?: number;
+}
+
+export interface ShareLinksResponse {
+  shares: ShareLink[];
+}
+
+export interface RevokeShareLinkResponse {
+  success: boolean;
+}
+
+// Batch-file-operation-related types
+export interface FileRef {
+  folder?: string;
+  filename: string;
+}
+
+export interface BatchFilesResponse {
+  message: string;
+  processed: number;
+  failed: { file: string; reason: string }[];
+}
+
+export interface MoveFilesRequest {
+  files: FileRef[];
+  /** Target folder, empty for the root */
+  to: string;
+}
+
+export interface DownloadFilesZipResponse {
+  blob: Blob;
+  /** Selected files that were not found, cut short when there are many */
+  skipped: { file: string; reason: string }[];
+  /** Number of all selected files that are missing from the archive */
+  skippedCount: number;
+}
+
+// Upload-moderation-related types
+export interface PendingFileEntry extends FileEntry {
+  folder: string;
+}
+
+export interface PendingFilesResponse {
+  files: PendingFileEntry[];
+}
+
+export interface PendingFileRef {
+  folder?: string;
+  filename: string;
+}
+
+export interface ReviewPendingFilesRequest {
+  files: PendingFileRef[];
+}
+
+export interface ReviewPendingFilesResponse {
+  message: string;
+  processed: number;
+  failed: { file: string; reason: string }[];
+}
+
+// Trash-related types
+export interface TrashEntry {
+  trashId: string;
+  folder: string;
+  name: string;
+  size: number;
+  deletedAt: string;
+  deletedByRole: "admin" | "moderator" | "guest";
+  deletedBy: string | null;
+}
+
+export interface TrashListResponse {
+  files: TrashEntry[];
+  retentionMs: number;
+}
+
+export interface RestoreTrashedFileResponse {
+  message: string;
+  folder: string;
+  filename: string;
+}
+
+// Audit-log-related types
+export type AuditAction =
+  | "upload"
+  | "delete"
+  | "move"
+  | "rename"
+  | "restore"
+  | "purge"
+  | "approve"
+  | "reject"
+  | "folderCreate"
+  | "folderRename"
+  | "folderMerge"
+  | "folderDelete"
+  | "settingsChange"
+  | "loginFailed";
+
+export interface AuditLogEntry {
+  entryId: string;
+  createdAt: string;
+  action: AuditAction;
+  role: "admin" | "moderator" | "guest" | null;
+  actor: string | null;
+  ipHash: string;
+  folder?: string;
+  files?: string[];
+  to?: string;
+  /** Names the moved files were stored under, in the order of files */
+  storedAs?: string[];
+  fields?: string[];
+  user?: string;
+}
+
+export interface ListAuditLogRequest {
+  page?: number;
+  pageSize?: number;
+  action?: AuditAction;
+  actor?: string;
+}
+
+export interface AuditLogResponse {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Operator-related types
+export interface OperatorLoginRequest {
+  password: string;
+}
+
+export interface OperatorSessionResponse {
+  token: string;
+  expiresAt: string;
+}
+
+export interface OperatorEventSummary {
+  eventId: string;
+  name: string;
+  createdAt: string;
+  expiresAt: string | null;
+  locked: boolean;
+  usedBytes: number;
+  usedFiles: number;
+  lastUploadAt: string | null;
+  /** Effective limits, 0 = unlimited */
+  quotaBytes: number;
+  quotaFiles: number;
+}
+
+export interface OperatorEventsResponse {
+  events: OperatorEventSummary[];
+}
+
+export interface UpdateOperatorEventRequest {
+  locked?: boolean;
+  /** null falls back to the server default, 0 = unlimited */
+  quotaBytes?: number | null;
+  quotaFiles?: number | null;
+}
+
+export interface ResetAdminPasswordResponse {
+  adminPassword: string;
 }
 
 // File-related types
@@ -91,12 +410,42 @@ export interface FileEntry {
 
 export interface ListFilesRequest {
   folder?: string;
+  /** Include the files of all subfolders, each entry then carries its folder path. */
+  recursive?: boolean;
+  /** Token of a folder share link, used instead of a session. */
+  share?: string;
+  /** Defaults to name, equal values are sorted by name */
+  sort?: FileSortField;
+  order?: SortOrder;
+  /** Only files whose name contains this text, ignoring case */
+  search?: string;
+  /** Content types like "image/*", the files must match one of them */
+  types?: string[];
+  /** nextCursor of the previous page, requested with the same sort and order */
+  cursor?: string;
+  /** Files per page, all files when left out */
+  limit?: number;
+}
+
+export type FileSortField = "name" | "size" | "date";
+
+export type SortOrder = "asc" | "desc";
+
+export interface FolderBreadcrumb {
+  name: string;
+  /** Full folder path up to and including this segment */
+  path: string;
 }
 
 export interface ListFilesResponse {
-  files: FileEntry[];
+  files: (FileEntry & { folder?: string })[];
   folders: string[];
   folder: string;
+  breadcrumbs: FolderBreadcrumb[];
+  /** Files matching the filters, across all pages */
+  total: number;
+  /** Set when more files follow the page */
+  nextCursor: string | null;
 }
 
 export interface UploadFilesRequest {
@@ -110,6 +459,26 @@ export interface UploadFilesResponse {
   rejected?: { file: string; reason: string }[];
 }
 
+export interface CreateResumableUploadRequest {
+  filename: string;
+  size: number;
+  mimeType?: string;
+  from?: string;
+}
+
+export interface ResumableUploadStatus {
+  uploadId: string;
+  offset: number;
+  size: number;
+}
+
+export interface PreviewJobStatus {
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+}
+
 export interface DownloadFileRequest {
   filename: string;
   folder?: string;
@@ -125,11 +494,34 @@ export interface PreviewFileRequest {
   format?: "jpeg" | "webp" | "png";
 }
 
+export interface VideoClipRequest {
+  filename: string;
+  folder?: string;
+  width?: number;
+  height?: number;
+}
+
 export interface DeleteFileRequest {
   filename: string;
   folder?: string;
 }
 
+export interface UpdateFileRequest {
+  filename: string;
+  folder?: string;
+  /** New name in the same folder, the extension cannot change */
+  name?: string;
+  /** Folder to move the file into, "" for the root */
+  to?: string;
+}
+
+export interface UpdateFileResponse {
+  message: string;
+  folder: string;
+  /** Name the file is stored under, taken names get a _N suffix */
+  filename: string;
+}
+
 export interface DeleteFileResponse {
   ok: boolean;
   message: string;
@@ -144,6 +536,24 @@ export interface RenameFolderResponse {
   success: boolean;
 }
 
+export interface MergeFolderRequest {
+  folder: string;
+  /** Folder receiving the files, "" for the root */
+  into: string;
+}
+
+export interface MergeFolderResponse {
+  message: string;
+  moved: number;
+  /** Files that got a _N suffix because the name was taken */
+  renamed: number;
+}
+
+export interface DeleteFolderResponse {
+  message: string;
+  deleted: number;
+}
+
 export interface AppConfigResponse {
   allowedDomains: string[];
   supportSubdomain: boolean;
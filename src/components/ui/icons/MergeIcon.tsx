@@ -0,0 +1,19 @@
+export const MergeIcon = ({ size = 18 }: { size?: number }) => {
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="1.8"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <path d="M6 3v6a6 6 0 0 0 6 6h6" />
+      <path d="M6 21v-6" />
+      <path d="M15 12l3 3-3 3" />
+    </svg>
+  );
+};
@@ -14,8 +14,24 @@ export const APP_CONFIG_TTL_MS =
 
 export const UI_FEEDBACK_TIMEOUT_MS = 3000;
 
+// files above the threshold are sent in chunks and resume after connection losses
+export const RESUMABLE_UPLOAD_THRESHOLD_BYTES = 8 * 1024 * 1024;
+export const RESUMABLE_UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+export const RESUMABLE_UPLOAD_MAX_RETRIES = 5;
+export const PREVIEW_STATUS_POLL_MS = 5000;
+// same size the server renders ahead of time after uploads, so the lightbox hits its cache
+export const LIGHTBOX_PREVIEW_SIZE = 1500;
+export const VIDEO_THUMBNAIL_SIZE = 320;
+// files per request of the file browser, more are loaded while scrolling
+export const FILE_LIST_PAGE_SIZE = 100;
+// the server caps pages at this size, also when the loaded files are listed again
+export const FILE_LIST_MAX_PAGE_SIZE = 500;
+
 export const EVENTNAME_REGEX = /^[a-zA-Z0-9-]+$/;
 export const SUBDOMAIN_REGEX = /^(?!-)[a-zA-Z0-9-]{1,63}(?<!-)$/;
 export const NOT_ALLOWED_EVENTNAMES_REGEX =
-  /^(?!\b(admin|login|logout|api|docs|static|public|uploads)\b).+$/i;
+  /^(?!\b(admin|login|logout|api|docs|static|public|uploads|operator)\b).+$/i;
 export const FOLDER_REGEX = /^[A-Za-z0-9 -]+$/;
+export const MAX_FOLDER_DEPTH = 8;
+export const FOLDER_PATH_MAX_LENGTH = 255;
+export const MAX_UPLOAD_FOLDERS = 50;
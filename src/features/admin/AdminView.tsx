@@ -1,14 +1,22 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { ApiError } from "../../api/client";
-import type { EventInfo } from "../../api/types";
+import { ApiClient, ApiError } from "../../api/client";
+import type { EventInfo, RecoverAdminResponse } from "../../api/types";
 import { useSessionStore } from "../../lib/sessionStore";
 import { redirectToHome } from "../../lib/navigation";
 import { buildEventUrl } from "../../lib/domain";
+import { AdminPasswordSection } from "./components/AdminPasswordSection";
 import { AdminSettings } from "./components/AdminSettings";
+import { AuditLogSection } from "./components/AuditLogSection";
+import { CoHostsSection } from "./components/CoHostsSection";
 import { DeleteEventSection } from "./components/DeleteEventSection";
+import { ModeratorPasswordSection } from "./components/ModeratorPasswordSection";
+import { PendingUploadsSection } from "./components/PendingUploadsSection";
+import { RecoverAdminForm } from "./components/RecoverAdminForm";
+import { ShareLinksSection } from "./components/ShareLinksSection";
 import { FileBrowser } from "../files/components/FileBrowser";
 import { PasswordPrompt } from "../../shared/components/PasswordPrompt";
+import { RecoveryCodeDialog } from "../../shared/components/RecoveryCodeDialog";
 import { CopyIcon, LogoutIcon, QrIcon } from "../../components/ui/icons";
 import { useTimedFeedback } from "../../shared/hooks/useTimedFeedback";
 import { useApiClient } from "../../shared/hooks/useApiClient";
@@ -17,6 +25,9 @@ import { QRCodeCanvas } from "qrcode.react";
 
 type AdminStatus = "loading" | "locked" | "ready" | "error";
 
+// moderators log in through the name field, the name is reserved for co-hosts
+const MODERATOR_LOGIN_NAME = "moderator";
+
 type AdminViewProps = {
   eventId: string;
   baseDomain: string;
@@ -38,6 +49,11 @@ export function AdminView({
   const [settingsLoadError, setSettingsLoadError] = useState("");
   const [eventSettings, setEventSettings] = useState<EventInfo | null>(null);
   const [isQrOpen, setIsQrOpen] = useState(false);
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [isOwner, setIsOwner] = useState(false);
+  const [isModerator, setIsModerator] = useState(false);
+  const [fileBrowserRefresh, setFileBrowserRefresh] = useState(0);
   const hasVerifiedAccessRef = useRef(false);
   const accessRequestRef = useRef<Promise<void> | null>(null);
 
@@ -82,9 +98,11 @@ export function AdminView({
   }, [baseDomain, setAdminToken, setGuestToken]);
 
   const handleAdminLogout = useCallback(() => {
+    // the token is dropped locally even if the server cannot be reached
+    apiClient.logout(eventId).catch(() => {});
     setAdminToken(null);
     onBackProject();
-  }, [onBackProject, setAdminToken]);
+  }, [apiClient, eventId, onBackProject, setAdminToken]);
 
   const scrollToSection = useCallback((targetId: string, behavior: ScrollBehavior = "smooth") => {
     const el = document.getElementById(targetId);
@@ -108,12 +126,13 @@ export function AdminView({
       accessRequestRef.current = (async () => {
         const isFirstAttempt = !hasVerifiedAccessRef.current;
         setMessage("");
-        setStatus("loading");
+        // a replaced token of a verified admin is checked without leaving the view
+        setStatus((current) => (current === "ready" ? current : "loading"));
         setSettingsLoadError("");
         setSettingsLoading(true);
         try {
           const eventInfo = await apiClient.getEvent(eventId);
-          if (eventInfo.accessLevel !== "admin") {
+          if (eventInfo.accessLevel !== "admin" && eventInfo.accessLevel !== "moderator") {
             setMessage(
               isFirstAttempt ? t("AdminView.loginRequired") : t("AdminView.loginWrongPassword")
             );
@@ -128,6 +147,7 @@ export function AdminView({
             allowGuestDownload: allowDownload,
             allowGuestUpload: eventInfo.allowGuestUpload ?? true,
           });
+          setIsModerator(eventInfo.accessLevel === "moderator");
           setStatus("ready");
         } catch (error) {
           if (error instanceof ApiError) {
@@ -197,9 +217,31 @@ export function AdminView({
     tryScroll();
   }, [scrollToSection, status, eventSettings]);
 
-  const submitAdminPassword = (password: string) => {
+  const submitAdminPassword = async (password: string, name: string) => {
     setMessage("");
-    setAdminToken(password);
+    try {
+      const asModerator = name.toLowerCase() === MODERATOR_LOGIN_NAME;
+      const session = await ApiClient.anonymous().login(eventId, {
+        user: asModerator ? "moderator" : "admin",
+        name: asModerator ? undefined : name || undefined,
+        password,
+      });
+      setAdminToken(session.token);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        setMessage(t("AdminView.loginWrongPassword"));
+        return;
+      }
+      setMessage(
+        error instanceof Error && error.message ? error.message : t("AdminView.serverUnavailable")
+      );
+    }
+  };
+
+  const handleRecovered = (response: RecoverAdminResponse) => {
+    setIsRecovering(false);
+    setRecoveryCode(response.recoveryCode);
+    setAdminToken(response.token);
   };
 
   if (status === "loading") {
@@ -210,16 +252,30 @@ export function AdminView({
     );
   }
 
+  if (status === "locked" && isRecovering) {
+    return (
+      <RecoverAdminForm
+        eventId={eventId}
+        onRecovered={handleRecovered}
+        onCancel={() => setIsRecovering(false)}
+      />
+    );
+  }
+
   if (status === "locked") {
     return (
       <PasswordPrompt
         title={t("AdminView.lockedTitle")}
         description={t("AdminView.lockedDescription", { subdomain: eventId })}
         passwordLabel={t("AdminView.lockedTitle")}
-        onSubmit={(pwd) => submitAdminPassword(pwd)}
+        nameLabel={t("AdminView.coHostNameLabel")}
+        nameHint={t("AdminView.coHostNameHint")}
+        onSubmit={(pwd, _event, name) => submitAdminPassword(pwd, name)}
         primaryLabel={t("AdminView.lockedPrimary")}
         secondaryLabel={t("AdminView.lockedSecondary")}
         onSecondary={onBackProject}
+        tertiaryLabel={t("AdminView.forgotPassword")}
+        onTertiary={() => setIsRecovering(true)}
         message={message}
       />
     );
@@ -256,8 +312,8 @@ export function AdminView({
       </div>
       <div className="admin-header">
         <header className="form-header">
-          <p className="eyebrow">Admin</p>
-          <h1>{t("AdminView.title")}</h1>
+          <p className="eyebrow">{isModerator ? t("AdminView.moderatorEyebrow") : "Admin"}</p>
+          <h1>{isModerator ? t("AdminView.moderatorTitle") : t("AdminView.title")}</h1>
           <p className="lede admin-event-lede">
             <strong>{t("AdminView.projectLabelPrefix")}</strong> {eventId}
           </p>
@@ -315,69 +371,137 @@ export function AdminView({
                 <span className="admin-overview-title">{t("AdminView.overviewFiles")}</span>
                 <span className="admin-overview-subtitle">{t("AdminView.overviewFilesHint")}</span>
               </button>
-              <button
-                type="button"
-                className="admin-overview-link"
-                onClick={() => navigateToSection("admin-settings")}
-                data-testid="admin-overview-settings"
-              >
-                <span className="admin-overview-title">{t("AdminView.overviewSettings")}</span>
-                <span className="admin-overview-subtitle">
-                  {t("AdminView.overviewSettingsHint")}
-                </span>
-              </button>
-              <button
-                type="button"
-                className="admin-overview-link"
-                onClick={() => navigateToSection("admin-removal")}
-                data-testid="admin-overview-removal"
-              >
-                <span className="admin-overview-title">{t("AdminView.overviewRemoval")}</span>
-                <span className="admin-overview-subtitle">
-                  {t("AdminView.overviewRemovalHint")}
-                </span>
-              </button>
+              {isModerator ? null : (
+                <>
+                  <button
+                    type="button"
+                    className="admin-overview-link"
+                    onClick={() => navigateToSection("admin-settings")}
+                    data-testid="admin-overview-settings"
+                  >
+                    <span className="admin-overview-title">{t("AdminView.overviewSettings")}</span>
+                    <span className="admin-overview-subtitle">
+                      {t("AdminView.overviewSettingsHint")}
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    className="admin-overview-link"
+                    onClick={() => navigateToSection("admin-removal")}
+                    data-testid="admin-overview-removal"
+                  >
+                    <span className="admin-overview-title">{t("AdminView.overviewRemoval")}</span>
+                    <span className="admin-overview-subtitle">
+                      {t("AdminView.overviewRemovalHint")}
+                    </span>
+                  </button>
+                </>
+              )}
             </div>
           </div>
         </header>
       </div>
       <section id="admin-files" data-testid="admin-files">
-        <FileBrowser eventId={eventId} mode="admin" />
-      </section>
-      <section id="admin-settings" data-testid="admin-settings">
-        {eventSettings ? (
-          <AdminSettings
-            apiClient={apiClient}
-            eventId={eventId}
-            eventInfo={eventSettings}
-            loading={settingsLoading}
-            onEventUpdate={handleEventSettingsUpdate}
-            onGuestPasswordChanged={() => setGuestToken(null)}
-          />
-        ) : (
-          <div className="form-card" data-testid="admin-settings-loading">
-            <h2 data-testid="admin-settings-loading-title">
-              {t("AdminView.projectSettingsTitle")}
-            </h2>
-            <p className={`helper${settingsLoadError ? " status bad" : ""}`}>
-              {settingsLoadError || t("AdminView.projectSettingsLoading")}
-            </p>
-          </div>
-        )}
-      </section>
-      <section id="admin-removal" data-testid="admin-removal">
-        <DeleteEventSection
+        <FileBrowser
+          key={fileBrowserRefresh}
           eventId={eventId}
+          mode="admin"
+          isModerator={isModerator}
+        />
+      </section>
+      <section id="admin-pending" data-testid="admin-pending">
+        <PendingUploadsSection
           apiClient={apiClient}
-          onDeleteSuccess={handleDeleteSuccess}
+          eventId={eventId}
+          moderateUploads={Boolean(eventSettings?.moderateUploads)}
+          onApproved={() => setFileBrowserRefresh((key) => key + 1)}
           onApiError={handleApiError}
         />
       </section>
+      {isModerator ? null : (
+        <>
+          <section id="admin-settings" data-testid="admin-settings">
+            {eventSettings ? (
+              <AdminSettings
+                apiClient={apiClient}
+                eventId={eventId}
+                eventInfo={eventSettings}
+                loading={settingsLoading}
+                onEventUpdate={handleEventSettingsUpdate}
+                onGuestPasswordChanged={() => setGuestToken(null)}
+              />
+            ) : (
+              <div className="form-card" data-testid="admin-settings-loading">
+                <h2 data-testid="admin-settings-loading-title">
+                  {t("AdminView.projectSettingsTitle")}
+                </h2>
+                <p className={`helper${settingsLoadError ? " status bad" : ""}`}>
+                  {settingsLoadError || t("AdminView.projectSettingsLoading")}
+                </p>
+              </div>
+            )}
+          </section>
+          <section id="admin-co-hosts" data-testid="admin-co-hosts-section">
+            <CoHostsSection
+              apiClient={apiClient}
+              eventId={eventId}
+              onOwnerChange={setIsOwner}
+              onApiError={handleApiError}
+            />
+          </section>
+          {eventSettings ? (
+            <section id="admin-moderator" data-testid="admin-moderator">
+              <ModeratorPasswordSection
+                apiClient={apiClient}
+                eventId={eventId}
+                eventInfo={eventSettings}
+                onEventUpdate={handleEventSettingsUpdate}
+                onApiError={handleApiError}
+              />
+            </section>
+          ) : null}
+          {isOwner ? (
+            <section id="admin-password" data-testid="admin-password">
+              <AdminPasswordSection
+                apiClient={apiClient}
+                eventId={eventId}
+                onSessionReplaced={setAdminToken}
+                onApiError={handleApiError}
+              />
+            </section>
+          ) : null}
+          <section id="admin-shares" data-testid="admin-shares">
+            <ShareLinksSection
+              apiClient={apiClient}
+              eventId={eventId}
+              eventUrl={shareUrl}
+              onApiError={handleApiError}
+            />
+          </section>
+          <section id="admin-audit" data-testid="admin-audit">
+            <AuditLogSection apiClient={apiClient} eventId={eventId} onApiError={handleApiError} />
+          </section>
+          <section id="admin-removal" data-testid="admin-removal">
+            <DeleteEventSection
+              eventId={eventId}
+              apiClient={apiClient}
+              onDeleteSuccess={handleDeleteSuccess}
+              onApiError={handleApiError}
+            />
+          </section>
+        </>
+      )}
       <div className="actions">
         <button className="ghost" onClick={onBackProject}>
           {t("AdminView.back")}
         </button>
       </div>
+      <RecoveryCodeDialog
+        recoveryCode={recoveryCode}
+        description={t("RecoverAdminForm.newRecoveryCodeDescription")}
+        confirmLabel={t("AdminPasswordSection.recoveryCodeConfirm")}
+        onConfirm={() => setRecoveryCode(null)}
+      />
       <ModalDialog
         open={isQrOpen}
         title={t("AdminView.shareQrTitle")}
@@ -0,0 +1,149 @@
+import { FormEvent, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ApiError, type ApiClient } from "../../../api/client";
+import { RecoveryCodeDialog } from "../../../shared/components/RecoveryCodeDialog";
+import { useTimedFeedback } from "../../../shared/hooks/useTimedFeedback";
+
+type AdminPasswordSectionProps = {
+  apiClient: ApiClient;
+  eventId: string;
+  onSessionReplaced: (token: string) => void;
+  onApiError: (error: unknown, defaultMessage: string) => void;
+};
+
+export function AdminPasswordSection({
+  apiClient,
+  eventId,
+  onSessionReplaced,
+  onApiError,
+}: AdminPasswordSectionProps) {
+  const { t } = useTranslation();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [newPasswordConfirm, setNewPasswordConfirm] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const feedback = useTimedFeedback();
+
+  const passwordTooShort = Boolean(newPassword) && newPassword.length < 8;
+  const passwordsMismatch = Boolean(newPasswordConfirm) && newPassword !== newPasswordConfirm;
+  const canSave =
+    Boolean(currentPassword) &&
+    newPassword.length >= 8 &&
+    newPassword === newPasswordConfirm &&
+    !isSaving;
+
+  const changePassword = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      const session = await apiClient.changeAdminPassword(eventId, {
+        currentPassword,
+        newPassword,
+        newPasswordConfirm,
+      });
+      setCurrentPassword("");
+      setNewPassword("");
+      setNewPasswordConfirm("");
+      feedback.showSuccess(t("AdminPasswordSection.changeSuccess"));
+      // the old token stopped working with the password change
+      onSessionReplaced(session.token);
+    } catch (error) {
+      const errorKey =
+        error instanceof ApiError
+          ? (error.body as { errorKey?: string } | undefined)?.errorKey
+          : undefined;
+      if (errorKey === "WRONG_CURRENT_PASSWORD") {
+        feedback.showError(t("AdminPasswordSection.wrongCurrentPassword"));
+        return;
+      }
+      onApiError(error, t("AdminPasswordSection.changeError"));
+      feedback.showError(
+        error instanceof Error ? error.message : t("AdminPasswordSection.changeError")
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const regenerateRecoveryCode = async () => {
+    try {
+      const response = await apiClient.regenerateRecoveryCode(eventId);
+      setRecoveryCode(response.recoveryCode);
+    } catch (error) {
+      onApiError(error, t("AdminPasswordSection.recoveryCodeError"));
+      feedback.showError(t("AdminPasswordSection.recoveryCodeError"));
+    }
+  };
+
+  return (
+    <form className="form-card" onSubmit={changePassword} data-testid="admin-password-form">
+      <h2>{t("AdminPasswordSection.title")}</h2>
+      <p className="helper">{t("AdminPasswordSection.description")}</p>
+      <label className="field">
+        <span>{t("AdminPasswordSection.currentLabel")}</span>
+        <input
+          type="password"
+          autoComplete="current-password"
+          value={currentPassword}
+          onChange={(event) => setCurrentPassword(event.target.value)}
+          data-testid="admin-password-current"
+        />
+      </label>
+      <label className="field">
+        <span>{t("AdminPasswordSection.newLabel")}</span>
+        <input
+          type="password"
+          autoComplete="new-password"
+          value={newPassword}
+          onChange={(event) => setNewPassword(event.target.value)}
+          data-testid="admin-password-new"
+        />
+        {passwordTooShort ? (
+          <span className="helper status bad">{t("NewEventView.adminPasswordInvalid")}</span>
+        ) : null}
+      </label>
+      <label className="field">
+        <span>{t("AdminPasswordSection.confirmLabel")}</span>
+        <input
+          type="password"
+          autoComplete="new-password"
+          value={newPasswordConfirm}
+          onChange={(event) => setNewPasswordConfirm(event.target.value)}
+          data-testid="admin-password-confirm"
+        />
+        {passwordsMismatch ? (
+          <span className="helper status bad">{t("NewEventView.adminPasswordRepeatInvalid")}</span>
+        ) : null}
+      </label>
+      {feedback.message ? (
+        <span className={`helper status ${feedback.message.tone}`}>{feedback.message.text}</span>
+      ) : null}
+      <div className="actions">
+        <button
+          type="button"
+          className="ghost"
+          onClick={regenerateRecoveryCode}
+          data-testid="admin-recovery-code-regenerate"
+        >
+          {t("AdminPasswordSection.regenerateRecoveryCode")}
+        </button>
+        <button
+          type="submit"
+          className="primary"
+          disabled={!canSave}
+          data-testid="admin-password-submit"
+        >
+          {t("AdminPasswordSection.submit")}
+        </button>
+      </div>
+      <RecoveryCodeDialog
+        recoveryCode={recoveryCode}
+        description={t("AdminPasswordSection.recoveryCodeDescription")}
+        confirmLabel={t("AdminPasswordSection.recoveryCodeConfirm")}
+        onConfirm={() => setRecoveryCode(null)}
+      />
+    </form>
+  );
+}
@@ -1,13 +1,21 @@
 import { FormEvent, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { ApiClient } from "../../../api/client";
-import type { EventInfo, UpdateEventRequest } from "../../../api/types";
+import type { EventInfo, PreviewJobStatus, UpdateEventRequest } from "../../../api/types";
 import { MimeTypeSelect } from "../../../components/ui/MimeTypeSelect";
 import { useTimedFeedback } from "../../../shared/hooks/useTimedFeedback";
 import { EditIcon } from "../../../components/ui/icons";
+import { formatFileSize, fromDateTimeLocalValue, toDateTimeLocalValue } from "../../../lib/format";
+import { MAX_UPLOAD_FOLDERS, PREVIEW_STATUS_POLL_MS } from "../../../constants";
+import { isFolderPathValid, normalizeFolderPath } from "../../../lib/folderValidation";
 
 const MASKED_GUEST_PASSWORD = "********";
 
+// one folder per line, blank lines and repeats are dropped like on the server
+const parseUploadFolders = (value: string) => [
+  ...new Set(value.split("\n").map(normalizeFolderPath).filter(Boolean)),
+];
+
 type AdminSettingsProps = {
   apiClient: ApiClient;
   eventId: string;
@@ -32,10 +40,23 @@ export function AdminSettings({
     Boolean(eventInfo.allowGuestDownload)
   );
   const [allowGuestUpload, setAllowGuestUpload] = useState(eventInfo.allowGuestUpload ?? true);
+  const [moderateUploads, setModerateUploads] = useState(Boolean(eventInfo.moderateUploads));
   const [requireUploadFolder, setRequireUploadFolder] = useState(
     Boolean(eventInfo.requireUploadFolder)
   );
   const [uploadFolderHint, setUploadFolderHint] = useState(eventInfo.uploadFolderHint || "");
+  const [uploadFoldersInput, setUploadFoldersInput] = useState(
+    (eventInfo.uploadFolders ?? []).join("\n")
+  );
+  const [restrictUploadFolders, setRestrictUploadFolders] = useState(
+    Boolean(eventInfo.restrictUploadFolders)
+  );
+  // datetime-local values in the time zone of the browser
+  const [uploadOpensAt, setUploadOpensAt] = useState(toDateTimeLocalValue(eventInfo.uploadOpensAt));
+  const [uploadClosesAt, setUploadClosesAt] = useState(
+    toDateTimeLocalValue(eventInfo.uploadClosesAt)
+  );
+  const [expiresAt, setExpiresAt] = useState(toDateTimeLocalValue(eventInfo.expiresAt));
   const [eventName, setEventName] = useState(eventInfo.name || "");
   const [eventDescription, setEventDescription] = useState(eventInfo.description || "");
   const [allowedMimeTypes, setAllowedMimeTypes] = useState<string[]>(
@@ -43,14 +64,21 @@ export function AdminSettings({
   );
   const [settingsStatus, setSettingsStatus] = useState<"idle" | "saving">("idle");
   const settingsFeedback = useTimedFeedback();
+  const [previewStatus, setPreviewStatus] = useState<PreviewJobStatus | null>(null);
 
   useEffect(() => {
     setGuestPasswordMasked(Boolean(eventInfo.secured));
     setGuestPasswordInput("");
     setAllowGuestDownload(Boolean(eventInfo.allowGuestDownload));
     setAllowGuestUpload(eventInfo.allowGuestUpload ?? true);
+    setModerateUploads(Boolean(eventInfo.moderateUploads));
     setRequireUploadFolder(Boolean(eventInfo.requireUploadFolder));
     setUploadFolderHint(eventInfo.uploadFolderHint || "");
+    setUploadFoldersInput((eventInfo.uploadFolders ?? []).join("\n"));
+    setRestrictUploadFolders(Boolean(eventInfo.restrictUploadFolders));
+    setUploadOpensAt(toDateTimeLocalValue(eventInfo.uploadOpensAt));
+    setUploadClosesAt(toDateTimeLocalValue(eventInfo.uploadClosesAt));
+    setExpiresAt(toDateTimeLocalValue(eventInfo.expiresAt));
     setEventName(eventInfo.name || "");
     setEventDescription(eventInfo.description || "");
     setAllowedMimeTypes(eventInfo.allowedMimeTypes || []);
@@ -59,9 +87,15 @@ export function AdminSettings({
     eventInfo.allowGuestUpload,
     eventInfo.allowedMimeTypes,
     eventInfo.description,
+    eventInfo.expiresAt,
+    eventInfo.moderateUploads,
     eventInfo.name,
     eventInfo.requireUploadFolder,
+    eventInfo.restrictUploadFolders,
+    eventInfo.uploadClosesAt,
     eventInfo.uploadFolderHint,
+    eventInfo.uploadFolders,
+    eventInfo.uploadOpensAt,
     eventInfo.secured,
   ]);
 
@@ -84,12 +118,62 @@ export function AdminSettings({
     requireUploadFolder !== Boolean(eventInfo.requireUploadFolder);
   const hasUploadFolderHintChange =
     normalizedUploadFolderHint !== (eventInfo.uploadFolderHint ?? null);
+  const uploadFolders = parseUploadFolders(uploadFoldersInput);
+  const uploadFoldersInvalid =
+    uploadFolders.length > MAX_UPLOAD_FOLDERS ||
+    !uploadFolders.every((folder) => isFolderPathValid(folder));
+  const restrictUploadFoldersInvalid = restrictUploadFolders && uploadFolders.length === 0;
+  const hasUploadFoldersChange =
+    JSON.stringify(uploadFolders) !== JSON.stringify(eventInfo.uploadFolders ?? []);
   const hasMimeChange =
     JSON.stringify([...allowedMimeTypes].sort()) !==
     JSON.stringify([...(eventInfo.allowedMimeTypes || [])].sort());
   const isBusy = loading || settingsStatus === "saving";
   const passwordValue = guestPasswordMasked ? MASKED_GUEST_PASSWORD : guestPasswordInput;
   const guestAccessInvalid = !allowGuestDownload && !allowGuestUpload;
+  const uploadWindowInvalid =
+    Boolean(uploadOpensAt && uploadClosesAt) && uploadOpensAt >= uploadClosesAt;
+  const nextUploadOpensAt = fromDateTimeLocalValue(uploadOpensAt);
+  const nextUploadClosesAt = fromDateTimeLocalValue(uploadClosesAt);
+  const nextExpiresAt = fromDateTimeLocalValue(expiresAt);
+  // compared in minutes, the inputs drop seconds
+  const hasTimeChange = (next: string | null, current: string | null) =>
+    toDateTimeLocalValue(next) !== toDateTimeLocalValue(current);
+  const usedBytes = eventInfo.usedBytes ?? 0;
+  const usedFiles = eventInfo.usedFiles ?? 0;
+  const quotaBytes = eventInfo.quotaBytes ?? 0;
+  const quotaFiles = eventInfo.quotaFiles ?? 0;
+  const usagePercent = Math.max(
+    quotaBytes > 0 ? (usedBytes / quotaBytes) * 100 : 0,
+    quotaFiles > 0 ? (usedFiles / quotaFiles) * 100 : 0
+  );
+  const hasQuota = quotaBytes > 0 || quotaFiles > 0;
+
+  const previewsInProgress = previewStatus ? previewStatus.pending + previewStatus.processing : 0;
+  const previewsFailed = previewStatus?.failed ?? 0;
+
+  useEffect(() => {
+    let active = true;
+    let timer: number | undefined;
+    const loadPreviewStatus = async () => {
+      try {
+        const status = await apiClient.getPreviewStatus(eventId);
+        if (!active) return;
+        setPreviewStatus(status);
+        // keep polling only while previews are still being rendered
+        if (status.pending + status.processing > 0) {
+          timer = window.setTimeout(loadPreviewStatus, PREVIEW_STATUS_POLL_MS);
+        }
+      } catch {
+        // the status is informational only
+      }
+    };
+    void loadPreviewStatus();
+    return () => {
+      active = false;
+      window.clearTimeout(timer);
+    };
+  }, [apiClient, eventId, eventInfo.usedFiles]);
 
   useEffect(() => {
     if (!guestPasswordActive && allowGuestDownload) {
@@ -124,6 +208,10 @@ export function AdminSettings({
     setAllowGuestUpload(checked);
   };
 
+  const handleModerateUploadsChange = (checked: boolean) => {
+    setModerateUploads(checked);
+  };
+
   const handleRequireUploadFolderChange = (checked: boolean) => {
     setRequireUploadFolder(checked);
   };
@@ -147,6 +235,21 @@ export function AdminSettings({
       return;
     }
 
+    if (uploadFoldersInvalid) {
+      settingsFeedback.showError(t("AdminSettings.uploadFoldersInvalid"));
+      return;
+    }
+
+    if (restrictUploadFoldersInvalid) {
+      settingsFeedback.showError(t("AdminSettings.restrictUploadFoldersEmpty"));
+      return;
+    }
+
+    if (uploadWindowInvalid) {
+      settingsFeedback.showError(t("AdminSettings.uploadWindowInvalid"));
+      return;
+    }
+
     const payload: UpdateEventRequest = {};
 
     if (isRemovingPassword) {
@@ -167,12 +270,30 @@ export function AdminSettings({
     if (allowGuestUpload !== eventInfo.allowGuestUpload) {
       payload.allowGuestUpload = allowGuestUpload;
     }
+    if (moderateUploads !== Boolean(eventInfo.moderateUploads)) {
+      payload.moderateUploads = moderateUploads;
+    }
     if (hasRequireUploadFolderChange) {
       payload.requireUploadFolder = requireUploadFolder;
     }
     if (hasUploadFolderHintChange) {
       payload.uploadFolderHint = normalizedUploadFolderHint;
     }
+    if (hasUploadFoldersChange) {
+      payload.uploadFolders = uploadFolders;
+    }
+    if (restrictUploadFolders !== Boolean(eventInfo.restrictUploadFolders)) {
+      payload.restrictUploadFolders = restrictUploadFolders;
+    }
+    if (hasTimeChange(nextUploadOpensAt, eventInfo.uploadOpensAt)) {
+      payload.uploadOpensAt = nextUploadOpensAt;
+    }
+    if (hasTimeChange(nextUploadClosesAt, eventInfo.uploadClosesAt)) {
+      payload.uploadClosesAt = nextUploadClosesAt;
+    }
+    if (hasTimeChange(nextExpiresAt, eventInfo.expiresAt)) {
+      payload.expiresAt = nextExpiresAt;
+    }
 
     setSettingsStatus("saving");
     try {
@@ -186,14 +307,25 @@ export function AdminSettings({
         description: response.description || "",
         allowedMimeTypes: response.allowedMimeTypes || [],
         secured,
+        moderatorEnabled: response.moderatorEnabled,
+        moderateUploads: response.moderateUploads,
         allowGuestDownload: allowDownloads,
         allowGuestUpload: response.allowGuestUpload ?? true,
         requireUploadFolder: response.requireUploadFolder ?? false,
         uploadFolderHint: nextUploadFolderHint,
+        uploadFolders: response.uploadFolders ?? [],
+        restrictUploadFolders: Boolean(response.restrictUploadFolders),
         uploadMaxFileSizeBytes: response.uploadMaxFileSizeBytes ?? eventInfo.uploadMaxFileSizeBytes,
         uploadMaxTotalSizeBytes:
           response.uploadMaxTotalSizeBytes ?? eventInfo.uploadMaxTotalSizeBytes,
+        usedBytes: response.usedBytes ?? eventInfo.usedBytes,
+        usedFiles: response.usedFiles ?? eventInfo.usedFiles,
+        quotaBytes: response.quotaBytes ?? eventInfo.quotaBytes,
+        quotaFiles: response.quotaFiles ?? eventInfo.quotaFiles,
         createdAt: eventInfo.createdAt,
+        uploadOpensAt: response.uploadOpensAt,
+        uploadClosesAt: response.uploadClosesAt,
+        expiresAt: response.expiresAt,
         eventId: response.eventId,
       });
 
@@ -201,8 +333,14 @@ export function AdminSettings({
       setGuestPasswordInput("");
       setAllowGuestDownload(allowDownloads);
       setAllowGuestUpload(response.allowGuestUpload ?? true);
+      setModerateUploads(Boolean(response.moderateUploads));
       setRequireUploadFolder(Boolean(response.requireUploadFolder));
       setUploadFolderHint(nextUploadFolderHint || "");
+      setUploadFoldersInput((response.uploadFolders ?? []).join("\n"));
+      setRestrictUploadFolders(Boolean(response.restrictUploadFolders));
+      setUploadOpensAt(toDateTimeLocalValue(response.uploadOpensAt));
+      setUploadClosesAt(toDateTimeLocalValue(response.uploadClosesAt));
+      setExpiresAt(toDateTimeLocalValue(response.expiresAt));
       setEventName(response.name);
       setEventDescription(response.description || "");
       setAllowedMimeTypes(response.allowedMimeTypes || []);
@@ -336,6 +474,25 @@ export function AdminSettings({
           </p>
         ) : null}
       </label>
+      <label className="field">
+        <div className="label-row">
+          <span>{t("AdminSettings.moderateUploadsLabel")}</span>
+          <span className="hint">{t("AdminSettings.moderateUploadsHint")}</span>
+        </div>
+        <div className="label-row">
+          <label className="checkbox-helper">
+            <input
+              type="checkbox"
+              checked={moderateUploads}
+              disabled={isBusy}
+              onChange={(e) => handleModerateUploadsChange(e.target.checked)}
+              data-testid="admin-moderate-uploads"
+            />
+            <span>{t("AdminSettings.moderateUploadsHelper")}</span>
+          </label>
+        </div>
+        <p className="helper">{t("AdminSettings.moderateUploadsInfo")}</p>
+      </label>
       <div className="field">
         <div className="label-row">
           <span>{t("AdminSettings.uploadFolderLabel")}</span>
@@ -366,6 +523,123 @@ export function AdminSettings({
           />
           <p className="helper">{t("AdminSettings.uploadFolderHintHelper")}</p>
         </label>
+        <label className="field" style={{ marginTop: "8px" }}>
+          <span className="hint-mid">{t("AdminSettings.uploadFoldersLabel")}</span>
+          <textarea
+            value={uploadFoldersInput}
+            onChange={(e) => setUploadFoldersInput(e.target.value)}
+            placeholder={t("AdminSettings.uploadFoldersPlaceholder")}
+            rows={4}
+            disabled={isBusy}
+            data-testid="admin-upload-folders"
+          />
+          <p className="helper">
+            {t("AdminSettings.uploadFoldersHelper", { max: MAX_UPLOAD_FOLDERS })}
+          </p>
+          {uploadFoldersInvalid ? (
+            <p className="helper status bad">{t("AdminSettings.uploadFoldersInvalid")}</p>
+          ) : null}
+        </label>
+        <div className="label-row">
+          <label className="checkbox-helper">
+            <input
+              type="checkbox"
+              checked={restrictUploadFolders}
+              disabled={isBusy}
+              onChange={(e) => setRestrictUploadFolders(e.target.checked)}
+              data-testid="admin-restrict-upload-folders"
+            />
+            <span>{t("AdminSettings.restrictUploadFoldersHelper")}</span>
+          </label>
+        </div>
+        {restrictUploadFoldersInvalid ? (
+          <p className="helper status bad">{t("AdminSettings.restrictUploadFoldersEmpty")}</p>
+        ) : null}
+      </div>
+      <div className="field">
+        <div className="label-row">
+          <span>{t("AdminSettings.scheduleLabel")}</span>
+          <span className="hint">{t("AdminSettings.scheduleHint")}</span>
+        </div>
+        <label className="field">
+          <span className="hint-mid">{t("AdminSettings.uploadOpensAtLabel")}</span>
+          <input
+            type="datetime-local"
+            value={uploadOpensAt}
+            onChange={(e) => setUploadOpensAt(e.target.value)}
+            disabled={isBusy}
+            data-testid="admin-upload-opens-at"
+          />
+        </label>
+        <label className="field">
+          <span className="hint-mid">{t("AdminSettings.uploadClosesAtLabel")}</span>
+          <input
+            type="datetime-local"
+            value={uploadClosesAt}
+            onChange={(e) => setUploadClosesAt(e.target.value)}
+            disabled={isBusy}
+            data-testid="admin-upload-closes-at"
+          />
+        </label>
+        {uploadWindowInvalid ? (
+          <p className="helper status bad">{t("AdminSettings.uploadWindowInvalid")}</p>
+        ) : null}
+        <label className="field">
+          <span className="hint-mid">{t("AdminSettings.expiresAtLabel")}</span>
+          <input
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            disabled={isBusy}
+            data-testid="admin-expires-at"
+          />
+        </label>
+        <p className="helper">{t("AdminSettings.scheduleInfo")}</p>
+      </div>
+      <div className="field" data-testid="admin-storage-usage">
+        <div className="label-row">
+          <span>{t("AdminSettings.storageLabel")}</span>
+          <span className="hint">{t("AdminSettings.storageHint")}</span>
+        </div>
+        {hasQuota ? (
+          <div
+            className={`storage-usage-track${usagePercent >= 90 ? " full" : ""}`}
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(Math.min(100, usagePercent))}
+            data-testid="admin-storage-usage-bar"
+          >
+            <div
+              className="storage-usage-bar"
+              style={{ width: `${Math.min(100, usagePercent)}%` }}
+            />
+          </div>
+        ) : null}
+        <p className="helper" data-testid="admin-storage-usage-text">
+          {quotaBytes > 0
+            ? t("AdminSettings.storageUsage", {
+                used: formatFileSize(usedBytes),
+                quota: formatFileSize(quotaBytes),
+              })
+            : t("AdminSettings.storageUsageUnlimited", { used: formatFileSize(usedBytes) })}{" "}
+          {quotaFiles > 0
+            ? t("AdminSettings.storageFiles", { count: usedFiles, quota: quotaFiles })
+            : t("AdminSettings.storageFilesUnlimited", { count: usedFiles })}
+        </p>
+        {usagePercent >= 90 ? (
+          <p className="helper status bad">{t("AdminSettings.storageNearlyFull")}</p>
+        ) : null}
+        {previewsInProgress > 0 || previewsFailed > 0 ? (
+          <p className="helper" data-testid="admin-preview-status">
+            {previewsInProgress > 0
+              ? t("AdminSettings.previewsInProgress", { count: previewsInProgress })
+              : null}{" "}
+            {previewsFailed > 0
+              ? t("AdminSettings.previewsFailed", { count: previewsFailed })
+              : null}
+          </p>
+        ) : null}
       </div>
       <div className="field">
         <div className="label-row">
@@ -0,0 +1,243 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import type { ApiClient } from "../../../api/client";
+import type { AuditAction, AuditLogEntry, AuditLogResponse } from "../../../api/types";
+
+const PAGE_SIZE = 25;
+const AUDIT_ACTIONS: AuditAction[] = [
+  "upload",
+  "delete",
+  "move",
+  "rename",
+  "restore",
+  "purge",
+  "approve",
+  "reject",
+  "folderCreate",
+  "folderRename",
+  "folderMerge",
+  "folderDelete",
+  "settingsChange",
+  "loginFailed",
+];
+
+type AuditLogSectionProps = {
+  apiClient: ApiClient;
+  eventId: string;
+  onApiError: (error: unknown, defaultMessage: string) => void;
+};
+
+const joinPath = (folder: string | undefined, filename: string) =>
+  folder ? `${folder}/${filename}` : filename;
+
+export function AuditLogSection({ apiClient, eventId, onApiError }: AuditLogSectionProps) {
+  const { t } = useTranslation();
+  const [log, setLog] = useState<AuditLogResponse | null>(null);
+  const [page, setPage] = useState(1);
+  const [action, setAction] = useState<AuditAction | "">("");
+  const [actorInput, setActorInput] = useState("");
+  const [actor, setActor] = useState("");
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    apiClient
+      .listAuditLog(eventId, {
+        page,
+        pageSize: PAGE_SIZE,
+        action: action || undefined,
+        actor: actor || undefined,
+      })
+      .then((response) => {
+        if (active) setLog(response);
+      })
+      .catch((error: unknown) => {
+        if (active) onApiError(error, t("AuditLogSection.loadError"));
+      });
+    return () => {
+      active = false;
+    };
+  }, [action, actor, apiClient, eventId, onApiError, page, reloadKey, t]);
+
+  const pageCount = log ? Math.max(1, Math.ceil(log.total / log.pageSize)) : 1;
+
+  const applyActorFilter = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setActor(actorInput.trim());
+    setPage(1);
+  };
+
+  const describeEntry = (entry: AuditLogEntry) => {
+    const files = entry.files ?? [];
+    switch (entry.action) {
+      case "upload":
+        return t("AuditLogSection.describeUpload", {
+          count: files.length,
+          files: files.join(", "),
+          folder: entry.folder || t("AuditLogSection.rootFolder"),
+        });
+      case "delete":
+        return t("AuditLogSection.describeDelete", {
+          count: files.length,
+          files: files.map((file) => joinPath(entry.folder, file)).join(", "),
+        });
+      case "move":
+        return t("AuditLogSection.describeMove", {
+          count: files.length,
+          files: files
+            .map((file, index) => {
+              const storedAs = entry.storedAs?.[index];
+              const source = joinPath(entry.folder, file);
+              return storedAs && storedAs !== file ? `${source} → ${storedAs}` : source;
+            })
+            .join(", "),
+          to: entry.to || t("AuditLogSection.rootFolder"),
+        });
+      case "rename":
+        return t("AuditLogSection.describeRename", {
+          file: joinPath(entry.folder, files[0] ?? ""),
+          to: entry.to,
+        });
+      case "restore":
+        return t("AuditLogSection.describeRestore", {
+          count: files.length,
+          files: files.map((file) => joinPath(entry.folder, file)).join(", "),
+        });
+      case "purge":
+        return t("AuditLogSection.describePurge", {
+          count: files.length,
+          files: files.map((file) => joinPath(entry.folder, file)).join(", "),
+        });
+      case "approve":
+        return t("AuditLogSection.describeApprove", {
+          count: files.length,
+          files: files.map((file) => joinPath(entry.folder, file)).join(", "),
+        });
+      case "reject":
+        return t("AuditLogSection.describeReject", {
+          count: files.length,
+          files: files.map((file) => joinPath(entry.folder, file)).join(", "),
+        });
+      case "folderCreate":
+        return t("AuditLogSection.describeFolderCreate", { folder: entry.folder });
+      case "folderRename":
+        return t("AuditLogSection.describeFolderRename", { folder: entry.folder, to: entry.to });
+      case "folderMerge":
+        return t("AuditLogSection.describeFolderMerge", {
+          folder: entry.folder,
+          to: entry.to || t("AuditLogSection.rootFolder"),
+        });
+      case "folderDelete":
+        return t("AuditLogSection.describeFolderDelete", { folder: entry.folder });
+      case "settingsChange":
+        return t("AuditLogSection.describeSettingsChange", {
+          fields: (entry.fields ?? []).join(", "),
+        });
+      case "loginFailed":
+        return t("AuditLogSection.describeLoginFailed", { user: entry.user });
+    }
+  };
+
+  const describeActor = (entry: AuditLogEntry) => {
+    const role = entry.role ? t(`AuditLogSection.role_${entry.role}`) : null;
+    // the owner logs in as "admin", the role already says that
+    const name = entry.actor && entry.actor.toLowerCase() !== entry.role ? entry.actor : null;
+    return [name, role, t("AuditLogSection.device", { ipHash: entry.ipHash })]
+      .filter(Boolean)
+      .join(" | ");
+  };
+
+  return (
+    <div className="form-card" data-testid="admin-audit-log">
+      <div className="label-row">
+        <h2>{t("AuditLogSection.title")}</h2>
+        <button
+          type="button"
+          className="ghost"
+          onClick={() => setReloadKey((key) => key + 1)}
+          data-testid="audit-log-reload"
+        >
+          {t("AuditLogSection.reload")}
+        </button>
+      </div>
+      <p className="helper">{t("AuditLogSection.description")}</p>
+      <form className="audit-log-filters" onSubmit={applyActorFilter}>
+        <label className="field">
+          <span>{t("AuditLogSection.actionLabel")}</span>
+          <select
+            value={action}
+            onChange={(event) => {
+              setAction(event.target.value as AuditAction | "");
+              setPage(1);
+            }}
+            data-testid="audit-log-action"
+          >
+            <option value="">{t("AuditLogSection.allActions")}</option>
+            {AUDIT_ACTIONS.map((value) => (
+              <option key={value} value={value}>
+                {t(`AuditLogSection.action_${value}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span>{t("AuditLogSection.actorLabel")}</span>
+          <input
+            type="search"
+            value={actorInput}
+            onChange={(event) => setActorInput(event.target.value)}
+            placeholder={t("AuditLogSection.actorPlaceholder")}
+            maxLength={64}
+            data-testid="audit-log-actor"
+          />
+        </label>
+        <button type="submit" className="ghost" data-testid="audit-log-filter">
+          {t("AuditLogSection.filter")}
+        </button>
+      </form>
+      {log?.entries.length ? (
+        <ol className="audit-log-list" data-testid="audit-log-list">
+          {log.entries.map((entry) => (
+            <li
+              className="audit-log-entry"
+              key={entry.entryId}
+              data-action={entry.action}
+              data-testid="audit-log-entry"
+            >
+              <span className="hint">{new Date(entry.createdAt).toLocaleString()}</span>
+              <span>{describeEntry(entry)}</span>
+              <span className="helper">{describeActor(entry)}</span>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="helper">{t("AuditLogSection.empty")}</p>
+      )}
+      {log && log.total > log.pageSize ? (
+        <div className="actions">
+          <button
+            type="button"
+            className="ghost"
+            onClick={() => setPage((current) => current - 1)}
+            disabled={page <= 1}
+            data-testid="audit-log-previous"
+          >
+            {t("AuditLogSection.previous")}
+          </button>
+          <span className="helper">
+            {t("AuditLogSection.pageInfo", { page, pageCount, total: log.total })}
+          </span>
+          <button
+            type="button"
+            className="ghost"
+            onClick={() => setPage((current) => current + 1)}
+            disabled={page >= pageCount}
+            data-testid="audit-log-next"
+          >
+            {t("AuditLogSection.next")}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ApiError, type ApiClient } from "../../../api/client";
+import type { CoHost } from "../../../api/types";
+import { TrashIcon } from "../../../components/ui/icons";
+import { useTimedFeedback } from "../../../shared/hooks/useTimedFeedback";
+
+const OWNER_PRINCIPAL = "admin";
+
+type CoHostsSectionProps = {
+  apiClient: ApiClient;
+  eventId: string;
+  onOwnerChange: (isOwner: boolean) => void;
+  onApiError: (error: unknown, defaultMessage: string) => void;
+};
+
+export function CoHostsSection({
+  apiClient,
+  eventId,
+  onOwnerChange,
+  onApiError,
+}: CoHostsSectionProps) {
+  const { t } = useTranslation();
+  const [coHosts, setCoHosts] = useState<CoHost[]>([]);
+  const [principal, setPrincipal] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const feedback = useTimedFeedback();
+
+  const isOwner = principal === OWNER_PRINCIPAL;
+  const trimmedName = name.trim();
+  const canAdd = trimmedName.length >= 2 && password.length >= 8 && !isSaving;
+
+  useEffect(() => {
+    let active = true;
+    apiClient
+      .listCoHosts(eventId)
+      .then((response) => {
+        if (!active) return;
+        setCoHosts(response.coHosts);
+        setPrincipal(response.principal);
+        onOwnerChange(response.principal === OWNER_PRINCIPAL);
+      })
+      .catch((error: unknown) => {
+        if (active) onApiError(error, t("CoHostsSection.loadError"));
+      });
+    return () => {
+      active = false;
+    };
+  }, [apiClient, eventId, onApiError, onOwnerChange, t]);
+
+  const addCoHost = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canAdd) return;
+    setIsSaving(true);
+    try {
+      const coHost = await apiClient.addCoHost(eventId, { name: trimmedName, password });
+      setCoHosts((current) => [...current, coHost]);
+      setName("");
+      setPassword("");
+      feedback.showSuccess(t("CoHostsSection.added", { name: coHost.name }));
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        feedback.showError(t("CoHostsSection.nameTaken"));
+        return;
+      }
+      onApiError(error, t("CoHostsSection.addError"));
+      feedback.showError(error instanceof Error ? error.message : t("CoHostsSection.addError"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeCoHost = async (coHost: CoHost) => {
+    try {
+      await apiClient.removeCoHost(eventId, coHost.coHostId);
+      setCoHosts((current) => current.filter((entry) => entry.coHostId !== coHost.coHostId));
+      feedback.showSuccess(t("CoHostsSection.removed", { name: coHost.name }));
+    } catch (error) {
+      onApiError(error, t("CoHostsSection.removeError"));
+      feedback.showError(t("CoHostsSection.removeError"));
+    }
+  };
+
+  return (
+    <form className="form-card" onSubmit={addCoHost} data-testid="admin-co-hosts">
+      <h2>{t("CoHostsSection.title")}</h2>
+      <p className="helper">
+        {isOwner
+          ? t("CoHostsSection.description")
+          : t("CoHostsSection.descriptionCoHost", { name: principal ?? "" })}
+      </p>
+      {isOwner ? (
+        <>
+          <label className="field">
+            <span>{t("CoHostsSection.nameLabel")}</span>
+            <input
+              maxLength={32}
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder={t("CoHostsSection.namePlaceholder")}
+              data-testid="co-host-name"
+            />
+          </label>
+          <label className="field">
+            <span>{t("CoHostsSection.passwordLabel")}</span>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              data-testid="co-host-password"
+            />
+            <p className="helper">{t("CoHostsSection.passwordHelper")}</p>
+          </label>
+          <div className="actions">
+            <button type="submit" className="primary" disabled={!canAdd} data-testid="co-host-add">
+              {t("CoHostsSection.add")}
+            </button>
+          </div>
+        </>
+      ) : null}
+      {feedback.message ? (
+        <span className={`helper status ${feedback.message.tone}`}>{feedback.message.text}</span>
+      ) : null}
+      {coHosts.length ? (
+        <div className="share-link-list" data-testid="co-host-list">
+          {coHosts.map((coHost) => (
+            <div className="share-link-row" key={coHost.coHostId} data-testid="co-host-row">
+              <div className="file-meta">
+                <span>{coHost.name}</span>
+                <span className="helper">
+                  {t("CoHostsSection.addedAt", {
+                    date: new Date(coHost.createdAt).toLocaleString(),
+                  })}
+                </span>
+              </div>
+              {isOwner ? (
+                <div className="file-actions">
+                  <button
+                    type="button"
+                    className="icon-btn"
+                    onClick={() => removeCoHost(coHost)}
+                    title={t("CoHostsSection.remove")}
+                    aria-label={t("CoHostsSection.remove")}
+                    data-testid="co-host-remove"
+                  >
+                    <TrashIcon />
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="helper">{t("CoHostsSection.empty")}</p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,107 @@
+import { FormEvent, useState } from "react";
+import { useTranslation } from "react-i18next";
+import type { ApiClient } from "../../../api/client";
+import type { EventInfo } from "../../../api/types";
+import { useTimedFeedback } from "../../../shared/hooks/useTimedFeedback";
+
+type ModeratorPasswordSectionProps = {
+  apiClient: ApiClient;
+  eventId: string;
+  eventInfo: EventInfo;
+  onEventUpdate: (updated: EventInfo) => void;
+  onApiError: (error: unknown, defaultMessage: string) => void;
+};
+
+export function ModeratorPasswordSection({
+  apiClient,
+  eventId,
+  eventInfo,
+  onEventUpdate,
+  onApiError,
+}: ModeratorPasswordSectionProps) {
+  const { t } = useTranslation();
+  const [password, setPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const feedback = useTimedFeedback();
+
+  const passwordTooShort = Boolean(password) && password.trim().length < 8;
+  const moderatorEnabled = eventInfo.moderatorEnabled;
+  const canSave = password.trim().length >= 8 && !isSaving;
+
+  const saveModeratorPassword = async (moderatorPassword: string) => {
+    setIsSaving(true);
+    try {
+      const response = await apiClient.updateEvent(eventId, { moderatorPassword });
+      onEventUpdate({ ...eventInfo, moderatorEnabled: response.moderatorEnabled });
+      setPassword("");
+      feedback.showSuccess(
+        t(moderatorPassword ? "ModeratorPasswordSection.saved" : "ModeratorPasswordSection.removed")
+      );
+    } catch (error) {
+      onApiError(error, t("ModeratorPasswordSection.saveError"));
+      feedback.showError(
+        error instanceof Error ? error.message : t("ModeratorPasswordSection.saveError")
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSave) return;
+    void saveModeratorPassword(password.trim());
+  };
+
+  return (
+    <form className="form-card" onSubmit={submit} data-testid="moderator-password-form">
+      <h2>{t("ModeratorPasswordSection.title")}</h2>
+      <p className="helper">{t("ModeratorPasswordSection.description")}</p>
+      <label className="field">
+        <div className="label-row">
+          <span>{t("ModeratorPasswordSection.passwordLabel")}</span>
+          <span className="hint" data-testid="moderator-password-state">
+            {moderatorEnabled
+              ? t("ModeratorPasswordSection.stateSet")
+              : t("ModeratorPasswordSection.stateUnset")}
+          </span>
+        </div>
+        <input
+          type="password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          data-testid="moderator-password-input"
+        />
+        {passwordTooShort ? (
+          <span className="helper status bad">{t("ModeratorPasswordSection.tooShort")}</span>
+        ) : null}
+      </label>
+      <p className="helper">{t("ModeratorPasswordSection.loginHint")}</p>
+      {feedback.message ? (
+        <span className={`helper status ${feedback.message.tone}`}>{feedback.message.text}</span>
+      ) : null}
+      <div className="actions">
+        {moderatorEnabled ? (
+          <button
+            type="button"
+            className="ghost"
+            onClick={() => saveModeratorPassword("")}
+            disabled={isSaving}
+            data-testid="moderator-password-remove"
+          >
+            {t("ModeratorPasswordSection.remove")}
+          </button>
+        ) : null}
+        <button
+          type="submit"
+          className="primary"
+          disabled={!canSave}
+          data-testid="moderator-password-submit"
+        >
+          {t("ModeratorPasswordSection.submit")}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import type { ApiClient } from "../../../api/client";
+import type { PendingFileEntry, ReviewPendingFilesResponse } from "../../../api/types";
+import { DownloadIcon } from "../../../components/ui/icons";
+import { downloadBlob } from "../../../lib/download";
+import { formatFileSize } from "../../../lib/format";
+import { useTimedFeedback } from "../../../shared/hooks/useTimedFeedback";
+
+type ReviewAction = "approve" | "reject";
+
+type PendingUploadsSectionProps = {
+  apiClient: ApiClient;
+  eventId: string;
+  moderateUploads: boolean;
+  /** Called after files were approved, so the file list can be reloaded */
+  onApproved: () => void;
+  onApiError: (error: unknown, defaultMessage: string) => void;
+};
+
+const fileKey = (file: PendingFileEntry) => `${file.folder}/${file.name}`;
+
+export function PendingUploadsSection({
+  apiClient,
+  eventId,
+  moderateUploads,
+  onApproved,
+  onApiError,
+}: PendingUploadsSectionProps) {
+  const { t } = useTranslation();
+  const [files, setFiles] = useState<PendingFileEntry[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const feedback = useTimedFeedback();
+
+  useEffect(() => {
+    let active = true;
+    apiClient
+      .listPendingFiles(eventId)
+      .then((response) => {
+        if (!active) return;
+        setFiles(response.files);
+        // drop selections of files that were reviewed in the meantime
+        const keys = new Set(response.files.map(fileKey));
+        setSelected((current) => new Set([...current].filter((key) => keys.has(key))));
+      })
+      .catch((error: unknown) => {
+        if (active) onApiError(error, t("PendingUploadsSection.loadError"));
+      });
+    return () => {
+      active = false;
+    };
+  }, [apiClient, eventId, onApiError, reloadKey, t]);
+
+  const toggleSelected = (file: PendingFileEntry) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (!next.delete(fileKey(file))) next.add(fileKey(file));
+      return next;
+    });
+  };
+
+  const showReviewResult = (action: ReviewAction, result: ReviewPendingFilesResponse) => {
+    if (result.failed.length) {
+      feedback.showError(
+        t("PendingUploadsSection.partialFailure", {
+          count: result.failed.length,
+          files: result.failed.map((entry) => entry.file).join(", "),
+        })
+      );
+      return;
+    }
+    feedback.showSuccess(
+      t(
+        action === "approve" ? "PendingUploadsSection.approved" : "PendingUploadsSection.rejected",
+        { count: result.processed }
+      )
+    );
+  };
+
+  const review = async (action: ReviewAction, targets: PendingFileEntry[]) => {
+    if (!targets.length) return;
+    setIsReviewing(true);
+    try {
+      const refs = targets.map((file) => ({ folder: file.folder, filename: file.name }));
+      const result =
+        action === "approve"
+          ? await apiClient.approvePendingFiles(eventId, refs)
+          : await apiClient.rejectPendingFiles(eventId, refs);
+      showReviewResult(action, result);
+      if (action === "approve" && result.processed) onApproved();
+    } catch (error) {
+      onApiError(error, t("PendingUploadsSection.reviewError"));
+      feedback.showError(
+        error instanceof Error ? error.message : t("PendingUploadsSection.reviewError")
+      );
+    } finally {
+      setIsReviewing(false);
+      setReloadKey((key) => key + 1);
+    }
+  };
+
+  const downloadFile = async (file: PendingFileEntry) => {
+    try {
+      const blob = await apiClient.downloadPendingFile(eventId, {
+        folder: file.folder,
+        filename: file.name,
+      });
+      downloadBlob(blob, file.name);
+    } catch (error) {
+      onApiError(error, t("PendingUploadsSection.downloadError"));
+      feedback.showError(t("PendingUploadsSection.downloadError"));
+    }
+  };
+
+  // nothing to show once moderation is off and the queue is empty
+  if (!moderateUploads && !files.length) return null;
+
+  const selectedFiles = files.filter((file) => selected.has(fileKey(file)));
+
+  return (
+    <div className="form-card" data-testid="admin-pending-uploads">
+      <div className="label-row">
+        <h2>{t("PendingUploadsSection.title")}</h2>
+        <button
+          type="button"
+          className="ghost"
+          onClick={() => setReloadKey((key) => key + 1)}
+          disabled={isReviewing}
+          data-testid="pending-reload"
+        >
+          {t("PendingUploadsSection.reload")}
+        </button>
+      </div>
+      <p className="helper">{t("PendingUploadsSection.description", { count: files.length })}</p>
+      {feedback.message ? (
+        <span className={`helper status ${feedback.message.tone}`}>{feedback.message.text}</span>
+      ) : null}
+      {files.length ? (
+        <>
+          <div className="file-grid" data-testid="pending-file-list">
+            {files.map((file) => (
+              <div className="file-row" key={fileKey(file)} data-testid="pending-file-row">
+                <label className="checkbox-helper">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(fileKey(file))}
+                    onChange={() => toggleSelected(file)}
+                    disabled={isReviewing}
+                    data-testid="pending-file-select"
+                  />
+                  <span className="file-meta">
+                    <span>{file.folder ? `${file.folder}/${file.name}` : file.name}</span>
+                    <span className="helper">
+                      {formatFileSize(file.size)} | {new Date(file.createdAt).toLocaleString()}
+                    </span>
+                  </span>
+                </label>
+                <div className="file-actions">
+                  <button
+                    type="button"
+                    className="icon-btn"
+                    onClick={() => downloadFile(file)}
+                    title={t("PendingUploadsSection.download")}
+                    aria-label={t("PendingUploadsSection.download")}
+                    data-testid="pending-file-download"
+                  >
+                    <DownloadIcon />
+                  </button>
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={() => review("reject", [file])}
+                    disabled={isReviewing}
+                    data-testid="pending-file-reject"
+                  >
+                    {t("PendingUploadsSection.reject")}
+                  </button>
+                  <button
+                    type="button"
+                    className="primary"
+                    onClick={() => review("approve", [file])}
+                    disabled={isReviewing}
+                    data-testid="pending-file-approve"
+                  >
+                    {t("PendingUploadsSection.approve")}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="actions">
+            <button
+              type="button"
+              className="danger"
+              onClick={() => review("reject", selectedFiles)}
+              disabled={isReviewing || !selectedFiles.length}
+              data-testid="pending-reject-selected"
+            >
+              {t("PendingUploadsSection.rejectSelected", { count: selectedFiles.length })}
+            </button>
+            <button
+              type="button"
+              className="ghost"
+              onClick={() => review("approve", selectedFiles)}
+              disabled={isReviewing || !selectedFiles.length}
+              data-testid="pending-approve-selected"
+            >
+              {t("PendingUploadsSection.approveSelected", { count: selectedFiles.length })}
+            </button>
+            <button
+              type="button"
+              className="primary"
+              onClick={() => review("approve", files)}
+              disabled={isReviewing}
+              data-testid="pending-approve-all"
+            >
+              {t("PendingUploadsSection.approveAll")}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="helper">{t("PendingUploadsSection.empty")}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { FormEvent, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ApiClient, ApiError } from "../../../api/client";
+import type { RecoverAdminResponse } from "../../../api/types";
+
+type RecoverAdminFormProps = {
+  eventId: string;
+  onRecovered: (response: RecoverAdminResponse) => void;
+  onCancel: () => void;
+};
+
+export function RecoverAdminForm({ eventId, onRecovered, onCancel }: RecoverAdminFormProps) {
+  const { t } = useTranslation();
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [newPasswordConfirm, setNewPasswordConfirm] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const submitRecovery = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (newPassword.length < 8) {
+      setMessage(t("NewEventView.adminPasswordInvalid"));
+      return;
+    }
+    if (newPassword !== newPasswordConfirm) {
+      setMessage(t("NewEventView.adminPasswordRepeatInvalid"));
+      return;
+    }
+    setMessage("");
+    setIsSaving(true);
+    try {
+      const response = await ApiClient.anonymous().recoverAdmin(eventId, {
+        recoveryCode,
+        newPassword,
+        newPasswordConfirm,
+      });
+      onRecovered(response);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        setMessage(t("RecoverAdminForm.invalidCode"));
+        return;
+      }
+      setMessage(
+        error instanceof Error && error.message ? error.message : t("AdminView.serverUnavailable")
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <main className="form-page" data-testid="admin-recovery">
+      <h1>{t("RecoverAdminForm.title")}</h1>
+      <p className="lede">{t("RecoverAdminForm.description", { subdomain: eventId })}</p>
+      <form className="form-card" onSubmit={submitRecovery} data-testid="admin-recovery-form">
+        <label className="field">
+          <span>{t("RecoverAdminForm.codeLabel")}</span>
+          <input
+            required
+            value={recoveryCode}
+            onChange={(event) => setRecoveryCode(event.target.value)}
+            placeholder="XXXX-XXXX-XXXX-XXXX"
+            autoComplete="off"
+            data-testid="admin-recovery-code"
+          />
+        </label>
+        <label className="field">
+          <span>{t("AdminPasswordSection.newLabel")}</span>
+          <input
+            required
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(event) => setNewPassword(event.target.value)}
+            data-testid="admin-recovery-password"
+          />
+        </label>
+        <label className="field">
+          <span>{t("AdminPasswordSection.confirmLabel")}</span>
+          <input
+            required
+            type="password"
+            autoComplete="new-password"
+            value={newPasswordConfirm}
+            onChange={(event) => setNewPasswordConfirm(event.target.value)}
+            data-testid="admin-recovery-password-confirm"
+          />
+        </label>
+        {message ? (
+          <p className="helper status bad" data-testid="admin-recovery-error">
+            {message}
+          </p>
+        ) : null}
+        <div className="actions">
+          <button
+            type="submit"
+            className="primary"
+            disabled={isSaving}
+            data-testid="admin-recovery-submit"
+          >
+            {t("RecoverAdminForm.submit")}
+          </button>
+          <button type="button" className="ghost" onClick={onCancel}>
+            {t("RecoverAdminForm.cancel")}
+          </button>
+        </div>
+      </form>
+    </main>
+  );
+}
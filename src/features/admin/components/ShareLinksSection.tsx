@@ -0,0 +1,224 @@
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import type { ApiClient } from "../../../api/client";
+import type { ShareLink, ShareLinkKind } from "../../../api/types";
+import { CopyIcon, TrashIcon } from "../../../components/ui/icons";
+import { isOptionalFolderPathValid } from "../../../lib/folderValidation";
+import { buildShareLinkUrl } from "../../../lib/shareLinks";
+import { useTimedFeedback } from "../../../shared/hooks/useTimedFeedback";
+
+const EXPIRY_OPTIONS_HOURS = [24, 7 * 24, 30 * 24, 90 * 24];
+const DEFAULT_EXPIRY_HOURS = 7 * 24;
+
+type ShareLinksSectionProps = {
+  apiClient: ApiClient;
+  eventId: string;
+  eventUrl: string;
+  onApiError: (error: unknown, defaultMessage: string) => void;
+};
+
+export function ShareLinksSection({
+  apiClient,
+  eventId,
+  eventUrl,
+  onApiError,
+}: ShareLinksSectionProps) {
+  const { t } = useTranslation();
+  const [shares, setShares] = useState<ShareLink[]>([]);
+  const [kind, setKind] = useState<ShareLinkKind>("folder");
+  const [folder, setFolder] = useState("");
+  const [filename, setFilename] = useState("");
+  const [expiresInHours, setExpiresInHours] = useState(DEFAULT_EXPIRY_HOURS);
+  const [isSaving, setIsSaving] = useState(false);
+  const feedback = useTimedFeedback();
+
+  const trimmedFolder = folder.trim();
+  const trimmedFilename = filename.trim();
+  const folderInvalid = !isOptionalFolderPathValid(trimmedFolder);
+  const canCreate =
+    !folderInvalid && (kind === "file" ? Boolean(trimmedFilename) : Boolean(trimmedFolder));
+
+  useEffect(() => {
+    let active = true;
+    apiClient
+      .listShareLinks(eventId)
+      .then((response) => {
+        if (active) setShares(response.shares);
+      })
+      .catch((error: unknown) => {
+        if (active) onApiError(error, t("ShareLinksSection.loadError"));
+      });
+    return () => {
+      active = false;
+    };
+  }, [apiClient, eventId, onApiError, t]);
+
+  const copyShareLink = useCallback(
+    async (share: ShareLink) => {
+      try {
+        await navigator.clipboard.writeText(buildShareLinkUrl(share, eventUrl));
+        feedback.showSuccess(t("ShareLinksSection.copied"));
+      } catch {
+        feedback.showError(t("AdminView.shareCopyFailed"));
+      }
+    },
+    [eventUrl, feedback, t]
+  );
+
+  const createShareLink = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canCreate) return;
+    setIsSaving(true);
+    try {
+      const share = await apiClient.createShareLink(eventId, {
+        kind,
+        folder: trimmedFolder || undefined,
+        filename: kind === "file" ? trimmedFilename : undefined,
+        expiresInHours,
+      });
+      setShares((current) => [...current, share]);
+      setFilename("");
+      await copyShareLink(share);
+    } catch (error) {
+      onApiError(error, t("ShareLinksSection.createError"));
+      feedback.showError(
+        error instanceof Error ? error.message : t("ShareLinksSection.createError")
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const revokeShareLink = async (share: ShareLink) => {
+    try {
+      await apiClient.revokeShareLink(eventId, share.shareId);
+      setShares((current) => current.filter((entry) => entry.shareId !== share.shareId));
+      feedback.showSuccess(t("ShareLinksSection.revoked"));
+    } catch (error) {
+      onApiError(error, t("ShareLinksSection.revokeError"));
+      feedback.showError(t("ShareLinksSection.revokeError"));
+    }
+  };
+
+  const describeTarget = (share: ShareLink) => {
+    if (share.kind === "file") {
+      const path = share.folder ? `${share.folder}/${share.filename}` : share.filename;
+      return t("ShareLinksSection.targetFile", { path });
+    }
+    if (share.kind === "zip") return t("ShareLinksSection.targetZip", { folder: share.folder });
+    return t("ShareLinksSection.targetFolder", { folder: share.folder });
+  };
+
+  return (
+    <form className="form-card" onSubmit={createShareLink} data-testid="admin-share-links">
+      <h2>{t("ShareLinksSection.title")}</h2>
+      <p className="helper">{t("ShareLinksSection.description")}</p>
+      <label className="field">
+        <span>{t("ShareLinksSection.kindLabel")}</span>
+        <select
+          value={kind}
+          onChange={(event) => setKind(event.target.value as ShareLinkKind)}
+          data-testid="share-link-kind"
+        >
+          <option value="folder">{t("ShareLinksSection.kindFolder")}</option>
+          <option value="zip">{t("ShareLinksSection.kindZip")}</option>
+          <option value="file">{t("ShareLinksSection.kindFile")}</option>
+        </select>
+      </label>
+      <label className="field">
+        <div className="label-row">
+          <span>{t("ShareLinksSection.folderLabel")}</span>
+          {kind === "file" ? (
+            <span className="hint">{t("ShareLinksSection.folderOptional")}</span>
+          ) : null}
+        </div>
+        <input
+          value={folder}
+          onChange={(event) => setFolder(event.target.value)}
+          placeholder={t("ShareLinksSection.folderPlaceholder")}
+          data-testid="share-link-folder"
+        />
+        {folderInvalid ? (
+          <span className="helper status bad">{t("FileBrowser.renameInvalid")}</span>
+        ) : null}
+      </label>
+      {kind === "file" ? (
+        <label className="field">
+          <span>{t("ShareLinksSection.filenameLabel")}</span>
+          <input
+            value={filename}
+            onChange={(event) => setFilename(event.target.value)}
+            placeholder={t("ShareLinksSection.filenamePlaceholder")}
+            data-testid="share-link-filename"
+          />
+        </label>
+      ) : null}
+      <label className="field">
+        <span>{t("ShareLinksSection.expiryLabel")}</span>
+        <select
+          value={expiresInHours}
+          onChange={(event) => setExpiresInHours(Number(event.target.value))}
+          data-testid="share-link-expiry"
+        >
+          {EXPIRY_OPTIONS_HOURS.map((hours) => (
+            <option key={hours} value={hours}>
+              {t("ShareLinksSection.expiryDays", { count: hours / 24 })}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="actions">
+        <button
+          type="submit"
+          className="primary"
+          disabled={!canCreate || isSaving}
+          data-testid="share-link-create"
+        >
+          {t("ShareLinksSection.create")}
+        </button>
+      </div>
+      {feedback.message ? (
+        <span className={`helper status ${feedback.message.tone}`}>{feedback.message.text}</span>
+      ) : null}
+      {shares.length ? (
+        <div className="share-link-list" data-testid="share-link-list">
+          {shares.map((share) => (
+            <div className="share-link-row" key={share.shareId} data-testid="share-link-row">
+              <div className="file-meta">
+                <span>{describeTarget(share)}</span>
+                <span className="helper">
+                  {t("ShareLinksSection.expiresAt", {
+                    date: new Date(share.expiresAt).toLocaleString(),
+                  })}
+                </span>
+              </div>
+              <div className="file-actions">
+                <button
+                  type="button"
+                  className="icon-btn"
+                  onClick={() => copyShareLink(share)}
+                  title={t("ShareLinksSection.copy")}
+                  aria-label={t("ShareLinksSection.copy")}
+                >
+                  <CopyIcon size={16} />
+                </button>
+                <button
+                  type="button"
+                  className="icon-btn"
+                  onClick={() => revokeShareLink(share)}
+                  title={t("ShareLinksSection.revoke")}
+                  aria-label={t("ShareLinksSection.revoke")}
+                  data-testid="share-link-revoke"
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="helper">{t("ShareLinksSection.empty")}</p>
+      )}
+    </form>
+  );
+}
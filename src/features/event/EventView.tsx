@@ -5,6 +5,8 @@ import { EventMeta } from "../../types";
 import { useSessionStore } from "../../lib/sessionStore";
 import { FileBrowser } from "../files/components/FileBrowser";
 import { UploadForm } from "../upload/components/UploadForm";
+import { UploadWindowNotice } from "../upload/components/UploadWindowNotice";
+import { useUploadWindow } from "../upload/hooks/useUploadWindow";
 import { PasswordPrompt } from "../../shared/components/PasswordPrompt";
 import { useApiClient } from "../../shared/hooks/useApiClient";
 
@@ -30,6 +32,7 @@ export function EventView({ eventId, baseDomain, onBackHome, onAdmin }: EventVie
 
   const { guestToken, setGuestToken } = useSessionStore();
   const apiClient = useApiClient("guest");
+  const uploadWindow = useUploadWindow(data?.uploadOpensAt ?? null, data?.uploadClosesAt ?? null);
 
   const fetchEvent = useCallback(
     async (client: ApiClient = apiClient) => {
@@ -43,8 +46,13 @@ export function EventView({ eventId, baseDomain, onBackHome, onAdmin }: EventVie
           secured: Boolean(eventInfo.secured),
           allowGuestDownload: Boolean(eventInfo.allowGuestDownload),
           allowGuestUpload: eventInfo.allowGuestUpload ?? true,
+          moderateUploads: Boolean(eventInfo.moderateUploads),
           requireUploadFolder: Boolean(eventInfo.requireUploadFolder),
           uploadFolderHint: eventInfo.uploadFolderHint ?? null,
+          uploadFolders: eventInfo.uploadFolders ?? [],
+          restrictUploadFolders: Boolean(eventInfo.restrictUploadFolders),
+          uploadOpensAt: eventInfo.uploadOpensAt ?? null,
+          uploadClosesAt: eventInfo.uploadClosesAt ?? null,
           allowedMimeTypes: eventInfo.allowedMimeTypes || [],
           uploadMaxFileSizeBytes: eventInfo.uploadMaxFileSizeBytes,
           uploadMaxTotalSizeBytes: eventInfo.uploadMaxTotalSizeBytes,
@@ -109,16 +117,23 @@ export function EventView({ eventId, baseDomain, onBackHome, onAdmin }: EventVie
   const submitGuestPassword = async (password: string) => {
     setGuestError("");
     try {
+      const session = await ApiClient.anonymous().login(eventId, { user: "guest", password });
       lastAccessKeyRef.current = null;
-      setGuestToken(password);
+      setGuestToken(session.token);
       setLoginAttempt((value) => value + 1);
-    } catch {
+    } catch (error) {
+      if (error instanceof ApiError && error.status !== 404 && error.status < 500) {
+        setGuestError(error.status === 401 ? t("AdminView.loginWrongPassword") : error.message);
+        return;
+      }
       setStatus("error");
       setMessage(t("AdminView.serverUnavailable"));
     }
   };
 
   const handleGuestLogout = async () => {
+    // the token is dropped locally even if the server cannot be reached
+    apiClient.logout(eventId).catch(() => {});
     setGuestToken(null);
     lastAccessKeyRef.current = null;
   };
@@ -177,6 +192,8 @@ export function EventView({ eventId, baseDomain, onBackHome, onAdmin }: EventVie
   }
 
   const fallbackDomain = `${data?.eventId}.${baseDomain}`;
+  const guestUploadsEnabled = data?.allowGuestUpload !== false;
+  const uploadsOpen = uploadWindow.state === "open";
 
   return (
     <main className="form-page">
@@ -184,8 +201,14 @@ export function EventView({ eventId, baseDomain, onBackHome, onAdmin }: EventVie
         <p className="eyebrow">{t("EventView.headerEyebrow")}</p>
         <h1>{data?.name || t("EventView.uploadsFallbackTitle", { domain: fallbackDomain })}</h1>
         <p className="lede">{data?.description || fallbackDomain}</p>
+        {guestUploadsEnabled && uploadsOpen ? (
+          <UploadWindowNotice uploadWindow={uploadWindow} />
+        ) : null}
       </header>
-      {data?.allowGuestUpload !== false ? (
+      {guestUploadsEnabled && !uploadsOpen ? (
+        <UploadWindowNotice uploadWindow={uploadWindow} />
+      ) : null}
+      {guestUploadsEnabled && uploadsOpen ? (
         <UploadForm
           eventId={eventId}
           apiClient={apiClient}
@@ -194,6 +217,9 @@ export function EventView({ eventId, baseDomain, onBackHome, onAdmin }: EventVie
           uploadMaxTotalSizeBytes={data?.uploadMaxTotalSizeBytes ?? 0}
           uploadFolderHint={data?.uploadFolderHint ?? null}
           requireUploadFolder={data?.requireUploadFolder ?? false}
+          uploadFolders={data?.uploadFolders ?? []}
+          restrictUploadFolders={data?.restrictUploadFolders ?? false}
+          moderateUploads={data?.moderateUploads ?? false}
           onRefreshFiles={() => setFileBrowserRefresh((key) => key + 1)}
         />
       ) : null}
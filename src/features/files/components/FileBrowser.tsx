@@ -1,21 +1,46 @@
+import { useState } from "react";
 import { useTranslation } from "react-i18next";
+import { joinFolderPath } from "../../../lib/navigation";
 import { useFileBrowser } from "../hooks/useFileBrowser";
+import { useFileSelection } from "../hooks/useFileSelection";
+import { useFolderActions } from "../hooks/useFolderActions";
 import { FileList } from "./FileList";
-import { ArchiveIcon, FolderIcon, RenameIcon } from "../../../components/ui/icons";
+import { FileListToolbar } from "./FileListToolbar";
+import { FileSelectionBar } from "./FileSelectionBar";
+import { LoadMoreFiles } from "./LoadMoreFiles";
+import { TrashList } from "./TrashList";
+import {
+  ArchiveIcon,
+  FolderIcon,
+  MergeIcon,
+  RenameIcon,
+  TrashIcon,
+} from "../../../components/ui/icons";
 
 type FileBrowserMode = "admin" | "guest";
+type FileBrowserView = "files" | "trash";
 
 type FileBrowserProps = {
   eventId: string;
   mode: FileBrowserMode;
+  /** Moderators curate files, managing folders and purging the trash stays with the admins */
+  isModerator?: boolean;
 };
 
-export function FileBrowser({ eventId, mode }: FileBrowserProps) {
+export function FileBrowser({ eventId, mode, isModerator = false }: FileBrowserProps) {
   const { t } = useTranslation();
   const {
     files,
+    total,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    listQuery,
+    changeListQuery,
     folders,
+    moveTargets,
     currentFolder,
+    breadcrumbs,
     statusMessage,
     statusTone,
     isLoading,
@@ -24,9 +49,12 @@ export function FileBrowser({ eventId, mode }: FileBrowserProps) {
     zipStatusTone,
     fetchFiles,
     openPreview,
+    fetchPosterBlob,
+    fetchClipBlob,
     downloadFile,
     downloadZip,
     requestDelete,
+    updateFile,
     openRename,
     previewModal,
     deleteDialog,
@@ -34,16 +62,30 @@ export function FileBrowser({ eventId, mode }: FileBrowserProps) {
   } = useFileBrowser({ eventId, mode });
   const canDelete = mode === "admin";
   const canRename = mode === "admin";
+  const canUseTrash = mode === "admin";
+  const canManageFolders = mode === "admin" && !isModerator;
+  const [view, setView] = useState<FileBrowserView>("files");
+  const showTrash = canUseTrash && view === "trash";
+  const isFiltered = Boolean(listQuery.search || listQuery.types.length);
+  const selection = useFileSelection(files, currentFolder);
+  const folderActions = useFolderActions({
+    eventId,
+    currentFolder,
+    folders,
+    onChanged: () => void fetchFiles(currentFolder),
+  });
 
   return (
     <div className="form-card" data-testid={`filebrowser-${mode}`}>
       <div className="label-row">
         <h2>
-          {currentFolder
-            ? t("FileBrowser.titleFolder", { folder: currentFolder })
-            : t("FileBrowser.titleRoot")}
+          {showTrash
+            ? t("FileBrowser.titleTrash")
+            : currentFolder
+              ? t("FileBrowser.titleFolder", { folder: currentFolder })
+              : t("FileBrowser.titleRoot")}
         </h2>
-        {files.length > 0 || folders.length > 0 ? (
+        {!showTrash && (files.length > 0 || folders.length > 0) ? (
           <button
             className="ghost icon-text-btn"
             type="button"
@@ -61,7 +103,31 @@ export function FileBrowser({ eventId, mode }: FileBrowserProps) {
           </button>
         ) : null}
       </div>
-      {zipStatusMessage ? (
+      {canUseTrash ? (
+        <div className="filebrowser-tabs" role="tablist">
+          {(["files", "trash"] as const).map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              role="tab"
+              className={`ghost${view === tab ? " active" : ""}`}
+              aria-selected={view === tab}
+              onClick={() => setView(tab)}
+              data-testid={`filebrowser-tab-${tab}`}
+            >
+              {t(tab === "files" ? "FileBrowser.tabFiles" : "FileBrowser.tabTrash")}
+            </button>
+          ))}
+        </div>
+      ) : null}
+      {showTrash ? (
+        <TrashList
+          eventId={eventId}
+          onRestored={() => fetchFiles(currentFolder)}
+          canPurge={!isModerator}
+        />
+      ) : null}
+      {!showTrash && zipStatusMessage ? (
         <p
           className={`helper${zipStatusTone ? ` status ${zipStatusTone}` : ""}`}
           data-testid="zip-download-status"
@@ -69,16 +135,42 @@ export function FileBrowser({ eventId, mode }: FileBrowserProps) {
           {zipStatusMessage}
         </p>
       ) : null}
-      {currentFolder ? (
+      {!showTrash && currentFolder ? (
         <div className="helper folder-helper">
-          <span className="folder-name">
-            {t("FileBrowser.folderName", { folder: currentFolder })}
-          </span>
+          <nav
+            className="folder-breadcrumbs"
+            aria-label={t("FileBrowser.breadcrumbs")}
+            data-testid="filebrowser-breadcrumbs"
+          >
+            {[{ name: t("FileBrowser.rootFolder"), path: "" }, ...breadcrumbs].map(
+              (crumb, index, crumbs) =>
+                index === crumbs.length - 1 ? (
+                  <span key={crumb.path} className="folder-name" aria-current="page">
+                    {crumb.name}
+                  </span>
+                ) : (
+                  <span key={crumb.path} className="folder-breadcrumb">
+                    <button
+                      className="link-btn"
+                      type="button"
+                      onClick={() => {
+                        fetchFiles(crumb.path, { pushHistory: true });
+                      }}
+                      disabled={isLoading}
+                      data-testid="filebrowser-breadcrumb"
+                    >
+                      {crumb.name}
+                    </button>
+                    <span aria-hidden>/</span>
+                  </span>
+                )
+            )}
+          </nav>
           <button
             className="link-btn back-link"
             type="button"
             onClick={() => {
-              fetchFiles("", { pushHistory: true });
+              fetchFiles(breadcrumbs.at(-2)?.path ?? "", { pushHistory: true });
             }}
             disabled={isLoading}
             data-testid="filebrowser-back"
@@ -87,7 +179,25 @@ export function FileBrowser({ eventId, mode }: FileBrowserProps) {
           </button>
         </div>
       ) : null}
-      {folders.length > 0 ? (
+      {!showTrash && canManageFolders ? (
+        <div className="folder-actions">
+          <button
+            className="ghost"
+            type="button"
+            onClick={folderActions.openCreate}
+            disabled={isLoading || folderActions.isBusy}
+            data-testid="filebrowser-folder-create"
+          >
+            {t("FolderActions.create")}
+          </button>
+          {folderActions.feedbackMessage ? (
+            <span className={`helper status ${folderActions.feedbackMessage.tone}`}>
+              {folderActions.feedbackMessage.text}
+            </span>
+          ) : null}
+        </div>
+      ) : null}
+      {!showTrash && folders.length > 0 ? (
         <div className="folder-grid" data-testid="filebrowser-folders">
           {folders.map((folder) => (
             <div key={folder} className="folder-tile" data-testid="filebrowser-folder">
@@ -95,7 +205,7 @@ export function FileBrowser({ eventId, mode }: FileBrowserProps) {
                 className="folder-tile-button"
                 type="button"
                 onClick={() => {
-                  fetchFiles(folder, { pushHistory: true });
+                  fetchFiles(joinFolderPath(currentFolder, folder), { pushHistory: true });
                 }}
                 disabled={isLoading}
                 title={folder}
@@ -116,31 +226,89 @@ export function FileBrowser({ eventId, mode }: FileBrowserProps) {
                   <RenameIcon />
                 </button>
               ) : null}
+              {canManageFolders ? (
+                <button
+                  className="icon-btn folder-tile-action"
+                  type="button"
+                  onClick={() => folderActions.openMerge(folder)}
+                  disabled={isLoading || folderActions.isBusy}
+                  title={t("FolderActions.mergeAction")}
+                  aria-label={t("FolderActions.mergeAction")}
+                  data-testid="filebrowser-folder-merge"
+                >
+                  <MergeIcon />
+                </button>
+              ) : null}
+              {canManageFolders ? (
+                <button
+                  className="icon-btn folder-tile-action"
+                  type="button"
+                  onClick={() => folderActions.openDelete(folder)}
+                  disabled={isLoading || folderActions.isBusy}
+                  title={t("FolderActions.deleteAction")}
+                  aria-label={t("FolderActions.deleteAction")}
+                  data-testid="filebrowser-folder-delete"
+                >
+                  <TrashIcon />
+                </button>
+              ) : null}
             </div>
           ))}
         </div>
       ) : null}
-      {files.length === 0 && folders.length === 0 ? (
+      {!showTrash && (files.length > 0 || isFiltered) ? (
+        <FileListToolbar query={listQuery} total={total} onChange={changeListQuery} />
+      ) : null}
+      {showTrash ? null : files.length === 0 && isFiltered ? (
+        <p className="helper">
+          {isLoading ? t("FileBrowser.loading") : t("FileBrowser.noMatches")}
+        </p>
+      ) : files.length === 0 && folders.length === 0 ? (
         <p className="helper">{isLoading ? t("FileBrowser.loading") : t("FileBrowser.noFiles")}</p>
       ) : files.length === 0 ? (
         <p className="helper">{t("FileBrowser.onlyFolders")}</p>
       ) : (
-        <FileList
-          files={files}
-          canDelete={canDelete}
-          isLoading={isLoading}
-          onOpenPreview={openPreview}
-          onDownload={downloadFile}
-          onRequestDelete={requestDelete}
-          t={t}
-        />
+        <>
+          <FileSelectionBar
+            eventId={eventId}
+            mode={mode}
+            folder={currentFolder}
+            folders={folders.map((folder) => joinFolderPath(currentFolder, folder))}
+            selected={selection.selected}
+            allSelected={selection.allSelected}
+            onToggleAll={selection.toggleAll}
+            onChanged={() => {
+              selection.clearSelection();
+              void fetchFiles(currentFolder);
+            }}
+          />
+          <FileList
+            files={files}
+            folder={currentFolder}
+            folders={moveTargets}
+            canDelete={canDelete}
+            canEdit={canRename}
+            isLoading={isLoading}
+            onOpenPreview={openPreview}
+            fetchPosterBlob={fetchPosterBlob}
+            fetchClipBlob={fetchClipBlob}
+            onDownload={downloadFile}
+            onRequestDelete={requestDelete}
+            onUpdate={updateFile}
+            isSelected={selection.isSelected}
+            onToggleSelect={selection.toggle}
+            t={t}
+          />
+          {hasMore ? <LoadMoreFiles isLoading={isLoadingMore} onLoadMore={loadMore} /> : null}
+        </>
       )}
-      {statusMessage ? (
+      {!showTrash && statusMessage ? (
         <p className={`helper${statusTone ? ` status ${statusTone}` : ""}`}>{statusMessage}</p>
       ) : null}
       {previewModal}
       {deleteDialog}
       {renameDialog}
+      {folderActions.folderDialogs}
     </div>
   );
 }
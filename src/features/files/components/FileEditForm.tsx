@@ -0,0 +1,121 @@
+import { useId, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { FOLDER_PATH_MAX_LENGTH } from "../../../constants";
+import { getFileExtension } from "../../../lib/fileTypes";
+import {
+  FOLDER_PATH_PATTERN,
+  isOptionalFolderPathValid,
+  normalizeFolderPath,
+} from "../../../lib/folderValidation";
+
+export type FileChanges = {
+  name?: string;
+  to?: string;
+};
+
+type FileEditFormProps = {
+  filename: string;
+  folder: string;
+  /** Known folders, offered as move targets */
+  folders: string[];
+  disabled: boolean;
+  /** Resolves false when the change failed, the form then stays open for another try */
+  onSubmit: (changes: FileChanges) => Promise<boolean>;
+  onCancel: () => void;
+};
+
+const isFilenameValid = (name: string) =>
+  name.length > 0 && name.length <= 255 && !/[/\\]/.test(name) && name !== "." && name !== "..";
+
+export function FileEditForm({
+  filename,
+  folder,
+  folders,
+  disabled,
+  onSubmit,
+  onCancel,
+}: FileEditFormProps) {
+  const { t } = useTranslation();
+  const foldersId = useId();
+  const [name, setName] = useState(filename);
+  const [target, setTarget] = useState(folder);
+
+  const nameTrimmed = name.trim();
+  const targetTrimmed = normalizeFolderPath(target);
+  const nameError = !isFilenameValid(nameTrimmed)
+    ? t("FileBrowser.editNameInvalid")
+    : getFileExtension(nameTrimmed) !== getFileExtension(filename)
+      ? t("FileBrowser.editExtension", { extension: getFileExtension(filename) })
+      : "";
+  const folderError = isOptionalFolderPathValid(targetTrimmed)
+    ? ""
+    : t("FileBrowser.editFolderInvalid");
+  const changes: FileChanges = {
+    ...(nameTrimmed !== filename ? { name: nameTrimmed } : {}),
+    ...(targetTrimmed !== folder ? { to: targetTrimmed } : {}),
+  };
+  const canSave = !nameError && !folderError && Object.keys(changes).length > 0;
+
+  return (
+    <form
+      className="file-edit-form"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (canSave) void onSubmit(changes);
+      }}
+      onKeyDown={(event) => {
+        // typing must not navigate or close the preview around the form
+        event.stopPropagation();
+        if (event.key === "Escape") onCancel();
+      }}
+      data-testid="file-edit-form"
+    >
+      <label className="field">
+        <span>{t("FileBrowser.editNameLabel")}</span>
+        <input
+          type="text"
+          maxLength={255}
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          disabled={disabled}
+          autoFocus
+          data-testid="file-edit-name"
+        />
+        {nameError ? <p className="helper status bad">{nameError}</p> : null}
+      </label>
+      <label className="field">
+        <span>{t("FileBrowser.editFolderLabel")}</span>
+        <input
+          type="text"
+          list={foldersId}
+          pattern={FOLDER_PATH_PATTERN}
+          maxLength={FOLDER_PATH_MAX_LENGTH}
+          value={target}
+          onChange={(event) => setTarget(event.target.value)}
+          placeholder={t("FileBrowser.editFolderPlaceholder")}
+          disabled={disabled}
+          data-testid="file-edit-folder"
+        />
+        <datalist id={foldersId}>
+          {folders.map((option) => (
+            <option key={option} value={option} />
+          ))}
+        </datalist>
+        {folderError ? <p className="helper status bad">{folderError}</p> : null}
+      </label>
+      <div className="file-edit-actions">
+        <button type="button" className="ghost" onClick={onCancel} disabled={disabled}>
+          {t("FileBrowser.editCancel")}
+        </button>
+        <button
+          type="submit"
+          className="primary"
+          disabled={disabled || !canSave}
+          data-testid="file-edit-save"
+        >
+          {t("FileBrowser.editSave")}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,24 +1,42 @@
 import type { FileEntry } from "../../../types";
+import type { FileChanges } from "./FileEditForm";
 import { FileRow } from "./FileRow";
 import type { TFunction } from "i18next";
 
 type FileListProps = {
   files: FileEntry[];
+  folder: string;
+  /** Known folders, offered as move targets */
+  folders: string[];
   canDelete: boolean;
+  canEdit: boolean;
   isLoading: boolean;
   onOpenPreview: (name: string) => void;
+  fetchPosterBlob: (name: string) => Promise<Blob>;
+  fetchClipBlob: (name: string) => Promise<Blob>;
   onDownload: (name: string) => void;
   onRequestDelete: (name: string) => void;
+  onUpdate: (name: string, changes: FileChanges) => Promise<boolean>;
+  isSelected: (name: string) => boolean;
+  onToggleSelect: (name: string, range: boolean) => void;
   t: TFunction;
 };
 
 export function FileList({
   files,
+  folder,
+  folders,
   canDelete,
+  canEdit,
   isLoading,
   onOpenPreview,
+  fetchPosterBlob,
+  fetchClipBlob,
   onDownload,
   onRequestDelete,
+  onUpdate,
+  isSelected,
+  onToggleSelect,
   t,
 }: FileListProps) {
   if (!files || files.length === 0) return null;
@@ -29,11 +47,19 @@ export function FileList({
         <FileRow
           key={file.name}
           file={file}
+          folder={folder}
+          folders={folders}
           canDelete={canDelete}
+          canEdit={canEdit}
           isLoading={isLoading}
           onOpenPreview={onOpenPreview}
+          fetchPosterBlob={fetchPosterBlob}
+          fetchClipBlob={fetchClipBlob}
           onDownload={onDownload}
           onRequestDelete={onRequestDelete}
+          onUpdate={onUpdate}
+          selected={isSelected(file.name)}
+          onToggleSelect={onToggleSelect}
           t={t}
         />
       ))}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import type { FileListQuery } from "../hooks/useFileBrowser";
+
+type FileListToolbarProps = {
+  query: FileListQuery;
+  total: number;
+  onChange: (changes: Partial<FileListQuery>) => void;
+};
+
+// the select offers sort field and order as one choice
+const SORT_OPTIONS = [
+  "name-asc",
+  "name-desc",
+  "date-desc",
+  "date-asc",
+  "size-desc",
+  "size-asc",
+] as const;
+
+const TYPE_OPTIONS: Record<string, string[]> = {
+  all: [],
+  images: ["image/*"],
+  videos: ["video/*"],
+  audio: ["audio/*"],
+  documents: ["application/pdf", "text/*"],
+};
+
+const SEARCH_DELAY_MS = 300;
+
+export function FileListToolbar({ query, total, onChange }: FileListToolbarProps) {
+  const { t } = useTranslation();
+  const [search, setSearch] = useState(query.search);
+
+  // waits for a pause in typing, so not every key press lists the files again
+  useEffect(() => {
+    if (search.trim() === query.search) return;
+    const timeout = window.setTimeout(() => onChange({ search: search.trim() }), SEARCH_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [onChange, query.search, search]);
+
+  const typeKey =
+    Object.keys(TYPE_OPTIONS).find(
+      (key) => TYPE_OPTIONS[key].join(",") === query.types.join(",")
+    ) ?? "all";
+
+  return (
+    <div className="file-list-toolbar" data-testid="file-list-toolbar">
+      <input
+        type="search"
+        value={search}
+        onChange={(event) => setSearch(event.target.value)}
+        placeholder={t("FileListToolbar.searchPlaceholder")}
+        aria-label={t("FileListToolbar.search")}
+        maxLength={255}
+        data-testid="file-list-search"
+      />
+      <select
+        value={`${query.sort}-${query.order}`}
+        onChange={(event) => {
+          const [sort, order] = event.target.value.split("-") as [
+            FileListQuery["sort"],
+            FileListQuery["order"],
+          ];
+          onChange({ sort, order });
+        }}
+        aria-label={t("FileListToolbar.sort")}
+        data-testid="file-list-sort"
+      >
+        {SORT_OPTIONS.map((option) => (
+          <option key={option} value={option}>
+            {t(`FileListToolbar.sort_${option}`)}
+          </option>
+        ))}
+      </select>
+      <select
+        value={typeKey}
+        onChange={(event) => onChange({ types: TYPE_OPTIONS[event.target.value] })}
+        aria-label={t("FileListToolbar.type")}
+        data-testid="file-list-type"
+      >
+        {Object.keys(TYPE_OPTIONS).map((key) => (
+          <option key={key} value={key}>
+            {t(`FileListToolbar.type_${key}`)}
+          </option>
+        ))}
+      </select>
+      <span className="helper">{t("FileListToolbar.count", { count: total })}</span>
+    </div>
+  );
+}
@@ -2,29 +2,52 @@ import { useEffect, useRef, useState } from "react";
 import type { FileEntry } from "../../../types";
 import { formatFileSize } from "../../../lib/format";
 import type { TFunction } from "i18next";
-import { DownloadIcon, TrashIcon } from "../../../components/ui/icons";
+import { DownloadIcon, RenameIcon, TrashIcon } from "../../../components/ui/icons";
+import { isVideoFile } from "../../../lib/fileTypes";
+import { FileChanges, FileEditForm } from "./FileEditForm";
+import { VideoThumbnail } from "./VideoThumbnail";
 
 type FileRowProps = {
   file: FileEntry;
+  folder: string;
+  /** Known folders, offered as move targets */
+  folders: string[];
   canDelete: boolean;
+  canEdit: boolean;
   isLoading: boolean;
   onOpenPreview: (name: string) => void;
+  fetchPosterBlob: (name: string) => Promise<Blob>;
+  fetchClipBlob: (name: string) => Promise<Blob>;
   onDownload: (name: string) => void;
   onRequestDelete: (name: string) => void;
+  /** Renames and/or moves the file, resolves false when that failed */
+  onUpdate: (name: string, changes: FileChanges) => Promise<boolean>;
+  selected: boolean;
+  /** range is set when shift was held, to select every file up to the last toggled one */
+  onToggleSelect: (name: string, range: boolean) => void;
   t: TFunction;
 };
 
 export function FileRow({
   file,
+  folder,
+  folders,
   canDelete,
+  canEdit,
   isLoading,
   onOpenPreview,
+  fetchPosterBlob,
+  fetchClipBlob,
   onDownload,
   onRequestDelete,
+  onUpdate,
+  selected,
+  onToggleSelect,
   t,
 }: FileRowProps) {
   const nameRef = useRef<HTMLButtonElement | null>(null);
   const [isTruncated, setIsTruncated] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
 
   useEffect(() => {
     const el = nameRef.current;
@@ -40,24 +63,65 @@ export function FileRow({
     }
     window.addEventListener("resize", update);
     return () => window.removeEventListener("resize", update);
-  }, [file.name]);
+  }, [file.name, isEditing]);
 
   return (
-    <div className="file-row" key={file.name} data-testid="file-row">
-      <div className="file-meta">
-        <button
-          className="link-btn"
-          ref={nameRef}
-          onClick={() => onOpenPreview(file.name)}
-          data-testid="file-open"
-        >
-          {file.name}
-        </button>
-        <span className="helper">
-          {formatFileSize(file.size)} | {new Date(file.createdAt).toLocaleString()}
-        </span>
-        {isTruncated ? <span className="file-name-full">{file.name}</span> : null}
-      </div>
+    <div
+      className={`file-row${selected ? " selected" : ""}`}
+      key={file.name}
+      data-testid="file-row"
+    >
+      <input
+        type="checkbox"
+        className="file-select"
+        checked={selected}
+        // checkbox changes are dispatched from the click, which carries the shift key
+        onChange={(event) =>
+          onToggleSelect(file.name, (event.nativeEvent as MouseEvent).shiftKey === true)
+        }
+        aria-label={t("FileBrowser.select", { name: file.name })}
+        data-testid="file-select"
+      />
+      {isVideoFile(file.name) ? (
+        <VideoThumbnail
+          name={file.name}
+          fetchPosterBlob={fetchPosterBlob}
+          fetchClipBlob={fetchClipBlob}
+          onOpen={() => onOpenPreview(file.name)}
+          label={t("FileBrowser.videoThumbnail", { name: file.name })}
+        />
+      ) : null}
+      {isEditing ? (
+        <div className="file-meta">
+          <FileEditForm
+            filename={file.name}
+            folder={folder}
+            folders={folders}
+            disabled={isLoading}
+            onSubmit={async (changes) => {
+              const updated = await onUpdate(file.name, changes);
+              if (updated) setIsEditing(false);
+              return updated;
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      ) : (
+        <div className="file-meta">
+          <button
+            className="link-btn"
+            ref={nameRef}
+            onClick={() => onOpenPreview(file.name)}
+            data-testid="file-open"
+          >
+            {file.name}
+          </button>
+          <span className="helper">
+            {formatFileSize(file.size)} | {new Date(file.createdAt).toLocaleString()}
+          </span>
+          {isTruncated ? <span className="file-name-full">{file.name}</span> : null}
+        </div>
+      )}
       <div className="file-actions">
         <button
           className="icon-btn"
@@ -70,6 +134,20 @@ export function FileRow({
         >
           <DownloadIcon />
         </button>
+        {canEdit ? (
+          <button
+            className="icon-btn"
+            type="button"
+            title={t("FileBrowser.edit")}
+            aria-label={t("FileBrowser.edit")}
+            aria-pressed={isEditing}
+            onClick={() => setIsEditing((current) => !current)}
+            disabled={isLoading}
+            data-testid="file-edit"
+          >
+            <RenameIcon />
+          </button>
+        ) : null}
         {canDelete ? (
           <button
             className="icon-btn danger-btn"
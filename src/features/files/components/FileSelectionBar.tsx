@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import type { BatchFilesResponse } from "../../../api/types";
+import { ModalDialog } from "../../../components/ui/ModalDialog";
+import { FOLDER_PATH_MAX_LENGTH } from "../../../constants";
+import { downloadBlob } from "../../../lib/download";
+import {
+  FOLDER_PATH_PATTERN,
+  isOptionalFolderPathValid,
+  normalizeFolderPath,
+} from "../../../lib/folderValidation";
+import { useApiClient } from "../../../shared/hooks/useApiClient";
+import { useTimedFeedback } from "../../../shared/hooks/useTimedFeedback";
+
+type FileSelectionBarProps = {
+  eventId: string;
+  mode: "admin" | "guest";
+  folder: string;
+  /** Known folders, offered as move targets */
+  folders: string[];
+  selected: string[];
+  allSelected: boolean;
+  onToggleAll: () => void;
+  /** Called after files were deleted or moved, so the file list can be reloaded */
+  onChanged: () => void;
+};
+
+export function FileSelectionBar({
+  eventId,
+  mode,
+  folder,
+  folders,
+  selected,
+  allSelected,
+  onToggleAll,
+  onChanged,
+}: FileSelectionBarProps) {
+  const { t } = useTranslation();
+  const apiClient = useApiClient(mode);
+  const feedback = useTimedFeedback();
+  const [isBusy, setIsBusy] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [moveTarget, setMoveTarget] = useState<string | null>(null);
+  const canEdit = mode === "admin";
+  const refs = selected.map((filename) => ({ folder, filename }));
+
+  const showBatchResult = (result: BatchFilesResponse, successKey: string) => {
+    if (result.failed.length) {
+      feedback.showError(
+        t("FileSelectionBar.partialFailure", {
+          count: result.failed.length,
+          files: result.failed.map((entry) => `${entry.file} (${entry.reason})`).join(", "),
+        })
+      );
+      return;
+    }
+    feedback.showSuccess(t(successKey, { count: result.processed }));
+  };
+
+  const run = async (action: () => Promise<void>, defaultError: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      feedback.showError(error instanceof Error ? error.message || defaultError : defaultError);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const downloadSelected = () =>
+    run(async () => {
+      const { blob, skipped, skippedCount } = await apiClient.downloadFilesZip(eventId, refs);
+      downloadBlob(blob, `${eventId}-selection.zip`);
+      if (skippedCount) {
+        const files = skipped.map((entry) => entry.file);
+        if (skippedCount > files.length) files.push("…");
+        feedback.showError(
+          t("FileSelectionBar.zipSkipped", { count: skippedCount, files: files.join(", ") })
+        );
+      } else {
+        feedback.showSuccess(t("FileSelectionBar.zipStarted"));
+      }
+    }, t("FileSelectionBar.zipError"));
+
+  const deleteSelected = () => {
+    setConfirmDelete(false);
+    void run(async () => {
+      const result = await apiClient.deleteFiles(eventId, refs);
+      showBatchResult(result, "FileSelectionBar.deleted");
+      onChanged();
+    }, t("FileSelectionBar.deleteError"));
+  };
+
+  const moveTrimmed = normalizeFolderPath(moveTarget ?? "");
+  const isMoveValid = isOptionalFolderPathValid(moveTrimmed) && moveTrimmed !== folder;
+
+  const moveSelected = () => {
+    if (!isMoveValid) return;
+    setMoveTarget(null);
+    void run(async () => {
+      const result = await apiClient.moveFiles(eventId, { files: refs, to: moveTrimmed });
+      showBatchResult(result, "FileSelectionBar.moved");
+      onChanged();
+    }, t("FileSelectionBar.moveError"));
+  };
+
+  return (
+    <div className="file-selection-bar" data-testid="file-selection-bar">
+      <label className="checkbox-helper">
+        <input
+          type="checkbox"
+          checked={allSelected}
+          onChange={onToggleAll}
+          disabled={isBusy}
+          data-testid="file-select-all"
+        />
+        <span>
+          {selected.length
+            ? t("FileSelectionBar.selectedCount", { count: selected.length })
+            : t("FileSelectionBar.selectAll")}
+        </span>
+      </label>
+      {selected.length ? (
+        <div className="file-selection-actions">
+          <button
+            type="button"
+            className="ghost"
+            onClick={downloadSelected}
+            disabled={isBusy}
+            data-testid="file-selection-download"
+          >
+            {t("FileSelectionBar.download")}
+          </button>
+          {canEdit ? (
+            <>
+              <button
+                type="button"
+                className="ghost"
+                onClick={() => setMoveTarget("")}
+                disabled={isBusy}
+                data-testid="file-selection-move"
+              >
+                {t("FileSelectionBar.move")}
+              </button>
+              <button
+                type="button"
+                className="danger"
+                onClick={() => setConfirmDelete(true)}
+                disabled={isBusy}
+                data-testid="file-selection-delete"
+              >
+                {t("FileSelectionBar.delete")}
+              </button>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+      {feedback.message ? (
+        <span className={`helper status ${feedback.message.tone}`}>{feedback.message.text}</span>
+      ) : null}
+      <ModalDialog
+        open={confirmDelete}
+        title={t("FileSelectionBar.delete")}
+        onCancel={() => setConfirmDelete(false)}
+        onConfirm={deleteSelected}
+        confirmLabel={t("FileSelectionBar.delete")}
+        cancelLabel={t("FileSelectionBar.cancel")}
+        closeOnEscape
+      >
+        {t("FileSelectionBar.deleteConfirm", { count: selected.length })}
+      </ModalDialog>
+      <ModalDialog
+        open={moveTarget !== null}
+        title={t("FileSelectionBar.moveTitle", { count: selected.length })}
+        onCancel={() => setMoveTarget(null)}
+        onConfirm={moveSelected}
+        confirmLabel={t("FileSelectionBar.move")}
+        cancelLabel={t("FileSelectionBar.cancel")}
+        closeOnEscape
+      >
+        <label className="field">
+          <span>{t("FileSelectionBar.moveLabel")}</span>
+          <input
+            type="text"
+            list="file-selection-folders"
+            pattern={FOLDER_PATH_PATTERN}
+            maxLength={FOLDER_PATH_MAX_LENGTH}
+            value={moveTarget ?? ""}
+            onChange={(event) => setMoveTarget(event.target.value)}
+            placeholder={t("FileSelectionBar.movePlaceholder")}
+            data-testid="file-selection-move-input"
+          />
+          <datalist id="file-selection-folders">
+            {folders.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+          <p className="helper">{t("FileSelectionBar.moveHint")}</p>
+          {moveTarget && !isMoveValid ? (
+            <p className="helper status bad">{t("FileSelectionBar.moveInvalid")}</p>
+          ) : null}
+        </label>
+      </ModalDialog>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react";
+import { useTranslation } from "react-i18next";
+
+type LoadMoreFilesProps = {
+  isLoading: boolean;
+  onLoadMore: () => void;
+};
+
+/** Loads the next page once the end of the list scrolls into view, the button is the fallback. */
+export function LoadMoreFiles({ isLoading, onLoadMore }: LoadMoreFilesProps) {
+  const { t } = useTranslation();
+  const ref = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || isLoading || typeof IntersectionObserver === "undefined") return;
+    // starts early, so the next files are usually there before the end is reached
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [isLoading, onLoadMore]);
+
+  return (
+    <div className="load-more-files" ref={ref}>
+      <button
+        type="button"
+        className="ghost"
+        onClick={onLoadMore}
+        disabled={isLoading}
+        data-testid="file-list-load-more"
+      >
+        {isLoading ? t("FileBrowser.loading") : t("FileBrowser.loadMore")}
+      </button>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { ModalDialog } from "../../../components/ui/ModalDialog";
 import {
   DownloadIcon,
@@ -5,12 +6,17 @@ import {
   PrevIcon,
   NextIcon,
   CloseIcon,
+  RenameIcon,
 } from "../../../components/ui/icons";
 import { useTranslation } from "react-i18next";
+import { FileChanges, FileEditForm } from "./FileEditForm";
 
 type PreviewModalProps = {
   open: boolean;
   previewName: string;
+  folder: string;
+  /** Known folders, offered as move targets */
+  folders: string[];
   previewUrl: string;
   previewStatus: "loading" | "ready" | "error";
   previewKind: "image" | "video" | "audio" | "pdf" | "other";
@@ -24,11 +30,14 @@ type PreviewModalProps = {
   onNext: () => void;
   onDownload: () => void;
   onRequestDelete: () => void;
+  onUpdate: (changes: FileChanges) => Promise<boolean>;
 };
 
 export function PreviewModal({
   open,
   previewName,
+  folder,
+  folders,
   previewUrl,
   previewStatus,
   previewKind,
@@ -42,8 +51,12 @@ export function PreviewModal({
   onNext,
   onDownload,
   onRequestDelete,
+  onUpdate,
 }: PreviewModalProps) {
   const { t } = useTranslation();
+  // tracked by name, so navigating to another file closes the form
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const isEditing = editingName === previewName;
 
   if (!open) return null;
 
@@ -111,8 +124,34 @@ export function PreviewModal({
         </>
       }
       footerSlot={
-        isAdmin ? (
+        isAdmin && isEditing ? (
           <div className="modal-footer">
+            <FileEditForm
+              filename={previewName}
+              folder={folder}
+              folders={folders}
+              disabled={isLoading}
+              onSubmit={async (changes) => {
+                const updated = await onUpdate(changes);
+                if (updated) setEditingName(null);
+                return updated;
+              }}
+              onCancel={() => setEditingName(null)}
+            />
+          </div>
+        ) : isAdmin ? (
+          <div className="modal-footer">
+            <button
+              className="icon-btn"
+              type="button"
+              onClick={() => setEditingName(previewName)}
+              disabled={isLoading}
+              title={t("FileBrowser.edit")}
+              aria-label={t("FileBrowser.edit")}
+              data-testid="preview-edit"
+            >
+              <RenameIcon /> {t("FileBrowser.edit")}
+            </button>
             <button
               className="icon-btn danger-btn"
               type="button"
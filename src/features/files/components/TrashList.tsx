@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import type { TrashEntry, TrashListResponse } from "../../../api/types";
+import { ModalDialog } from "../../../components/ui/ModalDialog";
+import { formatFileSize } from "../../../lib/format";
+import { useApiClient } from "../../../shared/hooks/useApiClient";
+import { useTimedFeedback } from "../../../shared/hooks/useTimedFeedback";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TrashListProps = {
+  eventId: string;
+  /** Called after a file was restored, so the file list can be reloaded */
+  onRestored: () => void;
+  /** Only admins can delete trashed files for good */
+  canPurge: boolean;
+};
+
+export function TrashList({ eventId, onRestored, canPurge }: TrashListProps) {
+  const { t } = useTranslation();
+  const apiClient = useApiClient("admin");
+  const [trash, setTrash] = useState<TrashListResponse | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [purgeCandidate, setPurgeCandidate] = useState<TrashEntry | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const feedback = useTimedFeedback();
+  const { showError } = feedback;
+
+  useEffect(() => {
+    let active = true;
+    apiClient
+      .listTrash(eventId)
+      .then((response) => {
+        if (active) setTrash(response);
+      })
+      .catch((error: unknown) => {
+        if (active) showError(error instanceof Error ? error.message : t("TrashList.loadError"));
+      });
+    return () => {
+      active = false;
+    };
+  }, [apiClient, eventId, reloadKey, showError, t]);
+
+  const runAction = async (action: () => Promise<string>, defaultError: string) => {
+    setIsBusy(true);
+    try {
+      feedback.showSuccess(await action());
+    } catch (error) {
+      feedback.showError(error instanceof Error ? error.message || defaultError : defaultError);
+    } finally {
+      setIsBusy(false);
+      setReloadKey((key) => key + 1);
+    }
+  };
+
+  const restore = (entry: TrashEntry) =>
+    runAction(async () => {
+      const result = await apiClient.restoreTrashedFile(eventId, entry.trashId);
+      onRestored();
+      return t("TrashList.restored", {
+        file: result.folder ? `${result.folder}/${result.filename}` : result.filename,
+      });
+    }, t("TrashList.restoreError"));
+
+  const confirmPurge = () => {
+    if (!purgeCandidate) return;
+    const { trashId } = purgeCandidate;
+    setPurgeCandidate(null);
+    void runAction(async () => {
+      await apiClient.deleteTrashedFile(eventId, trashId);
+      return t("TrashList.purged");
+    }, t("TrashList.purgeError"));
+  };
+
+  const describeDeletedBy = (entry: TrashEntry) => {
+    const role = t(`TrashList.role_${entry.deletedByRole}`);
+    // the owner deletes as "admin", the role already says that
+    return entry.deletedBy && entry.deletedBy.toLowerCase() !== entry.deletedByRole
+      ? `${entry.deletedBy} (${role})`
+      : role;
+  };
+
+  const files = trash?.files ?? [];
+
+  return (
+    <div data-testid="filebrowser-trash">
+      <p className="helper">
+        {trash
+          ? t("TrashList.description", { count: Math.round(trash.retentionMs / DAY_MS) })
+          : t("TrashList.loading")}
+      </p>
+      {feedback.message ? (
+        <span className={`helper status ${feedback.message.tone}`}>{feedback.message.text}</span>
+      ) : null}
+      {files.length ? (
+        <div className="file-grid" data-testid="trash-file-list">
+          {files.map((entry) => (
+            <div className="file-row" key={entry.trashId} data-testid="trash-file-row">
+              <span className="file-meta">
+                <span>{entry.folder ? `${entry.folder}/${entry.name}` : entry.name}</span>
+                <span className="helper">
+                  {t("TrashList.deletedInfo", {
+                    size: formatFileSize(entry.size),
+                    date: new Date(entry.deletedAt).toLocaleString(),
+                    by: describeDeletedBy(entry),
+                  })}
+                </span>
+              </span>
+              <div className="file-actions">
+                <button
+                  type="button"
+                  className="ghost"
+                  onClick={() => restore(entry)}
+                  disabled={isBusy}
+                  data-testid="trash-file-restore"
+                >
+                  {t("TrashList.restore")}
+                </button>
+                {canPurge ? (
+                  <button
+                    type="button"
+                    className="danger"
+                    onClick={() => setPurgeCandidate(entry)}
+                    disabled={isBusy}
+                    data-testid="trash-file-purge"
+                  >
+                    {t("TrashList.purge")}
+                  </button>
+                ) : null}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : trash ? (
+        <p className="helper">{t("TrashList.empty")}</p>
+      ) : null}
+      <ModalDialog
+        open={purgeCandidate !== null}
+        title={t("TrashList.purgeTitle")}
+        onCancel={() => setPurgeCandidate(null)}
+        onConfirm={confirmPurge}
+        confirmLabel={t("TrashList.purge")}
+        cancelLabel={t("TrashList.cancel")}
+        closeOnEscape
+      >
+        {purgeCandidate ? t("TrashList.purgeConfirm", { name: purgeCandidate.name }) : null}
+      </ModalDialog>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+
+type VideoThumbnailProps = {
+  name: string;
+  fetchPosterBlob: (name: string) => Promise<Blob>;
+  fetchClipBlob: (name: string) => Promise<Blob>;
+  onOpen: () => void;
+  label: string;
+};
+
+export function VideoThumbnail({
+  name,
+  fetchPosterBlob,
+  fetchClipBlob,
+  onOpen,
+  label,
+}: VideoThumbnailProps) {
+  const [posterUrl, setPosterUrl] = useState<string | null>(null);
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+  const [isHovered, setIsHovered] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    // without a poster (e.g. no ffmpeg on the server) the tile just stays empty
+    fetchPosterBlob(name)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPosterUrl(url);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [fetchPosterBlob, name]);
+
+  // the clip is only loaded once the tile is hovered for the first time
+  useEffect(() => {
+    if (!isHovered || clipUrl) return;
+    let cancelled = false;
+    fetchClipBlob(name)
+      .then((blob) => {
+        if (!cancelled) setClipUrl(URL.createObjectURL(blob));
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [clipUrl, fetchClipBlob, isHovered, name]);
+
+  useEffect(() => {
+    return () => {
+      if (clipUrl) URL.revokeObjectURL(clipUrl);
+    };
+  }, [clipUrl]);
+
+  return (
+    <button
+      type="button"
+      className="file-thumb"
+      onClick={onOpen}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+      aria-label={label}
+      title={label}
+      data-testid="file-thumbnail"
+    >
+      {isHovered && clipUrl ? (
+        <video src={clipUrl} poster={posterUrl ?? undefined} autoPlay muted loop playsInline />
+      ) : posterUrl ? (
+        <img src={posterUrl} alt="" />
+      ) : null}
+    </button>
+  );
+}
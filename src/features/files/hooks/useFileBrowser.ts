@@ -1,25 +1,59 @@
 import React, { createElement, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { ApiClient, ApiError } from "../../../api/client";
+import type { FileSortField, FolderBreadcrumb, SortOrder } from "../../../api/types";
 import type { FileEntry } from "../../../types";
 import { downloadBlob } from "../../../lib/download";
 import { useSessionStore } from "../../../lib/sessionStore";
-import { buildFolderPath, FileBrowserMode, getFolderFromLocation } from "../../../lib/navigation";
+import {
+  buildFolderPath,
+  FileBrowserMode,
+  getFolderFromLocation,
+  joinFolderPath,
+} from "../../../lib/navigation";
 import { DeleteFileDialog } from "../components/DeleteFileDialog";
+import type { FileChanges } from "../components/FileEditForm";
 import { useFilePreview } from "./useFilePreview";
 import { useTimedFeedback } from "../../../shared/hooks/useTimedFeedback";
 import { FOLDER_PATTERN, isFolderNameValid } from "../../../lib/folderValidation";
 import { ModalDialog } from "../../../components/ui/ModalDialog";
+import {
+  FILE_LIST_MAX_PAGE_SIZE,
+  FILE_LIST_PAGE_SIZE,
+  VIDEO_THUMBNAIL_SIZE,
+} from "../../../constants";
 
 type UseFileBrowserProps = {
   eventId: string;
   mode: FileBrowserMode;
 };
 
+/** Order and filters of the file list, kept when switching folders. */
+export type FileListQuery = {
+  sort: FileSortField;
+  order: SortOrder;
+  search: string;
+  types: string[];
+};
+
+const DEFAULT_LIST_QUERY: FileListQuery = { sort: "name", order: "asc", search: "", types: [] };
+
 type UseFileBrowserResult = {
+  /** The pages loaded so far */
   files: FileEntry[];
+  /** Files of the folder matching the filters, loaded or not */
+  total: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => void;
+  listQuery: FileListQuery;
+  changeListQuery: (changes: Partial<FileListQuery>) => void;
   folders: string[];
+  /** Full paths of the parent folder and the subfolders, offered as move targets */
+  moveTargets: string[];
   currentFolder: string;
+  /** Path segments of the current folder, for navigating to its parents */
+  breadcrumbs: FolderBreadcrumb[];
   statusMessage: string;
   statusTone: "good" | "bad" | "";
   isLoading: boolean;
@@ -31,9 +65,13 @@ type UseFileBrowserResult = {
     opts?: { pushHistory?: boolean; replaceHistory?: boolean }
   ) => Promise<void>;
   openPreview: (name: string) => void;
+  fetchPosterBlob: (name: string) => Promise<Blob>;
+  fetchClipBlob: (name: string) => Promise<Blob>;
   downloadFile: (name: string) => void;
   downloadZip: () => void;
   requestDelete: (name: string) => void;
+  /** Renames and/or moves a file of the current folder, resolves false when that failed */
+  updateFile: (name: string, changes: FileChanges) => Promise<boolean>;
   openRename: (folder: string) => void;
   previewModal: React.ReactNode;
   deleteDialog: React.ReactNode;
@@ -43,8 +81,13 @@ type UseFileBrowserResult = {
 export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileBrowserResult => {
   const { t } = useTranslation();
   const [files, setFiles] = useState<FileEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [listQuery, setListQuery] = useState<FileListQuery>(DEFAULT_LIST_QUERY);
   const [folders, setFolders] = useState<string[]>([]);
   const [currentFolder, setCurrentFolder] = useState("");
+  const [breadcrumbs, setBreadcrumbs] = useState<FolderBreadcrumb[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isZipDownloading, setIsZipDownloading] = useState(false);
   const { message: feedbackMessage, showError, showSuccess, clear } = useTimedFeedback();
@@ -63,8 +106,13 @@ export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileB
   const [renameErrorMessage, setRenameErrorMessage] = useState("");
   const isAdmin = mode === "admin";
   const deleteFileRef = useRef<(name: string) => void>(() => {});
+  const updateFileRef = useRef<(name: string, changes: FileChanges) => Promise<boolean>>(
+    async () => false
+  );
   const initialLoadKeyRef = useRef<string | null>(null);
   const initialLoadRequestRef = useRef<Promise<void> | null>(null);
+  // pages of a previous folder or filter must not be appended to the current list
+  const listRequestRef = useRef(0);
 
   const { adminToken, guestToken, skipDeleteConfirm, setSkipDeleteConfirm } = useSessionStore();
   const apiClient = useMemo(() => {
@@ -86,16 +134,37 @@ export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileB
     [showError]
   );
 
-  const fetchFiles = useCallback(
-    async (folderParam?: string, opts?: { pushHistory?: boolean; replaceHistory?: boolean }) => {
-      const folder = folderParam ?? "";
+  const listPage = useCallback(
+    (folder: string, query: FileListQuery, page: { cursor?: string; limit: number }) =>
+      apiClient.listFiles(eventId, {
+        folder,
+        sort: query.sort,
+        order: query.order,
+        search: query.search || undefined,
+        types: query.types,
+        ...page,
+      }),
+    [apiClient, eventId]
+  );
+
+  const loadFirstPage = useCallback(
+    async (
+      folder: string,
+      query: FileListQuery,
+      opts?: { pushHistory?: boolean; replaceHistory?: boolean }
+    ) => {
       clear();
       setIsLoading(true);
+      const requestId = ++listRequestRef.current;
       try {
-        const response = await apiClient.listFiles(eventId, { folder });
+        const response = await listPage(folder, query, { limit: FILE_LIST_PAGE_SIZE });
+        if (requestId !== listRequestRef.current) return;
         setFiles(response.files || []);
+        setTotal(response.total);
+        setNextCursor(response.nextCursor);
         setFolders(response.folders || []);
-        const effectiveFolder = folder || response.folder || "";
+        setBreadcrumbs(response.breadcrumbs || []);
+        const effectiveFolder = response.folder ?? folder;
         setCurrentFolder(effectiveFolder);
         const target = buildFolderPath(mode, eventId, effectiveFolder);
         if (opts?.pushHistory) {
@@ -109,9 +178,60 @@ export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileB
         setIsLoading(false);
       }
     },
-    [apiClient, buildFolderPath, clear, eventId, handleApiError, mode, t]
+    [clear, eventId, handleApiError, listPage, mode, t]
   );
 
+  const fetchFiles = useCallback(
+    (folderParam?: string, opts?: { pushHistory?: boolean; replaceHistory?: boolean }) =>
+      loadFirstPage(folderParam ?? "", listQuery, opts),
+    [listQuery, loadFirstPage]
+  );
+
+  const changeListQuery = useCallback(
+    (changes: Partial<FileListQuery>) => {
+      const next = { ...listQuery, ...changes };
+      setListQuery(next);
+      void loadFirstPage(currentFolder, next);
+    },
+    [currentFolder, listQuery, loadFirstPage]
+  );
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    const requestId = listRequestRef.current;
+    try {
+      const response = await listPage(currentFolder, listQuery, {
+        cursor: nextCursor,
+        limit: FILE_LIST_PAGE_SIZE,
+      });
+      if (requestId !== listRequestRef.current) return;
+      setFiles((current) => [...current, ...(response.files || [])]);
+      setTotal(response.total);
+      setNextCursor(response.nextCursor);
+    } catch (error) {
+      handleApiError(error, t("FileBrowser.loadError"));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [currentFolder, handleApiError, isLoadingMore, listPage, listQuery, nextCursor, t]);
+
+  /** Lists the files loaded so far again, after some of them were deleted, renamed or moved. */
+  const reloadFiles = useCallback(async () => {
+    const requestId = ++listRequestRef.current;
+    const limit = Math.min(Math.max(files.length, FILE_LIST_PAGE_SIZE), FILE_LIST_MAX_PAGE_SIZE);
+    const response = await listPage(currentFolder, listQuery, { limit });
+    const nextFiles = response.files || [];
+    if (requestId === listRequestRef.current) {
+      setFiles(nextFiles);
+      setTotal(response.total);
+      setNextCursor(response.nextCursor);
+      setFolders(response.folders || []);
+      setBreadcrumbs(response.breadcrumbs || []);
+    }
+    return nextFiles;
+  }, [currentFolder, files.length, listPage, listQuery]);
+
   const fetchFileBlob = useCallback(
     async (name: string) => {
       return await apiClient.downloadFile(eventId, {
@@ -145,6 +265,32 @@ export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileB
     [apiClient, currentFolder, eventId]
   );
 
+  const fetchPosterBlob = useCallback(
+    async (name: string) => {
+      return await apiClient.downloadVideoPoster(eventId, {
+        filename: name,
+        folder: currentFolder || undefined,
+        width: VIDEO_THUMBNAIL_SIZE,
+        height: VIDEO_THUMBNAIL_SIZE,
+        fit: "cover",
+        format: "jpeg",
+      });
+    },
+    [apiClient, currentFolder, eventId]
+  );
+
+  const fetchClipBlob = useCallback(
+    async (name: string) => {
+      return await apiClient.downloadVideoClip(eventId, {
+        filename: name,
+        folder: currentFolder || undefined,
+        width: VIDEO_THUMBNAIL_SIZE,
+        height: VIDEO_THUMBNAIL_SIZE,
+      });
+    },
+    [apiClient, currentFolder, eventId]
+  );
+
   const downloadFile = useCallback(
     async (name: string) => {
       try {
@@ -193,16 +339,32 @@ export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileB
     setSkipDeletePrompt(false);
   }, []);
 
-  const { openPreview, handlePreviewAfterDelete, previewModal } = useFilePreview({
-    files,
-    fetchFileBlob,
-    fetchPreviewBlob,
-    onError: handleApiError,
-    onDownload: downloadFile,
-    onRequestDelete: requestDelete,
-    isAdmin,
-    isLoading,
-  });
+  const moveTargets = useMemo(() => {
+    const parent = breadcrumbs.length > 1 ? breadcrumbs[breadcrumbs.length - 2].path : "";
+    const subfolders = folders.map((folder) => joinFolderPath(currentFolder, folder));
+    // the root has no path to suggest, an empty target moves there
+    return parent ? [parent, ...subfolders] : subfolders;
+  }, [breadcrumbs, currentFolder, folders]);
+
+  const onUpdateFile = useCallback(
+    (name: string, changes: FileChanges) => updateFileRef.current(name, changes),
+    []
+  );
+
+  const { openPreview, handlePreviewAfterDelete, handlePreviewAfterRename, previewModal } =
+    useFilePreview({
+      files,
+      folder: currentFolder,
+      folders: moveTargets,
+      fetchFileBlob,
+      fetchPreviewBlob,
+      onError: handleApiError,
+      onDownload: downloadFile,
+      onRequestDelete: requestDelete,
+      onUpdate: onUpdateFile,
+      isAdmin,
+      isLoading,
+    });
 
   const deleteFile = useCallback(
     async (name: string) => {
@@ -215,13 +377,7 @@ export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileB
           folder: currentFolder || undefined,
         });
 
-        const response = await apiClient.listFiles(eventId, { folder: currentFolder || "" });
-        const nextFiles = response.files || [];
-        setFiles(nextFiles);
-        setFolders(response.folders || []);
-        const effectiveFolder = currentFolder || response.folder || "";
-        setCurrentFolder(effectiveFolder);
-
+        const nextFiles = await reloadFiles();
         await handlePreviewAfterDelete(name, nextFiles);
 
         showSuccess(t("FileBrowser.deleteSuccess"));
@@ -239,6 +395,7 @@ export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileB
       handleApiError,
       handlePreviewAfterDelete,
       isAdmin,
+      reloadFiles,
       showSuccess,
       t,
     ]
@@ -256,6 +413,69 @@ export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileB
 
   deleteFileRef.current = deleteFile;
 
+  const updateFile = useCallback(
+    async (name: string, changes: FileChanges) => {
+      if (!isAdmin) return false;
+      clear();
+      setIsLoading(true);
+      try {
+        const result = await apiClient.updateFile(eventId, {
+          filename: name,
+          folder: currentFolder || undefined,
+          ...changes,
+        });
+
+        const nextFiles = await reloadFiles();
+
+        // a file moved elsewhere leaves the list, just like a deleted one
+        if (result.folder === currentFolder) {
+          await handlePreviewAfterRename(name, result.filename, nextFiles);
+        } else {
+          await handlePreviewAfterDelete(name, nextFiles);
+        }
+
+        showSuccess(
+          result.folder === currentFolder
+            ? t("FileBrowser.editRenamed", { name: result.filename })
+            : t("FileBrowser.editMoved", {
+                name: result.filename,
+                folder: result.folder || t("FileBrowser.rootFolder"),
+              })
+        );
+        return true;
+      } catch (error) {
+        const errorKey =
+          error instanceof ApiError
+            ? (error.body as { errorKey?: string } | undefined)?.errorKey
+            : undefined;
+        if (errorKey === "FILE_SHARED") {
+          showError(t("FileBrowser.editShared"));
+        } else {
+          handleApiError(error, t("FileBrowser.editError"));
+        }
+        return false;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [
+      apiClient,
+      clear,
+      currentFolder,
+      eventId,
+      handleApiError,
+      handlePreviewAfterDelete,
+      handlePreviewAfterRename,
+      isAdmin,
+      reloadFiles,
+      showError,
+      showSuccess,
+      t,
+    ]
+  );
+
+  updateFileRef.current = updateFile;
+
   const downloadZip = useCallback(async () => {
     clearZipFeedback();
     setIsZipDownloading(true);
@@ -332,7 +552,11 @@ export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileB
     setRenameErrorMessage("");
     setIsRenaming(true);
     try {
-      await apiClient.renameFolder(eventId, { folder: renameCandidate, to: trimmed });
+      // the dialog renames a subfolder of the current folder, the API takes full paths
+      await apiClient.renameFolder(eventId, {
+        folder: joinFolderPath(currentFolder, renameCandidate),
+        to: joinFolderPath(currentFolder, trimmed),
+      });
       showSuccess(t("FileBrowser.renameSuccess"));
       cancelRename();
       await fetchFiles(currentFolder, { replaceHistory: true });
@@ -435,8 +659,16 @@ export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileB
 
   return {
     files,
+    total,
+    hasMore: nextCursor !== null,
+    isLoadingMore,
+    loadMore,
+    listQuery,
+    changeListQuery,
     folders,
+    moveTargets,
     currentFolder,
+    breadcrumbs,
     statusMessage: feedbackMessage?.text || "",
     statusTone: (feedbackMessage?.tone as "good" | "bad" | "") || "",
     isLoading,
@@ -445,9 +677,12 @@ export const useFileBrowser = ({ eventId, mode }: UseFileBrowserProps): UseFileB
     zipStatusTone: (zipFeedback?.tone as "good" | "bad" | "") || "",
     fetchFiles,
     openPreview,
+    fetchPosterBlob,
+    fetchClipBlob,
     downloadFile,
     downloadZip,
     requestDelete,
+    updateFile,
     openRename,
     previewModal,
     deleteDialog,
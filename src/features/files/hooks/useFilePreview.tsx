@@ -1,7 +1,9 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { FileEntry } from "../../../types";
+import type { FileChanges } from "../components/FileEditForm";
 import { PreviewModal } from "../components/PreviewModal";
 import { useTranslation } from "react-i18next";
+import { LIGHTBOX_PREVIEW_SIZE } from "../../../constants";
 
 type PreviewStatus = "loading" | "ready" | "error";
 type PreviewKind = "image" | "video" | "audio" | "pdf" | "other";
@@ -17,6 +19,9 @@ type PreviewState = {
 
 type UseFilePreviewProps = {
   files: FileEntry[];
+  folder: string;
+  /** Known folders, offered as move targets */
+  folders: string[];
   fetchFileBlob: (name: string) => Promise<Blob>;
   fetchPreviewBlob: (
     name: string,
@@ -25,6 +30,7 @@ type UseFilePreviewProps = {
   onError: (error: unknown, defaultMessage: string) => void;
   onDownload: (name: string) => void;
   onRequestDelete: (name: string) => void;
+  onUpdate: (name: string, changes: FileChanges) => Promise<boolean>;
   isAdmin: boolean;
   isLoading: boolean;
 };
@@ -33,31 +39,35 @@ type UseFilePreviewResult = {
   openPreview: (name: string) => void;
   closePreview: () => void;
   handlePreviewAfterDelete: (deletedName: string, nextFiles: FileEntry[]) => Promise<void>;
+  handlePreviewAfterRename: (
+    oldName: string,
+    newName: string,
+    nextFiles: FileEntry[]
+  ) => Promise<void>;
   previewModal: React.ReactNode;
 };
 
 export const useFilePreview = ({
   files,
+  folder,
+  folders,
   fetchFileBlob,
   fetchPreviewBlob,
   onError,
   onDownload,
   onRequestDelete,
+  onUpdate,
   isAdmin,
   isLoading,
 }: UseFilePreviewProps): UseFilePreviewResult => {
   const { t } = useTranslation();
   const [preview, setPreview] = useState<PreviewState | null>(null);
   const requestIdRef = useRef(0);
-  const imageExtensions = useMemo(() => new Set(["jpg", "jpeg", "png", "webp"]), []);
-
-  const MAX_PREVIEW_SIZE = 1500;
-  const getPreviewSize = useCallback(() => {
-    if (typeof window === "undefined") return { width: undefined, height: undefined };
-    const width = Math.min(MAX_PREVIEW_SIZE, Math.max(320, Math.floor(window.innerWidth * 0.9)));
-    const height = Math.min(MAX_PREVIEW_SIZE, Math.max(240, Math.floor(window.innerHeight * 0.8)));
-    return { width, height };
-  }, []);
+  // gif is left out so animations keep playing, browsers cannot show tiff or heic themselves
+  const imageExtensions = useMemo(
+    () => new Set(["jpg", "jpeg", "png", "webp", "tif", "tiff", "avif", "heic", "heif"]),
+    []
+  );
 
   const shouldUsePreview = useCallback(
     (name: string) => {
@@ -99,9 +109,13 @@ export const useFilePreview = ({
       });
 
       try {
-        const { width, height } = getPreviewSize();
         const blob = shouldUsePreview(name)
-          ? await fetchPreviewBlob(name, { width, height, quality: 80, format: "jpeg" })
+          ? await fetchPreviewBlob(name, {
+              width: LIGHTBOX_PREVIEW_SIZE,
+              height: LIGHTBOX_PREVIEW_SIZE,
+              quality: 80,
+              format: "jpeg",
+            })
           : await fetchFileBlob(name);
         if (requestIdRef.current !== requestId) return;
         const mimeType = blob.type || "";
@@ -132,16 +146,7 @@ export const useFilePreview = ({
         onError(error, t("FileBrowser.previewLoadError"));
       }
     },
-    [
-      fetchFileBlob,
-      fetchPreviewBlob,
-      getPreviewSize,
-      getTypeLabel,
-      onError,
-      preview?.url,
-      shouldUsePreview,
-      t,
-    ]
+    [fetchFileBlob, fetchPreviewBlob, getTypeLabel, onError, preview?.url, shouldUsePreview, t]
   );
 
   const openPreview = useCallback(
@@ -193,6 +198,23 @@ export const useFilePreview = ({
     [closePreview, loadPreview, preview]
   );
 
+  const handlePreviewAfterRename = useCallback(
+    async (oldName: string, newName: string, nextFiles: FileEntry[]) => {
+      if (!preview) return;
+      const renamed = preview.name === oldName;
+      const name = renamed ? newName : preview.name;
+      const newIndex = nextFiles.findIndex((file) => file.name === name);
+      if (newIndex < 0) {
+        await handlePreviewAfterDelete(preview.name, nextFiles);
+      } else if (renamed) {
+        await loadPreview(newName, newIndex);
+      } else if (newIndex !== preview.index) {
+        setPreview({ ...preview, index: newIndex });
+      }
+    },
+    [handlePreviewAfterDelete, loadPreview, preview]
+  );
+
   useEffect(() => {
     if (!preview) return;
 
@@ -228,6 +250,8 @@ export const useFilePreview = ({
       <PreviewModal
         open
         previewName={preview.name}
+        folder={folder}
+        folders={folders}
         previewUrl={preview.url ?? ""}
         index={preview.index}
         count={files.length}
@@ -241,18 +265,28 @@ export const useFilePreview = ({
         onNext={() => navigatePreview(1)}
         onDownload={() => onDownload(preview.name)}
         onRequestDelete={() => onRequestDelete(preview.name)}
+        onUpdate={(changes) => onUpdate(preview.name, changes)}
       />
     );
   }, [
     closePreview,
     files.length,
+    folder,
+    folders,
     isAdmin,
     isLoading,
     navigatePreview,
     onDownload,
     onRequestDelete,
+    onUpdate,
     preview,
   ]);
 
-  return { openPreview, closePreview, handlePreviewAfterDelete, previewModal };
+  return {
+    openPreview,
+    closePreview,
+    handlePreviewAfterDelete,
+    handlePreviewAfterRename,
+    previewModal,
+  };
 };
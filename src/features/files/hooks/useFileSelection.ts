@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { FileEntry } from "../../../types";
+
+type UseFileSelectionResult = {
+  selected: string[];
+  isSelected: (name: string) => boolean;
+  /** Toggles one file, with range set every file between the last toggled one and this one is selected */
+  toggle: (name: string, range: boolean) => void;
+  toggleAll: () => void;
+  allSelected: boolean;
+  clearSelection: () => void;
+};
+
+export const useFileSelection = (files: FileEntry[], folder: string): UseFileSelectionResult => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  // names are only unique within a folder, a new folder starts without selection
+  useEffect(() => {
+    setSelected(new Set());
+    anchorRef.current = null;
+  }, [folder]);
+
+  // drop selections of files that were deleted or moved in the meantime
+  useEffect(() => {
+    const names = new Set(files.map((file) => file.name));
+    setSelected((current) => {
+      const next = new Set([...current].filter((name) => names.has(name)));
+      return next.size === current.size ? current : next;
+    });
+  }, [files]);
+
+  const toggle = useCallback(
+    (name: string, range: boolean) => {
+      const names = files.map((file) => file.name);
+      const anchorIndex = anchorRef.current ? names.indexOf(anchorRef.current) : -1;
+      const index = names.indexOf(name);
+      setSelected((current) => {
+        const next = new Set(current);
+        if (range && anchorIndex !== -1 && index !== -1) {
+          const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+          names.slice(start, end + 1).forEach((rangeName) => next.add(rangeName));
+        } else if (!next.delete(name)) {
+          next.add(name);
+        }
+        return next;
+      });
+      anchorRef.current = name;
+    },
+    [files]
+  );
+
+  const allSelected = files.length > 0 && selected.size === files.length;
+
+  const toggleAll = useCallback(() => {
+    setSelected(allSelected ? new Set() : new Set(files.map((file) => file.name)));
+  }, [allSelected, files]);
+
+  const clearSelection = useCallback(() => {
+    setSelected(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  return {
+    selected: files.filter((file) => selected.has(file.name)).map((file) => file.name),
+    isSelected: (name: string) => selected.has(name),
+    toggle,
+    toggleAll,
+    allSelected,
+    clearSelection,
+  };
+};
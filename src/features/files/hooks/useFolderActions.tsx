@@ -0,0 +1,220 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ApiError } from "../../../api/client";
+import { ModalDialog } from "../../../components/ui/ModalDialog";
+import { FOLDER_PATH_MAX_LENGTH } from "../../../constants";
+import {
+  FOLDER_PATH_PATTERN,
+  isFolderPathValid,
+  isOptionalFolderPathValid,
+  normalizeFolderPath,
+} from "../../../lib/folderValidation";
+import { joinFolderPath } from "../../../lib/navigation";
+import { useApiClient } from "../../../shared/hooks/useApiClient";
+import { TimedFeedbackMessage, useTimedFeedback } from "../../../shared/hooks/useTimedFeedback";
+
+type UseFolderActionsProps = {
+  eventId: string;
+  currentFolder: string;
+  /** Known folders, offered as merge targets */
+  folders: string[];
+  /** Called after a folder was created, merged or deleted, so the file list can be reloaded */
+  onChanged: () => void;
+};
+
+type UseFolderActionsResult = {
+  openCreate: () => void;
+  /** Both take the name of a subfolder of the current folder */
+  openMerge: (folder: string) => void;
+  openDelete: (folder: string) => void;
+  isBusy: boolean;
+  feedbackMessage: TimedFeedbackMessage | null;
+  folderDialogs: React.ReactNode;
+};
+
+const isErrorKey = (error: unknown, errorKey: string) =>
+  error instanceof ApiError &&
+  (error.body as { errorKey?: string } | undefined)?.errorKey === errorKey;
+
+export const useFolderActions = ({
+  eventId,
+  currentFolder,
+  folders,
+  onChanged,
+}: UseFolderActionsProps): UseFolderActionsResult => {
+  const { t } = useTranslation();
+  const apiClient = useApiClient("admin");
+  const feedback = useTimedFeedback();
+  const [isBusy, setIsBusy] = useState(false);
+  const [createValue, setCreateValue] = useState<string | null>(null);
+  const [createError, setCreateError] = useState("");
+  const [mergeCandidate, setMergeCandidate] = useState<string | null>(null);
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [deleteCandidate, setDeleteCandidate] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<string>, defaultError: string) => {
+    setIsBusy(true);
+    try {
+      feedback.showSuccess(await action());
+      onChanged();
+    } catch (error) {
+      feedback.showError(error instanceof Error ? error.message || defaultError : defaultError);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const createTrimmed = normalizeFolderPath(createValue ?? "");
+  const isCreateValid = createTrimmed.length > 0 && isFolderPathValid(createTrimmed);
+
+  const confirmCreate = async () => {
+    if (!isCreateValid) return;
+    const folder = joinFolderPath(currentFolder, createTrimmed);
+    setIsBusy(true);
+    try {
+      await apiClient.createFolder(eventId, folder);
+      setCreateValue(null);
+      feedback.showSuccess(t("FolderActions.createSuccess", { folder: createTrimmed }));
+      onChanged();
+    } catch (error) {
+      // a taken name keeps the dialog open, so it can be corrected
+      if (isErrorKey(error, "FOLDER_ALREADY_EXISTS")) {
+        setCreateError(t("FolderActions.createConflict"));
+      } else {
+        setCreateError(
+          error instanceof Error && error.message ? error.message : t("FolderActions.createError")
+        );
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const mergeSource = mergeCandidate ? joinFolderPath(currentFolder, mergeCandidate) : "";
+  const mergeTrimmed = normalizeFolderPath(mergeTarget);
+  const isMergeValid =
+    isOptionalFolderPathValid(mergeTrimmed) &&
+    mergeTrimmed !== mergeSource &&
+    !mergeTrimmed.startsWith(`${mergeSource}/`);
+
+  const confirmMerge = () => {
+    if (!mergeCandidate || !isMergeValid) return;
+    setMergeCandidate(null);
+    void run(async () => {
+      const result = await apiClient.mergeFolder(eventId, {
+        folder: mergeSource,
+        into: mergeTrimmed,
+      });
+      const moved = t("FolderActions.mergeSuccess", { count: result.moved });
+      return result.renamed
+        ? `${moved} ${t("FolderActions.mergeRenamed", { count: result.renamed })}`
+        : moved;
+    }, t("FolderActions.mergeError"));
+  };
+
+  const confirmDelete = () => {
+    if (!deleteCandidate) return;
+    const folder = joinFolderPath(currentFolder, deleteCandidate);
+    setDeleteCandidate(null);
+    void run(async () => {
+      const result = await apiClient.deleteFolder(eventId, folder);
+      return t("FolderActions.deleteSuccess", { count: result.deleted });
+    }, t("FolderActions.deleteError"));
+  };
+
+  const folderDialogs = (
+    <>
+      <ModalDialog
+        open={createValue !== null}
+        title={t("FolderActions.createTitle")}
+        onCancel={() => setCreateValue(null)}
+        onConfirm={() => void confirmCreate()}
+        confirmLabel={t("FolderActions.createConfirm")}
+        cancelLabel={t("FolderActions.cancel")}
+        closeOnEscape
+      >
+        <label className="field">
+          <span>{t("FolderActions.createLabel")}</span>
+          <input
+            type="text"
+            pattern={FOLDER_PATH_PATTERN}
+            maxLength={FOLDER_PATH_MAX_LENGTH}
+            value={createValue ?? ""}
+            onChange={(event) => {
+              setCreateValue(event.target.value);
+              setCreateError("");
+            }}
+            placeholder={t("FolderActions.createPlaceholder")}
+            data-testid="folder-create-input"
+          />
+          <p className="helper">{t("FolderActions.createHint")}</p>
+          {createValue && !isCreateValid ? (
+            <p className="helper status bad">{t("FolderActions.invalid")}</p>
+          ) : createError ? (
+            <p className="helper status bad">{createError}</p>
+          ) : null}
+        </label>
+      </ModalDialog>
+      <ModalDialog
+        open={mergeCandidate !== null}
+        title={t("FolderActions.mergeTitle", { folder: mergeCandidate ?? "" })}
+        onCancel={() => setMergeCandidate(null)}
+        onConfirm={confirmMerge}
+        confirmLabel={t("FolderActions.mergeConfirm")}
+        cancelLabel={t("FolderActions.cancel")}
+        closeOnEscape
+      >
+        <label className="field">
+          <span>{t("FolderActions.mergeLabel")}</span>
+          <input
+            type="text"
+            list="folder-merge-targets"
+            pattern={FOLDER_PATH_PATTERN}
+            maxLength={FOLDER_PATH_MAX_LENGTH}
+            value={mergeTarget}
+            onChange={(event) => setMergeTarget(event.target.value)}
+            placeholder={t("FolderActions.mergePlaceholder")}
+            data-testid="folder-merge-input"
+          />
+          <datalist id="folder-merge-targets">
+            {folders
+              .filter((folder) => folder !== mergeCandidate)
+              .map((folder) => (
+                <option key={folder} value={joinFolderPath(currentFolder, folder)} />
+              ))}
+          </datalist>
+          <p className="helper">{t("FolderActions.mergeHint")}</p>
+          {!isMergeValid ? (
+            <p className="helper status bad">{t("FolderActions.mergeInvalid")}</p>
+          ) : null}
+        </label>
+      </ModalDialog>
+      <ModalDialog
+        open={deleteCandidate !== null}
+        title={t("FolderActions.deleteTitle", { folder: deleteCandidate ?? "" })}
+        onCancel={() => setDeleteCandidate(null)}
+        onConfirm={confirmDelete}
+        confirmLabel={t("FolderActions.delete")}
+        cancelLabel={t("FolderActions.cancel")}
+        closeOnEscape
+      >
+        {t("FolderActions.deleteConfirm")}
+      </ModalDialog>
+    </>
+  );
+
+  return {
+    openCreate: () => {
+      setCreateValue("");
+      setCreateError("");
+    },
+    openMerge: (folder: string) => {
+      setMergeCandidate(folder);
+      setMergeTarget(currentFolder);
+    },
+    openDelete: setDeleteCandidate,
+    isBusy,
+    feedbackMessage: feedback.message,
+    folderDialogs,
+  };
+};
@@ -1,4 +1,5 @@
 import { useTranslation } from "react-i18next";
+import { RecoveryCodeDialog } from "../../shared/components/RecoveryCodeDialog";
 import { useNewEvent } from "./hooks/useNewEvent";
 
 type NewEventViewProps = { baseDomain: string; supportSubdomain: boolean; onCancel: () => void };
@@ -27,6 +28,8 @@ export function NewEventView({ baseDomain, supportSubdomain, onCancel }: NewEven
     ensureAdminValidity,
     ensureConfirmValidity,
     handleSubmit,
+    recoveryCode,
+    continueToAdmin,
   } = useNewEvent({ baseDomain, supportSubdomain });
 
   return (
@@ -236,6 +239,12 @@ export function NewEventView({ baseDomain, supportSubdomain, onCancel }: NewEven
           </button>
         </div>
       </form>
+      <RecoveryCodeDialog
+        recoveryCode={recoveryCode}
+        description={t("NewEventView.recoveryCodeDescription")}
+        confirmLabel={t("NewEventView.recoveryCodeContinue")}
+        onConfirm={continueToAdmin}
+      />
     </main>
   );
 }
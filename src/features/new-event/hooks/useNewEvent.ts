@@ -33,6 +33,9 @@ export type UseNewEventResult = {
   ensureAdminValidity: () => void;
   ensureConfirmValidity: () => void;
   handleSubmit: (event: FormEvent<HTMLFormElement>) => Promise<void>;
+  /** Set once the event exists, the code is shown before moving on to the admin view */
+  recoveryCode: string | null;
+  continueToAdmin: () => void;
 };
 
 export const useNewEvent = ({
@@ -49,6 +52,8 @@ export const useNewEvent = ({
   const [availability, setAvailability] = useState<Availability>("idle");
   const [availabilityMessage, setAvailabilityMessage] = useState("");
   const [submitError, setSubmitError] = useState("");
+  const [createdEventId, setCreatedEventId] = useState<string | null>(null);
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
   const adminPasswordRef = useRef<HTMLInputElement | null>(null);
   const adminPasswordConfirmRef = useRef<HTMLInputElement | null>(null);
 
@@ -227,16 +232,28 @@ export const useNewEvent = ({
         adminPasswordConfirm,
       });
 
-      const { setAdminToken } = useSessionStore.getState();
-      setAdminToken(adminPassword);
+      // signing in right away is a convenience, otherwise the admin view asks for the password
+      const session = await client
+        .login(response.eventId, { user: "admin", password: adminPassword })
+        .catch(() => null);
+      if (session) {
+        const { setAdminToken } = useSessionStore.getState();
+        setAdminToken(session.token);
+      }
 
-      redirectToAdmin(response.eventId, baseDomain, supportSubdomain);
+      setCreatedEventId(response.eventId);
+      setRecoveryCode(response.recoveryCode);
     } catch (error) {
       const message = error instanceof Error ? error.message : t("NewEventView.submitErrorServer");
       setSubmitError(message);
     }
   };
 
+  const continueToAdmin = () => {
+    if (!createdEventId) return;
+    redirectToAdmin(createdEventId, baseDomain, supportSubdomain);
+  };
+
   return {
     name,
     setName,
@@ -259,5 +276,7 @@ export const useNewEvent = ({
     ensureAdminValidity,
     ensureConfirmValidity,
     handleSubmit,
+    recoveryCode,
+    continueToAdmin,
   };
 };
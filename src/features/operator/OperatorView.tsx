@@ -0,0 +1,312 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ApiClient, ApiError } from "../../api/client";
+import type { OperatorEventSummary } from "../../api/types";
+import { ModalDialog } from "../../components/ui/ModalDialog";
+import { LogoutIcon } from "../../components/ui/icons";
+import { formatFileSize } from "../../lib/format";
+import { useSessionStore } from "../../lib/sessionStore";
+import { PasswordPrompt } from "../../shared/components/PasswordPrompt";
+import { useApiClient } from "../../shared/hooks/useApiClient";
+import { useTimedFeedback } from "../../shared/hooks/useTimedFeedback";
+
+type OperatorStatus = "loading" | "locked" | "ready" | "error";
+
+type PendingAction = { kind: "delete" | "reset"; event: OperatorEventSummary };
+
+type OperatorViewProps = {
+  onBackHome: () => void;
+};
+
+export function OperatorView({ onBackHome }: OperatorViewProps) {
+  const { t } = useTranslation();
+  const { operatorToken, setOperatorToken } = useSessionStore();
+  const apiClient = useApiClient("operator");
+  const [status, setStatus] = useState<OperatorStatus>(operatorToken ? "loading" : "locked");
+  const [events, setEvents] = useState<OperatorEventSummary[]>([]);
+  const [message, setMessage] = useState("");
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [resetResult, setResetResult] = useState<{ eventId: string; password: string } | null>(
+    null
+  );
+  const feedback = useTimedFeedback();
+
+  const handleApiError = useCallback(
+    (error: unknown, defaultMessage: string) => {
+      if (error instanceof ApiError && error.status === 401) {
+        setOperatorToken(null);
+        setMessage(t("OperatorView.sessionExpired"));
+        setStatus("locked");
+        return;
+      }
+      feedback.showError(error instanceof Error && error.message ? error.message : defaultMessage);
+    },
+    [feedback, setOperatorToken, t]
+  );
+
+  useEffect(() => {
+    if (!operatorToken) {
+      setStatus("locked");
+      return;
+    }
+    let active = true;
+    setStatus("loading");
+    apiClient
+      .listOperatorEvents()
+      .then((response) => {
+        if (!active) return;
+        setEvents(response.events);
+        setStatus("ready");
+      })
+      .catch((error: unknown) => {
+        if (!active) return;
+        if (error instanceof ApiError && error.status === 401) {
+          setOperatorToken(null);
+          setStatus("locked");
+          return;
+        }
+        setMessage(error instanceof Error ? error.message : t("OperatorView.loadError"));
+        setStatus("error");
+      });
+    return () => {
+      active = false;
+    };
+  }, [apiClient, operatorToken, setOperatorToken, t]);
+
+  const submitPassword = async (password: string) => {
+    setMessage("");
+    try {
+      const session = await ApiClient.anonymous().operatorLogin({ password });
+      setOperatorToken(session.token);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        setMessage(t("OperatorView.loginWrongPassword"));
+        return;
+      }
+      if (error instanceof ApiError && error.status === 404) {
+        setMessage(t("OperatorView.disabled"));
+        return;
+      }
+      setMessage(
+        error instanceof Error && error.message ? error.message : t("AdminView.serverUnavailable")
+      );
+    }
+  };
+
+  const logout = () => {
+    apiClient.operatorLogout().catch(() => {});
+    setOperatorToken(null);
+    setEvents([]);
+  };
+
+  const replaceEvent = (updated: OperatorEventSummary) => {
+    setEvents((current) =>
+      current.map((entry) => (entry.eventId === updated.eventId ? updated : entry))
+    );
+  };
+
+  const toggleLock = async (event: OperatorEventSummary) => {
+    try {
+      const updated = await apiClient.updateOperatorEvent(event.eventId, {
+        locked: !event.locked,
+      });
+      replaceEvent(updated);
+      feedback.showSuccess(
+        t(updated.locked ? "OperatorView.lockSuccess" : "OperatorView.unlockSuccess", {
+          eventId: event.eventId,
+        })
+      );
+    } catch (error) {
+      handleApiError(error, t("OperatorView.updateError"));
+    }
+  };
+
+  const confirmPendingAction = async () => {
+    if (!pendingAction) return;
+    const { kind, event } = pendingAction;
+    setPendingAction(null);
+    try {
+      if (kind === "delete") {
+        await apiClient.deleteOperatorEvent(event.eventId);
+        setEvents((current) => current.filter((entry) => entry.eventId !== event.eventId));
+        feedback.showSuccess(t("OperatorView.deleteSuccess", { eventId: event.eventId }));
+      } else {
+        const response = await apiClient.resetEventAdminPassword(event.eventId);
+        setResetResult({ eventId: event.eventId, password: response.adminPassword });
+      }
+    } catch (error) {
+      handleApiError(
+        error,
+        t(kind === "delete" ? "OperatorView.deleteError" : "OperatorView.resetError")
+      );
+    }
+  };
+
+  if (status === "locked") {
+    return (
+      <PasswordPrompt
+        title={t("OperatorView.loginTitle")}
+        description={t("OperatorView.loginDescription")}
+        passwordLabel={t("OperatorView.passwordLabel")}
+        onSubmit={(password) => submitPassword(password)}
+        primaryLabel={t("OperatorView.loginPrimary")}
+        secondaryLabel={t("EventView.backHome")}
+        onSecondary={onBackHome}
+        message={message}
+      />
+    );
+  }
+
+  if (status === "loading") {
+    return (
+      <main className="form-page">
+        <h1>{t("OperatorView.loading")}</h1>
+      </main>
+    );
+  }
+
+  if (status === "error") {
+    return (
+      <main className="form-page">
+        <h1>{t("OperatorView.title")}</h1>
+        <p className="lede" data-testid="operator-error">
+          {message}
+        </p>
+        <div className="actions">
+          <button className="primary" onClick={onBackHome}>
+            {t("EventView.backHome")}
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="form-page" data-testid="operator-view">
+      <div className="admin-actions">
+        <button
+          type="button"
+          className="ghost logout-btn"
+          onClick={logout}
+          data-testid="operator-logout"
+        >
+          <LogoutIcon />
+          <span className="logout-label">{t("AdminView.logout")}</span>
+        </button>
+      </div>
+      <header className="form-header">
+        <p className="eyebrow">{t("OperatorView.eyebrow")}</p>
+        <h1>{t("OperatorView.title")}</h1>
+        <p className="lede">{t("OperatorView.description", { count: events.length })}</p>
+      </header>
+      <div className="form-card">
+        {feedback.message ? (
+          <span className={`helper status ${feedback.message.tone}`}>{feedback.message.text}</span>
+        ) : null}
+        {events.length ? (
+          <div className="file-grid" data-testid="operator-event-list">
+            {events.map((event) => (
+              <div className="file-row" key={event.eventId} data-testid="operator-event-row">
+                <div className="file-meta">
+                  <span>
+                    {event.name} ({event.eventId})
+                    {event.locked ? (
+                      <span className="status bad"> {t("OperatorView.lockedBadge")}</span>
+                    ) : null}
+                  </span>
+                  <span className="helper">
+                    {t("OperatorView.createdAt", {
+                      date: new Date(event.createdAt).toLocaleString(),
+                    })}{" "}
+                    |{" "}
+                    {t("OperatorView.usage", {
+                      count: event.usedFiles,
+                      size: formatFileSize(event.usedBytes),
+                    })}{" "}
+                    |{" "}
+                    {event.lastUploadAt
+                      ? t("OperatorView.lastUpload", {
+                          date: new Date(event.lastUploadAt).toLocaleString(),
+                        })
+                      : t("OperatorView.noUploads")}
+                    {event.expiresAt ? (
+                      <>
+                        {" "}
+                        |{" "}
+                        {t("OperatorView.expiresAt", {
+                          date: new Date(event.expiresAt).toLocaleString(),
+                        })}
+                      </>
+                    ) : null}
+                  </span>
+                </div>
+                <div className="file-actions">
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={() => toggleLock(event)}
+                    data-testid="operator-event-lock"
+                  >
+                    {event.locked ? t("OperatorView.unlock") : t("OperatorView.lock")}
+                  </button>
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={() => setPendingAction({ kind: "reset", event })}
+                    data-testid="operator-event-reset"
+                  >
+                    {t("OperatorView.resetPassword")}
+                  </button>
+                  <button
+                    type="button"
+                    className="danger"
+                    onClick={() => setPendingAction({ kind: "delete", event })}
+                    data-testid="operator-event-delete"
+                  >
+                    {t("OperatorView.delete")}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="helper">{t("OperatorView.empty")}</p>
+        )}
+      </div>
+      <ModalDialog
+        open={Boolean(pendingAction)}
+        title={
+          pendingAction?.kind === "delete"
+            ? t("OperatorView.deleteDialogTitle")
+            : t("OperatorView.resetDialogTitle")
+        }
+        onCancel={() => setPendingAction(null)}
+        onConfirm={confirmPendingAction}
+        confirmLabel={
+          pendingAction?.kind === "delete" ? t("OperatorView.delete") : t("OperatorView.reset")
+        }
+        closeOnEscape
+      >
+        <p className="helper" style={{ textAlign: "left" }}>
+          {pendingAction?.kind === "delete"
+            ? t("OperatorView.deleteDialogQuestion", { eventId: pendingAction.event.eventId })
+            : t("OperatorView.resetDialogQuestion", { eventId: pendingAction?.event.eventId })}
+        </p>
+      </ModalDialog>
+      <ModalDialog
+        open={Boolean(resetResult)}
+        title={t("OperatorView.resetResultTitle")}
+        onCancel={() => setResetResult(null)}
+        cancelLabel={t("OperatorView.close")}
+        closeOnEscape
+      >
+        <p className="helper" style={{ textAlign: "left" }}>
+          {t("OperatorView.resetResultDescription", { eventId: resetResult?.eventId })}
+        </p>
+        <p style={{ marginTop: "12px" }}>
+          <code data-testid="operator-reset-password">{resetResult?.password}</code>
+        </p>
+      </ModalDialog>
+    </main>
+  );
+}
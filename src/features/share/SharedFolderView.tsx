@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ApiClient, ApiError } from "../../api/client";
+import type { FileEntry } from "../../api/types";
+import { DownloadIcon } from "../../components/ui/icons";
+import { FILE_LIST_PAGE_SIZE } from "../../constants";
+import { formatFileSize } from "../../lib/format";
+import { buildSharedFileUrl, buildSharedZipUrl, FolderShare } from "../../lib/shareLinks";
+import { LoadMoreFiles } from "../files/components/LoadMoreFiles";
+
+type SharedFolderStatus = "loading" | "ready" | "error";
+
+type SharedFolderViewProps = {
+  eventId: string;
+  share: FolderShare;
+  onBackHome: () => void;
+};
+
+export function SharedFolderView({ eventId, share, onBackHome }: SharedFolderViewProps) {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<SharedFolderStatus>("loading");
+  const [files, setFiles] = useState<FileEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const listPage = useCallback(
+    (cursor?: string) =>
+      ApiClient.anonymous().listFiles(eventId, {
+        folder: share.folder,
+        share: share.token,
+        cursor,
+        limit: FILE_LIST_PAGE_SIZE,
+      }),
+    [eventId, share.folder, share.token]
+  );
+
+  const showLoadError = useCallback(
+    (error: unknown) => {
+      if (error instanceof ApiError && error.status === 410) {
+        setMessage(t("SharedFolderView.expired"));
+      } else if (error instanceof ApiError && error.status === 403) {
+        setMessage(t("SharedFolderView.invalid"));
+      } else {
+        setMessage(t("SharedFolderView.loadError"));
+      }
+      setStatus("error");
+    },
+    [t]
+  );
+
+  useEffect(() => {
+    let active = true;
+    setStatus("loading");
+    listPage()
+      .then((response) => {
+        if (!active) return;
+        setFiles(response.files);
+        setNextCursor(response.nextCursor);
+        setStatus("ready");
+      })
+      .catch((error: unknown) => {
+        if (active) showLoadError(error);
+      });
+    return () => {
+      active = false;
+    };
+  }, [listPage, showLoadError]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const response = await listPage(nextCursor);
+      setFiles((current) => [...current, ...response.files]);
+      setNextCursor(response.nextCursor);
+    } catch (error) {
+      showLoadError(error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [isLoadingMore, listPage, nextCursor, showLoadError]);
+
+  if (status === "loading") {
+    return (
+      <main className="form-page">
+        <h1>{t("SharedFolderView.loading")}</h1>
+      </main>
+    );
+  }
+
+  if (status === "error") {
+    return (
+      <main className="form-page">
+        <h1>{t("SharedFolderView.title")}</h1>
+        <p className="lede" data-testid="shared-folder-error">
+          {message}
+        </p>
+        <div className="actions">
+          <button className="primary" onClick={onBackHome} data-testid="event-back-home">
+            {t("EventView.backHome")}
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="form-page" data-testid="shared-folder-view">
+      <header className="form-header">
+        <p className="eyebrow">{t("SharedFolderView.title")}</p>
+        <h1>{t("SharedFolderView.folderTitle", { folder: share.folder })}</h1>
+      </header>
+      <div className="form-card">
+        {files.length ? (
+          <div className="file-grid" data-testid="file-list">
+            {files.map((file) => (
+              <div className="file-row" key={file.name} data-testid="file-row">
+                <div className="file-meta">
+                  <span>{file.name}</span>
+                  <span className="helper">
+                    {formatFileSize(file.size)} | {new Date(file.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                <div className="file-actions">
+                  <a
+                    className="icon-btn"
+                    href={buildSharedFileUrl(eventId, share.folder, file.name, share.token)}
+                    download={file.name}
+                    title={t("FileBrowser.download")}
+                    aria-label={t("FileBrowser.download")}
+                  >
+                    <DownloadIcon />
+                  </a>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="helper">{t("SharedFolderView.empty")}</p>
+        )}
+        {nextCursor ? <LoadMoreFiles isLoading={isLoadingMore} onLoadMore={loadMore} /> : null}
+        {files.length ? (
+          <div className="actions">
+            <a
+              className="primary"
+              href={buildSharedZipUrl(eventId, share.folder, share.token)}
+              data-testid="shared-folder-zip"
+            >
+              {t("FileBrowser.downloadZip")}
+            </a>
+          </div>
+        ) : null}
+      </div>
+    </main>
+  );
+}
@@ -3,10 +3,11 @@ import { ApiClient } from "../../../api/client";
 import { formatFileSize } from "../../../lib/format";
 import { useUpload } from "../hooks/useUpload";
 import { UploadQueue } from "./UploadQueue";
+import { FOLDER_PATH_MAX_LENGTH } from "../../../constants";
 import {
-  FOLDER_PATTERN,
-  isFolderNameValid,
-  isOptionalFolderNameValid,
+  FOLDER_PATH_PATTERN,
+  isFolderPathValid,
+  isOptionalFolderPathValid,
 } from "../../../lib/folderValidation";
 
 type UploadFormProps = {
@@ -17,6 +18,11 @@ type UploadFormProps = {
   uploadMaxTotalSizeBytes: number;
   uploadFolderHint?: string | null;
   requireUploadFolder?: boolean;
+  /** Predefined folders, offered as suggestions or as the only choices */
+  uploadFolders?: string[];
+  restrictUploadFolders?: boolean;
+  /** Uploads wait for approval, tell guests why they do not show up right away */
+  moderateUploads?: boolean;
   onRefreshFiles: () => void;
   successDismissMs?: number;
 };
@@ -29,6 +35,9 @@ export function UploadForm({
   uploadMaxTotalSizeBytes,
   uploadFolderHint,
   requireUploadFolder = false,
+  uploadFolders = [],
+  restrictUploadFolders = false,
+  moderateUploads = false,
   onRefreshFiles,
   successDismissMs,
 }: UploadFormProps) {
@@ -61,9 +70,14 @@ export function UploadForm({
     uploadMaxFileSizeBytes > 0 && selectionStats.maxBytes > uploadMaxFileSizeBytes;
   const totalSizeExceeded =
     uploadMaxTotalSizeBytes > 0 && selectionStats.totalBytes > uploadMaxTotalSizeBytes;
-  const isFromNameValid = requireUploadFolder
-    ? isFolderNameValid(fromName)
-    : isOptionalFolderNameValid(fromName);
+  const usesFolderPicker = restrictUploadFolders && uploadFolders.length > 0;
+  const isFromNameValid = usesFolderPicker
+    ? requireUploadFolder
+      ? uploadFolders.includes(fromName)
+      : fromName === "" || uploadFolders.includes(fromName)
+    : requireUploadFolder
+      ? isFolderPathValid(fromName)
+      : isOptionalFolderPathValid(fromName);
   const effectiveUploadFolderHint = uploadFolderHint?.trim();
   const statusHintParts: string[] = [];
   if (maxSizeExceeded) statusHintParts.push(t("UploadForm.singleLimitExceeded"));
@@ -81,23 +95,58 @@ export function UploadForm({
       <div className="label-row">
         <h2 data-testid="upload-title">{t("UploadForm.title")}</h2>
       </div>
+      {moderateUploads ? (
+        <p className="helper" data-testid="upload-moderation-hint">
+          {t("UploadForm.moderationHint")}
+        </p>
+      ) : null}
       <label className="field">
         <span>{effectiveUploadFolderHint ? "Ordnername" : t("UploadForm.fromLabel")}</span>
-        <input
-          type="text"
-          placeholder={t("UploadForm.fromPlaceholder")}
-          pattern={FOLDER_PATTERN}
-          maxLength={32}
-          value={fromName}
-          onChange={(event) => setFromName(event.target.value)}
-          title={t("UploadForm.fromTitle")}
-          disabled={isUploading}
-          data-testid="upload-from-input"
-        />
+        {usesFolderPicker ? (
+          <select
+            value={fromName}
+            onChange={(event) => setFromName(event.target.value)}
+            disabled={isUploading}
+            data-testid="upload-from-select"
+          >
+            <option value="" disabled={requireUploadFolder}>
+              {requireUploadFolder ? t("UploadForm.fromSelect") : t("UploadForm.fromRoot")}
+            </option>
+            {uploadFolders.map((folder) => (
+              <option key={folder} value={folder}>
+                {folder}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <>
+            <input
+              type="text"
+              list={uploadFolders.length ? "upload-folder-suggestions" : undefined}
+              placeholder={t("UploadForm.fromPlaceholder")}
+              pattern={FOLDER_PATH_PATTERN}
+              maxLength={FOLDER_PATH_MAX_LENGTH}
+              value={fromName}
+              onChange={(event) => setFromName(event.target.value)}
+              title={t("UploadForm.fromTitle")}
+              disabled={isUploading}
+              data-testid="upload-from-input"
+            />
+            {uploadFolders.length ? (
+              <datalist id="upload-folder-suggestions">
+                {uploadFolders.map((folder) => (
+                  <option key={folder} value={folder} />
+                ))}
+              </datalist>
+            ) : null}
+          </>
+        )}
         {effectiveUploadFolderHint ? (
           <p className="hint">{effectiveUploadFolderHint}</p>
         ) : (
-          <p className="hint">{t("UploadForm.fromHint")}</p>
+          <p className="hint">
+            {usesFolderPicker ? t("UploadForm.fromPickerHint") : t("UploadForm.fromHint")}
+          </p>
         )}
         {!isFromNameValid ? (
           <p className="helper status bad">
@@ -0,0 +1,45 @@
+import { useTranslation } from "react-i18next";
+import { formatCountdown } from "../../../lib/format";
+import type { UseUploadWindowResult } from "../hooks/useUploadWindow";
+
+type UploadWindowNoticeProps = {
+  uploadWindow: UseUploadWindowResult;
+};
+
+export function UploadWindowNotice({ uploadWindow }: UploadWindowNoticeProps) {
+  const { t } = useTranslation();
+  const { state, remainingMs } = uploadWindow;
+
+  if (state === "closed") {
+    return (
+      <div className="form-card" data-testid="upload-window-closed">
+        <h2>{t("UploadWindowNotice.closedTitle")}</h2>
+        <p className="helper">{t("UploadWindowNotice.closedDescription")}</p>
+      </div>
+    );
+  }
+
+  if (remainingMs === null) return null;
+
+  const { days, time } = formatCountdown(remainingMs);
+  const countdown = days ? t("UploadWindowNotice.countdownDays", { count: days, time }) : time;
+
+  if (state === "notYetOpen") {
+    return (
+      <div className="form-card" data-testid="upload-window-pending">
+        <h2>{t("UploadWindowNotice.opensTitle")}</h2>
+        <p className="helper">
+          {t("UploadWindowNotice.opensIn")}{" "}
+          <strong data-testid="upload-window-countdown">{countdown}</strong>
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <p className="helper" data-testid="upload-window-closes">
+      {t("UploadWindowNotice.closesIn")}{" "}
+      <strong data-testid="upload-window-countdown">{countdown}</strong>
+    </p>
+  );
+}
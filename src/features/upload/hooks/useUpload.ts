@@ -1,5 +1,11 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ApiClient, ApiError, NetworkError } from "../../../api/client";
+import type { UploadFilesResponse } from "../../../api/types";
+import {
+  RESUMABLE_UPLOAD_CHUNK_BYTES,
+  RESUMABLE_UPLOAD_MAX_RETRIES,
+  RESUMABLE_UPLOAD_THRESHOLD_BYTES,
+} from "../../../constants";
 import { useTranslation } from "react-i18next";
 
 export type SelectionStats = {
@@ -57,6 +63,8 @@ const createUploadId = () => {
   return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
 };
 
+const wait = (ms: number) => new Promise((resolve) => window.setTimeout(resolve, ms));
+
 export function useUpload({
   apiClient,
   eventId,
@@ -83,6 +91,7 @@ export function useUpload({
   const successTimeoutsRef = useRef<Map<string, number>>(new Map());
   const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
   const canceledIdsRef = useRef<Set<string>>(new Set());
+  const resumableUploadIdsRef = useRef<Map<string, string>>(new Map());
 
   const matchesMime = useCallback((mime: string, allowedList: string[]) => {
     if (!allowedList.length) return true;
@@ -110,14 +119,22 @@ export function useUpload({
     setSelectionStats({ count, totalBytes, maxBytes });
   }, []);
 
-  const clearUploadItem = useCallback((id: string) => {
-    const timeoutId = successTimeoutsRef.current.get(id);
-    if (timeoutId) {
-      window.clearTimeout(timeoutId);
-      successTimeoutsRef.current.delete(id);
-    }
-    setUploadItems((prev) => prev.filter((item) => item.id !== id));
-  }, []);
+  const clearUploadItem = useCallback(
+    (id: string) => {
+      const timeoutId = successTimeoutsRef.current.get(id);
+      if (timeoutId) {
+        window.clearTimeout(timeoutId);
+        successTimeoutsRef.current.delete(id);
+      }
+      const resumableUploadId = resumableUploadIdsRef.current.get(id);
+      if (resumableUploadId) {
+        resumableUploadIdsRef.current.delete(id);
+        void apiClient.cancelResumableUpload(eventId, resumableUploadId).catch(() => {});
+      }
+      setUploadItems((prev) => prev.filter((item) => item.id !== id));
+    },
+    [apiClient, eventId]
+  );
 
   const cancelUploadItem = useCallback(
     (id: string) => {
@@ -162,6 +179,72 @@ export function useUpload({
     [clearUploadItem, successDismissMs]
   );
 
+  const uploadResumable = useCallback(
+    async (
+      item: UploadItem,
+      signal: AbortSignal,
+      onProgress: (loaded: number) => void
+    ): Promise<UploadFilesResponse> => {
+      const { file } = item;
+      let attempt = 0;
+      while (true) {
+        try {
+          let uploadId = resumableUploadIdsRef.current.get(item.id);
+          let offset = 0;
+          if (uploadId) {
+            try {
+              offset = await apiClient.getResumableUploadOffset(eventId, uploadId);
+            } catch (error) {
+              if (!(error instanceof ApiError && error.status === 404)) throw error;
+              // the staged upload expired on the server, start over
+              uploadId = undefined;
+            }
+          }
+          if (!uploadId) {
+            const created = await apiClient.createResumableUpload(eventId, {
+              filename: file.name,
+              size: file.size,
+              mimeType: file.type || undefined,
+              from: item.from,
+            });
+            uploadId = created.uploadId;
+            offset = created.offset;
+            resumableUploadIdsRef.current.set(item.id, uploadId);
+          }
+          onProgress(offset);
+
+          while (offset < file.size) {
+            const start = offset;
+            const status = await apiClient.uploadResumableChunk(eventId, uploadId, {
+              chunk: file.slice(start, start + RESUMABLE_UPLOAD_CHUNK_BYTES),
+              offset: start,
+              onProgress: ({ loaded }) => onProgress(start + loaded),
+              signal,
+            });
+            offset = status.offset;
+            attempt = 0;
+          }
+
+          const result = await apiClient.completeResumableUpload(eventId, uploadId);
+          resumableUploadIdsRef.current.delete(item.id);
+          return result;
+        } catch (error) {
+          // a lost response leaves the server ahead of us, the next attempt asks for the offset
+          const canResume =
+            error instanceof NetworkError || (error instanceof ApiError && error.status === 409);
+          if (!canResume || signal.aborted || attempt >= RESUMABLE_UPLOAD_MAX_RETRIES) {
+            if (error instanceof ApiError) resumableUploadIdsRef.current.delete(item.id);
+            throw error;
+          }
+          attempt += 1;
+          await wait(1000 * 2 ** (attempt - 1));
+          if (signal.aborted) throw error;
+        }
+      }
+    },
+    [apiClient, eventId]
+  );
+
   const startUpload = useCallback(
     async (item: UploadItem) => {
       if (activeUploadsRef.current.has(item.id)) return;
@@ -178,27 +261,35 @@ export function useUpload({
       const controller = new AbortController();
       abortControllersRef.current.set(item.id, controller);
 
+      const reportProgress = (loaded: number, total: number) => {
+        if (canceledIdsRef.current.has(item.id)) return;
+        setUploadItems((prev) =>
+          prev.map((entry) =>
+            entry.id === item.id
+              ? {
+                  ...entry,
+                  loadedBytes: loaded,
+                  totalBytes: total || entry.totalBytes,
+                  progress: total ? Math.min(100, Math.round((loaded / total) * 100)) : 0,
+                }
+              : entry
+          )
+        );
+      };
+
       try {
-        await apiClient.uploadFile(eventId, {
-          file: item.file,
-          from: item.from,
-          onProgress: ({ loaded, total }) => {
-            if (canceledIdsRef.current.has(item.id)) return;
-            setUploadItems((prev) =>
-              prev.map((entry) =>
-                entry.id === item.id
-                  ? {
-                      ...entry,
-                      loadedBytes: loaded,
-                      totalBytes: total || entry.totalBytes,
-                      progress: total ? Math.min(100, Math.round((loaded / total) * 100)) : 0,
-                    }
-                  : entry
-              )
-            );
-          },
-          signal: controller.signal,
-        });
+        if (item.file.size > RESUMABLE_UPLOAD_THRESHOLD_BYTES) {
+          await uploadResumable(item, controller.signal, (loaded) =>
+            reportProgress(loaded, item.file.size)
+          );
+        } else {
+          await apiClient.uploadFile(eventId, {
+            file: item.file,
+            from: item.from,
+            onProgress: ({ loaded, total }) => reportProgress(loaded, total),
+            signal: controller.signal,
+          });
+        }
 
         if (canceledIdsRef.current.has(item.id)) return;
         setUploadItems((prev) =>
@@ -223,7 +314,14 @@ export function useUpload({
         let canRetry = false;
 
         if (error instanceof ApiError) {
-          message = error.message || message;
+          const errorKey = (error.body as { errorKey?: string } | undefined)?.errorKey;
+          if (errorKey === "QUOTA_EXCEEDED") {
+            message = t("UploadForm.quotaExceeded");
+          } else if (error.status === 413) {
+            message = t("UploadForm.fileTooLarge");
+          } else {
+            message = error.message || message;
+          }
           errorType = error.status >= 400 && error.status < 500 ? "validation" : "server";
         } else if (error instanceof NetworkError) {
           message = t("UploadForm.networkError");
@@ -246,7 +344,7 @@ export function useUpload({
         canceledIdsRef.current.delete(item.id);
       }
     },
-    [apiClient, eventId, onRefreshFiles, scheduleSuccessCleanup, t]
+    [apiClient, eventId, onRefreshFiles, scheduleSuccessCleanup, t, uploadResumable]
   );
 
   const handleFileChange = useCallback(
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+
+export type UploadWindowState = "open" | "notYetOpen" | "closed";
+
+export type UseUploadWindowResult = {
+  state: UploadWindowState;
+  /** Time until the window opens or closes, null when nothing is scheduled */
+  remainingMs: number | null;
+};
+
+const COUNTDOWN_TICK_MS = 1000;
+
+const getUploadWindow = (
+  opensAt: string | null,
+  closesAt: string | null,
+  now: number
+): UseUploadWindowResult => {
+  const opensAtMs = opensAt ? Date.parse(opensAt) : null;
+  const closesAtMs = closesAt ? Date.parse(closesAt) : null;
+  if (opensAtMs !== null && now < opensAtMs) {
+    return { state: "notYetOpen", remainingMs: opensAtMs - now };
+  }
+  if (closesAtMs !== null && now >= closesAtMs) {
+    return { state: "closed", remainingMs: null };
+  }
+  return { state: "open", remainingMs: closesAtMs !== null ? closesAtMs - now : null };
+};
+
+/**
+ * Tracks the upload window of an event, mirrors the check of the server so the
+ * form opens and closes without a reload.
+ */
+export const useUploadWindow = (
+  opensAt: string | null,
+  closesAt: string | null
+): UseUploadWindowResult => {
+  const [now, setNow] = useState(() => Date.now());
+  const uploadWindow = getUploadWindow(opensAt, closesAt, now);
+  const ticking = uploadWindow.remainingMs !== null;
+
+  useEffect(() => {
+    if (!ticking) return;
+    const timer = setInterval(() => setNow(Date.now()), COUNTDOWN_TICK_MS);
+    return () => clearInterval(timer);
+  }, [ticking]);
+
+  return uploadWindow;
+};
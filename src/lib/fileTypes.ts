@@ -0,0 +1,22 @@
+const VIDEO_EXTENSIONS = new Set(["mp4", "m4v", "mov", "webm", "mkv", "avi"]);
+
+/**
+ * Checks by extension whether a file is a video the server can render posters for
+ * @param name - The file name
+ * @returns True for common video container extensions
+ */
+export const isVideoFile = (name: string): boolean => {
+  const dot = name.lastIndexOf(".");
+  if (dot <= 0 || dot >= name.length - 1) return false;
+  return VIDEO_EXTENSIONS.has(name.slice(dot + 1).toLowerCase());
+};
+
+/**
+ * Returns the extension the server compares when a file is renamed
+ * @param name - The file name
+ * @returns The lower-cased extension including the dot, empty when there is none
+ */
+export const getFileExtension = (name: string): string => {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot).toLowerCase() : "";
+};
@@ -1,7 +1,10 @@
-import { FOLDER_REGEX } from "../constants";
+import { FOLDER_REGEX, MAX_FOLDER_DEPTH } from "../constants";
 
 export const FOLDER_PATTERN = "[A-Za-z0-9 \\-]+";
 
+/** Folder names separated by "/", like "Ceremony/Camera A" */
+export const FOLDER_PATH_PATTERN = `${FOLDER_PATTERN}(/${FOLDER_PATTERN})*`;
+
 export const isFolderNameValid = (value: string) => {
   const trimmed = value.trim();
   return trimmed.length > 0 && FOLDER_REGEX.test(trimmed);
@@ -11,3 +14,20 @@ export const isOptionalFolderNameValid = (value: string) => {
   const trimmed = value.trim();
   return trimmed.length === 0 || FOLDER_REGEX.test(trimmed);
 };
+
+export const isFolderPathValid = (value: string) => {
+  const segments = value.trim().split("/");
+  return (
+    segments.length <= MAX_FOLDER_DEPTH && segments.every((segment) => isFolderNameValid(segment))
+  );
+};
+
+export const isOptionalFolderPathValid = (value: string) =>
+  value.trim().length === 0 || isFolderPathValid(value);
+
+/** Trims every segment, like the server does before it stores the path. */
+export const normalizeFolderPath = (value: string) =>
+  value
+    .split("/")
+    .map((segment) => segment.trim())
+    .join("/");
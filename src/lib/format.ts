@@ -15,3 +15,40 @@ export const formatFileSize = (bytes: number): string => {
   }
   return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
 };
+
+/**
+ * Splits a duration into whole days and the rest as a clock time
+ * @param ms - The duration in milliseconds, negative values count as zero
+ * @returns The days and the remaining time (e.g., { days: 2, time: "03:04:05" })
+ */
+export const formatCountdown = (ms: number): { days: number; time: string } => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const time = [hours, minutes, seconds].map((part) => String(part).padStart(2, "0")).join(":");
+  return { days, time };
+};
+
+/**
+ * Converts an ISO time to the local value of a datetime-local input
+ * @param iso - The ISO time, null gives an empty value
+ * @returns The local time without seconds (e.g., "2026-05-01T18:30")
+ */
+export const toDateTimeLocalValue = (iso: string | null): string => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Converts the value of a datetime-local input to an ISO time
+ * @param value - The local time, an empty value gives null
+ * @returns The ISO time in UTC or null
+ */
+export const fromDateTimeLocalValue = (value: string): string | null =>
+  value ? new Date(value).toISOString() : null;
@@ -52,5 +52,10 @@ export const getFolderFromLocation = (mode: FileBrowserMode, eventId: string): s
 
 export const buildFolderPath = (mode: FileBrowserMode, eventId: string, folder: string): string => {
   const base = getFileBrowserBasePath(mode, eventId);
-  return folder ? `${base}${base.endsWith("/") ? "" : "/"}${encodeURIComponent(folder)}` : base;
+  // nested folders stay readable in the address bar, only the names are encoded
+  const encoded = folder.split("/").map(encodeURIComponent).join("/");
+  return folder ? `${base}${base.endsWith("/") ? "" : "/"}${encoded}` : base;
 };
+
+export const joinFolderPath = (parent: string, name: string): string =>
+  parent ? `${parent}/${name}` : name;
@@ -18,5 +18,6 @@ export const resolveRoute = ({
     const parts = pathname.split("/").filter(Boolean);
     return parts[1] === "admin" ? "admin" : "event";
   }
+  if (pathname.endsWith("/operator")) return "operator";
   return pathname.endsWith("/new") ? "new" : "home";
 };
@@ -1,15 +1,18 @@
 import { create } from "zustand";
 import { createJSONStorage, persist } from "zustand/middleware";
 
+// the tokens are session tokens returned by the login endpoint, never the passwords
 export type SessionState = {
   guestToken?: string;
   adminToken?: string;
+  operatorToken?: string;
   skipDeleteConfirm?: boolean;
 };
 
 type SessionStore = SessionState & {
   setGuestToken: (token?: string | null) => void;
   setAdminToken: (token?: string | null) => void;
+  setOperatorToken: (token?: string | null) => void;
   setSkipDeleteConfirm: (value: boolean) => void;
   clear: () => void;
 };
@@ -24,15 +27,22 @@ export const useSessionStore = create<SessionStore>()(
       ...defaultState,
       setGuestToken: (token) => set({ guestToken: token || undefined }),
       setAdminToken: (token) => set({ adminToken: token || undefined }),
+      setOperatorToken: (token) => set({ operatorToken: token || undefined }),
       setSkipDeleteConfirm: (value) => set({ skipDeleteConfirm: value }),
       clear: () => set({ ...defaultState }),
     }),
     {
       name: SESSION_KEY,
+      // version 0 stored the plaintext passwords, those are dropped instead of migrated
+      version: 1,
+      migrate: (persisted) => ({
+        skipDeleteConfirm: (persisted as SessionState | undefined)?.skipDeleteConfirm,
+      }),
       storage: storage ? createJSONStorage(() => storage) : undefined,
       partialize: (state) => ({
         guestToken: state.guestToken,
         adminToken: state.adminToken,
+        operatorToken: state.operatorToken,
         skipDeleteConfirm: state.skipDeleteConfirm,
       }),
     }
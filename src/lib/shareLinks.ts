@@ -0,0 +1,54 @@
+import type { ShareLink } from "../api/types";
+import { apiBase } from "../constants";
+
+export type FolderShare = { token: string; folder: string };
+
+/**
+ * Reads a folder share link from the current page URL
+ * @returns The token and folder, or null when the page was not opened through a share link
+ */
+export const getFolderShareFromLocation = (): FolderShare | null => {
+  if (typeof window === "undefined") return null;
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get("share");
+  const folder = params.get("folder");
+  return token && folder ? { token, folder } : null;
+};
+
+const toAbsoluteUrl = (path: string): string =>
+  new URL(`${apiBase}${path}`, window.location.origin).toString();
+
+/**
+ * Builds the URL handed out for a share link
+ * Folder links open the event page, file and ZIP links download directly from the API
+ * @param share - The share link returned by the API
+ * @param eventUrl - The public URL of the event
+ */
+export const buildShareLinkUrl = (share: ShareLink, eventUrl: string): string => {
+  if (share.kind !== "folder") return toAbsoluteUrl(share.path);
+  const url = new URL(eventUrl);
+  url.searchParams.set("folder", share.folder);
+  url.searchParams.set("share", share.token);
+  return url.toString();
+};
+
+/**
+ * Builds the download URL of a file inside a shared folder
+ */
+export const buildSharedFileUrl = (
+  eventId: string,
+  folder: string,
+  filename: string,
+  token: string
+): string =>
+  toAbsoluteUrl(
+    `/api/events/${encodeURIComponent(eventId)}/files/${encodeURIComponent(folder)}/${encodeURIComponent(filename)}?share=${encodeURIComponent(token)}`
+  );
+
+/**
+ * Builds the ZIP download URL of a shared folder
+ */
+export const buildSharedZipUrl = (eventId: string, folder: string, token: string): string =>
+  toAbsoluteUrl(
+    `/api/events/${encodeURIComponent(eventId)}/files.zip?folder=${encodeURIComponent(folder)}&share=${encodeURIComponent(token)}`
+  );
@@ -4,10 +4,15 @@ type PasswordPromptProps = {
   title: string;
   description: string;
   passwordLabel: string;
-  onSubmit: (password: string, event: FormEvent<HTMLFormElement>) => void;
+  /** Shows an optional name field above the password, its value is passed to onSubmit */
+  nameLabel?: string;
+  nameHint?: string;
+  onSubmit: (password: string, event: FormEvent<HTMLFormElement>, name: string) => void;
   primaryLabel: string;
   secondaryLabel: string;
   onSecondary: () => void;
+  tertiaryLabel?: string;
+  onTertiary?: () => void;
   message?: string;
   initialPassword?: string;
 };
@@ -16,14 +21,19 @@ export function PasswordPrompt({
   title,
   description,
   passwordLabel,
+  nameLabel,
+  nameHint,
   onSubmit,
   primaryLabel,
   secondaryLabel,
   onSecondary,
+  tertiaryLabel,
+  onTertiary,
   message,
   initialPassword = "",
 }: PasswordPromptProps) {
   const [password, setPassword] = useState(initialPassword);
+  const [name, setName] = useState("");
 
   return (
     <main className="form-page" data-testid="password-prompt">
@@ -33,10 +43,24 @@ export function PasswordPrompt({
         className="form-card"
         onSubmit={(event) => {
           event.preventDefault();
-          onSubmit(password, event);
+          onSubmit(password, event, name.trim());
         }}
         data-testid="password-form"
       >
+        {nameLabel ? (
+          <label className="field">
+            <div className="label-row">
+              <span>{nameLabel}</span>
+              {nameHint ? <span className="hint">{nameHint}</span> : null}
+            </div>
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              autoComplete="username"
+              data-testid="password-name-input"
+            />
+          </label>
+        ) : null}
         <label className="field">
           <span>{passwordLabel}</span>
           <input
@@ -64,6 +88,16 @@ export function PasswordPrompt({
           >
             {secondaryLabel}
           </button>
+          {tertiaryLabel && onTertiary ? (
+            <button
+              type="button"
+              className="ghost"
+              onClick={onTertiary}
+              data-testid="password-tertiary"
+            >
+              {tertiaryLabel}
+            </button>
+          ) : null}
         </div>
       </form>
     </main>
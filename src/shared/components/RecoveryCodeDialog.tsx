@@ -0,0 +1,75 @@
+import { useTranslation } from "react-i18next";
+import { ModalDialog } from "../../components/ui/ModalDialog";
+import { CopyIcon } from "../../components/ui/icons";
+import { useTimedFeedback } from "../hooks/useTimedFeedback";
+
+type RecoveryCodeDialogProps = {
+  recoveryCode: string | null;
+  description: string;
+  confirmLabel: string;
+  onConfirm: () => void;
+};
+
+/**
+ * Shows a recovery code, the server only keeps its hash so this is the only chance to note it
+ * Closing the dialog counts as confirming
+ */
+export function RecoveryCodeDialog({
+  recoveryCode,
+  description,
+  confirmLabel,
+  onConfirm,
+}: RecoveryCodeDialogProps) {
+  const { t } = useTranslation();
+  const feedback = useTimedFeedback();
+
+  const copyRecoveryCode = async () => {
+    if (!recoveryCode) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCode);
+      feedback.showSuccess(t("RecoveryCodeDialog.copied"));
+    } catch {
+      feedback.showError(t("AdminView.shareCopyFailed"));
+    }
+  };
+
+  return (
+    <ModalDialog
+      open={Boolean(recoveryCode)}
+      title={t("RecoveryCodeDialog.title")}
+      onCancel={onConfirm}
+      showDefaultActions={false}
+      footerSlot={
+        <div className="modal-controls" style={{ padding: "12px 14px", justifyContent: "center" }}>
+          <button
+            type="button"
+            className="primary"
+            onClick={onConfirm}
+            data-testid="recovery-code-confirm"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      }
+    >
+      <p className="helper" style={{ textAlign: "left" }}>
+        {description}
+      </p>
+      <div className="qr-modal-link" style={{ marginTop: "12px" }}>
+        <code data-testid="recovery-code">{recoveryCode}</code>
+        <button
+          type="button"
+          className="icon-btn qr-copy-btn"
+          onClick={copyRecoveryCode}
+          title={t("RecoveryCodeDialog.copy")}
+          aria-label={t("RecoveryCodeDialog.copy")}
+        >
+          <CopyIcon size={14} />
+        </button>
+      </div>
+      {feedback.message ? (
+        <span className={`helper status ${feedback.message.tone}`}>{feedback.message.text}</span>
+      ) : null}
+    </ModalDialog>
+  );
+}
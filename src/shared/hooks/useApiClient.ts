@@ -2,14 +2,15 @@ import { useMemo } from "react";
 import { ApiClient } from "../../api/client";
 import { useSessionStore } from "../../lib/sessionStore";
 
-export type ApiClientMode = "admin" | "guest" | "anonymous";
+export type ApiClientMode = "admin" | "guest" | "operator" | "anonymous";
 
 export const useApiClient = (mode: ApiClientMode): ApiClient => {
-  const { adminToken, guestToken } = useSessionStore();
+  const { adminToken, guestToken, operatorToken } = useSessionStore();
 
   return useMemo(() => {
     if (mode === "admin") return ApiClient.withAdminToken(adminToken ?? "");
     if (mode === "guest") return ApiClient.withGuestToken(guestToken ?? "");
+    if (mode === "operator") return ApiClient.withOperatorToken(operatorToken ?? "");
     return ApiClient.anonymous();
-  }, [adminToken, guestToken, mode]);
+  }, [adminToken, guestToken, operatorToken, mode]);
 };
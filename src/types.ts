@@ -1,4 +1,4 @@
-export type Route = "home" | "new" | "event" | "admin";
+export type Route = "home" | "new" | "event" | "admin" | "operator";
 
 export type Availability = "idle" | "invalid" | "checking" | "available" | "taken" | "error";
 
@@ -12,8 +12,13 @@ export type EventMeta = {
   secured: boolean;
   allowGuestDownload?: boolean;
   allowGuestUpload?: boolean;
+  moderateUploads?: boolean;
   requireUploadFolder?: boolean;
   uploadFolderHint?: string | null;
+  uploadFolders?: string[];
+  restrictUploadFolders?: boolean;
+  uploadOpensAt?: string | null;
+  uploadClosesAt?: string | null;
   uploadMaxFileSizeBytes?: number;
   uploadMaxTotalSizeBytes?: number;
 };
@@ -3,7 +3,7 @@ import { createCleanupTracker } from "./support/cleanup";
 import { getUniqueEventId } from "./support/ids";
 import { readFileSync } from "node:fs";
 
-type Auth = { user: "admin" | "guest"; password: string };
+type Auth = { user: "admin" | "moderator" | "guest"; password: string };
 
 const cleanup = createCleanupTracker();
 
@@ -28,6 +28,18 @@ const toAuthHeader = (auth?: Auth) => {
   return { Authorization: `Basic ${token}` };
 };
 
+const toBearerHeader = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+const toCoHostHeader = (name: string, password: string) => ({
+  Authorization: `Basic ${Buffer.from(`${name}:${password}`).toString("base64")}`,
+});
+
+const operatorPassword = process.env.E2E_OPERATOR_PASSWORD ?? "e2e-operator-password";
+
+const toOperatorHeader = (password = operatorPassword) => ({
+  Authorization: `Basic ${Buffer.from(`operator:${password}`).toString("base64")}`,
+});
+
 type CreateEventPayload = {
   name: string;
   description: string;
@@ -40,6 +52,9 @@ type CreateEventPayload = {
   allowGuestUpload?: boolean;
   requireUploadFolder?: boolean;
   uploadFolderHint?: string | null;
+  uploadOpensAt?: string | null;
+  uploadClosesAt?: string | null;
+  expiresAt?: string | null;
 };
 
 const createEventPayload = (overrides?: Partial<CreateEventPayload>): CreateEventPayload => ({
@@ -76,7 +91,7 @@ const expectEventInfoBody = (
     allowGuestUpload: boolean;
     requireUploadFolder: boolean;
     uploadFolderHint: string | null;
-    accessLevel: "unauthenticated" | "guest" | "admin";
+    accessLevel: "unauthenticated" | "guest" | "moderator" | "admin";
   }
 ) => {
   expect(body).toBeTruthy();
@@ -88,12 +103,23 @@ const expectEventInfoBody = (
     "createdAt",
     "description",
     "eventId",
+    "expiresAt",
+    "moderateUploads",
+    "moderatorEnabled",
     "name",
+    "quotaBytes",
+    "quotaFiles",
     "requireUploadFolder",
+    "restrictUploadFolders",
     "secured",
+    "uploadClosesAt",
     "uploadFolderHint",
+    "uploadFolders",
     "uploadMaxFileSizeBytes",
+    "uploadOpensAt",
     "uploadMaxTotalSizeBytes",
+    // the storage usage is only reported to admins
+    ...(expected.accessLevel === "admin" ? ["usedBytes", "usedFiles"] : []),
   ]);
   expect(body.eventId).toBe(expected.eventId);
   expect(body.name).toBe(expected.name);
@@ -108,6 +134,8 @@ const expectEventInfoBody = (
   expect(typeof body.createdAt).toBe("string");
   expect(typeof body.uploadMaxFileSizeBytes).toBe("number");
   expect(typeof body.uploadMaxTotalSizeBytes).toBe("number");
+  expect(typeof body.quotaBytes).toBe("number");
+  expect(typeof body.quotaFiles).toBe("number");
 };
 
 const expectUpdateEventBody = (
@@ -133,13 +161,24 @@ const expectUpdateEventBody = (
     "createdAt",
     "description",
     "eventId",
+    "expiresAt",
+    "moderateUploads",
+    "moderatorEnabled",
     "name",
     "ok",
+    "quotaBytes",
+    "quotaFiles",
     "requireUploadFolder",
+    "restrictUploadFolders",
     "secured",
+    "uploadClosesAt",
     "uploadFolderHint",
+    "uploadFolders",
     "uploadMaxFileSizeBytes",
+    "uploadOpensAt",
     "uploadMaxTotalSizeBytes",
+    "usedBytes",
+    "usedFiles",
   ]);
   expect(body.ok).toBe(true);
   expect(body.eventId).toBe(expected.eventId);
@@ -155,6 +194,10 @@ const expectUpdateEventBody = (
   expect(typeof body.createdAt).toBe("string");
   expect(typeof body.uploadMaxFileSizeBytes).toBe("number");
   expect(typeof body.uploadMaxTotalSizeBytes).toBe("number");
+  expect(typeof body.usedBytes).toBe("number");
+  expect(typeof body.usedFiles).toBe("number");
+  expect(typeof body.quotaBytes).toBe("number");
+  expect(typeof body.quotaFiles).toBe("number");
 };
 
 const expectDeleteEventBody = (body: Record<string, unknown>) => {
@@ -167,8 +210,11 @@ const expectListFilesBody = (
   body: Record<string, unknown>,
   expected: { folder: string; files: Array<{ name: string; size: number }>; folders: string[] }
 ) => {
-  expectExactKeys(body, ["files", "folders", "folder"]);
+  expectExactKeys(body, ["breadcrumbs", "files", "folders", "folder", "nextCursor", "total"]);
   expect(body.folder).toBe(expected.folder);
+  expect(body.total).toBe(expected.files.length);
+  expect(body.nextCursor).toBeNull();
+  expect(Array.isArray(body.breadcrumbs)).toBe(true);
   expect(body.folders).toEqual(expected.folders);
   expect(Array.isArray(body.files)).toBe(true);
   expect(body.files).toHaveLength(expected.files.length);
@@ -202,6 +248,8 @@ const expectDeleteFileBody = (body: Record<string, unknown>) => {
   expect(body.ok).toBe(true);
 };
 
+const RECOVERY_CODE_PATTERN = /^[A-Z2-9]{4}(-[A-Z2-9]{4}){3}$/;
+
 const createEvent = async (
   request: import("@playwright/test").APIRequestContext,
   baseURL?: string,
@@ -212,7 +260,8 @@ const createEvent = async (
     const payload = createEventPayload(overrides);
     const response = await request.post(`${apiBase}/api/events`, { data: payload });
     expect(response.status()).toBe(200);
-    const body = await response.json();
+    const { recoveryCode, ...body } = await response.json();
+    expect(recoveryCode).toMatch(RECOVERY_CODE_PATTERN);
     const guestPassword = payload.guestPassword as string;
     const secured = Boolean(guestPassword);
     const allowGuestDownload = payload.allowGuestDownload === true && secured;
@@ -244,7 +293,7 @@ const createEvent = async (
       adminPassword: payload.adminPassword as string,
       baseURL,
     });
-    return { response, payload, body };
+    return { response, payload, body, recoveryCode: recoveryCode as string };
   });
 
 const uploadFile = async (
@@ -286,6 +335,10 @@ const uploadFile = async (
   });
 
 const tinyPng = readFileSync("tests/e2e/assets/sample.png");
+const tinyGif = readFileSync("tests/e2e/assets/sample.gif");
+const tinyTiff = readFileSync("tests/e2e/assets/sample.tiff");
+const tinyAvif = readFileSync("tests/e2e/assets/sample.avif");
+const tinyMp4 = readFileSync("tests/e2e/assets/sample.mp4");
 
 test.afterEach(async ({ request }) => {
   await cleanup.cleanupAll(request);
@@ -480,6 +533,38 @@ test.describe("GET /api/events/{eventId}", () => {
       uploadFolderHint: null,
       accessLevel: "admin",
     });
+    expect(body.usedBytes).toBe(0);
+    expect(body.usedFiles).toBe(0);
+  });
+
+  test("returns storage usage of uploaded files", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const auth = { user: "admin", password: payload.adminPassword as string };
+
+    await uploadFile(request, apiBase, payload.eventId as string, auth, {
+      name: "root.txt",
+      mimeType: "text/plain",
+      content: "hello",
+    });
+    await uploadFile(
+      request,
+      apiBase,
+      payload.eventId as string,
+      auth,
+      { name: "nested.txt", mimeType: "text/plain", content: "hello world" },
+      "album-a"
+    );
+
+    const response = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      { headers: toAuthHeader(auth) }
+    );
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    expect(body.usedBytes).toBe(16);
+    expect(body.usedFiles).toBe(2);
   });
 
   test("returns event info with guest auth", async ({ request }, testInfo) => {
@@ -553,238 +638,1756 @@ test.describe("GET /api/events/{eventId}", () => {
   });
 });
 
-test.describe("PATCH /api/events/{eventId}", () => {
-  test("updates event settings with admin auth", async ({ request }, testInfo) => {
+test.describe("POST /api/events/{eventId}/login", () => {
+  test("exchanges passwords for session tokens", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
-
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      {
-        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
-        data: {
-          name: "Updated Name",
-          description: "Updated description",
-          allowedMimeTypes: ["image/png"],
-          allowGuestDownload: true,
-        },
-      }
-    );
-    expect(response.status()).toBe(200);
-    const body = await response.json();
-    expectUpdateEventBody(body, {
-      eventId: payload.eventId as string,
-      name: "Updated Name",
-      description: "Updated description",
-      allowedMimeTypes: ["image/png"],
-      secured: true,
-      allowGuestDownload: true,
-      allowGuestUpload: true,
-      requireUploadFolder: false,
-      uploadFolderHint: null,
-      accessLevel: "admin",
-    });
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+
+    for (const [user, password] of [
+      ["admin", payload.adminPassword],
+      ["guest", payload.guestPassword],
+    ] as const) {
+      const login = await request.post(`${eventPath}/login`, { data: { user, password } });
+      expect(login.status()).toBe(200);
+      const session = await login.json();
+      expectExactKeys(session, ["token", "role", "expiresAt"]);
+      expect(session.role).toBe(user);
+      expect(Date.parse(session.expiresAt)).toBeGreaterThan(Date.now());
+      expect(session.token).not.toContain(password);
+
+      const response = await request.get(eventPath, { headers: toBearerHeader(session.token) });
+      expect(response.status()).toBe(200);
+      expect((await response.json()).accessLevel).toBe(user);
+    }
   });
 
-  test("rejects missing auth", async ({ request }, testInfo) => {
+  test("rejects wrong password", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
-
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      { data: { name: "No Auth" } }
+
+    const response = await request.post(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/login`,
+      { data: { user: "admin", password: payload.guestPassword } }
     );
     expect(response.status()).toBe(401);
     const body = await response.json();
     expect(body.errorKey).toBe("AUTHORIZATION_REQUIRED");
+    expect(body.property).toBe("password");
   });
 
-  test("rejects guest auth", async ({ request }, testInfo) => {
+  test("rejects invalid body", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
-
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      {
-        headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }),
-        data: { name: "Guest Update" },
-      }
+
+    const response = await request.post(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/login`,
+      { data: { user: "owner", password: payload.adminPassword } }
     );
-    expect(response.status()).toBe(403);
+    expect(response.status()).toBe(400);
     const body = await response.json();
-    expect(body.errorKey).toBe("AUTHORIZATION_REQUIRED");
+    expect(body.errorKey).toBe("INVALID_INPUT");
   });
 
-  test("rejects wrong admin password", async ({ request }, testInfo) => {
+  test("rejects tampered tokens and guest tokens on admin routes", async ({
+    request,
+  }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
-
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      {
-        headers: toAuthHeader({ user: "admin", password: "wrongpass" }),
-        data: { name: "Wrong Admin" },
-      }
-    );
-    expect(response.status()).toBe(401);
-    const body = await response.json();
-    expect(body.errorKey).toBe("AUTHORIZATION_REQUIRED");
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+
+    const login = await request.post(`${eventPath}/login`, {
+      data: { user: "guest", password: payload.guestPassword },
+    });
+    const { token } = await login.json();
+    const [encoded, signature] = (token as string).split(".");
+    const claims = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    const forged = `${Buffer.from(JSON.stringify({ ...claims, role: "admin" })).toString("base64url")}.${signature}`;
+
+    const forgedResponse = await request.get(eventPath, { headers: toBearerHeader(forged) });
+    expect(forgedResponse.status()).toBe(401);
+    expect((await forgedResponse.json()).errorKey).toBe("AUTHORIZATION_REQUIRED");
+
+    const adminResponse = await request.delete(eventPath, { headers: toBearerHeader(token) });
+    expect(adminResponse.status()).toBe(403);
   });
 
-  test("rejects invalid guest password length", async ({ request }, testInfo) => {
+  test("ends guest sessions when the guest password changes", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
-
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      {
-        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
-        data: { guestPassword: "123" },
-      }
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+
+    const login = await request.post(`${eventPath}/login`, {
+      data: { user: "guest", password: payload.guestPassword },
+    });
+    const { token } = await login.json();
+
+    const update = await request.patch(eventPath, {
+      headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+      data: { guestPassword: "newguestpass" },
+    });
+    expect(update.status()).toBe(200);
+
+    const response = await request.get(eventPath, { headers: toBearerHeader(token) });
+    expect(response.status()).toBe(401);
+  });
+
+  test("returns not found for missing event", async ({ request }, testInfo) => {
+    const apiBase = getApiBaseUrl(testInfo.project.use.baseURL as string | undefined);
+    const response = await request.post(
+      `${apiBase}/api/events/${encodeURIComponent(getUniqueEventId("missing"))}/login`,
+      { data: { user: "admin", password: "adminpass123" } }
     );
-    expect(response.status()).toBe(400);
-    const body = await response.json();
-    expect(body.errorKey).toBe("INVALID_INPUT");
-    expect(body.property).toBe("guestPassword");
+    expect(response.status()).toBe(404);
   });
+});
 
-  test("rejects allowGuestDownload without guest password", async ({ request }, testInfo) => {
+test.describe("POST /api/events/{eventId}/logout", () => {
+  test("revokes the session token", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
-    const { payload } = await createEvent(request, baseURL, { guestPassword: "" });
-
+    const { payload } = await createEvent(request, baseURL);
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      {
-        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
-        data: { allowGuestDownload: true },
-      }
-    );
-    expect(response.status()).toBe(400);
-    const body = await response.json();
-    expect(body.errorKey).toBe("INVALID_INPUT");
-    expect(body.property).toBe("allowGuestDownload");
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+
+    const login = await request.post(`${eventPath}/login`, {
+      data: { user: "admin", password: payload.adminPassword },
+    });
+    const { token } = await login.json();
+    const otherLogin = await request.post(`${eventPath}/login`, {
+      data: { user: "admin", password: payload.adminPassword },
+    });
+    const { token: otherToken } = await otherLogin.json();
+
+    const logout = await request.post(`${eventPath}/logout`, { headers: toBearerHeader(token) });
+    expect(logout.status()).toBe(200);
+    expect(await logout.json()).toEqual({ success: true });
+
+    const revoked = await request.get(eventPath, { headers: toBearerHeader(token) });
+    expect(revoked.status()).toBe(401);
+    const other = await request.get(eventPath, { headers: toBearerHeader(otherToken) });
+    expect(other.status()).toBe(200);
   });
 
-  test("rejects invalid mime type", async ({ request }, testInfo) => {
+  test("rejects missing auth on secured event", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
-
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      {
-        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
-        data: { allowedMimeTypes: ["not a mime"] },
-      }
+
+    const response = await request.post(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/logout`
     );
-    expect(response.status()).toBe(400);
-    const body = await response.json();
-    expect(body.errorKey).toBe("INVALID_INPUT");
-    expect(body.property).toBe("allowedMimeTypes.0");
+    expect(response.status()).toBe(401);
   });
+});
 
-  test("rejects empty name", async ({ request }, testInfo) => {
+test.describe("admin password /api/events/{eventId}/admin-password and /recover", () => {
+  test("changes the admin password and ends previous admin sessions", async ({
+    request,
+  }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
-
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      {
-        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
-        data: { name: "" },
-      }
-    );
-    expect(response.status()).toBe(400);
-    const body = await response.json();
-    expect(body.errorKey).toBe("INVALID_INPUT");
-    expect(body.property).toBe("name");
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+
+    const login = await request.post(`${eventPath}/login`, {
+      data: { user: "admin", password: payload.adminPassword },
+    });
+    const { token } = await login.json();
+
+    const response = await request.post(`${eventPath}/admin-password`, {
+      headers: toBearerHeader(token),
+      data: {
+        currentPassword: payload.adminPassword,
+        newPassword: "changedadmin123",
+        newPasswordConfirm: "changedadmin123",
+      },
+    });
+    expect(response.status()).toBe(200);
+    cleanup.track({
+      eventId: payload.eventId as string,
+      adminPassword: "changedadmin123",
+      baseURL,
+    });
+    const session = await response.json();
+    expectExactKeys(session, ["token", "role", "expiresAt"]);
+    expect(session.role).toBe("admin");
+
+    const previous = await request.get(eventPath, { headers: toBearerHeader(token) });
+    expect(previous.status()).toBe(401);
+    const current = await request.get(eventPath, { headers: toBearerHeader(session.token) });
+    expect(current.status()).toBe(200);
+    expect((await current.json()).accessLevel).toBe("admin");
+
+    const oldPassword = await request.post(`${eventPath}/login`, {
+      data: { user: "admin", password: payload.adminPassword },
+    });
+    expect(oldPassword.status()).toBe(401);
   });
 
-  test("rejects name longer than 48 characters", async ({ request }, testInfo) => {
+  test("rejects a wrong current password", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
-
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      {
-        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
-        data: { name: "a".repeat(60) },
-      }
-    );
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+
+    const response = await request.post(`${eventPath}/admin-password`, {
+      headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+      data: {
+        currentPassword: "wrongpassword",
+        newPassword: "changedadmin123",
+        newPasswordConfirm: "changedadmin123",
+      },
+    });
     expect(response.status()).toBe(400);
     const body = await response.json();
-    expect(body.errorKey).toBe("INVALID_INPUT");
-    expect(body.property).toBe("name");
+    expect(body.errorKey).toBe("WRONG_CURRENT_PASSWORD");
+    expect(body.property).toBe("currentPassword");
   });
 
-  test("rejects description longer than 2048 characters", async ({ request }, testInfo) => {
+  test("rejects mismatching new passwords and guest access", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
-
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      {
-        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
-        data: { description: "b".repeat(2100) },
-      }
-    );
-    expect(response.status()).toBe(400);
-    const body = await response.json();
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const data = {
+      currentPassword: payload.adminPassword,
+      newPassword: "changedadmin123",
+      newPasswordConfirm: "changedadmin456",
+    };
+
+    const mismatch = await request.post(`${eventPath}/admin-password`, {
+      headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+      data,
+    });
+    expect(mismatch.status()).toBe(400);
+    const body = await mismatch.json();
     expect(body.errorKey).toBe("INVALID_INPUT");
-    expect(body.property).toBe("description");
+    expect(body.property).toBe("newPasswordConfirm");
+
+    const guest = await request.post(`${eventPath}/admin-password`, {
+      headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }),
+      data: { ...data, newPasswordConfirm: data.newPassword },
+    });
+    expect(guest.status()).toBe(403);
   });
 
-  test("allows enabling guest downloads when guest password provided", async ({
-    request,
-  }, testInfo) => {
+  test("recovers admin access with the recovery code once", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
-    const { payload } = await createEvent(request, baseURL, { guestPassword: "" });
-
+    const { payload, recoveryCode } = await createEvent(request, baseURL);
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      {
-        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
-        data: { guestPassword: "guest1234", allowGuestDownload: true },
-      }
-    );
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const data = {
+      // codes are accepted in any case and without dashes
+      recoveryCode: recoveryCode.toLowerCase().replaceAll("-", " "),
+      newPassword: "recoveredadmin123",
+      newPasswordConfirm: "recoveredadmin123",
+    };
+
+    const response = await request.post(`${eventPath}/recover`, { data });
     expect(response.status()).toBe(200);
-    const body = await response.json();
-    expectUpdateEventBody(body, {
+    cleanup.track({
       eventId: payload.eventId as string,
-      name: payload.name as string,
-      description: payload.description as string,
-      allowedMimeTypes: payload.allowedMimeTypes as string[],
-      secured: true,
-      allowGuestDownload: true,
-      allowGuestUpload: true,
-      requireUploadFolder: false,
-      uploadFolderHint: null,
-      accessLevel: "admin",
+      adminPassword: "recoveredadmin123",
+      baseURL,
+    });
+    const body = await response.json();
+    expectExactKeys(body, ["token", "role", "expiresAt", "recoveryCode"]);
+    expect(body.role).toBe("admin");
+    expect(body.recoveryCode).toMatch(RECOVERY_CODE_PATTERN);
+    expect(body.recoveryCode).not.toBe(recoveryCode);
+
+    const login = await request.post(`${eventPath}/login`, {
+      data: { user: "admin", password: "recoveredadmin123" },
     });
+    expect(login.status()).toBe(200);
+
+    const reused = await request.post(`${eventPath}/recover`, { data });
+    expect(reused.status()).toBe(401);
+    expect((await reused.json()).errorKey).toBe("INVALID_RECOVERY_CODE");
   });
 
-  test("updates allowGuestUpload flag", async ({ request }, testInfo) => {
+  test("regenerates the recovery code", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
-    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
-
+    const { payload, recoveryCode } = await createEvent(request, baseURL);
     const apiBase = getApiBaseUrl(baseURL);
-    const response = await request.patch(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
-      {
-        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
-        data: { allowGuestUpload: false },
-      }
-    );
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+
+    const unauthenticated = await request.post(`${eventPath}/recovery-code`);
+    expect(unauthenticated.status()).toBe(401);
+
+    const response = await request.post(`${eventPath}/recovery-code`, {
+      headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+    });
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    expectExactKeys(body, ["recoveryCode"]);
+    expect(body.recoveryCode).toMatch(RECOVERY_CODE_PATTERN);
+
+    const previous = await request.post(`${eventPath}/recover`, {
+      data: {
+        recoveryCode,
+        newPassword: "recoveredadmin123",
+        newPasswordConfirm: "recoveredadmin123",
+      },
+    });
+    expect(previous.status()).toBe(401);
+  });
+});
+
+test.describe("co-hosts /api/events/{eventId}/co-hosts", () => {
+  const addCoHost = async (
+    request: import("@playwright/test").APIRequestContext,
+    eventPath: string,
+    adminPassword: string,
+    data: { name: string; password: string }
+  ) => {
+    const response = await request.post(`${eventPath}/co-hosts`, {
+      headers: toAuthHeader({ user: "admin", password: adminPassword }),
+      data,
+    });
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    expectExactKeys(body, ["coHostId", "name", "createdAt"]);
+    expect(body.name).toBe(data.name);
+    return body as { coHostId: string; name: string; createdAt: string };
+  };
+
+  test("adds co-hosts who log in with their own name", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminPassword = payload.adminPassword as string;
+
+    const coHost = await addCoHost(request, eventPath, adminPassword, {
+      name: "Anna",
+      password: "annapass123",
+    });
+
+    const login = await request.post(`${eventPath}/login`, {
+      data: { user: "admin", name: "anna", password: "annapass123" },
+    });
+    expect(login.status()).toBe(200);
+    const session = await login.json();
+    expect(session.role).toBe("admin");
+
+    const list = await request.get(`${eventPath}/co-hosts`, {
+      headers: toBearerHeader(session.token),
+    });
+    expect(list.status()).toBe(200);
+    const body = await list.json();
+    expectExactKeys(body, ["coHosts", "principal"]);
+    expect(body.coHosts).toEqual([coHost]);
+    expect(body.principal).toBe("Anna");
+
+    const basic = await request.get(eventPath, {
+      headers: toCoHostHeader("Anna", "annapass123"),
+    });
+    expect(basic.status()).toBe(200);
+    expect((await basic.json()).accessLevel).toBe("admin");
+
+    const wrongPassword = await request.post(`${eventPath}/login`, {
+      data: { user: "admin", name: "Anna", password: adminPassword },
+    });
+    expect(wrongPassword.status()).toBe(401);
+  });
+
+  test("lets co-hosts manage files but not admins", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminPassword = payload.adminPassword as string;
+    await addCoHost(request, eventPath, adminPassword, { name: "Ben", password: "benpass123" });
+    const coHostAuth = toCoHostHeader("Ben", "benpass123");
+
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      { user: "guest", password: payload.guestPassword as string },
+      { name: "cohost.txt", mimeType: "text/plain", content: "hello" }
+    );
+    const deleteFile = await request.delete(`${eventPath}/files/cohost.txt`, {
+      headers: coHostAuth,
+    });
+    expect(deleteFile.status()).toBe(200);
+
+    const addOther = await request.post(`${eventPath}/co-hosts`, {
+      headers: coHostAuth,
+      data: { name: "Carla", password: "carlapass123" },
+    });
+    expect(addOther.status()).toBe(403);
+    expect((await addOther.json()).errorKey).toBe("OWNER_ACCESS_REQUIRED");
+
+    const changePassword = await request.post(`${eventPath}/admin-password`, {
+      headers: coHostAuth,
+      data: {
+        currentPassword: adminPassword,
+        newPassword: "changedadmin123",
+        newPasswordConfirm: "changedadmin123",
+      },
+    });
+    expect(changePassword.status()).toBe(403);
+    expect((await changePassword.json()).errorKey).toBe("OWNER_ACCESS_REQUIRED");
+  });
+
+  test("removing a co-host ends their sessions", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminPassword = payload.adminPassword as string;
+    const coHost = await addCoHost(request, eventPath, adminPassword, {
+      name: "Dana",
+      password: "danapass123",
+    });
+
+    const login = await request.post(`${eventPath}/login`, {
+      data: { user: "admin", name: "Dana", password: "danapass123" },
+    });
+    const { token } = await login.json();
+
+    const remove = await request.delete(`${eventPath}/co-hosts/${coHost.coHostId}`, {
+      headers: toAuthHeader({ user: "admin", password: adminPassword }),
+    });
+    expect(remove.status()).toBe(200);
+    expect(await remove.json()).toEqual({ success: true });
+
+    const revoked = await request.get(eventPath, { headers: toBearerHeader(token) });
+    expect(revoked.status()).toBe(401);
+
+    const missing = await request.delete(`${eventPath}/co-hosts/${coHost.coHostId}`, {
+      headers: toAuthHeader({ user: "admin", password: adminPassword }),
+    });
+    expect(missing.status()).toBe(404);
+    expect((await missing.json()).errorKey).toBe("CO_HOST_NOT_FOUND");
+  });
+
+  test("rejects taken and reserved names", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminPassword = payload.adminPassword as string;
+    const headers = toAuthHeader({ user: "admin", password: adminPassword });
+    await addCoHost(request, eventPath, adminPassword, { name: "Emil", password: "emilpass123" });
+
+    const taken = await request.post(`${eventPath}/co-hosts`, {
+      headers,
+      data: { name: "EMIL", password: "otherpass123" },
+    });
+    expect(taken.status()).toBe(409);
+    expect((await taken.json()).errorKey).toBe("CO_HOST_NAME_TAKEN");
+
+    for (const name of ["Admin", "guest", "Moderator", "a:b"]) {
+      const response = await request.post(`${eventPath}/co-hosts`, {
+        headers,
+        data: { name, password: "otherpass123" },
+      });
+      expect(response.status()).toBe(400);
+      const body = await response.json();
+      expect(body.errorKey).toBe("INVALID_INPUT");
+      expect(body.property).toBe("name");
+    }
+  });
+});
+
+test.describe("moderators", () => {
+  const enableModerators = async (
+    request: import("@playwright/test").APIRequestContext,
+    eventPath: string,
+    adminPassword: string,
+    moderatorPassword: string
+  ) => {
+    const response = await request.patch(eventPath, {
+      headers: toAuthHeader({ user: "admin", password: adminPassword }),
+      data: { moderatorPassword },
+    });
+    expect(response.status()).toBe(200);
+    return response.json();
+  };
+
+  test("logs in with the moderator password", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+
+    const disabled = await request.post(`${eventPath}/login`, {
+      data: { user: "moderator", password: "modpass123" },
+    });
+    expect(disabled.status()).toBe(401);
+
+    const updated = await enableModerators(
+      request,
+      eventPath,
+      payload.adminPassword as string,
+      "modpass123"
+    );
+    expect(updated.moderatorEnabled).toBe(true);
+
+    const login = await request.post(`${eventPath}/login`, {
+      data: { user: "moderator", password: "modpass123" },
+    });
+    expect(login.status()).toBe(200);
+    const session = await login.json();
+    expect(session.role).toBe("moderator");
+
+    const info = await request.get(eventPath, { headers: toBearerHeader(session.token) });
+    expect(info.status()).toBe(200);
+    expect((await info.json()).accessLevel).toBe("moderator");
+
+    const wrongPassword = await request.get(eventPath, {
+      headers: toAuthHeader({ user: "moderator", password: "wrongpass123" }),
+    });
+    expect(wrongPassword.status()).toBe(401);
+  });
+
+  test("lets moderators curate files but not manage the event", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    await enableModerators(request, eventPath, payload.adminPassword as string, "modpass123");
+    const moderatorAuth = toAuthHeader({ user: "moderator", password: "modpass123" });
+    const guestAuth = { user: "guest" as const, password: payload.guestPassword as string };
+
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      guestAuth,
+      { name: "keep.txt", mimeType: "text/plain", content: "keep" },
+      "album"
+    );
+    await uploadFile(request, apiBase, eventId, guestAuth, {
+      name: "drop.txt",
+      mimeType: "text/plain",
+      content: "drop",
+    });
+
+    const list = await request.get(`${eventPath}/files`, { headers: moderatorAuth });
+    expect(list.status()).toBe(200);
+
+    const download = await request.get(`${eventPath}/files/album/keep.txt`, {
+      headers: moderatorAuth,
+    });
+    expect(download.status()).toBe(200);
+
+    const deleteFile = await request.delete(`${eventPath}/files/drop.txt`, {
+      headers: moderatorAuth,
+    });
+    expect(deleteFile.status()).toBe(200);
+
+    const renameFolder = await request.patch(`${eventPath}/folders/album`, {
+      headers: moderatorAuth,
+      data: { to: "album-moved" },
+    });
+    expect(renameFolder.status()).toBe(200);
+
+    const updateEvent = await request.patch(eventPath, {
+      headers: moderatorAuth,
+      data: { name: "Renamed" },
+    });
+    expect(updateEvent.status()).toBe(403);
+
+    const createShare = await request.post(`${eventPath}/shares`, {
+      headers: moderatorAuth,
+      data: { kind: "folder", folder: "album-moved", expiresInHours: 24 },
+    });
+    expect(createShare.status()).toBe(403);
+
+    const deleteEvent = await request.delete(eventPath, { headers: moderatorAuth });
+    expect(deleteEvent.status()).toBe(403);
+    expect((await request.get(eventPath, { headers: moderatorAuth })).status()).toBe(200);
+  });
+
+  test("removing the moderator password ends moderator sessions", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminPassword = payload.adminPassword as string;
+    await enableModerators(request, eventPath, adminPassword, "modpass123");
+
+    const login = await request.post(`${eventPath}/login`, {
+      data: { user: "moderator", password: "modpass123" },
+    });
+    const { token } = await login.json();
+
+    const updated = await enableModerators(request, eventPath, adminPassword, "");
+    expect(updated.moderatorEnabled).toBe(false);
+
+    const revoked = await request.get(eventPath, { headers: toBearerHeader(token) });
+    expect(revoked.status()).toBe(401);
+  });
+
+  test("rejects short moderator passwords", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+
+    const response = await request.patch(eventPath, {
+      headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+      data: { moderatorPassword: "short" },
+    });
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_INPUT");
+    expect(body.property).toBe("moderatorPassword");
+  });
+});
+
+test.describe("event lifecycle", () => {
+  const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60_000).toISOString();
+
+  test("stores upload and expiry times given at creation", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const uploadOpensAt = inMinutes(-60);
+    const uploadClosesAt = inMinutes(60);
+    const expiresAt = inMinutes(24 * 60);
+    const { payload } = await createEvent(request, baseURL, {
+      uploadOpensAt,
+      uploadClosesAt,
+      expiresAt,
+    });
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const response = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      { headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }) }
+    );
+    const body = await response.json();
+    expect(body.uploadOpensAt).toBe(uploadOpensAt);
+    expect(body.uploadClosesAt).toBe(uploadClosesAt);
+    expect(body.expiresAt).toBe(expiresAt);
+  });
+
+  test("rejects guest uploads outside the upload window", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminAuth = { user: "admin" as const, password: payload.adminPassword as string };
+    const guestAuth = { user: "guest" as const, password: payload.guestPassword as string };
+    const file = { name: "early.txt", mimeType: "text/plain", content: "early" };
+
+    const uploadOpensAt = inMinutes(30);
+    await request.patch(eventPath, { headers: toAuthHeader(adminAuth), data: { uploadOpensAt } });
+    const early = await uploadFile(request, apiBase, eventId, guestAuth, file);
+    expect(early.response.status()).toBe(403);
+    const earlyBody = await early.response.json();
+    expect(earlyBody.errorKey).toBe("UPLOADS_CLOSED");
+    expect(earlyBody.additionalParams.uploadOpensAt).toBe(uploadOpensAt);
+
+    // admins are not bound to the window
+    const admin = await uploadFile(request, apiBase, eventId, adminAuth, file);
+    expect(admin.response.status()).toBe(200);
+
+    await request.patch(eventPath, {
+      headers: toAuthHeader(adminAuth),
+      data: { uploadOpensAt: null, uploadClosesAt: inMinutes(-1) },
+    });
+    // resumable uploads are held to the same window
+    const late = await request.post(`${eventPath}/uploads`, {
+      headers: toAuthHeader(guestAuth),
+      data: { filename: "late.txt", size: 4, mimeType: "text/plain" },
+    });
+    expect(late.status()).toBe(403);
+    expect((await late.json()).errorKey).toBe("UPLOADS_CLOSED");
+
+    await request.patch(eventPath, {
+      headers: toAuthHeader(adminAuth),
+      data: { uploadClosesAt: null },
+    });
+    const reopened = await uploadFile(request, apiBase, eventId, guestAuth, file);
+    expect(reopened.response.status()).toBe(200);
+  });
+
+  test("validates lifecycle times", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const headers = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+
+    const reversed = await request.patch(eventPath, {
+      headers,
+      data: { uploadOpensAt: inMinutes(60), uploadClosesAt: inMinutes(30) },
+    });
+    expect(reversed.status()).toBe(400);
+    expect((await reversed.json()).property).toBe("uploadClosesAt");
+
+    const pastExpiry = await request.patch(eventPath, {
+      headers,
+      data: { expiresAt: inMinutes(-1) },
+    });
+    expect(pastExpiry.status()).toBe(400);
+    expect((await pastExpiry.json()).property).toBe("expiresAt");
+
+    const invalid = await request.patch(eventPath, {
+      headers,
+      data: { uploadOpensAt: "tomorrow" },
+    });
+    expect(invalid.status()).toBe(400);
+    expect((await invalid.json()).errorKey).toBe("INVALID_INPUT");
+  });
+
+  test("closes an expired event until the operator restores it", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = encodeURIComponent(payload.eventId as string);
+    const eventPath = `${apiBase}/api/events/${eventId}`;
+    const headers = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+
+    const expiresAt = new Date(Date.now() + 1500).toISOString();
+    const update = await request.patch(eventPath, { headers, data: { expiresAt } });
+    expect(update.status()).toBe(200);
+    expect((await update.json()).expiresAt).toBe(expiresAt);
+
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+    const expired = await request.get(eventPath, { headers });
+    expect(expired.status()).toBe(410);
+    expect((await expired.json()).errorKey).toBe("EVENT_EXPIRED");
+    const login = await request.post(`${eventPath}/login`, {
+      data: { user: "admin", password: payload.adminPassword },
+    });
+    expect(login.status()).toBe(410);
+
+    const restore = await request.patch(`${apiBase}/api/operator/events/${eventId}`, {
+      headers: toOperatorHeader(),
+      data: { locked: false },
+    });
+    expect(restore.status()).toBe(200);
+    expect((await restore.json()).expiresAt).toBeNull();
+    const restored = await request.get(eventPath, { headers });
+    expect(restored.status()).toBe(200);
+  });
+});
+
+test.describe("upload moderation /api/events/{eventId}/pending", () => {
+  const createModeratedEvent = async (
+    request: import("@playwright/test").APIRequestContext,
+    baseURL?: string
+  ) => {
+    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const response = await request.patch(eventPath, {
+      headers: adminHeaders,
+      data: { moderateUploads: true },
+    });
+    expect(response.status()).toBe(200);
+    expect((await response.json()).moderateUploads).toBe(true);
+    const guestAuth = { user: "guest" as const, password: payload.guestPassword as string };
+    return { payload, apiBase, eventId, eventPath, adminHeaders, guestAuth };
+  };
+
+  test("hides guest uploads until they are approved", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { apiBase, eventId, eventPath, adminHeaders, guestAuth } = await createModeratedEvent(
+      request,
+      baseURL
+    );
+
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      guestAuth,
+      { name: "party.txt", mimeType: "text/plain", content: "pending" },
+      "album"
+    );
+
+    const guestList = await request.get(`${eventPath}/files?folder=album`, {
+      headers: toAuthHeader(guestAuth),
+    });
+    expect(guestList.status()).toBe(200);
+    expect((await guestList.json()).files).toEqual([]);
+
+    const pending = await request.get(`${eventPath}/pending`, { headers: adminHeaders });
+    expect(pending.status()).toBe(200);
+    const pendingBody = await pending.json();
+    expectExactKeys(pendingBody, ["files"]);
+    expect(pendingBody.files).toHaveLength(1);
+    expectExactKeys(pendingBody.files[0], ["folder", "name", "size", "createdAt"]);
+    expect(pendingBody.files[0]).toMatchObject({ folder: "album", name: "party.txt", size: 7 });
+
+    const download = await request.get(`${eventPath}/pending/party.txt?folder=album`, {
+      headers: adminHeaders,
+    });
+    expect(download.status()).toBe(200);
+    expect(await download.text()).toBe("pending");
+
+    const approve = await request.post(`${eventPath}/pending/approve`, {
+      headers: adminHeaders,
+      data: { files: [{ folder: "album", filename: "party.txt" }] },
+    });
+    expect(approve.status()).toBe(200);
+    const approveBody = await approve.json();
+    expectExactKeys(approveBody, ["message", "processed", "failed"]);
+    expect(approveBody.processed).toBe(1);
+    expect(approveBody.failed).toEqual([]);
+
+    const approvedList = await request.get(`${eventPath}/files?folder=album`, {
+      headers: toAuthHeader(guestAuth),
+    });
+    expect((await approvedList.json()).files.map((file: { name: string }) => file.name)).toEqual([
+      "party.txt",
+    ]);
+    const emptied = await request.get(`${eventPath}/pending`, { headers: adminHeaders });
+    expect((await emptied.json()).files).toEqual([]);
+  });
+
+  test("rejects pending uploads and reports missing ones", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { apiBase, eventId, eventPath, adminHeaders, guestAuth } = await createModeratedEvent(
+      request,
+      baseURL
+    );
+    await uploadFile(request, apiBase, eventId, guestAuth, {
+      name: "spam.txt",
+      mimeType: "text/plain",
+      content: "spam",
+    });
+
+    const reject = await request.post(`${eventPath}/pending/reject`, {
+      headers: adminHeaders,
+      data: {
+        files: [
+          { folder: "", filename: "spam.txt" },
+          { folder: "", filename: "missing.txt" },
+        ],
+      },
+    });
+    expect(reject.status()).toBe(200);
+    const body = await reject.json();
+    expect(body.processed).toBe(1);
+    expect(body.failed).toHaveLength(1);
+    expect(body.failed[0].file).toBe("missing.txt");
+
+    const pending = await request.get(`${eventPath}/pending`, { headers: adminHeaders });
+    expect((await pending.json()).files).toEqual([]);
+    const files = await request.get(`${eventPath}/files`, { headers: adminHeaders });
+    expect((await files.json()).files).toEqual([]);
+
+    const audit = await request.get(`${eventPath}/audit?action=reject`, {
+      headers: adminHeaders,
+    });
+    expect((await audit.json()).entries).toMatchObject([
+      { action: "reject", role: "admin", folder: "", files: ["spam.txt"] },
+    ]);
+  });
+
+  test("keeps both files when an approved name is taken", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload, apiBase, eventId, eventPath, adminHeaders, guestAuth } =
+      await createModeratedEvent(request, baseURL);
+
+    // admin uploads are not moderated
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      { user: "admin", password: payload.adminPassword as string },
+      { name: "cake.txt", mimeType: "text/plain", content: "admin" }
+    );
+    await uploadFile(request, apiBase, eventId, guestAuth, {
+      name: "cake.txt",
+      mimeType: "text/plain",
+      content: "guest",
+    });
+
+    const approve = await request.post(`${eventPath}/pending/approve`, {
+      headers: adminHeaders,
+      data: { files: [{ filename: "cake.txt" }] },
+    });
+    expect((await approve.json()).processed).toBe(1);
+
+    const files = await request.get(`${eventPath}/files`, { headers: adminHeaders });
+    const names = (await files.json()).files.map((file: { name: string }) => file.name).sort();
+    expect(names).toEqual(["cake.txt", "cake_1.txt"]);
+
+    const audit = await request.get(`${eventPath}/audit?action=approve`, {
+      headers: adminHeaders,
+    });
+    expect((await audit.json()).entries).toMatchObject([
+      { action: "approve", role: "admin", folder: "", files: ["cake_1.txt"] },
+    ]);
+  });
+
+  test("lets moderators review but not guests", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { eventPath, adminHeaders, guestAuth } = await createModeratedEvent(request, baseURL);
+
+    const guest = await request.get(`${eventPath}/pending`, { headers: toAuthHeader(guestAuth) });
+    expect(guest.status()).toBe(403);
+
+    await request.patch(eventPath, {
+      headers: adminHeaders,
+      data: { moderatorPassword: "modpass123" },
+    });
+    const moderator = await request.get(`${eventPath}/pending`, {
+      headers: toAuthHeader({ user: "moderator", password: "modpass123" }),
+    });
+    expect(moderator.status()).toBe(200);
+
+    const invalid = await request.post(`${eventPath}/pending/approve`, {
+      headers: adminHeaders,
+      data: { files: [{ folder: "../x", filename: "a.txt" }] },
+    });
+    expect(invalid.status()).toBe(400);
+    expect((await invalid.json()).errorKey).toBe("INVALID_FOLDER");
+  });
+});
+
+test.describe("audit log /api/events/{eventId}/audit", () => {
+  test("records uploads, deletions, folder renames and settings changes", async ({
+    request,
+  }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const guestAuth = { user: "guest" as const, password: payload.guestPassword as string };
+
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      guestAuth,
+      { name: "toast.txt", mimeType: "text/plain", content: "cheers" },
+      "Anna"
+    );
+    const renamed = await request.patch(`${eventPath}/folders/Anna`, {
+      headers: adminHeaders,
+      data: { to: "Anna-und-Ben" },
+    });
+    expect(renamed.status()).toBe(200);
+    const deleted = await request.delete(`${eventPath}/files/Anna-und-Ben/toast.txt`, {
+      headers: adminHeaders,
+    });
+    expect(deleted.status()).toBe(200);
+    const updated = await request.patch(eventPath, {
+      headers: adminHeaders,
+      data: { name: "Renamed event", moderatorPassword: "moderator-secret" },
+    });
+    expect(updated.status()).toBe(200);
+
+    const response = await request.get(`${eventPath}/audit`, { headers: adminHeaders });
+    expect(response.status()).toBe(200);
+    expect(response.headers()["cache-control"]).toBe("private, no-store");
+    const body = await response.json();
+    expectExactKeys(body, ["entries", "total", "page", "pageSize"]);
+    expect(body).toMatchObject({ total: 4, page: 1, pageSize: 50 });
+    expect(body.entries.map((entry: { action: string }) => entry.action)).toEqual([
+      "settingsChange",
+      "delete",
+      "folderRename",
+      "upload",
+    ]);
+    const [settingsEntry, deleteEntry, renameEntry, uploadEntry] = body.entries;
+    expectExactKeys(uploadEntry, [
+      "entryId",
+      "createdAt",
+      "action",
+      "role",
+      "actor",
+      "ipHash",
+      "folder",
+      "files",
+    ]);
+    expect(uploadEntry).toMatchObject({
+      role: "guest",
+      actor: "Anna",
+      folder: "Anna",
+      files: ["toast.txt"],
+    });
+    expect(uploadEntry.ipHash).toMatch(/^[\w-]{16}$/);
+    expect(renameEntry).toMatchObject({
+      role: "admin",
+      actor: "admin",
+      folder: "Anna",
+      to: "Anna-und-Ben",
+    });
+    expect(deleteEntry).toMatchObject({
+      role: "admin",
+      folder: "Anna-und-Ben",
+      files: ["toast.txt"],
+    });
+    expect(settingsEntry).toMatchObject({ role: "admin", actor: "admin" });
+    expect([...settingsEntry.fields].sort()).toEqual(["moderatorPassword", "name"]);
+    expect(JSON.stringify(body)).not.toContain("moderator-secret");
+  });
+
+  test("records failed logins and filters and pages the log", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+
+    for (const user of ["guest", "admin"] as const) {
+      const login = await request.post(`${eventPath}/login`, {
+        data: { user, password: "wrong-password" },
+      });
+      expect(login.status()).toBe(401);
+    }
+    const updated = await request.patch(eventPath, {
+      headers: adminHeaders,
+      data: { description: "Now with an audit log" },
+    });
+    expect(updated.status()).toBe(200);
+
+    const failedLogins = await request.get(`${eventPath}/audit?action=loginFailed`, {
+      headers: adminHeaders,
+    });
+    expect(failedLogins.status()).toBe(200);
+    const failedBody = await failedLogins.json();
+    expect(failedBody.total).toBe(2);
+    expect(failedBody.entries.map((entry: { user: string }) => entry.user)).toEqual([
+      "admin",
+      "guest",
+    ]);
+    expect(failedBody.entries[0]).toMatchObject({ role: null, actor: null });
+
+    const secondPage = await request.get(`${eventPath}/audit?page=2&pageSize=2`, {
+      headers: adminHeaders,
+    });
+    expect(secondPage.status()).toBe(200);
+    const secondBody = await secondPage.json();
+    expect(secondBody).toMatchObject({ total: 3, page: 2, pageSize: 2 });
+    expect(secondBody.entries).toHaveLength(1);
+    expect(secondBody.entries[0]).toMatchObject({ action: "loginFailed", user: "guest" });
+
+    const byActor = await request.get(`${eventPath}/audit?actor=ADM`, { headers: adminHeaders });
+    expect((await byActor.json()).total).toBe(2);
+  });
+
+  test("shortens and throttles failed login entries", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+
+    // a new name for every attempt gets past the rate limit, which counts per user name
+    const users = [
+      `\u0007${"x".repeat(200)}`,
+      ...Array.from({ length: 24 }, (_, i) => `intruder${i}`),
+    ];
+    for (const user of users) {
+      const response = await request.get(eventPath, {
+        headers: toAuthHeader({ user, password: "wrong-password" }),
+      });
+      expect(response.status()).toBe(403);
+    }
+
+    const failedLogins = await request.get(`${eventPath}/audit?action=loginFailed&pageSize=50`, {
+      headers: adminHeaders,
+    });
+    const body = await failedLogins.json();
+    expect(body.total).toBe(20);
+    expect(body.entries.at(-1).user).toBe("x".repeat(64));
+  });
+
+  test("is only available to admins", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const auditPath = `${eventPath}/audit`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const updated = await request.patch(eventPath, {
+      headers: adminHeaders,
+      data: { moderatorPassword: "moderator-secret" },
+    });
+    expect(updated.status()).toBe(200);
+
+    const guest = await request.get(auditPath, {
+      headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }),
+    });
+    expect(guest.status()).toBe(403);
+    const moderator = await request.get(auditPath, {
+      headers: toAuthHeader({ user: "moderator", password: "moderator-secret" }),
+    });
+    expect(moderator.status()).toBe(403);
+
+    const invalid = await request.get(`${auditPath}?action=download`, { headers: adminHeaders });
+    expect(invalid.status()).toBe(400);
+    expect((await invalid.json()).errorKey).toBe("INVALID_INPUT");
+  });
+});
+
+test.describe("trash /api/events/{eventId}/trash", () => {
+  test("keeps deleted files in the trash and restores them", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const guestAuth = { user: "guest" as const, password: payload.guestPassword as string };
+    const file = { name: "toast.txt", mimeType: "text/plain", content: "cheers" };
+
+    await uploadFile(request, apiBase, eventId, guestAuth, file, "Anna");
+    const uploaded = await request.get(`${eventPath}/files?folder=Anna`, {
+      headers: adminHeaders,
+    });
+    const [{ createdAt }] = (await uploaded.json()).files as Array<{ createdAt: string }>;
+    // a copied file would get a later mtime
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    const deleted = await request.delete(`${eventPath}/files/Anna/toast.txt`, {
+      headers: adminHeaders,
+    });
+    expect(deleted.status()).toBe(200);
+    expect((await deleted.json()).message).toBe("File moved to trash.");
+
+    const folder = await request.get(`${eventPath}/files?folder=Anna`, { headers: adminHeaders });
+    expect((await folder.json()).files).toEqual([]);
+
+    const trash = await request.get(`${eventPath}/trash`, { headers: adminHeaders });
+    expect(trash.status()).toBe(200);
+    const trashBody = await trash.json();
+    expectExactKeys(trashBody, ["files", "retentionMs"]);
+    expect(trashBody.retentionMs).toBeGreaterThan(0);
+    expect(trashBody.files).toHaveLength(1);
+    const [entry] = trashBody.files;
+    expectExactKeys(entry, [
+      "trashId",
+      "folder",
+      "name",
+      "size",
+      "deletedAt",
+      "deletedByRole",
+      "deletedBy",
+    ]);
+    expect(entry).toMatchObject({
+      folder: "Anna",
+      name: "toast.txt",
+      size: file.content.length,
+      deletedByRole: "admin",
+      deletedBy: "admin",
+    });
+
+    // a new upload took the name in the meantime, the restored file must not replace it
+    await uploadFile(request, apiBase, eventId, guestAuth, file, "Anna");
+    const restored = await request.post(`${eventPath}/trash/${entry.trashId}/restore`, {
+      headers: adminHeaders,
+    });
+    expect(restored.status()).toBe(200);
+    expect(await restored.json()).toEqual({
+      message: "File restored.",
+      folder: "Anna",
+      filename: "toast_1.txt",
+    });
+
+    const files = await request.get(`${eventPath}/files?folder=Anna`, { headers: adminHeaders });
+    const restoredFiles = (await files.json()).files as Array<{ name: string; createdAt: string }>;
+    expect(restoredFiles.map((item) => item.name).sort()).toEqual(["toast.txt", "toast_1.txt"]);
+    expect(restoredFiles.find((item) => item.name === "toast_1.txt")?.createdAt).toBe(createdAt);
+    const emptied = await request.get(`${eventPath}/trash`, { headers: adminHeaders });
+    expect((await emptied.json()).files).toEqual([]);
+
+    const audit = await request.get(`${eventPath}/audit?action=restore`, {
+      headers: adminHeaders,
+    });
+    expect((await audit.json()).entries[0]).toMatchObject({
+      folder: "Anna",
+      files: ["toast_1.txt"],
+    });
+  });
+
+  test("keeps the quota when restoring files", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const admin = { user: "admin", password: payload.adminPassword as string };
+    const adminHeaders = toAuthHeader(admin);
+    const quota = await request.patch(
+      `${apiBase}/api/operator/events/${encodeURIComponent(eventId)}`,
+      { headers: toOperatorHeader(), data: { quotaFiles: 1 } }
+    );
+    expect(quota.status()).toBe(200);
+
+    await uploadFile(request, apiBase, eventId, admin, {
+      name: "first.txt",
+      mimeType: "text/plain",
+      content: "first",
+    });
+    await request.delete(`${eventPath}/files/first.txt`, { headers: adminHeaders });
+    await uploadFile(request, apiBase, eventId, admin, {
+      name: "second.txt",
+      mimeType: "text/plain",
+      content: "second",
+    });
+    const trash = await request.get(`${eventPath}/trash`, { headers: adminHeaders });
+    const [entry] = (await trash.json()).files;
+
+    const rejected = await request.post(`${eventPath}/trash/${entry.trashId}/restore`, {
+      headers: adminHeaders,
+    });
+    expect(rejected.status()).toBe(413);
+    expect((await rejected.json()).errorKey).toBe("QUOTA_EXCEEDED");
+    const kept = await request.get(`${eventPath}/trash`, { headers: adminHeaders });
+    expect((await kept.json()).files).toHaveLength(1);
+
+    await request.delete(`${eventPath}/files/second.txt`, { headers: adminHeaders });
+    const restored = await request.post(`${eventPath}/trash/${entry.trashId}/restore`, {
+      headers: adminHeaders,
+    });
+    expect(restored.status()).toBe(200);
+  });
+
+  test("deletes trashed files permanently", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      { user: "guest", password: payload.guestPassword as string },
+      { name: "blurry.txt", mimeType: "text/plain", content: "oops" }
+    );
+    const deleted = await request.delete(`${eventPath}/files/blurry.txt`, {
+      headers: adminHeaders,
+    });
+    expect(deleted.status()).toBe(200);
+    const trash = await request.get(`${eventPath}/trash`, { headers: adminHeaders });
+    const [entry] = (await trash.json()).files;
+
+    const purged = await request.delete(`${eventPath}/trash/${entry.trashId}`, {
+      headers: adminHeaders,
+    });
+    expect(purged.status()).toBe(200);
+    expectDeleteFileBody(await purged.json());
+
+    const again = await request.delete(`${eventPath}/trash/${entry.trashId}`, {
+      headers: adminHeaders,
+    });
+    expect(again.status()).toBe(404);
+    expect((await again.json()).errorKey).toBe("FILE_NOT_FOUND");
+    const restore = await request.post(`${eventPath}/trash/${entry.trashId}/restore`, {
+      headers: adminHeaders,
+    });
+    expect(restore.status()).toBe(404);
+
+    const audit = await request.get(`${eventPath}/audit?action=purge`, { headers: adminHeaders });
+    expect((await audit.json()).entries[0]).toMatchObject({ folder: "", files: ["blurry.txt"] });
+  });
+
+  test("is limited to admins and moderators, purging to admins", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const updated = await request.patch(eventPath, {
+      headers: adminHeaders,
+      data: { moderatorPassword: "moderator-secret" },
+    });
+    expect(updated.status()).toBe(200);
+
+    const guest = await request.get(`${eventPath}/trash`, {
+      headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }),
+    });
+    expect(guest.status()).toBe(403);
+    const moderatorHeaders = toAuthHeader({ user: "moderator", password: "moderator-secret" });
+    const moderator = await request.get(`${eventPath}/trash`, { headers: moderatorHeaders });
+    expect(moderator.status()).toBe(200);
+
+    await uploadFile(
+      request,
+      apiBase,
+      payload.eventId as string,
+      { user: "guest", password: payload.guestPassword as string },
+      { name: "keep.txt", mimeType: "text/plain", content: "keep" }
+    );
+    const deleted = await request.delete(`${eventPath}/files/keep.txt`, {
+      headers: moderatorHeaders,
+    });
+    expect(deleted.status()).toBe(200);
+    const trash = await request.get(`${eventPath}/trash`, { headers: adminHeaders });
+    const [entry] = (await trash.json()).files;
+    const purge = await request.delete(`${eventPath}/trash/${entry.trashId}`, {
+      headers: moderatorHeaders,
+    });
+    expect(purge.status()).toBe(403);
+    const restore = await request.post(`${eventPath}/trash/${entry.trashId}/restore`, {
+      headers: moderatorHeaders,
+    });
+    expect(restore.status()).toBe(200);
+
+    const invalid = await request.post(`${eventPath}/trash/not-a-uuid/restore`, {
+      headers: adminHeaders,
+    });
+    expect(invalid.status()).toBe(400);
+    expect((await invalid.json()).errorKey).toBe("INVALID_INPUT");
+  });
+});
+
+test.describe("batch file operations /api/events/{eventId}/files/batch", () => {
+  test("deletes several files and reports the ones that failed", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const guestAuth = { user: "guest" as const, password: payload.guestPassword as string };
+
+    for (const name of ["one.txt", "two.txt"]) {
+      await uploadFile(request, apiBase, eventId, guestAuth, {
+        name,
+        mimeType: "text/plain",
+        content: name,
+      });
+    }
+
+    const response = await request.post(`${eventPath}/files/batch/delete`, {
+      headers: adminHeaders,
+      data: {
+        files: [
+          { folder: "", filename: "one.txt" },
+          { filename: "two.txt" },
+          { folder: "Anna", filename: "missing.txt" },
+        ],
+      },
+    });
+    expect(response.status()).toBe(200);
+    expect(await response.json()).toEqual({
+      message: "Files deleted.",
+      processed: 2,
+      failed: [{ file: "Anna/missing.txt", reason: "File not found." }],
+    });
+
+    const files = await request.get(`${eventPath}/files`, { headers: adminHeaders });
+    expect((await files.json()).files).toEqual([]);
+    const trash = await request.get(`${eventPath}/trash`, { headers: adminHeaders });
+    expect((await trash.json()).files).toHaveLength(2);
+
+    const audit = await request.get(`${eventPath}/audit?action=delete`, { headers: adminHeaders });
+    const auditBody = await audit.json();
+    expect(auditBody.total).toBe(1);
+    expect(auditBody.entries[0]).toMatchObject({ folder: "", files: ["one.txt", "two.txt"] });
+
+    const guest = await request.post(`${eventPath}/files/batch/delete`, {
+      headers: toAuthHeader(guestAuth),
+      data: { files: [{ filename: "one.txt" }] },
+    });
+    expect(guest.status()).toBe(403);
+  });
+
+  test("moves files into another folder", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const guestAuth = { user: "guest" as const, password: payload.guestPassword as string };
+    const file = { name: "photo.txt", mimeType: "text/plain", content: "smile" };
+
+    await uploadFile(request, apiBase, eventId, guestAuth, file, "Anna");
+    await uploadFile(request, apiBase, eventId, guestAuth, file);
+    await uploadFile(request, apiBase, eventId, guestAuth, file, "Ben");
+
+    const response = await request.post(`${eventPath}/files/batch/move`, {
+      headers: adminHeaders,
+      data: {
+        to: "Ben",
+        files: [
+          { folder: "Anna", filename: "photo.txt" },
+          { folder: "", filename: "photo.txt" },
+          { folder: "Ben", filename: "photo.txt" },
+        ],
+      },
+    });
+    expect(response.status()).toBe(200);
+    expect(await response.json()).toEqual({
+      message: "Files moved.",
+      processed: 2,
+      failed: [{ file: "Ben/photo.txt", reason: "File is already in this folder." }],
+    });
+
+    const ben = await request.get(`${eventPath}/files?folder=Ben`, { headers: adminHeaders });
+    expect((await ben.json()).files.map((entry: { name: string }) => entry.name).sort()).toEqual([
+      "photo.txt",
+      "photo_1.txt",
+      "photo_2.txt",
+    ]);
+
+    const audit = await request.get(`${eventPath}/audit?action=move`, { headers: adminHeaders });
+    const auditBody = await audit.json();
+    expect(auditBody.total).toBe(2);
+    expect(auditBody.entries).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          folder: "Anna",
+          files: ["photo.txt"],
+          storedAs: ["photo_1.txt"],
+        }),
+        expect.objectContaining({ folder: "", files: ["photo.txt"], storedAs: ["photo_2.txt"] }),
+      ])
+    );
+
+    // the previews move along, they are not rendered again
+    await uploadFile(request, apiBase, eventId, guestAuth, {
+      name: "moved.png",
+      mimeType: "image/png",
+      content: tinyPng,
+    });
+    const before = await request.get(`${eventPath}/files/moved.png/preview?w=37&format=webp`, {
+      headers: adminHeaders,
+    });
+    expect(before.headers()["x-preview-cache"]).toBe("MISS");
+    const movedImage = await request.post(`${eventPath}/files/batch/move`, {
+      headers: adminHeaders,
+      data: { to: "Ben", files: [{ folder: "", filename: "moved.png" }] },
+    });
+    expect((await movedImage.json()).processed).toBe(1);
+    const after = await request.get(`${eventPath}/files/Ben/moved.png/preview?w=37&format=webp`, {
+      headers: adminHeaders,
+    });
+    expect(after.headers()["x-preview-cache"]).toBe("HIT");
+
+    const invalid = await request.post(`${eventPath}/files/batch/move`, {
+      headers: adminHeaders,
+      data: { to: "../Ben", files: [{ filename: "photo.txt" }] },
+    });
+    expect(invalid.status()).toBe(400);
+    expect((await invalid.json()).errorKey).toBe("INVALID_FOLDER");
+  });
+
+  test("downloads a ZIP of the selected files", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const guestHeaders = toAuthHeader({
+      user: "guest",
+      password: payload.guestPassword as string,
+    });
+
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      { user: "guest", password: payload.guestPassword as string },
+      { name: "keep.txt", mimeType: "text/plain", content: "keep" },
+      "Anna"
+    );
+
+    const response = await request.post(`${eventPath}/files/batch/zip`, {
+      headers: guestHeaders,
+      data: {
+        files: [
+          { folder: "Anna", filename: "keep.txt" },
+          { folder: "", filename: "missing.txt" },
+        ],
+      },
+    });
+    expect(response.status()).toBe(200);
+    expect(response.headers()["content-type"]).toContain("application/zip");
+    const body = await response.body();
+    expect(body.subarray(0, 2).toString()).toBe("PK");
+    expect(body.includes(Buffer.from("Anna/keep.txt"))).toBe(true);
+    expect(JSON.parse(decodeURIComponent(response.headers()["zip-skipped-files"]))).toEqual([
+      { file: "missing.txt", reason: "File not found." },
+    ]);
+    expect(response.headers()["zip-skipped-count"]).toBe("1");
+
+    // hundreds of long names would exceed the header limits of proxies
+    const many = await request.post(`${eventPath}/files/batch/zip`, {
+      headers: guestHeaders,
+      data: {
+        files: [
+          { folder: "Anna", filename: "keep.txt" },
+          ...Array.from({ length: 499 }, (_, index) => ({
+            filename: `${"missing-".repeat(20)}${index}.txt`,
+          })),
+        ],
+      },
+    });
+    expect(many.status()).toBe(200);
+    expect(many.headers()["zip-skipped-count"]).toBe("499");
+    const listedHeader = many.headers()["zip-skipped-files"];
+    expect(listedHeader.length).toBeLessThanOrEqual(4096);
+    const listed = JSON.parse(decodeURIComponent(listedHeader)) as Array<{ file: string }>;
+    expect(listed.length).toBeGreaterThan(0);
+    expect(listed.length).toBeLessThan(499);
+    expect(listed[0].file).toBe(`${"missing-".repeat(20)}0.txt`);
+
+    const nothing = await request.post(`${eventPath}/files/batch/zip`, {
+      headers: guestHeaders,
+      data: { files: [{ filename: "missing.txt" }] },
+    });
+    expect(nothing.status()).toBe(404);
+    expect((await nothing.json()).errorKey).toBe("NO_FILES_AVAILABLE");
+
+    const empty = await request.post(`${eventPath}/files/batch/zip`, {
+      headers: guestHeaders,
+      data: { files: [] },
+    });
+    expect(empty.status()).toBe(400);
+  });
+});
+
+test.describe("PATCH /api/events/{eventId}", () => {
+  test("updates event settings with admin auth", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+        data: {
+          name: "Updated Name",
+          description: "Updated description",
+          allowedMimeTypes: ["image/png"],
+          allowGuestDownload: true,
+        },
+      }
+    );
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    expectUpdateEventBody(body, {
+      eventId: payload.eventId as string,
+      name: "Updated Name",
+      description: "Updated description",
+      allowedMimeTypes: ["image/png"],
+      secured: true,
+      allowGuestDownload: true,
+      allowGuestUpload: true,
+      requireUploadFolder: false,
+      uploadFolderHint: null,
+      accessLevel: "admin",
+    });
+  });
+
+  test("rejects missing auth", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      { data: { name: "No Auth" } }
+    );
+    expect(response.status()).toBe(401);
+    const body = await response.json();
+    expect(body.errorKey).toBe("AUTHORIZATION_REQUIRED");
+  });
+
+  test("rejects guest auth", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }),
+        data: { name: "Guest Update" },
+      }
+    );
+    expect(response.status()).toBe(403);
+    const body = await response.json();
+    expect(body.errorKey).toBe("AUTHORIZATION_REQUIRED");
+  });
+
+  test("rejects wrong admin password", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: "wrongpass" }),
+        data: { name: "Wrong Admin" },
+      }
+    );
+    expect(response.status()).toBe(401);
+    const body = await response.json();
+    expect(body.errorKey).toBe("AUTHORIZATION_REQUIRED");
+  });
+
+  test("rejects invalid guest password length", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+        data: { guestPassword: "123" },
+      }
+    );
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_INPUT");
+    expect(body.property).toBe("guestPassword");
+  });
+
+  test("rejects allowGuestDownload without guest password", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { guestPassword: "" });
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+        data: { allowGuestDownload: true },
+      }
+    );
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_INPUT");
+    expect(body.property).toBe("allowGuestDownload");
+  });
+
+  test("rejects invalid mime type", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+        data: { allowedMimeTypes: ["not a mime"] },
+      }
+    );
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_INPUT");
+    expect(body.property).toBe("allowedMimeTypes.0");
+  });
+
+  test("rejects empty name", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+        data: { name: "" },
+      }
+    );
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_INPUT");
+    expect(body.property).toBe("name");
+  });
+
+  test("rejects name longer than 48 characters", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+        data: { name: "a".repeat(60) },
+      }
+    );
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_INPUT");
+    expect(body.property).toBe("name");
+  });
+
+  test("rejects description longer than 2048 characters", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+        data: { description: "b".repeat(2100) },
+      }
+    );
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_INPUT");
+    expect(body.property).toBe("description");
+  });
+
+  test("allows enabling guest downloads when guest password provided", async ({
+    request,
+  }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { guestPassword: "" });
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+        data: { guestPassword: "guest1234", allowGuestDownload: true },
+      }
+    );
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    expectUpdateEventBody(body, {
+      eventId: payload.eventId as string,
+      name: payload.name as string,
+      description: payload.description as string,
+      allowedMimeTypes: payload.allowedMimeTypes as string[],
+      secured: true,
+      allowGuestDownload: true,
+      allowGuestUpload: true,
+      requireUploadFolder: false,
+      uploadFolderHint: null,
+      accessLevel: "admin",
+    });
+  });
+
+  test("updates allowGuestUpload flag", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+        data: { allowGuestUpload: false },
+      }
+    );
     expect(response.status()).toBe(200);
     const body = await response.json();
     expectUpdateEventBody(body, {
@@ -829,6 +2432,54 @@ test.describe("PATCH /api/events/{eventId}", () => {
     });
   });
 
+  test("stores normalized uploadFolders", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const response = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+        data: {
+          uploadFolders: [" Tom ", "Ceremony / Camera A", "Tom"],
+          restrictUploadFolders: true,
+        },
+      }
+    );
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    expect(body.uploadFolders).toEqual(["Tom", "Ceremony/Camera A"]);
+    expect(body.restrictUploadFolders).toBe(true);
+  });
+
+  test("rejects invalid uploadFolders", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventUrl = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const headers = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+
+    const invalidResponse = await request.patch(eventUrl, {
+      headers,
+      data: { uploadFolders: ["Tom", "../etc"] },
+    });
+    expect(invalidResponse.status()).toBe(400);
+    const invalidBody = await invalidResponse.json();
+    expect(invalidBody.errorKey).toBe("INVALID_INPUT");
+    expect(invalidBody.property).toBe("uploadFolders.1");
+
+    const emptyResponse = await request.patch(eventUrl, {
+      headers,
+      data: { restrictUploadFolders: true },
+    });
+    expect(emptyResponse.status()).toBe(400);
+    const emptyBody = await emptyResponse.json();
+    expect(emptyBody.errorKey).toBe("INVALID_INPUT");
+    expect(emptyBody.property).toBe("uploadFolders");
+  });
+
   test("clears uploadFolderHint with blank value", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL, {
@@ -1047,31 +2698,161 @@ test.describe("GET /api/events/{eventId}/files", () => {
     expectListFilesBody(body, { folder: "", folders: [], files: [] });
   });
 
-  test("rejects missing auth on secured event", async ({ request }, testInfo) => {
+  test("rejects missing auth on secured event", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const response = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files`
+    );
+    expect(response.status()).toBe(401);
+    const body = await response.json();
+    expect(body.errorKey).toBe("AUTHORIZATION_REQUIRED");
+  });
+
+  test("rejects guest access when downloads disabled", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: false });
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const response = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files`,
+      { headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }) }
+    );
+    expect(response.status()).toBe(403);
+    const body = await response.json();
+    expect(body.errorKey).toBe("GUEST_DOWNLOADS_DISABLED");
+  });
+
+  test("pages, sorts and filters files", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const filesPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}/files`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const admin = { user: "admin", password: payload.adminPassword as string };
+    const uploads = [
+      { name: "photo-10.jpg", mimeType: "image/jpeg", content: "x".repeat(4) },
+      { name: "notes.txt", mimeType: "text/plain", content: "x".repeat(2) },
+      { name: "Photo-1.png", mimeType: "image/png", content: "x".repeat(5) },
+      { name: "clip.mp4", mimeType: "video/mp4", content: "x".repeat(1) },
+      { name: "photo-2.jpg", mimeType: "image/jpeg", content: "x".repeat(3) },
+    ];
+    for (const file of uploads) {
+      await uploadFile(request, apiBase, eventId, admin, file);
+    }
+
+    const listAll = async (query: string) => {
+      const names: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const cursorParam: string = cursor ? `&cursor=${encodeURIComponent(cursor)}` : "";
+        const response = await request.get(`${filesPath}?limit=2&${query}${cursorParam}`, {
+          headers: adminHeaders,
+        });
+        expect(response.status()).toBe(200);
+        const body = await response.json();
+        expect(body.files.length).toBeLessThanOrEqual(2);
+        names.push(...(body.files as Array<{ name: string }>).map((file) => file.name));
+        cursor = body.nextCursor;
+      } while (cursor);
+      return names;
+    };
+
+    expect(await listAll("sort=name")).toEqual([
+      "clip.mp4",
+      "notes.txt",
+      "Photo-1.png",
+      "photo-2.jpg",
+      "photo-10.jpg",
+    ]);
+    expect(await listAll("sort=size&order=desc")).toEqual([
+      "Photo-1.png",
+      "photo-10.jpg",
+      "photo-2.jpg",
+      "notes.txt",
+      "clip.mp4",
+    ]);
+    expect(await listAll("search=PHOTO&type=image/jpeg")).toEqual(["photo-2.jpg", "photo-10.jpg"]);
+    expect(await listAll("type=image/*,video/mp4&order=desc")).toEqual([
+      "photo-10.jpg",
+      "photo-2.jpg",
+      "Photo-1.png",
+      "clip.mp4",
+    ]);
+
+    const firstPage = await request.get(`${filesPath}?limit=2&search=photo`, {
+      headers: adminHeaders,
+    });
+    const firstBody = await firstPage.json();
+    expect(firstBody.total).toBe(3);
+    expect(typeof firstBody.nextCursor).toBe("string");
+  });
+
+  test("returns at most 500 files when no limit is given", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
     const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const filesPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}/files`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
 
-    const response = await request.get(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files`
+    const form = new FormData();
+    for (let i = 0; i < 501; i += 1) {
+      form.append("files", new File([`file ${i}`], `file-${i}.txt`, { type: "text/plain" }));
+    }
+    const upload = await request.post(filesPath, { headers: adminHeaders, multipart: form });
+    expect(upload.status()).toBe(200);
+
+    const firstPage = await request.get(filesPath, { headers: adminHeaders });
+    const firstBody = await firstPage.json();
+    expect(firstBody.files).toHaveLength(500);
+    expect(firstBody.total).toBe(501);
+    expect(typeof firstBody.nextCursor).toBe("string");
+
+    const lastPage = await request.get(
+      `${filesPath}?cursor=${encodeURIComponent(firstBody.nextCursor)}`,
+      { headers: adminHeaders }
     );
-    expect(response.status()).toBe(401);
-    const body = await response.json();
-    expect(body.errorKey).toBe("AUTHORIZATION_REQUIRED");
+    const lastBody = await lastPage.json();
+    expect(lastBody.files.map((file: { name: string }) => file.name)).toEqual(["file-500.txt"]);
+    expect(lastBody.nextCursor).toBeNull();
   });
 
-  test("rejects guest access when downloads disabled", async ({ request }, testInfo) => {
+  test("rejects invalid paging and filter params", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
-    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: false });
+    const { payload } = await createEvent(request, baseURL);
     const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const filesPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}/files`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const admin = { user: "admin", password: payload.adminPassword as string };
+    for (const name of ["a.txt", "b.txt"]) {
+      await uploadFile(request, apiBase, eventId, admin, {
+        name,
+        mimeType: "text/plain",
+        content: name,
+      });
+    }
 
-    const response = await request.get(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files`,
-      { headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }) }
-    );
-    expect(response.status()).toBe(403);
-    const body = await response.json();
-    expect(body.errorKey).toBe("GUEST_DOWNLOADS_DISABLED");
+    const page = await request.get(`${filesPath}?limit=1`, { headers: adminHeaders });
+    const { nextCursor } = await page.json();
+    expect(typeof nextCursor).toBe("string");
+
+    for (const query of [
+      "limit=0",
+      "limit=501",
+      "sort=owner",
+      "type=images",
+      "cursor=not-a-cursor",
+      `sort=size&cursor=${encodeURIComponent(nextCursor)}`,
+    ]) {
+      const response = await request.get(`${filesPath}?${query}`, { headers: adminHeaders });
+      expect(response.status(), query).toBe(400);
+      expect((await response.json()).errorKey).toBe("INVALID_INPUT");
+    }
   });
 
   test("rejects invalid folder query", async ({ request }, testInfo) => {
@@ -1165,7 +2946,7 @@ test.describe("PATCH /api/events/{eventId}/folders/{folder}", () => {
       );
       expect(response.status()).toBe(200);
       const body = await response.json();
-      expectExactKeys(body, ["files", "folders", "folder"]);
+      expectExactKeys(body, ["breadcrumbs", "files", "folders", "folder", "nextCursor", "total"]);
       expect(body.folder).toBe("");
       expect(Array.isArray(body.files)).toBe(true);
       expect(body.files).toHaveLength(0);
@@ -1179,7 +2960,7 @@ test.describe("PATCH /api/events/{eventId}/folders/{folder}", () => {
       );
       expect(response.status()).toBe(200);
       const body = await response.json();
-      expectExactKeys(body, ["files", "folders", "folder"]);
+      expectExactKeys(body, ["breadcrumbs", "files", "folders", "folder", "nextCursor", "total"]);
       expect(body.folder).toBe(targetFolder);
       expect(body.folders).toEqual([]);
       const files = (body.files as Array<Record<string, unknown>>).map((entry) => ({
@@ -1199,7 +2980,7 @@ test.describe("PATCH /api/events/{eventId}/folders/{folder}", () => {
       );
       expect(response.status()).toBe(200);
       const body = await response.json();
-      expectExactKeys(body, ["files", "folders", "folder"]);
+      expectExactKeys(body, ["breadcrumbs", "files", "folders", "folder", "nextCursor", "total"]);
       expect(body.folder).toBe(otherFolder);
       const files = (body.files as Array<Record<string, unknown>>).map((entry) => ({
         name: entry.name as string,
@@ -1345,6 +3126,368 @@ test.describe("PATCH /api/events/{eventId}/folders/{folder}", () => {
   });
 });
 
+test.describe("nested folders", () => {
+  test("uploads into nested folders and lists them with breadcrumbs", async ({
+    request,
+  }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const guest = { user: "guest", password: payload.guestPassword as string };
+
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      guest,
+      { name: "a.txt", mimeType: "text/plain", content: "alpha" },
+      " Ceremony / Camera A "
+    );
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      guest,
+      { name: "b.txt", mimeType: "text/plain", content: "bravo" },
+      "Ceremony"
+    );
+
+    const parent = await request.get(`${eventPath}/files?folder=Ceremony`, {
+      headers: adminHeaders,
+    });
+    expect(parent.status()).toBe(200);
+    expectListFilesBody(await parent.json(), {
+      folder: "Ceremony",
+      folders: ["Camera A"],
+      files: [{ name: "b.txt", size: 5 }],
+    });
+
+    const nested = await request.get(
+      `${eventPath}/files?folder=${encodeURIComponent("Ceremony/Camera A")}`,
+      { headers: adminHeaders }
+    );
+    expect(nested.status()).toBe(200);
+    const nestedBody = await nested.json();
+    expectListFilesBody(nestedBody, {
+      folder: "Ceremony/Camera A",
+      folders: [],
+      files: [{ name: "a.txt", size: 5 }],
+    });
+    expect(nestedBody.breadcrumbs).toEqual([
+      { name: "Ceremony", path: "Ceremony" },
+      { name: "Camera A", path: "Ceremony/Camera A" },
+    ]);
+
+    const recursive = await request.get(`${eventPath}/files?recursive=true`, {
+      headers: adminHeaders,
+    });
+    expect(recursive.status()).toBe(200);
+    const recursiveBody = await recursive.json();
+    expect(recursiveBody.folders).toEqual(["Ceremony"]);
+    expect(
+      (recursiveBody.files as Array<{ folder: string; name: string }>)
+        .map((file) => `${file.folder}/${file.name}`)
+        .sort()
+    ).toEqual(["Ceremony/Camera A/a.txt", "Ceremony/b.txt"]);
+
+    const file = await request.get(
+      `${eventPath}/files/${encodeURIComponent("Ceremony/Camera A")}/a.txt`,
+      { headers: adminHeaders }
+    );
+    expect(file.status()).toBe(200);
+    expect(await file.text()).toBe("alpha");
+  });
+
+  test("moves nested folders and zips a subtree", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      { user: "guest", password: payload.guestPassword as string },
+      { name: "a.txt", mimeType: "text/plain", content: "alpha" },
+      "Ceremony/Camera A"
+    );
+
+    const intoItself = await request.patch(`${eventPath}/folders/Ceremony`, {
+      headers: adminHeaders,
+      data: { to: "Ceremony/Camera A/Ceremony" },
+    });
+    expect(intoItself.status()).toBe(400);
+    expect((await intoItself.json()).errorKey).toBe("INVALID_FOLDER");
+
+    const moved = await request.patch(
+      `${eventPath}/folders/${encodeURIComponent("Ceremony/Camera A")}`,
+      { headers: adminHeaders, data: { to: "Party/Cameras/Camera A" } }
+    );
+    expect(moved.status()).toBe(200);
+
+    const list = await request.get(`${eventPath}/files?recursive=true`, { headers: adminHeaders });
+    expect(
+      (await list.json()).files.map((entry: { folder: string; name: string }) => entry.folder)
+    ).toEqual(["Party/Cameras/Camera A"]);
+
+    const zip = await request.get(`${eventPath}/files.zip?folder=Party`, { headers: adminHeaders });
+    expect(zip.status()).toBe(200);
+    const body = await zip.body();
+    expect(body.subarray(0, 2).toString()).toBe("PK");
+    expect(body.includes(Buffer.from("Cameras/Camera A/a.txt"))).toBe(true);
+  });
+
+  test("rejects paths that leave the files directory or nest too deep", async ({
+    request,
+  }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+
+    for (const folder of ["..", "Ceremony/../..", "Ceremony//A", "/Ceremony"]) {
+      const response = await request.get(
+        `${eventPath}/files?folder=${encodeURIComponent(folder)}`,
+        { headers: adminHeaders }
+      );
+      expect(response.status()).toBe(400);
+      expect((await response.json()).errorKey).toBe("INVALID_FOLDER");
+    }
+
+    const { response } = await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      { user: "guest", password: payload.guestPassword as string },
+      { name: "deep.txt", mimeType: "text/plain", content: "deep" },
+      Array.from({ length: 9 }, (_, index) => `level ${index}`).join("/")
+    );
+    expect(response.status()).toBe(400);
+    expect((await response.json()).errorKey).toBe("INVALID_INPUT");
+  });
+});
+
+test.describe("folder management /api/events/{eventId}/folders", () => {
+  test("creates empty folders ahead of uploads", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+
+    for (const folder of ["Ceremony", "Party/Day 1"]) {
+      const created = await request.post(`${eventPath}/folders`, {
+        headers: adminHeaders,
+        data: { folder },
+      });
+      expect(created.status()).toBe(200);
+      expect(await created.json()).toEqual({ success: true });
+    }
+
+    const root = await request.get(`${eventPath}/files`, { headers: adminHeaders });
+    expect((await root.json()).folders.sort()).toEqual(["Ceremony", "Party"]);
+    const party = await request.get(`${eventPath}/files?folder=Party`, { headers: adminHeaders });
+    expectListFilesBody(await party.json(), { folder: "Party", folders: ["Day 1"], files: [] });
+
+    const duplicate = await request.post(`${eventPath}/folders`, {
+      headers: adminHeaders,
+      data: { folder: "Ceremony" },
+    });
+    expect(duplicate.status()).toBe(409);
+    expect((await duplicate.json()).errorKey).toBe("FOLDER_ALREADY_EXISTS");
+
+    const invalid = await request.post(`${eventPath}/folders`, {
+      headers: adminHeaders,
+      data: { folder: "../Ceremony" },
+    });
+    expect(invalid.status()).toBe(400);
+    expect((await invalid.json()).errorKey).toBe("INVALID_FOLDER");
+
+    const guest = await request.post(`${eventPath}/folders`, {
+      headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }),
+      data: { folder: "Guests" },
+    });
+    expect(guest.status()).toBe(403);
+  });
+
+  test("merges a folder into another and keeps both files on conflicts", async ({
+    request,
+  }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const guest = { user: "guest", password: payload.guestPassword as string };
+    const upload = (name: string, folder: string) =>
+      uploadFile(
+        request,
+        apiBase,
+        eventId,
+        guest,
+        { name, mimeType: "text/plain", content: name },
+        folder
+      );
+
+    await upload("a.txt", "Anna");
+    await upload("a.txt", "Ben");
+    await upload("b.txt", "Ben");
+    await upload("c.txt", "Ben/Raw");
+
+    const intoItself = await request.post(`${eventPath}/folders/Ben/merge`, {
+      headers: adminHeaders,
+      data: { into: "Ben/Raw" },
+    });
+    expect(intoItself.status()).toBe(400);
+    expect((await intoItself.json()).errorKey).toBe("INVALID_FOLDER");
+
+    const merged = await request.post(`${eventPath}/folders/Ben/merge`, {
+      headers: adminHeaders,
+      data: { into: "Anna" },
+    });
+    expect(merged.status()).toBe(200);
+    expect(await merged.json()).toEqual({ message: "Folders merged.", moved: 3, renamed: 1 });
+
+    const root = await request.get(`${eventPath}/files`, { headers: adminHeaders });
+    expect((await root.json()).folders).toEqual(["Anna"]);
+    const anna = await request.get(`${eventPath}/files?folder=Anna`, { headers: adminHeaders });
+    const annaBody = await anna.json();
+    expect(annaBody.folders).toEqual(["Raw"]);
+    expect(annaBody.files.map((file: { name: string }) => file.name).sort()).toEqual([
+      "a.txt",
+      "a_1.txt",
+      "b.txt",
+    ]);
+
+    const missing = await request.post(`${eventPath}/folders/Ben/merge`, {
+      headers: adminHeaders,
+      data: { into: "Anna" },
+    });
+    expect(missing.status()).toBe(404);
+
+    const audit = await request.get(`${eventPath}/audit?action=folderMerge`, {
+      headers: adminHeaders,
+    });
+    expect((await audit.json()).entries[0]).toMatchObject({ folder: "Ben", to: "Anna" });
+  });
+
+  test("deletes a folder with its files into the trash", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      { user: "guest", password: payload.guestPassword as string },
+      { name: "toast.txt", mimeType: "text/plain", content: "cheers" },
+      "Party/Day 1"
+    );
+
+    const deleted = await request.delete(`${eventPath}/folders/Party`, { headers: adminHeaders });
+    expect(deleted.status()).toBe(200);
+    expect(await deleted.json()).toEqual({ message: "Folder deleted.", deleted: 1 });
+
+    const root = await request.get(`${eventPath}/files`, { headers: adminHeaders });
+    expect((await root.json()).folders).toEqual([]);
+    const trash = await request.get(`${eventPath}/trash`, { headers: adminHeaders });
+    expect((await trash.json()).files).toMatchObject([
+      { folder: "Party/Day 1", name: "toast.txt" },
+    ]);
+
+    const again = await request.delete(`${eventPath}/folders/Party`, { headers: adminHeaders });
+    expect(again.status()).toBe(404);
+  });
+
+  test("deletes a folder that only holds files", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const guest = { user: "guest", password: payload.guestPassword as string };
+
+    for (const name of ["rings.txt", "vows.txt"]) {
+      await uploadFile(
+        request,
+        apiBase,
+        eventId,
+        guest,
+        { name, mimeType: "text/plain", content: name },
+        "Ceremony"
+      );
+    }
+
+    const deleted = await request.delete(`${eventPath}/folders/Ceremony`, {
+      headers: adminHeaders,
+    });
+    expect(deleted.status()).toBe(200);
+    expect(await deleted.json()).toEqual({ message: "Folder deleted.", deleted: 2 });
+
+    const root = await request.get(`${eventPath}/files`, { headers: adminHeaders });
+    expect((await root.json()).folders).toEqual([]);
+    const trash = await request.get(`${eventPath}/trash`, { headers: adminHeaders });
+    expect((await trash.json()).files).toHaveLength(2);
+
+    const missing = await request.delete(`${eventPath}/folders/Reception`, {
+      headers: adminHeaders,
+    });
+    expect(missing.status()).toBe(404);
+  });
+
+  test("leaves folder management to the admins", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const updated = await request.patch(eventPath, {
+      headers: adminHeaders,
+      data: { moderatorPassword: "moderator-secret" },
+    });
+    expect(updated.status()).toBe(200);
+    const created = await request.post(`${eventPath}/folders`, {
+      headers: adminHeaders,
+      data: { folder: "Anna" },
+    });
+    expect(created.status()).toBe(200);
+
+    const moderatorHeaders = toAuthHeader({ user: "moderator", password: "moderator-secret" });
+    const create = await request.post(`${eventPath}/folders`, {
+      headers: moderatorHeaders,
+      data: { folder: "Ben" },
+    });
+    expect(create.status()).toBe(403);
+    const merge = await request.post(`${eventPath}/folders/Anna/merge`, {
+      headers: moderatorHeaders,
+      data: { into: "Ben" },
+    });
+    expect(merge.status()).toBe(403);
+    const remove = await request.delete(`${eventPath}/folders/Anna`, {
+      headers: moderatorHeaders,
+    });
+    expect(remove.status()).toBe(403);
+
+    const root = await request.get(`${eventPath}/files`, { headers: adminHeaders });
+    expect((await root.json()).folders).toEqual(["Anna"]);
+  });
+});
+
 test.describe("POST /api/events/{eventId}/files", () => {
   test("uploads files with guest auth", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
@@ -1408,6 +3551,44 @@ test.describe("POST /api/events/{eventId}/files", () => {
     expect(uploadResponse.status()).toBe(200);
   });
 
+  test("restricts uploads to the predefined folders", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const guest = { user: "guest", password: payload.guestPassword as string };
+
+    const patchResponse = await request.patch(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}`,
+      {
+        headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+        data: { uploadFolders: ["Tom", "Ceremony/Camera A"], restrictUploadFolders: true },
+      }
+    );
+    expect(patchResponse.status()).toBe(200);
+
+    const file = { name: "upload.txt", mimeType: "text/plain", content: "hello" };
+    const { response: rejected } = await uploadFile(request, apiBase, eventId, guest, file, "tom");
+    expect(rejected.status()).toBe(400);
+    const body = await rejected.json();
+    expect(body.errorKey).toBe("UPLOAD_FOLDER_NOT_ALLOWED");
+    expect(body.property).toBe("from");
+
+    const { response: nested } = await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      guest,
+      file,
+      " Ceremony / Camera A "
+    );
+    expect(nested.status()).toBe(200);
+
+    // without requireUploadFolder the root stays allowed
+    const { response: root } = await uploadFile(request, apiBase, eventId, guest, file);
+    expect(root.status()).toBe(200);
+  });
+
   test("rejects invalid folder input", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
@@ -1503,19 +3684,263 @@ test.describe("POST /api/events/{eventId}/files", () => {
 
   test("rejects guest uploads when disabled", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
-    const { payload } = await createEvent(request, baseURL, { allowGuestUpload: false });
+    const { payload } = await createEvent(request, baseURL, { allowGuestUpload: false });
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const { response: uploadResponse } = await uploadFile(
+      request,
+      apiBase,
+      payload.eventId as string,
+      { user: "guest", password: payload.guestPassword as string },
+      { name: "upload.txt", mimeType: "text/plain", content: "hello" }
+    );
+    expect(uploadResponse.status()).toBe(403);
+    const body = await uploadResponse.json();
+    expect(body.errorKey).toBe("GUEST_UPLOADS_DISABLED");
+  });
+
+  test("rejects uploads above the total size limit", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload, body: eventBody } = await createEvent(request, baseURL, {
+      allowGuestDownload: true,
+    });
+    const maxTotalBytes = eventBody.uploadMaxTotalSizeBytes as number;
+    testInfo.skip(maxTotalBytes <= 0, "UPLOAD_MAX_TOTAL_SIZE_BYTES not configured");
+    const apiBase = getApiBaseUrl(baseURL);
+    const auth = { user: "admin", password: payload.adminPassword as string };
+
+    const { response: uploadResponse } = await uploadFile(
+      request,
+      apiBase,
+      payload.eventId as string,
+      auth,
+      {
+        name: "large.bin",
+        mimeType: "application/octet-stream",
+        content: Buffer.alloc(maxTotalBytes + 1),
+      }
+    );
+    expect(uploadResponse.status()).toBe(413);
+    const body = await uploadResponse.json();
+    expect(body.errorKey).toBe("UPLOAD_TOO_LARGE");
+    expect(body.additionalParams.maxBytes).toBe(maxTotalBytes);
+
+    const listResponse = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files`,
+      { headers: toAuthHeader(auth) }
+    );
+    expect(listResponse.status()).toBe(200);
+    const listBody = await listResponse.json();
+    expect(listBody.files).toEqual([]);
+  });
+});
+
+test.describe("resumable uploads /api/events/{eventId}/uploads", () => {
+  const createUpload = async (
+    request: import("@playwright/test").APIRequestContext,
+    apiBase: string,
+    eventId: string,
+    auth: Auth,
+    data: Record<string, unknown>
+  ) =>
+    request.post(`${apiBase}/api/events/${encodeURIComponent(eventId)}/uploads`, {
+      headers: toAuthHeader(auth),
+      data,
+    });
+
+  const sendChunk = async (
+    request: import("@playwright/test").APIRequestContext,
+    url: string,
+    auth: Auth,
+    offset: number,
+    chunk: Buffer
+  ) =>
+    request.patch(url, {
+      headers: {
+        ...toAuthHeader(auth),
+        "Content-Type": "application/offset+octet-stream",
+        "Upload-Offset": String(offset),
+      },
+      data: chunk,
+    });
+
+  test("uploads a file in chunks and resumes by offset", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const auth = { user: "guest", password: payload.guestPassword as string };
+    const content = Buffer.from("hello resumable world");
+
+    const createResponse = await createUpload(request, apiBase, eventId, auth, {
+      filename: "resumable.txt",
+      size: content.length,
+      mimeType: "text/plain",
+      from: "album-a",
+    });
+    expect(createResponse.status()).toBe(201);
+    const created = await createResponse.json();
+    expectExactKeys(created, ["uploadId", "offset", "size"]);
+    expect(created.offset).toBe(0);
+    expect(created.size).toBe(content.length);
+    const uploadUrl = `${apiBase}/api/events/${encodeURIComponent(eventId)}/uploads/${created.uploadId}`;
+
+    const firstChunk = await sendChunk(request, uploadUrl, auth, 0, content.subarray(0, 5));
+    expect(firstChunk.status()).toBe(200);
+    expect((await firstChunk.json()).offset).toBe(5);
+
+    const headResponse = await request.head(uploadUrl, { headers: toAuthHeader(auth) });
+    expect(headResponse.status()).toBe(200);
+    expect(headResponse.headers()["upload-offset"]).toBe("5");
+    expect(headResponse.headers()["upload-length"]).toBe(String(content.length));
+
+    const staleChunk = await sendChunk(request, uploadUrl, auth, 0, content.subarray(0, 5));
+    expect(staleChunk.status()).toBe(409);
+    const staleBody = await staleChunk.json();
+    expect(staleBody.errorKey).toBe("UPLOAD_OFFSET_MISMATCH");
+    expect(staleBody.additionalParams.offset).toBe(5);
+
+    const earlyComplete = await request.post(`${uploadUrl}/complete`, {
+      headers: toAuthHeader(auth),
+    });
+    expect(earlyComplete.status()).toBe(409);
+    expect((await earlyComplete.json()).errorKey).toBe("UPLOAD_INCOMPLETE");
+
+    const lastChunk = await sendChunk(request, uploadUrl, auth, 5, content.subarray(5));
+    expect(lastChunk.status()).toBe(200);
+    expect((await lastChunk.json()).offset).toBe(content.length);
+
+    const completeResponse = await request.post(`${uploadUrl}/complete`, {
+      headers: toAuthHeader(auth),
+    });
+    expect(completeResponse.status()).toBe(200);
+    expectUploadBody(await completeResponse.json(), { uploaded: 1, rejectedCount: 0 });
+
+    const download = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/album-a/resumable.txt`,
+      { headers: toAuthHeader(auth) }
+    );
+    expect(download.status()).toBe(200);
+    expect(await download.body()).toEqual(content);
+
+    const finishedHead = await request.head(uploadUrl, { headers: toAuthHeader(auth) });
+    expect(finishedHead.status()).toBe(404);
+  });
+
+  test("rejects chunks beyond the declared size", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const auth = { user: "admin", password: payload.adminPassword as string };
+
+    const createResponse = await createUpload(request, apiBase, eventId, auth, {
+      filename: "small.txt",
+      size: 4,
+      mimeType: "text/plain",
+    });
+    expect(createResponse.status()).toBe(201);
+    const { uploadId } = await createResponse.json();
+    const uploadUrl = `${apiBase}/api/events/${encodeURIComponent(eventId)}/uploads/${uploadId}`;
+
+    const response = await sendChunk(request, uploadUrl, auth, 0, Buffer.from("too long"));
+    expect(response.status()).toBe(413);
+    expect((await response.json()).errorKey).toBe("UPLOAD_TOO_LARGE");
+
+    const headResponse = await request.head(uploadUrl, { headers: toAuthHeader(auth) });
+    expect(headResponse.headers()["upload-offset"]).toBe("0");
+  });
+
+  test("rejects disallowed mime types on create", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { allowedMimeTypes: ["image/*"] });
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const response = await createUpload(
+      request,
+      apiBase,
+      payload.eventId as string,
+      { user: "admin", password: payload.adminPassword as string },
+      { filename: "notes.txt", size: 5, mimeType: "text/plain" }
+    );
+    expect(response.status()).toBe(415);
+    expect((await response.json()).errorKey).toBe("UNSUPPORTED_FILE_TYPE");
+  });
+
+  test("rejects unsafe file names", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const response = await createUpload(
+      request,
+      apiBase,
+      payload.eventId as string,
+      { user: "admin", password: payload.adminPassword as string },
+      { filename: "../evil.txt", size: 5, mimeType: "text/plain" }
+    );
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_INPUT");
+    expect(body.property).toBe("filename");
+  });
+
+  test("rejects guest uploads when disabled", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, {
+      allowGuestUpload: false,
+      allowGuestDownload: true,
+    });
     const apiBase = getApiBaseUrl(baseURL);
 
-    const { response: uploadResponse } = await uploadFile(
+    const response = await createUpload(
       request,
       apiBase,
       payload.eventId as string,
       { user: "guest", password: payload.guestPassword as string },
-      { name: "upload.txt", mimeType: "text/plain", content: "hello" }
+      { filename: "upload.txt", size: 5, mimeType: "text/plain" }
     );
-    expect(uploadResponse.status()).toBe(403);
-    const body = await uploadResponse.json();
-    expect(body.errorKey).toBe("GUEST_UPLOADS_DISABLED");
+    expect(response.status()).toBe(403);
+    expect((await response.json()).errorKey).toBe("GUEST_UPLOADS_DISABLED");
+  });
+
+  test("cancels an upload", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const auth = { user: "admin", password: payload.adminPassword as string };
+
+    const createResponse = await createUpload(request, apiBase, eventId, auth, {
+      filename: "cancel.txt",
+      size: 5,
+      mimeType: "text/plain",
+    });
+    const { uploadId } = await createResponse.json();
+    const uploadUrl = `${apiBase}/api/events/${encodeURIComponent(eventId)}/uploads/${uploadId}`;
+
+    const deleteResponse = await request.delete(uploadUrl, { headers: toAuthHeader(auth) });
+    expect(deleteResponse.status()).toBe(200);
+    expect(await deleteResponse.json()).toEqual({ ok: true, message: "Upload canceled." });
+
+    const response = await sendChunk(request, uploadUrl, auth, 0, Buffer.from("hello"));
+    expect(response.status()).toBe(404);
+    expect((await response.json()).errorKey).toBe("UPLOAD_NOT_FOUND");
+  });
+
+  test("rejects invalid upload id", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const response = await request.post(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/uploads/not-a-uuid/complete`,
+      { headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }) }
+    );
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_INPUT");
+    expect(body.property).toBe("uploadId");
   });
 });
 
@@ -1670,6 +4095,103 @@ test.describe("GET /api/events/{eventId}/files/{folder}/{filename}", () => {
     const body = await response.json();
     expect(body.errorKey).toBe("FILE_NOT_FOUND");
   });
+
+  test("serves byte ranges of a file", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const auth = { user: "admin" as const, password: payload.adminPassword as string };
+    const fileUrl = `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/album-1/range.txt`;
+
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      auth,
+      { name: "range.txt", mimeType: "text/plain", content: "0123456789" },
+      "album-1"
+    );
+
+    const full = await request.get(fileUrl, { headers: toAuthHeader(auth) });
+    expect(full.status()).toBe(200);
+    expect(full.headers()["accept-ranges"]).toBe("bytes");
+    expect(full.headers()["content-length"]).toBe("10");
+    const etag = full.headers()["etag"];
+    expect(etag).toBeTruthy();
+
+    const partial = await request.get(fileUrl, {
+      headers: { ...toAuthHeader(auth), Range: "bytes=2-5" },
+    });
+    expect(partial.status()).toBe(206);
+    expect(partial.headers()["content-range"]).toBe("bytes 2-5/10");
+    expect(await partial.text()).toBe("2345");
+
+    const suffix = await request.get(fileUrl, {
+      headers: { ...toAuthHeader(auth), Range: "bytes=-3" },
+    });
+    expect(suffix.status()).toBe(206);
+    expect(await suffix.text()).toBe("789");
+
+    const staleIfRange = await request.get(fileUrl, {
+      headers: { ...toAuthHeader(auth), Range: "bytes=2-5", "If-Range": '"outdated"' },
+    });
+    expect(staleIfRange.status()).toBe(200);
+    expect(await staleIfRange.text()).toBe("0123456789");
+
+    const freshIfRange = await request.get(fileUrl, {
+      headers: { ...toAuthHeader(auth), Range: "bytes=8-", "If-Range": etag },
+    });
+    expect(freshIfRange.status()).toBe(206);
+    expect(await freshIfRange.text()).toBe("89");
+
+    const unsatisfiable = await request.get(fileUrl, {
+      headers: { ...toAuthHeader(auth), Range: "bytes=20-30" },
+    });
+    expect(unsatisfiable.status()).toBe(416);
+    expect(unsatisfiable.headers()["content-range"]).toBe("bytes */10");
+    expect((await unsatisfiable.json()).errorKey).toBe("RANGE_NOT_SATISFIABLE");
+  });
+
+  test("answers conditional requests with not modified", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const auth = { user: "admin" as const, password: payload.adminPassword as string };
+    const fileUrl = `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/album-1/cached.txt`;
+
+    await uploadFile(
+      request,
+      apiBase,
+      eventId,
+      auth,
+      { name: "cached.txt", mimeType: "text/plain", content: "cached content" },
+      "album-1"
+    );
+
+    const first = await request.get(fileUrl, { headers: toAuthHeader(auth) });
+    expect(first.status()).toBe(200);
+    const etag = first.headers()["etag"];
+    const lastModified = first.headers()["last-modified"];
+
+    const byEtag = await request.get(fileUrl, {
+      headers: { ...toAuthHeader(auth), "If-None-Match": etag },
+    });
+    expect(byEtag.status()).toBe(304);
+    expect(byEtag.headers()["etag"]).toBe(etag);
+
+    const byDate = await request.get(fileUrl, {
+      headers: { ...toAuthHeader(auth), "If-Modified-Since": lastModified },
+    });
+    expect(byDate.status()).toBe(304);
+
+    const changed = await request.get(fileUrl, {
+      headers: { ...toAuthHeader(auth), "If-None-Match": '"outdated"' },
+    });
+    expect(changed.status()).toBe(200);
+    expect(await changed.text()).toBe("cached content");
+  });
 });
 
 test.describe("GET /api/events/{eventId}/files/{filename}", () => {
@@ -1840,6 +4362,88 @@ test.describe("GET /api/events/{eventId}/files/{filename}/preview", () => {
     expect((await response.body()).length).toBeGreaterThan(0);
   });
 
+  test("serves repeated previews from cache until the file is deleted", async ({
+    request,
+  }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const auth = { user: "admin" as const, password: payload.adminPassword as string };
+    const previewUrl = `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/cached.png/preview?w=120&format=webp`;
+
+    const { response: uploadResponse } = await uploadFile(request, apiBase, eventId, auth, {
+      name: "cached.png",
+      mimeType: "image/png",
+      content: tinyPng,
+    });
+    expect(uploadResponse.status()).toBe(200);
+
+    const first = await request.get(previewUrl, { headers: toAuthHeader(auth) });
+    expect(first.status()).toBe(200);
+    expect(first.headers()["x-preview-cache"]).toBe("MISS");
+
+    const second = await request.get(previewUrl, { headers: toAuthHeader(auth) });
+    expect(second.status()).toBe(200);
+    expect(second.headers()["x-preview-cache"]).toBe("HIT");
+    expect(second.headers()["content-type"]).toContain("image/webp");
+    expect(await second.body()).toEqual(await first.body());
+
+    const deleteResponse = await request.delete(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/cached.png`,
+      { headers: toAuthHeader(auth) }
+    );
+    expect(deleteResponse.status()).toBe(200);
+
+    const afterDelete = await request.get(previewUrl, { headers: toAuthHeader(auth) });
+    expect(afterDelete.status()).toBe(404);
+    expect((await afterDelete.json()).errorKey).toBe("FILE_NOT_FOUND");
+  });
+
+  test("pre-generates standard previews after upload", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const auth = { user: "admin" as const, password: payload.adminPassword as string };
+
+    const { response: uploadResponse } = await uploadFile(request, apiBase, eventId, auth, {
+      name: "pregenerated.png",
+      mimeType: "image/png",
+      content: tinyPng,
+    });
+    expect(uploadResponse.status()).toBe(200);
+
+    await expect
+      .poll(
+        async () => {
+          const response = await request.get(
+            `${apiBase}/api/events/${encodeURIComponent(eventId)}/previews/status`,
+            { headers: toAuthHeader(auth) }
+          );
+          expect(response.status()).toBe(200);
+          const body = await response.json();
+          expectExactKeys(body, ["pending", "processing", "completed", "failed"]);
+          return body.completed;
+        },
+        { timeout: 10000, intervals: [250, 500, 1000] }
+      )
+      .toBe(1);
+
+    const lightbox = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/pregenerated.png/preview?w=1500&h=1500&q=80&format=jpeg`,
+      { headers: toAuthHeader(auth) }
+    );
+    expect(lightbox.status()).toBe(200);
+    expect(lightbox.headers()["x-preview-cache"]).toBe("HIT");
+
+    const guestStatus = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/previews/status`,
+      { headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }) }
+    );
+    expect(guestStatus.status()).toBe(403);
+  });
+
   test("rejects invalid preview params", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
@@ -1951,71 +4555,449 @@ test.describe("GET /api/events/{eventId}/files/{filename}/preview", () => {
     expect(body.errorKey).toBe("UNSUPPORTED_FILE_TYPE");
     expect(body.property).toBe("filename");
   });
+
+  test("renders previews of gif, tiff and avif images", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const auth = { user: "admin" as const, password: payload.adminPassword as string };
+
+    const images = [
+      { name: "animated.gif", mimeType: "image/gif", content: tinyGif },
+      { name: "scan.tiff", mimeType: "image/tiff", content: tinyTiff },
+      { name: "photo.avif", mimeType: "image/avif", content: tinyAvif },
+    ];
+    for (const image of images) {
+      const { response: uploadResponse } = await uploadFile(request, apiBase, eventId, auth, image);
+      expect(uploadResponse.status()).toBe(200);
+
+      const response = await request.get(
+        `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/${image.name}/preview?w=64&format=jpeg`,
+        { headers: toAuthHeader(auth) }
+      );
+      expect(response.status(), image.name).toBe(200);
+      expect(response.headers()["content-type"]).toContain("image/jpeg");
+      expect((await response.body()).subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+    }
+  });
+
+  test("detects the image format from the file content", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const auth = { user: "admin" as const, password: payload.adminPassword as string };
+
+    await uploadFile(request, apiBase, eventId, auth, {
+      name: "renamed.heic",
+      mimeType: "image/heic",
+      content: tinyPng,
+    });
+    await uploadFile(request, apiBase, eventId, auth, {
+      name: "fake.jpg",
+      mimeType: "image/jpeg",
+      content: "not really an image",
+    });
+
+    const renamed = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/renamed.heic/preview?w=64`,
+      { headers: toAuthHeader(auth) }
+    );
+    expect(renamed.status()).toBe(200);
+    expect(renamed.headers()["content-type"]).toContain("image/jpeg");
+
+    const fake = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/fake.jpg/preview?w=64`,
+      { headers: toAuthHeader(auth) }
+    );
+    expect(fake.status()).toBe(415);
+    const body = await fake.json();
+    expect(body.errorKey).toBe("UNSUPPORTED_FILE_TYPE");
+    expect(body.property).toBe("filename");
+  });
+});
+
+test.describe("GET /api/events/{eventId}/files/{filename}/poster and /clip", () => {
+  test("renders poster frames and clips of videos", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const auth = { user: "admin" as const, password: payload.adminPassword as string };
+    const guestAuth = { user: "guest" as const, password: payload.guestPassword as string };
+
+    const { response: uploadResponse } = await uploadFile(request, apiBase, eventId, auth, {
+      name: "clip.mp4",
+      mimeType: "video/mp4",
+      content: tinyMp4,
+    });
+    expect(uploadResponse.status()).toBe(200);
+
+    const posterUrl = `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/clip.mp4/poster?w=64&h=64&fit=cover&format=jpeg`;
+    const poster = await request.get(posterUrl, { headers: toAuthHeader(guestAuth) });
+    test.skip(poster.status() === 503, "ffmpeg is not installed on the test server");
+    expect(poster.status()).toBe(200);
+    expect(poster.headers()["content-type"]).toContain("image/jpeg");
+    expect(poster.headers()["x-preview-cache"]).toBe("MISS");
+    expect((await poster.body()).subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+
+    const cachedPoster = await request.get(posterUrl, { headers: toAuthHeader(guestAuth) });
+    expect(cachedPoster.status()).toBe(200);
+    expect(cachedPoster.headers()["x-preview-cache"]).toBe("HIT");
+
+    const clip = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/clip.mp4/clip?w=96`,
+      { headers: toAuthHeader(guestAuth) }
+    );
+    expect(clip.status()).toBe(200);
+    expect(clip.headers()["content-type"]).toContain("video/mp4");
+    expect((await clip.body()).subarray(4, 8).toString("latin1")).toBe("ftyp");
+  });
+
+  test("rejects posters for files that are no videos", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const auth = { user: "admin" as const, password: payload.adminPassword as string };
+
+    await uploadFile(request, apiBase, eventId, auth, {
+      name: "photo.mp4",
+      mimeType: "video/mp4",
+      content: tinyPng,
+    });
+
+    const response = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(eventId)}/files/photo.mp4/poster`,
+      { headers: toAuthHeader(auth) }
+    );
+    expect(response.status()).toBe(415);
+    const body = await response.json();
+    expect(body.errorKey).toBe("UNSUPPORTED_FILE_TYPE");
+    expect(body.property).toBe("filename");
+  });
+
+  test("rejects clips of missing files", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const response = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files/album/missing.mp4/clip`,
+      { headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }) }
+    );
+    expect(response.status()).toBe(404);
+    expect((await response.json()).errorKey).toBe("FILE_NOT_FOUND");
+  });
+});
+
+test.describe("GET /api/events/{eventId}/files/{folder}/{filename}/preview", () => {
+  test("returns resized preview from folder path", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
+    const apiBase = getApiBaseUrl(baseURL);
+
+    await uploadFile(
+      request,
+      apiBase,
+      payload.eventId as string,
+      { user: "guest", password: payload.guestPassword as string },
+      { name: "folder-preview.png", mimeType: "image/png", content: tinyPng },
+      "album"
+    );
+
+    const response = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files/album/folder-preview.png/preview?w=200`,
+      { headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }) }
+    );
+    expect(response.status()).toBe(200);
+    expect(response.headers()["content-type"]).toContain("image/jpeg");
+    expect(response.headers()["cache-control"]).toContain("public, max-age=31536000, immutable");
+  });
+
+  test("rejects invalid folder path", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const response = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files/bad!/preview.png/preview`,
+      { headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }) }
+    );
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_FOLDER");
+    expect(body.property).toBe("folder");
+  });
+
+  test("rejects invalid event id", async ({ request }, testInfo) => {
+    const apiBase = getApiBaseUrl(testInfo.project.use.baseURL as string | undefined);
+
+    const response = await request.get(
+      `${apiBase}/api/events/bad_/files/album/preview.png/preview`
+    );
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_EVENT_ID");
+  });
+
+  test("rejects invalid filename", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const response = await request.get(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files/album/bad%5Cname/preview`,
+      { headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }) }
+    );
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.errorKey).toBe("INVALID_FILENAME");
+    expect(body.property).toBe("filename");
+  });
 });
 
-test.describe("GET /api/events/{eventId}/files/{folder}/{filename}/preview", () => {
-  test("returns resized preview from folder path", async ({ request }, testInfo) => {
+test.describe("PATCH /api/events/{eventId}/files/{filename}", () => {
+  test("renames a file and suffixes taken names", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const admin = { user: "admin", password: payload.adminPassword as string };
+
+    for (const name of ["IMG_4033_3.txt", "party.txt"]) {
+      await uploadFile(request, apiBase, eventId, admin, {
+        name,
+        mimeType: "text/plain",
+        content: name,
+      });
+    }
+
+    const renamed = await request.patch(`${eventPath}/files/IMG_4033_3.txt`, {
+      headers: adminHeaders,
+      data: { name: "party.txt" },
+    });
+    expect(renamed.status()).toBe(200);
+    expect(await renamed.json()).toEqual({
+      message: "File updated.",
+      folder: "",
+      filename: "party_1.txt",
+    });
+
+    const list = await request.get(`${eventPath}/files`, { headers: adminHeaders });
+    const names = ((await list.json()).files as Array<{ name: string }>).map((file) => file.name);
+    expect(names.sort()).toEqual(["party.txt", "party_1.txt"]);
+
+    const extension = await request.patch(`${eventPath}/files/party.txt`, {
+      headers: adminHeaders,
+      data: { name: "party.html" },
+    });
+    expect(extension.status()).toBe(400);
+    expect((await extension.json()).errorKey).toBe("INVALID_FILENAME");
+
+    const unsafe = await request.patch(`${eventPath}/files/party.txt`, {
+      headers: adminHeaders,
+      data: { name: "../party.txt" },
+    });
+    expect(unsafe.status()).toBe(400);
+    expect((await unsafe.json()).errorKey).toBe("INVALID_FILENAME");
+
+    const missing = await request.patch(`${eventPath}/files/missing.txt`, {
+      headers: adminHeaders,
+      data: { name: "found.txt" },
+    });
+    expect(missing.status()).toBe(404);
+
+    const guest = await request.patch(`${eventPath}/files/party.txt`, {
+      headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }),
+      data: { name: "guest.txt" },
+    });
+    expect(guest.status()).toBe(403);
+  });
+
+  test("moves and renames a file out of a folder", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const admin = { user: "admin", password: payload.adminPassword as string };
+    const file = { name: "photo.txt", mimeType: "text/plain", content: "photo" };
+
+    await uploadFile(request, apiBase, eventId, admin, file, "Tom");
+    await uploadFile(request, apiBase, eventId, admin, file, "Ceremony/Camera A");
+
+    const moved = await request.patch(`${eventPath}/files/Tom/photo.txt`, {
+      headers: adminHeaders,
+      data: { to: "Ceremony/Camera A" },
+    });
+    expect(moved.status()).toBe(200);
+    expect(await moved.json()).toEqual({
+      message: "File updated.",
+      folder: "Ceremony/Camera A",
+      filename: "photo_1.txt",
+    });
+
+    const both = await request.patch(
+      `${eventPath}/files/${encodeURIComponent("Ceremony/Camera A")}/photo_1.txt`,
+      { headers: adminHeaders, data: { name: "toast.txt", to: "" } }
+    );
+    expect(both.status()).toBe(200);
+    expect(await both.json()).toEqual({
+      message: "File updated.",
+      folder: "",
+      filename: "toast.txt",
+    });
+
+    const unchanged = await request.patch(`${eventPath}/files/toast.txt`, {
+      headers: adminHeaders,
+      data: { name: "toast.txt", to: "" },
+    });
+    expect(unchanged.status()).toBe(400);
+    expect((await unchanged.json()).errorKey).toBe("INVALID_INPUT");
+
+    const tom = await request.get(`${eventPath}/files?folder=Tom`, { headers: adminHeaders });
+    expectListFilesBody(await tom.json(), { folder: "Tom", folders: [], files: [] });
+    const root = await request.get(`${eventPath}/files`, { headers: adminHeaders });
+    expect(((await root.json()).files as Array<{ name: string }>).map((f) => f.name)).toEqual([
+      "toast.txt",
+    ]);
+  });
+
+  test("keeps the date of a renamed or moved file", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
-    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
+    const { payload } = await createEvent(request, baseURL);
     const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const admin = { user: "admin", password: payload.adminPassword as string };
+    const createdAtOf = async (folder: string, name: string) => {
+      const list = await request.get(`${eventPath}/files?folder=${encodeURIComponent(folder)}`, {
+        headers: adminHeaders,
+      });
+      const files = (await list.json()).files as Array<{ name: string; createdAt: string }>;
+      return files.find((file) => file.name === name)?.createdAt;
+    };
 
-    await uploadFile(
-      request,
-      apiBase,
-      payload.eventId as string,
-      { user: "guest", password: payload.guestPassword as string },
-      { name: "folder-preview.png", mimeType: "image/png", content: tinyPng },
-      "album"
-    );
+    await uploadFile(request, apiBase, eventId, admin, {
+      name: "dated.txt",
+      mimeType: "text/plain",
+      content: "dated",
+    });
+    const createdAt = await createdAtOf("", "dated.txt");
+    expect(createdAt).toBeTruthy();
+    // mtimes of a copy would differ by at least this much
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+
+    const renamed = await request.patch(`${eventPath}/files/dated.txt`, {
+      headers: adminHeaders,
+      data: { name: "renamed.txt" },
+    });
+    expect(renamed.status()).toBe(200);
+    expect(await createdAtOf("", "renamed.txt")).toBe(createdAt);
 
-    const response = await request.get(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files/album/folder-preview.png/preview?w=200`,
-      { headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }) }
-    );
-    expect(response.status()).toBe(200);
-    expect(response.headers()["content-type"]).toContain("image/jpeg");
-    expect(response.headers()["cache-control"]).toContain("public, max-age=31536000, immutable");
+    const moved = await request.patch(`${eventPath}/files/renamed.txt`, {
+      headers: adminHeaders,
+      data: { to: "Moved" },
+    });
+    expect(moved.status()).toBe(200);
+    expect(await createdAtOf("Moved", "renamed.txt")).toBe(createdAt);
   });
 
-  test("rejects invalid folder path", async ({ request }, testInfo) => {
+  test("keeps shared files in place until the link is revoked", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
     const { payload } = await createEvent(request, baseURL);
     const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const admin = { user: "admin", password: payload.adminPassword as string };
+
+    await uploadFile(request, apiBase, eventId, admin, {
+      name: "shared.txt",
+      mimeType: "text/plain",
+      content: "shared",
+    });
+    const shareResponse = await request.post(`${eventPath}/shares`, {
+      headers: adminHeaders,
+      data: { kind: "file", filename: "shared.txt", expiresInHours: 24 },
+    });
+    expect(shareResponse.status()).toBe(200);
+    const share = await shareResponse.json();
 
-    const response = await request.get(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files/bad!/preview.png/preview`,
-      { headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }) }
-    );
-    expect(response.status()).toBe(400);
-    const body = await response.json();
-    expect(body.errorKey).toBe("INVALID_FOLDER");
-    expect(body.property).toBe("folder");
-  });
+    const renamed = await request.patch(`${eventPath}/files/shared.txt`, {
+      headers: adminHeaders,
+      data: { name: "renamed.txt" },
+    });
+    expect(renamed.status()).toBe(409);
+    expect((await renamed.json()).errorKey).toBe("FILE_SHARED");
 
-  test("rejects invalid event id", async ({ request }, testInfo) => {
-    const apiBase = getApiBaseUrl(testInfo.project.use.baseURL as string | undefined);
+    const moved = await request.post(`${eventPath}/files/batch/move`, {
+      headers: adminHeaders,
+      data: { files: [{ folder: "", filename: "shared.txt" }], to: "Elsewhere" },
+    });
+    expect(moved.status()).toBe(200);
+    expect((await moved.json()).processed).toBe(0);
 
-    const response = await request.get(
-      `${apiBase}/api/events/bad_/files/album/preview.png/preview`
-    );
-    expect(response.status()).toBe(400);
-    const body = await response.json();
-    expect(body.errorKey).toBe("INVALID_EVENT_ID");
+    const download = await request.get(`${apiBase}${share.path}`);
+    expect(download.status()).toBe(200);
+
+    const revoked = await request.delete(`${eventPath}/shares/${share.shareId}`, {
+      headers: adminHeaders,
+    });
+    expect(revoked.status()).toBe(200);
+
+    const retried = await request.patch(`${eventPath}/files/shared.txt`, {
+      headers: adminHeaders,
+      data: { name: "renamed.txt" },
+    });
+    expect(retried.status()).toBe(200);
+    expect((await retried.json()).filename).toBe("renamed.txt");
   });
 
-  test("rejects invalid filename", async ({ request }, testInfo) => {
+  test("keeps the cached previews of a renamed file", async ({ request }, testInfo) => {
     const baseURL = testInfo.project.use.baseURL as string | undefined;
-    const { payload } = await createEvent(request, baseURL, { allowGuestDownload: true });
+    const { payload } = await createEvent(request, baseURL);
     const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(eventId)}`;
+    const adminHeaders = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+    const admin = { user: "admin", password: payload.adminPassword as string };
+
+    await uploadFile(request, apiBase, eventId, admin, {
+      name: "before.png",
+      mimeType: "image/png",
+      content: tinyPng,
+    });
+    // an odd width, so the preview worker never renders it on its own
+    const before = await request.get(`${eventPath}/files/before.png/preview?w=37&format=webp`, {
+      headers: adminHeaders,
+    });
+    expect(before.headers()["x-preview-cache"]).toBe("MISS");
 
-    const response = await request.get(
-      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/files/album/bad%5Cname/preview`,
-      { headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }) }
+    const renamed = await request.patch(`${eventPath}/files/before.png`, {
+      headers: adminHeaders,
+      data: { name: "after.png", to: "Renamed" },
+    });
+    expect(renamed.status()).toBe(200);
+
+    const after = await request.get(
+      `${eventPath}/files/Renamed/after.png/preview?w=37&format=webp`,
+      { headers: adminHeaders }
     );
-    expect(response.status()).toBe(400);
-    const body = await response.json();
-    expect(body.errorKey).toBe("INVALID_FILENAME");
-    expect(body.property).toBe("filename");
+    expect(after.status()).toBe(200);
+    expect(after.headers()["x-preview-cache"]).toBe("HIT");
+    expect(await after.body()).toEqual(await before.body());
+
+    const old = await request.get(`${eventPath}/files/before.png/preview?w=37&format=webp`, {
+      headers: adminHeaders,
+    });
+    expect(old.status()).toBe(404);
   });
 });
 
@@ -2373,3 +5355,459 @@ test.describe("GET /api/events/{eventId}/files.zip", () => {
     expect(body.errorKey).toBe("NO_FILES_AVAILABLE");
   });
 });
+
+test.describe("POST /api/events/{eventId}/shares", () => {
+  test("shares a single file without auth", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminAuth = { user: "admin", password: payload.adminPassword as string };
+
+    await uploadFile(request, apiBase, payload.eventId as string, adminAuth, {
+      name: "shared.txt",
+      mimeType: "text/plain",
+      content: "shared content",
+    });
+    await uploadFile(request, apiBase, payload.eventId as string, adminAuth, {
+      name: "private.txt",
+      mimeType: "text/plain",
+      content: "private content",
+    });
+
+    const response = await request.post(`${eventPath}/shares`, {
+      headers: toAuthHeader(adminAuth),
+      data: { kind: "file", filename: "shared.txt", expiresInHours: 24 },
+    });
+    expect(response.status()).toBe(200);
+    const share = await response.json();
+    expectExactKeys(share, [
+      "shareId",
+      "kind",
+      "folder",
+      "filename",
+      "createdAt",
+      "expiresAt",
+      "token",
+      "path",
+    ]);
+    expect(share.kind).toBe("file");
+    expect(share.filename).toBe("shared.txt");
+
+    const download = await request.get(`${apiBase}${share.path}`);
+    expect(download.status()).toBe(200);
+    expect(await download.text()).toBe("shared content");
+
+    const other = await request.get(
+      `${eventPath}/files/private.txt?share=${encodeURIComponent(share.token)}`
+    );
+    expect(other.status()).toBe(403);
+    expect((await other.json()).errorKey).toBe("SHARE_LINK_INVALID");
+
+    const listing = await request.get(
+      `${eventPath}/files?share=${encodeURIComponent(share.token)}`
+    );
+    expect(listing.status()).toBe(403);
+  });
+
+  test("shares a folder with its files and zip", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminAuth = { user: "admin", password: payload.adminPassword as string };
+
+    await uploadFile(
+      request,
+      apiBase,
+      payload.eventId as string,
+      adminAuth,
+      { name: "in-folder.txt", mimeType: "text/plain", content: "folder content" },
+      "Alice"
+    );
+    await uploadFile(
+      request,
+      apiBase,
+      payload.eventId as string,
+      adminAuth,
+      { name: "elsewhere.txt", mimeType: "text/plain", content: "other content" },
+      "Bob"
+    );
+
+    const response = await request.post(`${eventPath}/shares`, {
+      headers: toAuthHeader(adminAuth),
+      data: { kind: "folder", folder: "Alice" },
+    });
+    expect(response.status()).toBe(200);
+    const share = await response.json();
+    const token = encodeURIComponent(share.token);
+
+    const listing = await request.get(`${eventPath}/files?folder=Alice&share=${token}`);
+    expect(listing.status()).toBe(200);
+    const body = await listing.json();
+    expect(body.files.map((file: { name: string }) => file.name)).toEqual(["in-folder.txt"]);
+
+    const download = await request.get(`${eventPath}/files/Alice/in-folder.txt?share=${token}`);
+    expect(download.status()).toBe(200);
+
+    const zip = await request.get(`${eventPath}/files.zip?folder=Alice&share=${token}`);
+    expect(zip.status()).toBe(200);
+    expect(zip.headers()["content-type"]).toContain("application/zip");
+
+    const otherFolder = await request.get(`${eventPath}/files/Bob/elsewhere.txt?share=${token}`);
+    expect(otherFolder.status()).toBe(403);
+    const rootZip = await request.get(`${eventPath}/files.zip?share=${token}`);
+    expect(rootZip.status()).toBe(403);
+  });
+
+  test("lists and revokes share links", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminAuth = { user: "admin", password: payload.adminPassword as string };
+
+    await uploadFile(
+      request,
+      apiBase,
+      payload.eventId as string,
+      adminAuth,
+      { name: "revoke.txt", mimeType: "text/plain", content: "revoke" },
+      "Revoke"
+    );
+
+    const created = await request.post(`${eventPath}/shares`, {
+      headers: toAuthHeader(adminAuth),
+      data: { kind: "zip", folder: "Revoke" },
+    });
+    const share = await created.json();
+
+    const list = await request.get(`${eventPath}/shares`, { headers: toAuthHeader(adminAuth) });
+    expect(list.status()).toBe(200);
+    expect((await list.json()).shares).toEqual([share]);
+
+    const revoke = await request.delete(`${eventPath}/shares/${share.shareId}`, {
+      headers: toAuthHeader(adminAuth),
+    });
+    expect(revoke.status()).toBe(200);
+    expect(await revoke.json()).toEqual({ success: true });
+
+    const download = await request.get(`${apiBase}${share.path}`);
+    expect(download.status()).toBe(403);
+
+    const again = await request.delete(`${eventPath}/shares/${share.shareId}`, {
+      headers: toAuthHeader(adminAuth),
+    });
+    expect(again.status()).toBe(404);
+    expect((await again.json()).errorKey).toBe("SHARE_LINK_NOT_FOUND");
+  });
+
+  test("rejects tampered share tokens", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminAuth = { user: "admin", password: payload.adminPassword as string };
+
+    await uploadFile(request, apiBase, payload.eventId as string, adminAuth, {
+      name: "tamper.txt",
+      mimeType: "text/plain",
+      content: "tamper",
+    });
+    const created = await request.post(`${eventPath}/shares`, {
+      headers: toAuthHeader(adminAuth),
+      data: { kind: "file", filename: "tamper.txt" },
+    });
+    const share = await created.json();
+
+    const response = await request.get(
+      `${eventPath}/files/tamper.txt?share=${encodeURIComponent(`${share.shareId}.forged`)}`
+    );
+    expect(response.status()).toBe(403);
+    expect((await response.json()).errorKey).toBe("SHARE_LINK_INVALID");
+  });
+
+  test("rejects guest auth", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const response = await request.post(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/shares`,
+      {
+        headers: toAuthHeader({ user: "guest", password: payload.guestPassword as string }),
+        data: { kind: "folder", folder: "Alice" },
+      }
+    );
+    expect(response.status()).toBe(403);
+  });
+
+  test("returns 404 for missing targets", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminAuth = { user: "admin", password: payload.adminPassword as string };
+
+    const folder = await request.post(`${eventPath}/shares`, {
+      headers: toAuthHeader(adminAuth),
+      data: { kind: "folder", folder: "Missing" },
+    });
+    expect(folder.status()).toBe(404);
+    expect((await folder.json()).errorKey).toBe("FOLDER_NOT_FOUND");
+
+    const file = await request.post(`${eventPath}/shares`, {
+      headers: toAuthHeader(adminAuth),
+      data: { kind: "file", filename: "missing.txt" },
+    });
+    expect(file.status()).toBe(404);
+  });
+
+  test("rejects invalid share link requests", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventPath = `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}`;
+    const adminAuth = { user: "admin", password: payload.adminPassword as string };
+
+    const noFilename = await request.post(`${eventPath}/shares`, {
+      headers: toAuthHeader(adminAuth),
+      data: { kind: "file" },
+    });
+    expect(noFilename.status()).toBe(400);
+
+    const tooLong = await request.post(`${eventPath}/shares`, {
+      headers: toAuthHeader(adminAuth),
+      data: { kind: "folder", folder: "Alice", expiresInHours: 100000 },
+    });
+    expect(tooLong.status()).toBe(400);
+  });
+});
+
+test.describe("operator console /api/operator", () => {
+  test("exchanges the operator password for a session token", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const wrong = await request.post(`${apiBase}/api/operator/login`, {
+      data: { password: "not-the-password" },
+    });
+    expect(wrong.status()).toBe(401);
+    expect((await wrong.json()).property).toBe("password");
+
+    const login = await request.post(`${apiBase}/api/operator/login`, {
+      data: { password: operatorPassword },
+    });
+    expect(login.status()).toBe(200);
+    const session = await login.json();
+    expectExactKeys(session, ["token", "expiresAt"]);
+
+    const events = await request.get(`${apiBase}/api/operator/events`, {
+      headers: toBearerHeader(session.token),
+    });
+    expect(events.status()).toBe(200);
+
+    const logout = await request.post(`${apiBase}/api/operator/logout`, {
+      headers: toBearerHeader(session.token),
+    });
+    expect(logout.status()).toBe(200);
+    const revoked = await request.get(`${apiBase}/api/operator/events`, {
+      headers: toBearerHeader(session.token),
+    });
+    expect(revoked.status()).toBe(401);
+  });
+
+  test("rejects missing auth and event sessions", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+
+    const anonymous = await request.get(`${apiBase}/api/operator/events`);
+    expect(anonymous.status()).toBe(401);
+
+    const admin = await request.get(`${apiBase}/api/operator/events`, {
+      headers: toAuthHeader({ user: "admin", password: payload.adminPassword as string }),
+    });
+    expect(admin.status()).toBe(403);
+
+    const login = await request.post(
+      `${apiBase}/api/events/${encodeURIComponent(payload.eventId as string)}/login`,
+      { data: { user: "admin", password: payload.adminPassword } }
+    );
+    const { token } = await login.json();
+    const adminSession = await request.get(`${apiBase}/api/operator/events`, {
+      headers: toBearerHeader(token),
+    });
+    expect(adminSession.status()).toBe(401);
+  });
+
+  test("lists events with their storage use", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+
+    await uploadFile(
+      request,
+      apiBase,
+      payload.eventId as string,
+      { user: "admin", password: payload.adminPassword as string },
+      { name: "operator.txt", mimeType: "text/plain", content: "operator" }
+    );
+
+    const response = await request.get(`${apiBase}/api/operator/events`, {
+      headers: toOperatorHeader(),
+    });
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    const summary = body.events.find(
+      (event: { eventId: string }) => event.eventId === payload.eventId
+    );
+    expectExactKeys(summary, [
+      "eventId",
+      "name",
+      "createdAt",
+      "expiresAt",
+      "locked",
+      "usedBytes",
+      "usedFiles",
+      "lastUploadAt",
+      "quotaBytes",
+      "quotaFiles",
+    ]);
+    expect(summary.name).toBe(payload.name);
+    expect(summary.locked).toBe(false);
+    expect(summary.usedFiles).toBe(1);
+    expect(summary.usedBytes).toBe("operator".length);
+    expect(typeof summary.lastUploadAt).toBe("string");
+  });
+
+  test("locks and unlocks an event", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = encodeURIComponent(payload.eventId as string);
+    const adminHeader = toAuthHeader({ user: "admin", password: payload.adminPassword as string });
+
+    const lock = await request.patch(`${apiBase}/api/operator/events/${eventId}`, {
+      headers: toOperatorHeader(),
+      data: { locked: true },
+    });
+    expect(lock.status()).toBe(200);
+    expect((await lock.json()).locked).toBe(true);
+
+    const locked = await request.get(`${apiBase}/api/events/${eventId}`, { headers: adminHeader });
+    expect(locked.status()).toBe(423);
+    expect((await locked.json()).errorKey).toBe("EVENT_LOCKED");
+    const login = await request.post(`${apiBase}/api/events/${eventId}/login`, {
+      data: { user: "admin", password: payload.adminPassword },
+    });
+    expect(login.status()).toBe(423);
+
+    const unlock = await request.patch(`${apiBase}/api/operator/events/${eventId}`, {
+      headers: toOperatorHeader(),
+      data: { locked: false },
+    });
+    expect(unlock.status()).toBe(200);
+    const unlocked = await request.get(`${apiBase}/api/events/${eventId}`, {
+      headers: adminHeader,
+    });
+    expect(unlocked.status()).toBe(200);
+  });
+
+  test("sets the storage quota of an event", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = payload.eventId as string;
+    const operatorPath = `${apiBase}/api/operator/events/${encodeURIComponent(eventId)}`;
+    const admin = { user: "admin", password: payload.adminPassword as string };
+
+    const updated = await request.patch(operatorPath, {
+      headers: toOperatorHeader(),
+      data: { quotaBytes: 10, quotaFiles: 0 },
+    });
+    expect(updated.status()).toBe(200);
+    expect(await updated.json()).toMatchObject({ locked: false, quotaBytes: 10, quotaFiles: 0 });
+
+    const info = await request.get(`${apiBase}/api/events/${encodeURIComponent(eventId)}`, {
+      headers: toAuthHeader(admin),
+    });
+    expect(await info.json()).toMatchObject({ quotaBytes: 10, quotaFiles: 0 });
+
+    const file = { name: "big.txt", mimeType: "text/plain", content: "more than ten bytes" };
+    const rejected = await uploadFile(request, apiBase, eventId, admin, file);
+    expect(rejected.response.status()).toBe(413);
+    expect((await rejected.response.json()).errorKey).toBe("QUOTA_EXCEEDED");
+
+    const reset = await request.patch(operatorPath, {
+      headers: toOperatorHeader(),
+      data: { quotaBytes: null },
+    });
+    expect(reset.status()).toBe(200);
+    const accepted = await uploadFile(request, apiBase, eventId, admin, file);
+    expect(accepted.response.status()).toBe(200);
+
+    for (const data of [{}, { quotaBytes: -1 }, { quotaFiles: 1.5 }, { quotaFiles: "10" }]) {
+      const invalid = await request.patch(operatorPath, { headers: toOperatorHeader(), data });
+      expect(invalid.status()).toBe(400);
+      expect((await invalid.json()).errorKey).toBe("INVALID_INPUT");
+    }
+
+    const anonymous = await request.patch(operatorPath, { data: { quotaBytes: -1 } });
+    expect(anonymous.status()).toBe(401);
+  });
+
+  test("resets the admin password", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = encodeURIComponent(payload.eventId as string);
+
+    const login = await request.post(`${apiBase}/api/events/${eventId}/login`, {
+      data: { user: "admin", password: payload.adminPassword },
+    });
+    const { token } = await login.json();
+
+    const reset = await request.post(`${apiBase}/api/operator/events/${eventId}/admin-password`, {
+      headers: toOperatorHeader(),
+    });
+    expect(reset.status()).toBe(200);
+    const { adminPassword } = await reset.json();
+    expect(adminPassword.length).toBeGreaterThanOrEqual(8);
+
+    const oldSession = await request.get(`${apiBase}/api/events/${eventId}`, {
+      headers: toBearerHeader(token),
+    });
+    expect(oldSession.status()).toBe(401);
+    const oldPassword = await request.post(`${apiBase}/api/events/${eventId}/login`, {
+      data: { user: "admin", password: payload.adminPassword },
+    });
+    expect(oldPassword.status()).toBe(401);
+    const newPassword = await request.post(`${apiBase}/api/events/${eventId}/login`, {
+      data: { user: "admin", password: adminPassword },
+    });
+    expect(newPassword.status()).toBe(200);
+
+    cleanup.track({ eventId: payload.eventId as string, adminPassword, baseURL });
+  });
+
+  test("deletes an event", async ({ request }, testInfo) => {
+    const baseURL = testInfo.project.use.baseURL as string | undefined;
+    const { payload } = await createEvent(request, baseURL);
+    const apiBase = getApiBaseUrl(baseURL);
+    const eventId = encodeURIComponent(payload.eventId as string);
+
+    const response = await request.delete(`${apiBase}/api/operator/events/${eventId}`, {
+      headers: toOperatorHeader(),
+    });
+    expect(response.status()).toBe(200);
+    expect(await response.json()).toEqual({ message: "Event deleted successfully.", ok: true });
+
+    const missing = await request.get(`${apiBase}/api/events/${eventId}`);
+    expect(missing.status()).toBe(404);
+    const again = await request.delete(`${apiBase}/api/operator/events/${eventId}`, {
+      headers: toOperatorHeader(),
+    });
+    expect(again.status()).toBe(404);
+  });
+});
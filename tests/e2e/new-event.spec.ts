@@ -40,6 +40,9 @@ test.describe("new event view", () => {
     await expect(page.getByTestId("new-event-availability")).toContainText(/verf.gbar/i);
     await page.getByTestId("new-event-submit").click();
 
+    await expect(page.getByTestId("recovery-code")).toHaveText(/^[A-Z2-9]{4}(-[A-Z2-9]{4}){3}$/);
+    await page.getByTestId("recovery-code-confirm").click();
+
     const expectedUrl = buildEventUrl(baseURL as string, mode, eventId, true);
     await expect(page).toHaveURL(new RegExp(`^${escapeRegExp(expectedUrl)}/?$`));
 